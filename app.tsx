@@ -3,16 +3,8 @@
 import { useState, useRef, useEffect } from "react"
 import { Toaster } from "@/components/ui/toaster"
 import { useToast } from "@/hooks/use-toast"
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog"
+import { useActiveEvent } from "@/hooks/use-active-event"
+import { useFollowUps } from "@/hooks/use-follow-ups"
 import { AuthProvider, useAuth } from "@/contexts/auth-context"
 import { Header } from "@/components/header"
 import { FileUpload, FileUploadRef } from "@/components/file-upload"
@@ -20,10 +12,16 @@ import { BusinessCardDisplay } from "@/components/business-card-display"
 import { CardBrowser, CardBrowserRef } from "@/components/card-browser"
 import { PWAInstallPrompt } from "@/components/pwa-install-prompt"
 import { OfflineIndicator } from "@/components/offline-indicator"
-import type { BusinessCardData, UploadState } from "@/types"
-import { extractBusinessCardData, uploadImageWithThumbnail } from "@/services/ocr-service"
+import { DuplicateMergeDialog } from "@/components/duplicate-merge-dialog"
+import { DueTodayList } from "@/components/follow-up-tasks"
+import { CsvImportWizard } from "@/components/csv-import-wizard"
+import type { BusinessCardData, CaptureLocation, CardEvent, UploadState } from "@/types"
+import { uploadImage, uploadImageWithThumbnail } from "@/services/ocr-service"
+import { requestBusinessCardExtraction } from "@/services/extraction-service"
 import { EnhancedStorageService } from "@/services/enhanced-storage-service"
-import { getUpstageApiKey } from "@/lib/config"
+import { logCardActivity } from "@/services/activity-log-service"
+import { importCards, readVCardFiles, type ImportResult } from "@/services/contact-import-service"
+import { LIKELY_DUPLICATE_SCORE, type DuplicateCandidate } from "@/services/duplicate-detection-service"
 import { Badge } from "@/components/ui/badge"
 
 interface BatchState {
@@ -36,7 +34,8 @@ interface BatchState {
 
 interface DuplicateConfirmation {
   newCard: BusinessCardData
-  duplicates: BusinessCardData[]
+  candidates: DuplicateCandidate[]
+  isImport?: boolean  // newCard was imported from a file rather than scanned
 }
 
 function AppContent() {
@@ -58,8 +57,77 @@ function AppContent() {
     failedFiles: 0,
   })
   const [duplicateConfirmation, setDuplicateConfirmation] = useState<DuplicateConfirmation | null>(null)
+  const [csvImportFile, setCsvImportFile] = useState<File | null>(null)
+  const { activeEvent, setActiveEvent } = useActiveEvent(user?.uid)
+  const [knownEvents, setKnownEvents] = useState<CardEvent[]>([])
+  const followUps = useFollowUps(user?.uid)
+
+  // Earlier events are suggested when setting the active one
+  useEffect(() => {
+    if (!user) return
+    EnhancedStorageService.getKnownEvents(user.uid)
+      .then(setKnownEvents)
+      .catch(error => console.error("Failed to load events:", error))
+  }, [user, activeEvent])
+
+  // Open the contact of a clicked reminder: the service worker posts a message to an open
+  // window, or opens the app with ?card=<id>
+  useEffect(() => {
+    if (!user) return
+
+    const params = new URLSearchParams(window.location.search)
+    const cardId = params.get("card")
+    if (cardId) {
+      cardBrowserRef.current?.expandCard(cardId)
+      window.history.replaceState(null, "", window.location.pathname)
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "OPEN_CARD" && event.data.cardId) {
+        cardBrowserRef.current?.expandCard(event.data.cardId)
+      }
+    }
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.addEventListener("message", handleMessage)
+      return () => navigator.serviceWorker.removeEventListener("message", handleMessage)
+    }
+  }, [user])
+
+  // A saved scan starts the card's activity timeline; the event it was scanned at is noted
+  const logScan = (card: BusinessCardData, detail = card.event?.name) => {
+    if (user && card.id) logCardActivity(user.uid, [card.id], "scanned", { detail })
+  }
+
+  // Imported contacts start their timeline with the file they came from
+  const logImport = (cards: BusinessCardData[], merged = false) => {
+    if (!user) return
+    for (const fileName of new Set(cards.map(card => card.originalFilename))) {
+      const cardIds = cards.filter(card => card.originalFilename === fileName).map(card => card.id!)
+      logCardActivity(user.uid, cardIds, "imported", {
+        detail: [fileName, merged && "merged into the existing card"].filter(Boolean).join(", ") || undefined,
+      })
+    }
+  }
+
+  // Extraction runs server-side and requires a signed-in user
+  const requireSignInForScan = (): boolean => {
+    if (user) return true
+
+    fileUploadRef.current?.clearPreview()
+    fileUploadRef.current?.clearQueue()
+    toast({
+      title: "Sign in required",
+      description: "Please sign in to scan business cards.",
+      variant: "destructive",
+    })
+    return false
+  }
+
+  // backFile is set for double-sided cards (front + back captured together);
+  // location when the camera stamped the capture with the device position
+  const handleFileSelect = async (file: File, backFile?: File, location?: CaptureLocation) => {
+    if (!requireSignInForScan()) return
 
-  const handleFileSelect = async (file: File) => {
     setUploadState({
       isUploading: true,
       isProcessing: true,
@@ -78,11 +146,15 @@ function AppContent() {
 
       // Upload image and generate thumbnail
       const { imageBase64, thumbnailBase64 } = await uploadImageWithThumbnail(file)
+      const backImageBase64 = backFile ? await uploadImage(backFile) : undefined
 
-      // Extract data
-      const data = await extractBusinessCardData(file, getUpstageApiKey())
+      // Extract data (both sides are merged server-side for double-sided cards)
+      const data = await requestBusinessCardExtraction(file, backFile)
       data.imageBase64 = imageBase64
       data.thumbnailBase64 = thumbnailBase64
+      if (backImageBase64) data.backImageBase64 = backImageBase64
+      if (activeEvent) data.event = activeEvent
+      if (location) data.captureLocation = location
 
       clearInterval(progressInterval)
       setUploadState((prev) => ({ ...prev, progress: 100 }))
@@ -94,7 +166,7 @@ function AppContent() {
         
         if (duplicates.length > 0) {
           // Show duplicate confirmation dialog
-          setDuplicateConfirmation({ newCard: data, duplicates })
+          setDuplicateConfirmation({ newCard: data, candidates: duplicates })
           
           // Clear the file upload preview
           fileUploadRef.current?.clearPreview()
@@ -131,6 +203,7 @@ function AppContent() {
 
   const handleBatchSelect = async (files: File[]) => {
     if (files.length === 0) return
+    if (!requireSignInForScan()) return
 
     setBatchState({
       isBatchProcessing: true,
@@ -151,12 +224,13 @@ function AppContent() {
         const { imageBase64, thumbnailBase64 } = await uploadImageWithThumbnail(file)
 
         // Extract data
-        const data = await extractBusinessCardData(file, getUpstageApiKey())
+        const data = await requestBusinessCardExtraction(file)
         data.imageBase64 = imageBase64
         data.thumbnailBase64 = thumbnailBase64
 
         // Add filename for reference
         data.originalFilename = file.name
+        if (activeEvent) data.event = activeEvent
 
         results.push(data)
 
@@ -188,11 +262,11 @@ function AppContent() {
 
         for (const data of results) {
           try {
-            // Check for duplicates
+            // Skip likely duplicates (batch scans cannot ask which values to keep)
             const duplicates = await EnhancedStorageService.checkForDuplicates(user.uid, data)
             
-            if (duplicates.length === 0) {
-              await EnhancedStorageService.saveCard(user.uid, data)
+            if (!duplicates.some(candidate => candidate.score >= LIKELY_DUPLICATE_SCORE)) {
+              logScan(await EnhancedStorageService.saveCard(user.uid, data))
               savedCount++
             } else {
               duplicateCount++
@@ -247,6 +321,81 @@ function AppContent() {
     })
   }
 
+  // Contacts from .vcf files. A single contact goes through the duplicate dialog like a scan;
+  // larger imports skip likely duplicates and report how many were skipped.
+  const handleVCardImport = async (files: File[]) => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to import contacts.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      const cards = await readVCardFiles(files)
+      if (cards.length === 0) {
+        toast({
+          title: "No contacts found",
+          description: "The file does not contain any vCard contacts.",
+          variant: "destructive",
+        })
+        return
+      }
+
+      if (cards.length === 1) {
+        const duplicates = await EnhancedStorageService.checkForDuplicates(user.uid, cards[0])
+        if (duplicates.length > 0) {
+          setDuplicateConfirmation({ newCard: cards[0], candidates: duplicates, isImport: true })
+        } else {
+          await saveCardDirectly(cards[0], true)
+          toast({
+            title: "Contact imported",
+            description: `${cards[0].name || "The contact"} was added to your cards.`,
+          })
+        }
+        return
+      }
+
+      await handleImportResult(await importCards(user.uid, cards))
+    } catch (error) {
+      console.error('Error importing contacts:', error)
+      toast({
+        title: "Import failed",
+        description: "Failed to read the contacts file. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // CSV files open the import wizard (column mapping and a dry run before anything is saved)
+  const handleCsvSelect = (file: File) => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to import contacts.",
+        variant: "destructive",
+      })
+      return
+    }
+    setCsvImportFile(file)
+  }
+
+  // Summary of a vCard or CSV import
+  const handleImportResult = async ({ saved, duplicates, failed }: ImportResult) => {
+    logImport(saved)
+    setCsvImportFile(null)
+    await cardBrowserRef.current?.refreshCards()
+
+    const { isOnline } = EnhancedStorageService.getNetworkStatus()
+    toast({
+      title: failed.length > 0 ? "Some contacts failed to import" : "Contacts imported",
+      description: `${saved.length} contact${saved.length === 1 ? '' : 's'} imported${duplicates.length > 0 ? `, ${duplicates.length} duplicate${duplicates.length > 1 ? 's' : ''} skipped` : ''}${failed.length > 0 ? `, ${failed.length} failed` : ''}${!isOnline ? ' (offline)' : ''}`,
+      variant: failed.length > 0 ? "destructive" : undefined,
+    })
+  }
+
   const handleSaveCard = async (data: BusinessCardData) => {
     if (!user) {
       toast({
@@ -260,6 +409,7 @@ function AppContent() {
     try {
       // Save new card using enhanced storage service (with offline support)
       const savedCard = await EnhancedStorageService.saveCard(user.uid, data)
+      logScan(savedCard)
       
       // Clear the extracted data and show in list instead
       setExtractedData(null)
@@ -296,10 +446,12 @@ function AppContent() {
   }
 
   // Helper function to save card without duplicate check
-  const saveCardDirectly = async (data: BusinessCardData) => {
+  const saveCardDirectly = async (data: BusinessCardData, isImport = false) => {
     if (!user) return
     
     const savedCard = await EnhancedStorageService.saveCard(user.uid, data)
+    if (isImport) logImport([savedCard])
+    else logScan(savedCard)
     
     // Clear any previous extracted data since card will show in list
     setExtractedData(null)
@@ -331,7 +483,7 @@ function AppContent() {
           
           if (duplicates.length > 0) {
             // Show duplicate confirmation dialog
-            setDuplicateConfirmation({ newCard: extractedData, duplicates })
+            setDuplicateConfirmation({ newCard: extractedData, candidates: duplicates })
           } else {
             // No duplicates, save directly
             await saveCardDirectly(extractedData)
@@ -355,7 +507,7 @@ function AppContent() {
     if (!duplicateConfirmation) return
     
     try {
-      await saveCardDirectly(duplicateConfirmation.newCard)
+      await saveCardDirectly(duplicateConfirmation.newCard, duplicateConfirmation.isImport)
       setDuplicateConfirmation(null)
     } catch (error) {
       console.error('Error saving duplicate card:', error)
@@ -367,6 +519,38 @@ function AppContent() {
     }
   }
 
+  // Handle user merging the new scan into an existing card
+  const handleMergeDuplicate = async (merged: BusinessCardData) => {
+    if (!user) return
+
+    try {
+      await EnhancedStorageService.updateCard(user.uid, merged)
+      if (duplicateConfirmation?.isImport) {
+        logImport([{ ...merged, originalFilename: duplicateConfirmation.newCard.originalFilename }], true)
+      } else {
+        logScan(merged, "merged into the existing card")
+      }
+      setDuplicateConfirmation(null)
+      setExtractedData(null)
+      fileUploadRef.current?.clearPreview()
+
+      await cardBrowserRef.current?.refreshCards()
+      if (merged.id) cardBrowserRef.current?.markCardAsNew(merged.id)
+
+      toast({
+        title: "Cards merged",
+        description: `The ${duplicateConfirmation?.isImport ? "imported contact" : "new scan"} was merged into ${merged.name || "the existing card"}.`,
+      })
+    } catch (error) {
+      console.error('Error merging duplicate card:', error)
+      toast({
+        title: "Merge failed",
+        description: "Failed to merge the business cards. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
   // Handle user canceling duplicate addition
   const handleCancelDuplicate = () => {
     setDuplicateConfirmation(null)
@@ -380,8 +564,9 @@ function AppContent() {
 
   // Handle sync completion
   const handleSyncComplete = () => {
-    // Refresh the card browser after sync
+    // Refresh the card browser after sync; tasks of cards saved offline now point at the synced cards
     cardBrowserRef.current?.refreshCards()
+    followUps.reloadTasks()
   }
 
   const renderContent = () => {
@@ -405,7 +590,8 @@ function AppContent() {
           </div>
 
           <FileUpload
-            onFileSelect={handleFileSelect}
+            onFileSelect={(file, location) => handleFileSelect(file, undefined, location)}
+            onDoubleSidedSelect={handleFileSelect}
             isUploading={uploadState.isUploading}
             progress={uploadState.progress}
             error={uploadState.error}
@@ -433,7 +619,13 @@ function AppContent() {
         </div>
 
         <FileUpload
-          onFileSelect={handleFileSelect}
+          onFileSelect={(file, location) => handleFileSelect(file, undefined, location)}
+          onDoubleSidedSelect={handleFileSelect}
+          onVCardSelect={handleVCardImport}
+          onCsvSelect={handleCsvSelect}
+          activeEvent={activeEvent}
+          onActiveEventChange={user ? setActiveEvent : undefined}
+          knownEvents={knownEvents}
           isUploading={uploadState.isUploading}
           progress={uploadState.progress}
           error={uploadState.error}
@@ -446,14 +638,25 @@ function AppContent() {
             onSave={user ? handleSaveCard : undefined}
             onReprocess={handleReprocess}
             isEditable={true}
+            knownEvents={knownEvents}
           />
         )}
 
+        {/* Follow-ups due today, above the saved cards */}
+        {user && followUps.dueTasks.length > 0 && (
+          <div className="border-t pt-8">
+            <DueTodayList
+              followUps={followUps}
+              onOpenCard={(cardId) => cardBrowserRef.current?.expandCard(cardId)}
+            />
+          </div>
+        )}
+
         {/* Show saved cards for authenticated users */}
         {user && (
           <div className="border-t pt-8">
             <h2 className="text-2xl font-bold mb-6">Your Saved Cards</h2>
-            <CardBrowser ref={cardBrowserRef} userId={user.uid} />
+            <CardBrowser ref={cardBrowserRef} userId={user.uid} followUps={followUps} />
           </div>
         )}
 
@@ -574,89 +777,24 @@ function AppContent() {
       
       <main className="container mx-auto px-4 py-8">{renderContent()}</main>
       
-      {/* Duplicate Confirmation Dialog */}
-      <AlertDialog open={!!duplicateConfirmation} onOpenChange={() => handleCancelDuplicate()}>
-        <AlertDialogContent className="max-w-2xl">
-          <AlertDialogHeader>
-            <AlertDialogTitle>Potential Duplicate Detected</AlertDialogTitle>
-            <AlertDialogDescription asChild>
-              <div>
-                We found {duplicateConfirmation?.duplicates.length === 1 ? 'a similar business card' : `${duplicateConfirmation?.duplicates.length} similar business cards`} that might be the same contact:
-                
-                <div className="mt-4 p-3 bg-blue-50 rounded-lg border">
-                  <strong className="text-blue-900">New card:</strong>
-                  <div className="mt-1 text-sm">
-                    <div className="font-medium">{duplicateConfirmation?.newCard.name || 'Unknown Name'}</div>
-                    {duplicateConfirmation?.newCard.company && (
-                      <div className="text-gray-600">{duplicateConfirmation.newCard.company}</div>
-                    )}
-                    {duplicateConfirmation?.newCard.jobTitle && (
-                      <div className="text-gray-600">{duplicateConfirmation.newCard.jobTitle}</div>
-                    )}
-                    {duplicateConfirmation?.newCard.email && (
-                      <div className="text-gray-600">📧 {duplicateConfirmation.newCard.email}</div>
-                    )}
-                    {duplicateConfirmation?.newCard.phone && (
-                      <div className="text-gray-600">📞 {duplicateConfirmation.newCard.phone}</div>
-                    )}
-                    {duplicateConfirmation?.newCard.mobile && duplicateConfirmation.newCard.mobile !== duplicateConfirmation.newCard.phone && (
-                      <div className="text-gray-600">📱 {duplicateConfirmation.newCard.mobile}</div>
-                    )}
-                  </div>
-                </div>
-                
-                <div className="mt-4">
-                  <strong>Existing card{duplicateConfirmation?.duplicates.length === 1 ? '' : 's'}:</strong>
-                  <div className="mt-2 space-y-3">
-                    {duplicateConfirmation?.duplicates.map((duplicate, index) => (
-                      <div key={duplicate.id} className="p-3 bg-gray-50 rounded-lg border">
-                        <div className="font-medium text-sm">
-                          {index + 1}. {duplicate.name || 'Unknown Name'}
-                          {duplicate.id?.startsWith('offline_') && (
-                            <span className="ml-2 text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
-                              Offline
-                            </span>
-                          )}
-                        </div>
-                        {duplicate.company && (
-                          <div className="text-gray-600 text-sm">{duplicate.company}</div>
-                        )}
-                        {duplicate.jobTitle && (
-                          <div className="text-gray-600 text-sm">{duplicate.jobTitle}</div>
-                        )}
-                        {duplicate.email && (
-                          <div className="text-gray-600 text-sm">📧 {duplicate.email}</div>
-                        )}
-                        {duplicate.phone && (
-                          <div className="text-gray-600 text-sm">📞 {duplicate.phone}</div>
-                        )}
-                        {duplicate.mobile && duplicate.mobile !== duplicate.phone && (
-                          <div className="text-gray-600 text-sm">📱 {duplicate.mobile}</div>
-                        )}
-                        {duplicate.timestamp && (
-                          <div className="text-gray-500 text-xs mt-1">
-                            Added: {new Date(duplicate.timestamp).toLocaleDateString()}
-                          </div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-                
-                <div className="mt-4 text-sm">
-                  Do you want to add this card anyway?
-                </div>
-              </div>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel onClick={handleCancelDuplicate}>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleConfirmDuplicate}>
-              Add Card Anyway
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {/* Duplicate Merge Dialog */}
+      <DuplicateMergeDialog
+        open={!!duplicateConfirmation}
+        newCard={duplicateConfirmation?.newCard || null}
+        candidates={duplicateConfirmation?.candidates || []}
+        onMerge={handleMergeDuplicate}
+        onAddAnyway={handleConfirmDuplicate}
+        onCancel={handleCancelDuplicate}
+      />
+
+      {user && (
+        <CsvImportWizard
+          userId={user.uid}
+          file={csvImportFile}
+          onClose={() => setCsvImportFile(null)}
+          onImported={handleImportResult}
+        />
+      )}
       
       <Toaster />
     </div>
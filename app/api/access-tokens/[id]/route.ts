@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { revokeAccessToken, verifyRequestUser } from "@/lib/firebase-admin"
+
+// Firebase Admin requires the Node.js runtime
+export const runtime = "nodejs"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// DELETE /api/access-tokens/{id}
+// Revokes one of the signed-in user's tokens; requests made with it are refused from then on.
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: 204 No Content
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  try {
+    if (!/^[0-9a-f]{64}$/.test(id) || !(await revokeAccessToken(userId, id))) {
+      return NextResponse.json({ error: "Access token not found" }, { status: 404 })
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("Revoking an access token failed for user:", userId, error)
+    return NextResponse.json({ error: "Failed to revoke access token" }, { status: 502 })
+  }
+}
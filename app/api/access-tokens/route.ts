@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { createAccessToken, getAccessTokens, verifyRequestUser } from "@/lib/firebase-admin"
+
+// Firebase Admin and crypto require the Node.js runtime
+export const runtime = "nodejs"
+
+const MAX_NAME_LENGTH = 100
+
+// GET /api/access-tokens
+// The signed-in user's personal access tokens for the REST API, newest first (without the tokens).
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "accessTokens": [{ "id": "<SHA-256>", "name": "...", "prefix": "cs_pat_1a2b", "createdAt": "...", "lastUsedAt": "..." }] }
+export async function GET(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ accessTokens: await getAccessTokens(userId) })
+  } catch (error) {
+    console.error("Listing access tokens failed for user:", userId, error)
+    return NextResponse.json({ error: "Failed to fetch access tokens" }, { status: 502 })
+  }
+}
+
+// POST /api/access-tokens
+// Creates a token for the signed-in user. The token is in this response only; it cannot be shown again.
+// Body: { "name": "CRM export script" }
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response (201): { "token": "cs_pat_...", "accessToken": AccessToken }
+export async function POST(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+  }
+
+  const { name = "" } = body || {}
+  if (typeof name !== "string" || name.length > MAX_NAME_LENGTH) {
+    return NextResponse.json({ error: `name must be a string of at most ${MAX_NAME_LENGTH} characters` }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await createAccessToken(userId, name), { status: 201 })
+  } catch (error) {
+    console.error("Creating an access token failed for user:", userId, error)
+    return NextResponse.json({ error: "Failed to save access token" }, { status: 502 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server"
+import { createCardDavClient } from "@/services/carddav"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+
+// Firebase Admin, Buffer and DNS lookups require the Node.js runtime
+export const runtime = "nodejs"
+
+const MAX_FIELD_LENGTH = 2000
+const MAX_VCARD_LENGTH = 1024 * 1024
+
+// The URL each action works on
+const URL_FIELDS: Record<string, string> = {
+  discover: "serverUrl",
+  sync: "addressBookUrl",
+  get: "href",
+  put: "href",
+}
+
+// POST /api/carddav
+// The browser cannot reach most CardDAV servers itself (no CORS), so requests go through here.
+// Body: { "action": "discover", "serverUrl": "https://contacts.example.com", "username": "...", "password": "..." }
+//    or { "action": "sync", "addressBookUrl": "https://...", "syncToken": "...", ...credentials }
+//    or { "action": "get", "href": "https://.../contact.vcf", ...credentials }
+//    or { "action": "put", "href": "https://.../contact.vcf", "vcard": "BEGIN:VCARD...", "etag": "\"12\"" | null, ...credentials }
+//       (an empty username sends the password as an OAuth bearer token; put without an etag creates the contact)
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "addressBooks": [...] } for discover, the changes (AddressBookChanges) for sync,
+//           { "contact": {...} | null } for get and { "etag": "...", "conflict": false } for put
+export async function POST(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+  }
+
+  const { action, username, password } = body
+  if (typeof action !== "string" || !URL_FIELDS[action]) {
+    return NextResponse.json({ error: `action must be one of ${Object.keys(URL_FIELDS).join(", ")}` }, { status: 400 })
+  }
+
+  const url = body[URL_FIELDS[action]]
+  const syncToken = body.syncToken ?? null
+  const etag = body.etag ?? null
+  const fields = [url, username ?? "", password, syncToken ?? "", etag ?? ""]
+  if (fields.some(field => typeof field !== "string" || field.length > MAX_FIELD_LENGTH) || !url || !password) {
+    return NextResponse.json({ error: "Expected a server URL and credentials" }, { status: 400 })
+  }
+  if (action === "put" && (typeof body.vcard !== "string" || !body.vcard || body.vcard.length > MAX_VCARD_LENGTH)) {
+    return NextResponse.json({ error: "Expected the vCard to save" }, { status: 400 })
+  }
+
+  try {
+    const client = createCardDavClient({ username: username as string | undefined, password: password as string })
+
+    switch (action) {
+      case "discover":
+        return NextResponse.json({ addressBooks: await client.discoverAddressBooks(url as string) })
+      case "sync":
+        return NextResponse.json(await client.getChanges(url as string, syncToken as string | null))
+      case "get":
+        return NextResponse.json({ contact: await client.getContact(url as string) })
+      default:
+        return NextResponse.json(await client.putContact(url as string, body.vcard as string, etag as string | null))
+    }
+  } catch (error) {
+    console.error("CardDAV request failed for user:", userId, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to reach the CardDAV server" },
+      { status: 502 }
+    )
+  }
+}
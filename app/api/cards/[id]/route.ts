@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server"
+import type { AccessTokenUser } from "@/lib/firebase-admin"
+import type { ChangeAuthor } from "@/types"
+import { AdminStorageService } from "@/services/admin-storage-service"
+import { verifyAccessToken } from "@/lib/firebase-admin"
+import { validateCardInput } from "@/lib/openapi"
+
+// Firebase Admin and crypto require the Node.js runtime
+export const runtime = "nodejs"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Shown in the card's history and the trash as who made the change
+function getApiAuthor(user: AccessTokenUser): ChangeAuthor {
+  return { uid: user.userId, name: `${user.tokenName} (API)` }
+}
+
+function isValidCardId(id: string): boolean {
+  return id.length > 0 && id.length <= 200 && !id.includes("/")
+}
+
+// GET /api/cards/{id}
+// Headers: Authorization: Bearer <personal access token>
+// Response: { "card": BusinessCardData }, with its images
+export async function GET(request: Request, { params }: RouteContext) {
+  const user = await verifyAccessToken(request)
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  try {
+    const card = isValidCardId(id) ? await AdminStorageService.getCard(user.userId, id, { images: true }) : null
+    if (!card) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404 })
+    }
+    return NextResponse.json({ card })
+  } catch (error) {
+    console.error("Fetching a card failed for user:", user.userId, error)
+    return NextResponse.json({ error: "Failed to fetch business card" }, { status: 502 })
+  }
+}
+
+// PATCH /api/cards/{id}
+// Body: the fields to change (BusinessCardData); null removes a field
+// Headers: Authorization: Bearer <personal access token>
+// Response: { "card": BusinessCardData }
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const user = await verifyAccessToken(request)
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+  }
+  const input = validateCardInput(body, { partial: true })
+  if (input.error !== undefined) {
+    return NextResponse.json({ error: input.error }, { status: 400 })
+  }
+
+  const { id } = await params
+  try {
+    const card = isValidCardId(id)
+      ? await AdminStorageService.updateCard(user.userId, id, input.fields, getApiAuthor(user))
+      : null
+    if (!card) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404 })
+    }
+    return NextResponse.json({ card })
+  } catch (error) {
+    console.error("Updating a card failed for user:", user.userId, error)
+    return NextResponse.json({ error: "Failed to update business card" }, { status: 502 })
+  }
+}
+
+// DELETE /api/cards/{id}
+// Moves the card and its follow-ups to the trash, from where it can be restored in the app.
+// Headers: Authorization: Bearer <personal access token>
+// Response: 204 No Content
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const user = await verifyAccessToken(request)
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  try {
+    const deleted = isValidCardId(id) && await AdminStorageService.deleteCard(user.userId, id, getApiAuthor(user))
+    if (!deleted) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404 })
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("Deleting a card failed for user:", user.userId, error)
+    return NextResponse.json({ error: "Failed to delete business card" }, { status: 502 })
+  }
+}
@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server"
+import type { BusinessCardData, CardPageCursor, CardSortField, SortDirection } from "@/types"
+import { AdminStorageService } from "@/services/admin-storage-service"
+import { extractBusinessCardData } from "@/services/ocr-service"
+import { mergeCardSides } from "@/services/card-merge-service"
+import { verifyAccessToken } from "@/lib/firebase-admin"
+import { DEFAULT_PAGE_SIZE } from "@/lib/card-sort"
+import { MAX_PAGE_SIZE, validateCardInput } from "@/lib/openapi"
+
+// Firebase Admin, crypto and Buffer require the Node.js runtime
+export const runtime = "nodejs"
+
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024 // 10MB, same limit as /api/extract
+
+const SORT_FIELDS: CardSortField[] = ["date", "name", "company", "favorite"]
+const SORT_DIRECTIONS: SortDirection[] = ["asc", "desc"]
+
+// Cursors are opaque to clients: the page cursor as base64url JSON
+function encodeCursor(cursor: CardPageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url")
+}
+
+function decodeCursor(value: string): CardPageCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"))
+    return typeof cursor?.id === "string" && Array.isArray(cursor.values) ? cursor : null
+  } catch {
+    return null
+  }
+}
+
+// GET /api/cards?sort=date&direction=desc&limit=30&cursor=...&q=company:acme
+// One page of the user's cards, without images. q takes the search box's syntax.
+// Headers: Authorization: Bearer <personal access token>
+// Response: { "cards": [BusinessCardData, ...], "nextCursor": "..." | null }
+export async function GET(request: Request) {
+  const user = await verifyAccessToken(request)
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const params = new URL(request.url).searchParams
+  const sortBy = (params.get("sort") || "date") as CardSortField
+  const direction = (params.get("direction") || "desc") as SortDirection
+  const pageSize = Number(params.get("limit") || DEFAULT_PAGE_SIZE)
+  const cursor = params.get("cursor") ? decodeCursor(params.get("cursor")!) : null
+
+  if (!SORT_FIELDS.includes(sortBy)) {
+    return NextResponse.json({ error: `sort must be one of ${SORT_FIELDS.join(", ")}` }, { status: 400 })
+  }
+  if (!SORT_DIRECTIONS.includes(direction)) {
+    return NextResponse.json({ error: "direction must be asc or desc" }, { status: 400 })
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return NextResponse.json({ error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` }, { status: 400 })
+  }
+  if (params.get("cursor") && !cursor) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 })
+  }
+
+  try {
+    const page = await AdminStorageService.listCards(user.userId, {
+      sortBy,
+      direction,
+      pageSize,
+      cursor,
+      query: params.get("q") || undefined,
+    })
+    return NextResponse.json({ cards: page.cards, nextCursor: page.cursor ? encodeCursor(page.cursor) : null })
+  } catch (error) {
+    console.error("Listing cards failed for user:", user.userId, error)
+    return NextResponse.json({ error: "Failed to fetch business cards" }, { status: 502 })
+  }
+}
+
+// Read a card from photos of its sides, as /api/extract does; the photos themselves are not kept
+async function extractCard(image: File, backImage: File | null, userId: string): Promise<BusinessCardData> {
+  if (!backImage) return extractBusinessCardData(image)
+
+  const [front, back] = await Promise.allSettled([extractBusinessCardData(image), extractBusinessCardData(backImage)])
+  if (front.status === "rejected") throw front.reason
+  if (back.status === "rejected") {
+    console.error("Back side extraction failed for user:", userId, back.reason)
+    return front.value
+  }
+  return mergeCardSides(front.value, back.value)
+}
+
+// POST /api/cards
+// Body: the card's fields as JSON (BusinessCardData), or multipart/form-data with an "image" file
+//       and an optional "backImage" file to create the card from photos with OCR
+// Headers: Authorization: Bearer <personal access token>
+// Response (201): { "card": BusinessCardData }
+export async function POST(request: Request) {
+  const user = await verifyAccessToken(request)
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let card: BusinessCardData
+  if ((request.headers.get("content-type") || "").startsWith("multipart/form-data")) {
+    let image: FormDataEntryValue | null
+    let backImage: FormDataEntryValue | null
+    try {
+      const formData = await request.formData()
+      image = formData.get("image")
+      backImage = formData.get("backImage")
+    } catch {
+      return NextResponse.json({ error: "Expected multipart/form-data with an image file" }, { status: 400 })
+    }
+
+    if (!(image instanceof File)) {
+      return NextResponse.json({ error: "Missing image file" }, { status: 400 })
+    }
+    if (backImage !== null && !(backImage instanceof File)) {
+      return NextResponse.json({ error: "backImage must be a file" }, { status: 400 })
+    }
+    if (image.size > MAX_IMAGE_SIZE || (backImage && backImage.size > MAX_IMAGE_SIZE)) {
+      return NextResponse.json({ error: "Image is too large (max 10MB)" }, { status: 413 })
+    }
+
+    try {
+      card = await extractCard(image, backImage, user.userId)
+    } catch (error) {
+      console.error("Extraction failed for user:", user.userId, error)
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Failed to extract business card data" },
+        { status: 502 }
+      )
+    }
+    card.originalFilename = image.name
+  } else {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+    }
+    const input = validateCardInput(body)
+    if (input.error !== undefined) {
+      return NextResponse.json({ error: input.error }, { status: 400 })
+    }
+    card = input.fields as BusinessCardData
+  }
+
+  try {
+    const saved = await AdminStorageService.createCard(user.userId, card)
+    return NextResponse.json({ card: saved }, { status: 201 })
+  } catch (error) {
+    console.error("Creating a card failed for user:", user.userId, error)
+    return NextResponse.json({ error: "Failed to save business card" }, { status: 502 })
+  }
+}
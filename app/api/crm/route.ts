@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server"
+import { createCrmConnector, type CrmConnection, type CrmLead, type CrmSendResult } from "@/services/crm-connectors"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+import { getCrmConfig } from "@/lib/config"
+import { checkOutboundUrl } from "@/lib/outbound-url"
+
+// Firebase Admin and DNS lookups require the Node.js runtime
+export const runtime = "nodejs"
+
+const MAX_LEADS = 25
+const MAX_FIELD_LENGTH = 2000
+const MAX_FIELDS = 100
+const CONNECTORS = ["rest", "webhook"]
+
+function isValidConnection(value: unknown): value is CrmConnection {
+  if (!value || typeof value !== "object") return false
+  const { connector, url, apiKey, objectType } = value as Record<string, unknown>
+  return typeof connector === "string" && CONNECTORS.includes(connector) &&
+    typeof url === "string" && !!url && url.length <= MAX_FIELD_LENGTH &&
+    (apiKey === undefined || (typeof apiKey === "string" && apiKey.length <= MAX_FIELD_LENGTH)) &&
+    typeof objectType === "string" && objectType.length <= 100
+}
+
+function isValidLead(value: unknown): value is CrmLead {
+  if (!value || typeof value !== "object") return false
+  const { sourceId, externalId, sendId, fields } = value as Record<string, unknown>
+  if (typeof sourceId !== "string" || !sourceId || sourceId.length > 200) return false
+  if (typeof sendId !== "string" || !sendId || sendId.length > 200) return false
+  if (externalId != null && (typeof externalId !== "string" || externalId.length > 200)) return false
+  if (!fields || typeof fields !== "object" || Array.isArray(fields)) return false
+  const entries = Object.entries(fields)
+  return entries.length <= MAX_FIELDS &&
+    entries.every(([name, field]) => name.length <= 200 && typeof field === "string" && field.length <= MAX_FIELD_LENGTH)
+}
+
+// POST /api/crm
+// Sends cards, mapped to CRM fields in the browser, to the user's CRM endpoint. The browser cannot
+// call most CRMs itself (no CORS), and the API key stays out of third-party scripts on the page.
+// Body: { "connection": { "connector": "rest" | "webhook", "url": "https://crm.example.com/api/leads",
+//         "apiKey": "...", "objectType": "lead" },
+//         "leads": [{ "sourceId": "<card ID>", "externalId": "<ID from an earlier send>" | null,
+//                     "sendId": "<ID of the send, kept by its retries>",
+//                     "fields": { "LastName": "Doe", ... } }, ...] } (at most 25)
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "results": [{ "sourceId": "...", "externalId": "00Q5..." | null, "error"?: "...", "retryable"?: true }] }
+//           in the order of the leads; a failed lead does not stop the others
+export async function POST(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+  }
+
+  const { connection, leads } = body
+  if (!isValidConnection(connection)) {
+    return NextResponse.json({ error: `Expected a connection with a ${CONNECTORS.join(" or ")} connector and a URL` }, { status: 400 })
+  }
+  if (!Array.isArray(leads) || leads.length === 0 || !leads.every(isValidLead)) {
+    return NextResponse.json({ error: "Expected leads with a source ID and text fields" }, { status: 400 })
+  }
+  if (leads.length > MAX_LEADS) {
+    return NextResponse.json({ error: `At most ${MAX_LEADS} leads per request` }, { status: 413 })
+  }
+
+  try {
+    await checkOutboundUrl(new URL(connection.url), getCrmConfig().allowPrivateHosts)
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid CRM URL" }, { status: 400 })
+  }
+
+  const connector = createCrmConnector(connection)
+  const results: CrmSendResult[] = []
+
+  // One at a time: CRMs limit the request rate, and webhooks may expect ordered deliveries
+  for (const lead of leads as CrmLead[]) {
+    try {
+      results.push(await connector.send(lead))
+    } catch (error) {
+      console.error("CRM send failed for user:", userId, error)
+      results.push({
+        sourceId: lead.sourceId,
+        externalId: null,
+        error: error instanceof Error ? error.message : "Failed to reach the CRM",
+        retryable: true,
+      })
+    }
+  }
+
+  return NextResponse.json({ results })
+}
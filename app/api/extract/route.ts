@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server"
+import { extractBusinessCardData } from "@/services/ocr-service"
+import { mergeCardSides } from "@/services/card-merge-service"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+
+// Firebase Admin and Buffer require the Node.js runtime
+export const runtime = "nodejs"
+
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024 // 10MB, same limit as the upload dropzone
+
+// POST /api/extract
+// Body: multipart/form-data with an "image" file, plus an optional "backImage" file for
+//       double-sided cards (both sides are extracted and merged into one card)
+// Headers: Authorization: Bearer <Firebase ID token>
+export async function POST(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let image: FormDataEntryValue | null
+  let backImage: FormDataEntryValue | null
+  try {
+    const formData = await request.formData()
+    image = formData.get("image")
+    backImage = formData.get("backImage")
+  } catch {
+    return NextResponse.json({ error: "Expected multipart/form-data with an image file" }, { status: 400 })
+  }
+
+  if (!(image instanceof File)) {
+    return NextResponse.json({ error: "Missing image file" }, { status: 400 })
+  }
+
+  if (backImage !== null && !(backImage instanceof File)) {
+    return NextResponse.json({ error: "backImage must be a file" }, { status: 400 })
+  }
+
+  if (image.size > MAX_IMAGE_SIZE || (backImage && backImage.size > MAX_IMAGE_SIZE)) {
+    return NextResponse.json({ error: "Image is too large (max 10MB)" }, { status: 413 })
+  }
+
+  try {
+    if (!backImage) {
+      const data = await extractBusinessCardData(image)
+      return NextResponse.json(data)
+    }
+
+    const [front, back] = await Promise.allSettled([
+      extractBusinessCardData(image),
+      extractBusinessCardData(backImage),
+    ])
+
+    // A failed back side should not lose the front
+    if (front.status === "rejected") throw front.reason
+    if (back.status === "rejected") {
+      console.error("Back side extraction failed for user:", userId, back.reason)
+      return NextResponse.json(front.value)
+    }
+
+    return NextResponse.json(mergeCardSides(front.value, back.value))
+  } catch (error) {
+    console.error("Extraction failed for user:", userId, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to extract business card data" },
+      { status: 502 }
+    )
+  }
+}
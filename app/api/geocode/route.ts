@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server"
+import { getGeocoder } from "@/services/geocoders"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+import type { GeoPoint } from "@/types"
+
+// Firebase Admin requires the Node.js runtime
+export const runtime = "nodejs"
+
+const MAX_ADDRESSES = 20
+const MAX_ADDRESS_LENGTH = 300
+
+// Results are kept for the life of the server process; addresses repeat a lot across a collection
+const cache = new Map<string, GeoPoint | null>()
+
+// POST /api/geocode
+// Body: { "addresses": ["1 Market St, San Francisco, CA", ...] } (at most 20)
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "provider": "local", "results": [{ "lat": 37.77, "lng": -122.42 } | null, ...] }
+export async function POST(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let addresses: unknown
+  try {
+    addresses = (await request.json()).addresses
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body with an addresses array" }, { status: 400 })
+  }
+
+  if (!Array.isArray(addresses) || addresses.some(address => typeof address !== "string")) {
+    return NextResponse.json({ error: "addresses must be an array of strings" }, { status: 400 })
+  }
+  if (addresses.length > MAX_ADDRESSES) {
+    return NextResponse.json({ error: `At most ${MAX_ADDRESSES} addresses per request` }, { status: 413 })
+  }
+
+  try {
+    const geocoder = getGeocoder()
+    const results: Array<GeoPoint | null> = []
+
+    // One at a time: providers such as the public Nominatim limit the request rate
+    for (const address of addresses as string[]) {
+      const query = address.trim().slice(0, MAX_ADDRESS_LENGTH)
+      if (!query) {
+        results.push(null)
+        continue
+      }
+
+      const key = `${geocoder.name}|${query.toLowerCase()}`
+      if (!cache.has(key)) {
+        cache.set(key, await geocoder.geocode(query))
+      }
+      results.push(cache.get(key) ?? null)
+    }
+
+    return NextResponse.json({ provider: geocoder.name, results })
+  } catch (error) {
+    console.error("Geocoding failed for user:", userId, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to geocode addresses" },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server"
+import { getOpenApiDocument } from "@/lib/openapi"
+
+// GET /api/openapi
+// The OpenAPI 3.1 document of the REST API (/api/cards). Public: it describes the API, not any user's data.
+export async function GET(request: Request) {
+  return NextResponse.json(getOpenApiDocument(new URL(request.url).origin))
+}
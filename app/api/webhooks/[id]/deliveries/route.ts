@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { getWebhookDeliveries } from "@/services/webhooks"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+
+// Firebase Admin requires the Node.js runtime
+export const runtime = "nodejs"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/webhooks/{id}/deliveries
+// The delivery log of one of the signed-in user's webhooks, newest first.
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "deliveries": [{ "event": "card.created", "state": "delivered", "attempts": 1, ... }] }
+export async function GET(request: Request, { params }: RouteContext) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  try {
+    const deliveries = id.length <= 200 && !id.includes("/") ? await getWebhookDeliveries(userId, id) : null
+    if (!deliveries) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 })
+    }
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    console.error("Fetching webhook deliveries failed for user:", userId, error)
+    return NextResponse.json({ error: "Failed to fetch webhook deliveries" }, { status: 502 })
+  }
+}
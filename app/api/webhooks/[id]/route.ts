@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { deleteWebhook, updateWebhook, validateWebhookInput } from "@/services/webhooks"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+
+// Firebase Admin requires the Node.js runtime
+export const runtime = "nodejs"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+function isValidWebhookId(id: string): boolean {
+  return id.length > 0 && id.length <= 200 && !id.includes("/")
+}
+
+// PATCH /api/webhooks/{id}
+// Changes one of the signed-in user's webhooks; an empty description removes it.
+// Body: { "url": "...", "description": "...", "events": [...], "active": false } (any of them)
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "webhook": Webhook }
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+  }
+
+  const input = validateWebhookInput(body, { partial: true })
+  if (input.error !== undefined) {
+    return NextResponse.json({ error: input.error }, { status: 400 })
+  }
+
+  const { id } = await params
+  try {
+    const webhook = isValidWebhookId(id) ? await updateWebhook(userId, id, input.fields) : null
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 })
+    }
+    return NextResponse.json({ webhook })
+  } catch (error) {
+    console.error("Updating a webhook failed for user:", userId, error)
+    return NextResponse.json({ error: "Failed to save webhook" }, { status: 502 })
+  }
+}
+
+// DELETE /api/webhooks/{id}
+// Deletes one of the signed-in user's webhooks with its delivery log; waiting retries are dropped.
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: 204 No Content
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  try {
+    if (!isValidWebhookId(id) || !(await deleteWebhook(userId, id))) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 })
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("Deleting a webhook failed for user:", userId, error)
+    return NextResponse.json({ error: "Failed to delete webhook" }, { status: 502 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { WEBHOOK_EVENTS, emitCardEvent, retryDueDeliveries } from "@/services/webhooks"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+import type { WebhookEventType } from "@/types"
+
+// Firebase Admin, crypto and DNS lookups require the Node.js runtime
+export const runtime = "nodejs"
+
+const MAX_MERGED_CARDS = 100
+
+function isCardId(value: unknown): value is string {
+  return typeof value === "string" && !!value && value.length <= 200 && !value.includes("/")
+}
+
+// POST /api/webhooks/events
+// Called by the browser once a card change is saved; the user's webhooks subscribed to the event
+// are sent the card as stored in Firestore. The event is checked against the stored card: nothing
+// is sent (no deliveries) when the change was announced already or was not made. Retries that are
+// due are sent along the way.
+// Body: { "event": "card.created" | "card.updated" | "card.deleted" | "card.merged", "cardId": "...",
+//         "mergedCardIds": ["..."] (card.merged only) }
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "deliveries": [{ "webhookId": "...", "state": "delivered" | "retrying" | "failed", ... }] }
+export async function POST(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+  }
+
+  const { event, cardId, mergedCardIds } = body
+  if (typeof event !== "string" || !WEBHOOK_EVENTS.includes(event as WebhookEventType)) {
+    return NextResponse.json({ error: `event must be one of ${WEBHOOK_EVENTS.join(", ")}` }, { status: 400 })
+  }
+  if (!isCardId(cardId)) {
+    return NextResponse.json({ error: "Expected a card ID" }, { status: 400 })
+  }
+  if (mergedCardIds !== undefined &&
+    (!Array.isArray(mergedCardIds) || mergedCardIds.length > MAX_MERGED_CARDS || !mergedCardIds.every(isCardId))) {
+    return NextResponse.json({ error: "Expected mergedCardIds to be a list of card IDs" }, { status: 400 })
+  }
+
+  try {
+    const deliveries = await emitCardEvent(userId, event as WebhookEventType, cardId, {
+      mergedCardIds: mergedCardIds as string[] | undefined,
+    })
+    if (!deliveries) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404 })
+    }
+
+    try {
+      await retryDueDeliveries(userId)
+    } catch (error) {
+      console.error("Webhook retries failed for user:", userId, error)
+    }
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    console.error("Webhook event failed for user:", userId, error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Failed to send the event" }, { status: 502 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { retryDueDeliveries, sweepMissedEvents } from "@/services/webhooks"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+import { getWebhookConfig } from "@/lib/config"
+
+// Firebase Admin, crypto and DNS lookups require the Node.js runtime
+export const runtime = "nodejs"
+
+// Retries are also sent with every new event of the user; these let them go out without one, and
+// send the events of changes the browser did not report.
+
+// GET /api/webhooks/retry
+// For a scheduler (e.g. Vercel Cron, every few minutes): sends the due retries of every user, then
+// the events of card changes no browser reported.
+// Headers: Authorization: Bearer <CRON_SECRET>
+// Response: { "retried": 3, "swept": 1 }
+export async function GET(request: Request) {
+  const { cronSecret } = getWebhookConfig()
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const retried = await retryDueDeliveries()
+    return NextResponse.json({ retried, swept: await sweepMissedEvents() })
+  } catch (error) {
+    console.error("Scheduled webhook retries failed:", error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Failed to send retries" }, { status: 502 })
+  }
+}
+
+// POST /api/webhooks/retry
+// Sends the signed-in user's due retries and missed events (when the app opens or comes back online).
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "retried": 1, "swept": 0 }
+export async function POST(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const retried = await retryDueDeliveries(userId)
+    return NextResponse.json({ retried, swept: await sweepMissedEvents(userId) })
+  } catch (error) {
+    console.error("Webhook retries failed for user:", userId, error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Failed to send retries" }, { status: 502 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { createWebhook, getUserWebhooks, validateWebhookInput } from "@/services/webhooks"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+
+// Firebase Admin and crypto require the Node.js runtime
+export const runtime = "nodejs"
+
+// GET /api/webhooks
+// The signed-in user's webhooks, oldest first.
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "webhooks": [{ "id": "...", "url": "...", "secret": "whsec_...", "events": [...], "active": true, ... }] }
+export async function GET(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ webhooks: await getUserWebhooks(userId) })
+  } catch (error) {
+    console.error("Listing webhooks failed for user:", userId, error)
+    return NextResponse.json({ error: "Failed to fetch webhooks" }, { status: 502 })
+  }
+}
+
+// POST /api/webhooks
+// Registers a webhook of the signed-in user, with a secret generated here.
+// Body: { "url": "https://...", "description": "..." (optional), "events": ["card.created", ...] (optional, all by default) }
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response (201): { "webhook": Webhook }
+export async function POST(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+  }
+
+  const input = validateWebhookInput(body)
+  if (input.error !== undefined) {
+    return NextResponse.json({ error: input.error }, { status: 400 })
+  }
+
+  try {
+    const webhook = await createWebhook(userId, { ...input.fields, url: input.fields.url! })
+    return NextResponse.json({ webhook }, { status: 201 })
+  } catch (error) {
+    console.error("Creating a webhook failed for user:", userId, error)
+    return NextResponse.json({ error: "Failed to save webhook" }, { status: 502 })
+  }
+}
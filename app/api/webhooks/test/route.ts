@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { sendTestEvent } from "@/services/webhooks"
+import { verifyRequestUser } from "@/lib/firebase-admin"
+
+// Firebase Admin, crypto and DNS lookups require the Node.js runtime
+export const runtime = "nodejs"
+
+// POST /api/webhooks/test
+// Sends a signed "ping" event with a sample card to one of the user's webhooks. Test events are
+// recorded in the delivery log but not retried.
+// Body: { "webhookId": "..." }
+// Headers: Authorization: Bearer <Firebase ID token>
+// Response: { "delivery": { "state": "delivered" | "failed", "responseStatus": 200, "durationMs": 120, ... } }
+export async function POST(request: Request) {
+  const userId = await verifyRequestUser(request)
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+  }
+
+  const { webhookId } = body
+  if (typeof webhookId !== "string" || !webhookId || webhookId.length > 200 || webhookId.includes("/")) {
+    return NextResponse.json({ error: "Expected a webhook ID" }, { status: 400 })
+  }
+
+  try {
+    const delivery = await sendTestEvent(userId, webhookId)
+    if (!delivery) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 })
+    }
+    return NextResponse.json({ delivery })
+  } catch (error) {
+    console.error("Webhook test failed for user:", userId, error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Failed to send the test event" }, { status: 502 })
+  }
+}
@@ -0,0 +1,214 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ArrowLeft, Copy, ExternalLink, KeyRound, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { createAccessToken, getAccessTokens, revokeAccessToken } from "@/services/access-token-service"
+import { useToast } from "@/hooks/use-toast"
+import type { AccessToken } from "@/types"
+
+interface AccessTokenSettingsProps {
+  userId: string
+  onClose: () => void
+}
+
+function describeToken(token: AccessToken): string {
+  return [
+    `Created ${new Date(token.createdAt).toLocaleDateString()}`,
+    token.lastUsedAt ? `last used ${new Date(token.lastUsedAt).toLocaleString()}` : "never used",
+  ].join(" · ")
+}
+
+// Personal access tokens for the REST API (/api/cards), which scripts and other apps use to
+// read and change the user's cards. A token is shown once, when it is created.
+export function AccessTokenSettings({ userId, onClose }: AccessTokenSettingsProps) {
+  const [tokens, setTokens] = useState<AccessToken[] | null>(null)
+  const [name, setName] = useState("")
+  const [busy, setBusy] = useState(false)
+  const [newToken, setNewToken] = useState<{ id: string; token: string } | null>(null)
+  const [confirmRevoke, setConfirmRevoke] = useState<AccessToken | null>(null)
+  const { toast } = useToast()
+
+  const loadTokens = useCallback(async () => {
+    try {
+      setTokens(await getAccessTokens())
+    } catch (error) {
+      console.error("Failed to load access tokens:", error)
+      setTokens([])
+      toast({
+        title: "Access tokens unavailable",
+        description: error instanceof Error ? error.message : "Failed to load access tokens. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadTokens()
+  }, [userId, loadTokens])
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setBusy(true)
+    try {
+      const { token, accessToken } = await createAccessToken(name)
+      setTokens(prev => [accessToken, ...(prev || [])])
+      setNewToken({ id: accessToken.id, token })
+      setName("")
+    } catch (error) {
+      console.error("Failed to create access token:", error)
+      toast({
+        title: "Token not created",
+        description: error instanceof Error ? error.message : "Failed to create the access token. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token)
+      toast({ title: "Token copied" })
+    } catch (error) {
+      console.error("Failed to copy token:", error)
+    }
+  }
+
+  const handleRevoke = async (token: AccessToken) => {
+    setBusy(true)
+    try {
+      await revokeAccessToken(token.id)
+      setTokens(prev => prev && prev.filter(existing => existing.id !== token.id))
+      if (newToken?.id === token.id) setNewToken(null)
+    } catch (error) {
+      console.error("Failed to revoke access token:", error)
+      toast({
+        title: "Revoke failed",
+        description: error instanceof Error ? error.message : "Failed to revoke the access token. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </Button>
+        <h3 className="text-lg font-medium">API Access</h3>
+      </div>
+
+      <form onSubmit={handleCreate} className="border rounded-lg p-4 space-y-3 max-w-2xl">
+        <div className="space-y-1">
+          <Label htmlFor="token-name">Token name</Label>
+          <Input
+            id="token-name"
+            placeholder="What it is for, e.g. CRM export script"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+          />
+        </div>
+        <Button type="submit" disabled={busy}>
+          <Plus className="w-4 h-4 mr-2" />
+          Create Token
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Send the token as an Authorization: Bearer header to /api/cards to list, read, create, update
+          and delete your cards. A token has full access to your cards until you revoke it.{" "}
+          <a href="/api/openapi" target="_blank" rel="noreferrer" className="underline inline-flex items-center gap-1">
+            OpenAPI document
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        </p>
+      </form>
+
+      {newToken && (
+        <div className="border rounded-lg p-4 space-y-2 max-w-2xl bg-muted/50">
+          <p className="text-sm font-medium">Copy your new token now. It will not be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="text-xs bg-background border rounded px-2 py-1 break-all">{newToken.token}</code>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0 shrink-0" onClick={() => handleCopy(newToken.token)} title="Copy token">
+              <Copy className="w-3 h-3" />
+            </Button>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setNewToken(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {tokens === null ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No access tokens yet.</p>
+      ) : (
+        <div className="space-y-3 max-w-2xl">
+          {tokens.map(token => (
+            <div key={token.id} className="border rounded-lg p-4 flex items-center justify-between gap-3">
+              <div className="min-w-0 flex items-start gap-3">
+                <KeyRound className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{token.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    <code>{token.prefix}…</code> · {describeToken(token)}
+                  </div>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setConfirmRevoke(token)}
+                disabled={busy}
+                className="text-destructive hover:text-destructive"
+                title="Revoke token"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={confirmRevoke !== null} onOpenChange={(open) => !open && setConfirmRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Token</AlertDialogTitle>
+            <AlertDialogDescription>
+              Revoke {confirmRevoke?.name}? Scripts and apps using it can no longer reach your cards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirmRevoke && handleRevoke(confirmRevoke)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { History, ScanLine, FileUp, Edit3, Download, Send, QrCode, Phone, Mail, MessageSquare, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { BusinessCardData, CardActivity, CardActivityType } from "@/types"
+import { EnhancedStorageService } from "@/services/enhanced-storage-service"
+import { logCardActivity, onCardActivity } from "@/services/activity-log-service"
+import { ACTIVITY_FIELD_LABELS, describeActivity, sortActivity } from "@/lib/card-activity"
+
+interface ActivityTimelineProps {
+  userId: string
+  card: BusinessCardData
+}
+
+const ACTIVITY_ICONS: Record<CardActivityType, typeof History> = {
+  scanned: ScanLine,
+  imported: FileUp,
+  edited: Edit3,
+  exported: Download,
+  sent: Send,
+  shared: QrCode,
+  called: Phone,
+  emailed: Mail,
+  note: MessageSquare,
+}
+
+const COLLAPSED_COUNT = 5
+
+// What happened with a contact, newest first, with manual entries ("Met at lunch")
+export function ActivityTimeline({ userId, card }: ActivityTimelineProps) {
+  const [activity, setActivity] = useState<CardActivity[] | null>(null)
+  const [note, setNote] = useState("")
+  const [showAll, setShowAll] = useState(false)
+
+  const cardId = card.id!
+
+  useEffect(() => {
+    let cancelled = false
+    EnhancedStorageService.getActivity(userId, cardId)
+      .then(entries => !cancelled && setActivity(entries))
+      .catch(error => {
+        console.error("Failed to load activity:", error)
+        if (!cancelled) setActivity([])
+      })
+
+    // Entries recorded while the card is open (edits, calls, exports)
+    const unsubscribe = onCardActivity(added => {
+      const entries = added.filter(entry => entry.cardId === cardId)
+      if (entries.length > 0) {
+        setActivity(prev => sortActivity([...(prev || []), ...entries]))
+      }
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [userId, cardId])
+
+  const handleAddNote = async () => {
+    if (!note.trim()) return
+    await logCardActivity(userId, [cardId], "note", { note })
+    setNote("")
+  }
+
+  const visible = showAll ? activity || [] : (activity || []).slice(0, COLLAPSED_COUNT)
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <History className="w-4 h-4" />
+        Activity
+      </h4>
+
+      <div className="flex gap-2">
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAddNote()}
+          placeholder="Add a note (e.g. Met at lunch)"
+          aria-label="Activity note"
+          className="text-sm"
+        />
+        <Button size="sm" onClick={handleAddNote} disabled={!note.trim()} className="h-10">
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {activity === null ? (
+        <p className="text-xs text-muted-foreground">Loading activity...</p>
+      ) : activity.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing recorded yet.</p>
+      ) : (
+        <ol className="relative border-l ml-2 space-y-3">
+          {visible.map(entry => {
+            const Icon = ACTIVITY_ICONS[entry.type] || History
+            return (
+              <li key={entry.id} className="ml-4">
+                <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-background border">
+                  <Icon className="w-2.5 h-2.5 text-muted-foreground" />
+                </span>
+                <p className={entry.type === "note" ? "text-sm whitespace-pre-wrap" : "text-sm"}>
+                  {describeActivity(entry)}
+                </p>
+                {entry.type === "edited" && entry.changes && entry.changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                    {entry.changes.map(change => (
+                      <li key={change.field} className="break-words">
+                        <span className="font-medium">{ACTIVITY_FIELD_LABELS[change.field] || change.field}:</span>{" "}
+                        {change.from ? <span className="line-through">{change.from}</span> : <span className="italic">empty</span>}
+                        {" → "}
+                        {change.to || <span className="italic">empty</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <time className="text-xs text-muted-foreground" dateTime={entry.at}>
+                  {new Date(entry.at).toLocaleString()}
+                </time>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+
+      {activity && activity.length > COLLAPSED_COUNT && (
+        <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Show less" : `Show all ${activity.length} entries`}
+        </Button>
+      )}
+    </div>
+  )
+}
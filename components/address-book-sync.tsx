@@ -0,0 +1,346 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { AlertTriangle, ArrowLeft, BookUser, RefreshCw, Unplug } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Switch } from "@/components/ui/switch"
+import { useCardDavAccount } from "@/hooks/use-carddav-account"
+import { ACTIVITY_FIELD_LABELS, diffCards } from "@/lib/card-activity"
+import {
+  discoverAddressBooks,
+  getConflicts,
+  getRemoteVersion,
+  resolveConflict,
+  syncAddressBook,
+  type AddressBookInfo,
+  type AddressBookSyncResult,
+} from "@/services/carddav-sync-service"
+import { useToast } from "@/hooks/use-toast"
+import type { BusinessCardData } from "@/types"
+
+interface AddressBookSyncProps {
+  userId: string
+  onClose: () => void
+  onCardsChanged: () => Promise<void>
+}
+
+interface Conflict {
+  card: BusinessCardData
+  remote: BusinessCardData | null | undefined   // null when deleted in the address book, undefined until fetched
+}
+
+function describeResult(result: AddressBookSyncResult): string {
+  const parts = [
+    result.created.length > 0 && `${result.created.length} imported`,
+    result.linked.length > 0 && `${result.linked.length} linked to existing cards`,
+    result.updated.length > 0 && `${result.updated.length} updated`,
+    result.pushed.length > 0 && `${result.pushed.length} sent to the address book`,
+    result.unlinked.length > 0 && `${result.unlinked.length} unlinked (deleted in the address book)`,
+    result.conflicts.length > 0 && `${result.conflicts.length} edited on both sides`,
+    result.failed > 0 && `${result.failed} failed`,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(", ") : "Everything is up to date"
+}
+
+// Connect a CardDAV address book (Google Contacts, iCloud, Nextcloud, Fastmail...) and keep it in
+// sync with the collection both ways. Contacts matching an existing card are linked to it; cards
+// edited on both sides since the last sync are listed for the user to resolve.
+export function AddressBookSync({ userId, onClose, onCardsChanged }: AddressBookSyncProps) {
+  const { account, setAccount } = useCardDavAccount(userId)
+  const [serverUrl, setServerUrl] = useState("")
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+  const [addressBooks, setAddressBooks] = useState<AddressBookInfo[] | null>(null)
+  const [isConnecting, setIsConnecting] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [lastResult, setLastResult] = useState<string | null>(null)
+  const [conflicts, setConflicts] = useState<Conflict[]>([])
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const isSyncing = progress !== null
+
+  const loadConflicts = useCallback(async () => {
+    if (!account?.addressBook) {
+      setConflicts([])
+      return
+    }
+    try {
+      const cards = await getConflicts(userId, account)
+      setConflicts(cards.map(card => ({ card, remote: undefined })))
+      // Fetched one at a time so a large list does not flood the server
+      for (const card of cards) {
+        const remote = await getRemoteVersion(account, card).catch(() => undefined)
+        if (remote === undefined) continue
+        setConflicts(current => current.map(conflict => conflict.card.id === card.id ? { ...conflict, remote } : conflict))
+      }
+    } catch (error) {
+      console.error("Failed to load sync conflicts:", error)
+    }
+  }, [userId, account])
+
+  useEffect(() => {
+    loadConflicts()
+  }, [loadConflicts])
+
+  const handleConnect = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsConnecting(true)
+    try {
+      const found = await discoverAddressBooks({ serverUrl: serverUrl.trim(), username: username.trim(), password })
+      setAddressBooks(found)
+    } catch (error) {
+      console.error("Failed to find address books:", error)
+      toast({
+        title: "Could not connect",
+        description: error instanceof Error ? error.message : "Failed to reach the CardDAV server.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsConnecting(false)
+    }
+  }
+
+  const handleChoose = (addressBook: AddressBookInfo) => {
+    setAccount({ serverUrl: serverUrl.trim(), username: username.trim(), password, addressBook, pushCards: true })
+    setAddressBooks(null)
+    setPassword("")
+    setLastResult(null)
+  }
+
+  const handleSync = async () => {
+    if (!account) return
+    setProgress({ done: 0, total: 0 })
+    try {
+      const result = await syncAddressBook(userId, account, (done, total) => setProgress({ done, total }))
+      setAccount({ ...account, syncToken: result.syncToken, lastSyncedAt: new Date().toISOString() })
+      setLastResult(describeResult(result))
+      // The new account reloads the conflicts
+      await onCardsChanged()
+      toast({
+        title: result.failed > 0 ? "Some contacts failed to sync" : "Address book synced",
+        description: describeResult(result),
+        variant: result.failed > 0 ? "destructive" : undefined,
+      })
+    } catch (error) {
+      console.error("Failed to sync address book:", error)
+      toast({
+        title: "Sync failed",
+        description: error instanceof Error ? error.message : "Failed to sync the address book. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleResolve = async (card: BusinessCardData, keep: "card" | "addressBook") => {
+    if (!account) return
+    setResolvingId(card.id!)
+    try {
+      await resolveConflict(userId, account, card, keep)
+      setConflicts(current => current.filter(conflict => conflict.card.id !== card.id))
+      await onCardsChanged()
+    } catch (error) {
+      console.error("Failed to resolve sync conflict:", error)
+      toast({
+        title: "Could not resolve the conflict",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setResolvingId(null)
+    }
+  }
+
+  const handleDisconnect = () => {
+    setAccount(null)
+    setLastResult(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose} disabled={isSyncing}>
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </Button>
+        <h3 className="text-lg font-medium">Address Book</h3>
+      </div>
+
+      {account?.addressBook ? (
+        <div className="border rounded-lg p-4 space-y-4">
+          <div className="flex items-start gap-3">
+            <BookUser className="w-8 h-8 text-muted-foreground shrink-0" />
+            <div className="min-w-0 flex-1">
+              <div className="font-medium truncate">{account.addressBook.displayName}</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {[account.username, new URL(account.addressBook.url).host].filter(Boolean).join(" · ")}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {account.lastSyncedAt
+                  ? `Last synced ${new Date(account.lastSyncedAt).toLocaleString()}`
+                  : "Not synced yet"}
+                {!account.addressBook.supportsSync && " · the server sends every contact on each sync"}
+              </div>
+            </div>
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">
+                {progress.total > 0 ? `Synced ${progress.done} of ${progress.total} contacts...` : "Fetching changes..."}
+              </p>
+            </div>
+          )}
+          {lastResult && !progress && <p className="text-sm text-muted-foreground">{lastResult}.</p>}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="carddav-push"
+              checked={account.pushCards ?? false}
+              onCheckedChange={(checked) => setAccount({ ...account, pushCards: checked })}
+              disabled={isSyncing}
+            />
+            <Label htmlFor="carddav-push">Send my cards to this address book</Label>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSync} disabled={isSyncing}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+              {isSyncing ? "Syncing..." : "Sync now"}
+            </Button>
+            <Button variant="outline" onClick={handleDisconnect} disabled={isSyncing}>
+              <Unplug className="w-4 h-4 mr-2" />
+              Disconnect
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Contacts are imported into your cards; a contact that matches a card you already have is linked to it
+            instead. {account.pushCards
+              ? "New and edited cards are sent to the address book; deleting a card does not delete the contact. "
+              : "Your cards are not sent to the address book. "}
+            Disconnecting keeps the cards and their links.
+          </p>
+
+          {conflicts.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <AlertTriangle className="w-4 h-4 text-amber-500" />
+                Edited on both sides ({conflicts.length})
+              </div>
+              {conflicts.map(({ card, remote }) => {
+                const changes = remote ? diffCards(card, remote) : []
+                return (
+                  <div key={card.id} className="border rounded-md p-3 space-y-2">
+                    <div className="font-medium text-sm truncate">{card.name || card.company || "Unnamed card"}</div>
+                    {remote === undefined ? (
+                      <p className="text-xs text-muted-foreground">Loading the version in the address book...</p>
+                    ) : remote === null ? (
+                      <p className="text-xs text-muted-foreground">The contact was deleted from the address book.</p>
+                    ) : changes.length > 0 ? (
+                      <ul className="space-y-0.5 text-xs text-muted-foreground">
+                        {changes.map(change => (
+                          <li key={change.field} className="break-words">
+                            <span className="font-medium">{ACTIVITY_FIELD_LABELS[change.field] || change.field}:</span>{" "}
+                            {change.from || "(empty)"} here, {change.to || "(empty)"} in the address book
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">Only fields not shown on the card differ.</p>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleResolve(card, "card")}
+                        disabled={resolvingId !== null || isSyncing}
+                      >
+                        Keep mine
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleResolve(card, "addressBook")}
+                        disabled={resolvingId !== null || isSyncing}
+                      >
+                        {remote === null ? "Unlink" : "Use the address book version"}
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      ) : addressBooks ? (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Choose the address book to sync with:</p>
+          {addressBooks.map(addressBook => (
+            <button
+              key={addressBook.url}
+              onClick={() => handleChoose(addressBook)}
+              className="w-full flex items-center gap-3 border rounded-lg p-3 text-left hover:bg-muted/50"
+            >
+              <BookUser className="w-5 h-5 text-muted-foreground shrink-0" />
+              <div className="min-w-0">
+                <div className="font-medium truncate">{addressBook.displayName}</div>
+                <div className="text-xs text-muted-foreground truncate">{addressBook.url}</div>
+              </div>
+            </button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => setAddressBooks(null)}>
+            Use another account
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleConnect} className="border rounded-lg p-4 space-y-3 max-w-md">
+          <div className="space-y-1">
+            <Label htmlFor="carddav-server">Server URL</Label>
+            <Input
+              id="carddav-server"
+              type="url"
+              placeholder="https://contacts.example.com"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="carddav-username">User name</Label>
+            <Input
+              id="carddav-username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="carddav-password">Password</Label>
+            <Input
+              id="carddav-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Use an app password where your provider offers one; it is kept on this device only. For Google
+            Contacts, use https://www.googleapis.com/carddav/v1/principals/you@gmail.com/lists/default/, leave
+            the user name empty and enter an OAuth access token as the password.
+          </p>
+          <Button type="submit" disabled={isConnecting}>
+            {isConnecting ? "Connecting..." : "Find address books"}
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
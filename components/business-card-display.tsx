@@ -1,22 +1,29 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Download, RefreshCw, UserPlus, Edit3, Save, X } from "lucide-react"
+import { Download, RefreshCw, UserPlus, Edit3, Save, X, CalendarDays, MapPin } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
-import type { BusinessCardData } from "@/types"
+import type { BusinessCardData, CardActivityType, CardEvent, PostalAddress } from "@/types"
 import { 
   exportContactAsVCard, 
   exportAsCSV, 
   isMobileDevice,
   smartExport,
-  getExportButtonText
+  getExportButtonText,
+  getSmartExportFormat
 } from "@/services/contact-export-service"
 import { QRContactShare } from "@/components/qr-contact-share"
 import { InteractiveContactField } from "@/components/interactive-contact-field"
+import { EventFields } from "@/components/event-fields"
+import { REVIEW_THRESHOLD } from "@/services/confidence-service"
+import { countryNameToCode, toE164 } from "@/lib/phone-utils"
+import { compactAddress, formatAddress, getCardAddress } from "@/lib/address-utils"
+import { formatEvent, normalizeEvent } from "@/lib/card-events"
+import { getContactActivityType, type ActivityDetails } from "@/lib/card-activity"
 
 interface BusinessCardDisplayProps {
   data: BusinessCardData
@@ -24,6 +31,8 @@ interface BusinessCardDisplayProps {
   onReprocess?: () => void
   onExport?: () => void
   isEditable?: boolean
+  knownEvents?: CardEvent[]  // Suggested when editing the event
+  onActivity?: (type: CardActivityType, details?: ActivityDetails) => void  // Calls, emails, exports and shares of a saved card
 }
 
 export function BusinessCardDisplay({
@@ -32,6 +41,8 @@ export function BusinessCardDisplay({
   onReprocess,
   onExport,
   isEditable = true,
+  knownEvents,
+  onActivity,
 }: BusinessCardDisplayProps) {
   const [editedData, setEditedData] = useState(data)
   const [originalData, setOriginalData] = useState(data)
@@ -57,17 +68,55 @@ export function BusinessCardDisplay({
     }))
   }
 
+  // Editing one address component re-formats the display address from all components
+  const handleAddressChange = (component: keyof PostalAddress, value: string) => {
+    setEditedData(prev => {
+      const details: PostalAddress = { ...getCardAddress(prev), [component]: value }
+      if (component === "country") {
+        details.countryCode = countryNameToCode(value)
+      }
+      const addressDetails = compactAddress(details)
+      return {
+        ...prev,
+        addressDetails,
+        address: formatAddress(addressDetails) || undefined,
+      }
+    })
+  }
+
+  const handleEventChange = (event: Partial<CardEvent>) => {
+    setEditedData(prev => ({ ...prev, event: { ...event, name: event.name || "" } }))
+  }
+
   const handleEdit = () => {
     setIsEditMode(true)
     setOriginalData(editedData) // Store the current state as the original
   }
 
   const handleSave = async () => {
+    // Fields the user corrected no longer carry the OCR confidence score
+    let savedData = editedData
+    if (editedData.event !== originalData.event) {
+      // An event without a name is removed
+      savedData = { ...savedData, event: normalizeEvent(editedData.event) }
+      setEditedData(savedData)
+    }
+    if (editedData.confidence) {
+      const confidence = { ...editedData.confidence }
+      for (const key of Object.keys(confidence)) {
+        if (editedData[key as keyof BusinessCardData] !== originalData[key as keyof BusinessCardData]) {
+          delete confidence[key]
+        }
+      }
+      savedData = { ...savedData, confidence }
+      setEditedData(savedData)
+    }
+
     if (onSave && isEditable) {
-      onSave(editedData)
+      onSave(savedData)
     }
     setIsEditMode(false)
-    setOriginalData(editedData)
+    setOriginalData(savedData)
   }
 
   const handleCancel = () => {
@@ -88,6 +137,7 @@ export function BusinessCardDisplay({
       } else {
         // Use smart export which automatically chooses the right format
         await smartExport([editedData])
+        onActivity?.("exported", { detail: getSmartExportFormat(1) })
       }
     } catch (error) {
       console.error('Export failed:', error)
@@ -96,13 +146,29 @@ export function BusinessCardDisplay({
     }
   }
 
+  // Handler recording a followed contact link in the card's activity
+  const handleContact = (fieldType: string, value: string) => () => {
+    const type = getContactActivityType(fieldType)
+    if (type) onActivity?.(type, { detail: value })
+  }
+
   const getConfidenceColor = (confidence?: number) => {
-    if (!confidence) return "secondary"
+    if (confidence === undefined) return "secondary"
     if (confidence >= 90) return "default"
-    if (confidence >= 70) return "secondary"
+    if (confidence >= REVIEW_THRESHOLD) return "secondary"
     return "destructive"
   }
 
+  const needsReview = (key: string) => {
+    const confidence = editedData.confidence?.[key]
+    const value = editedData[key as keyof BusinessCardData]
+    return confidence !== undefined && confidence < REVIEW_THRESHOLD && !!value
+  }
+
+  const phoneticName = [editedData.metadata?.phonetic_last_name, editedData.metadata?.phonetic_first_name]
+    .filter(Boolean)
+    .join(" ")
+
   const exportButtonText = getExportButtonText(1)
   const ExportIcon = isMobile ? UserPlus : Download
 
@@ -120,6 +186,15 @@ export function BusinessCardDisplay({
     { key: "notes", label: "Notes", type: "text" },
   ] as const
 
+  const addressFields = [
+    { key: "street", label: "Street" },
+    { key: "extended", label: "Suite / Floor" },
+    { key: "city", label: "City" },
+    { key: "state", label: "State / Province" },
+    { key: "postalCode", label: "Postal Code" },
+    { key: "country", label: "Country" },
+  ] as const
+
   const getContactFieldType = (key: string): "phone" | "email" | "website" | "linkedin" | "twitter" | null => {
     switch (key) {
       case "phone":
@@ -212,6 +287,8 @@ export function BusinessCardDisplay({
                   <InteractiveContactField
                     type="phone"
                     value={editedData.phone}
+                    e164={toE164(editedData.phone, editedData) || undefined}
+                    onContact={handleContact("phone", editedData.phone)}
                     className="flex-1 min-w-0 bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-md text-sm font-medium justify-center"
                     iconClassName="w-4 h-4 text-white"
                   />
@@ -220,6 +297,8 @@ export function BusinessCardDisplay({
                   <InteractiveContactField
                     type="phone"
                     value={editedData.mobile}
+                    e164={toE164(editedData.mobile, editedData) || undefined}
+                    onContact={handleContact("phone", editedData.mobile)}
                     className="flex-1 min-w-0 bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-md text-sm font-medium justify-center"
                     iconClassName="w-4 h-4 text-white"
                   />
@@ -228,6 +307,7 @@ export function BusinessCardDisplay({
                   <InteractiveContactField
                     type="email"
                     value={editedData.email}
+                    onContact={handleContact("email", editedData.email)}
                     className="flex-1 min-w-0 bg-green-500 hover:bg-green-600 text-white px-3 py-2 rounded-md text-sm font-medium justify-center"
                     iconClassName="w-4 h-4 text-white"
                     truncate={true}
@@ -259,8 +339,8 @@ export function BusinessCardDisplay({
         {/* Card Image and QR Code */}
         {data.imageBase64 && (
           <div className="grid gap-6 lg:grid-cols-2">
-            {/* Business Card Image */}
-            <div className="flex justify-center">
+            {/* Business Card Image (front, and back for double-sided cards) */}
+            <div className="flex flex-col items-center gap-3">
               <div className="border rounded-lg overflow-hidden shadow-sm max-w-full">
                 <img 
                   src={data.imageBase64} 
@@ -268,32 +348,107 @@ export function BusinessCardDisplay({
                   className="max-w-full h-auto max-h-48 sm:max-h-64 object-contain"
                 />
               </div>
+              {data.backImageBase64 && (
+                <div className="border rounded-lg overflow-hidden shadow-sm max-w-full">
+                  <img 
+                    src={data.backImageBase64} 
+                    alt="Back of business card"
+                    className="max-w-full h-auto max-h-48 sm:max-h-64 object-contain"
+                  />
+                </div>
+              )}
+              {/* Earlier scans of the same contact, kept when duplicates were merged */}
+              {data.scanHistory && data.scanHistory.length > 0 && (
+                <div className="w-full space-y-1">
+                  <div className="text-xs text-muted-foreground text-center">
+                    Earlier scans ({data.scanHistory.length})
+                  </div>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {data.scanHistory.map((scan, index) => (
+                      <a
+                        key={`${scan.timestamp}-${index}`}
+                        href={scan.imageBase64 || scan.thumbnailBase64}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title={`Scanned ${new Date(scan.timestamp).toLocaleDateString()}`}
+                        className="border rounded overflow-hidden"
+                      >
+                        <img
+                          src={scan.thumbnailBase64 || scan.imageBase64}
+                          alt={`Scan from ${new Date(scan.timestamp).toLocaleDateString()}`}
+                          className="h-12 w-auto object-cover"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
-            
+
             {/* QR Code */}
             <div className="flex justify-center lg:justify-start">
               <QRContactShare 
                 data={editedData} 
                 className="w-full max-w-sm"
+                onShare={(method) => onActivity?.("shared", { detail: method })}
               />
             </div>
           </div>
         )}
 
+        {/* Review hint for low-confidence fields */}
+        {fields.some(({ key }) => needsReview(key)) && (
+          <div className="flex items-center gap-2 text-sm text-orange-600">
+            <div className="w-2 h-2 bg-orange-500 rounded-full"></div>
+            <span>Highlighted fields may have been misread. Please review them.</span>
+          </div>
+        )}
+
         {/* Contact Fields */}
         <div className="grid gap-4 sm:grid-cols-2">
           {fields.map(({ key, label, type }) => {
             const value = editedData[key as keyof BusinessCardData] as string
-            const confidence = data.confidence?.[key]
+            const confidence = editedData.confidence?.[key]
             const contactFieldType = getContactFieldType(key)
+            const reviewClass = needsReview(key) ? "border-orange-400 bg-orange-50 dark:bg-orange-950/30" : ""
+
+            // Addresses are edited by component so every exporter gets structured data
+            if (key === "address" && isEditMode) {
+              const addressDetails = getCardAddress(editedData)
+              return (
+                <div key={key} className="space-y-2 sm:col-span-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium">{label}</Label>
+                    {confidence !== undefined && value && (
+                      <Badge variant={getConfidenceColor(confidence)} className="text-xs">
+                        {confidence < REVIEW_THRESHOLD ? `Review · ${confidence}%` : `${confidence}%`}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className={`grid gap-2 sm:grid-cols-2 rounded-md ${reviewClass && "p-2 border " + reviewClass}`}>
+                    {addressFields.map(({ key: component, label: componentLabel }) => (
+                      <Input
+                        key={component}
+                        id={`address-${component}`}
+                        aria-label={componentLabel}
+                        value={addressDetails[component] || ""}
+                        onChange={(e) => handleAddressChange(component, e.target.value)}
+                        placeholder={componentLabel}
+                        className="text-sm"
+                      />
+                    ))}
+                  </div>
+                </div>
+              )
+            }
 
             return (
               <div key={key} className="space-y-2">
                 <div className="flex items-center justify-between">
                   <Label htmlFor={key} className="text-sm font-medium">{label}</Label>
-                  {confidence && (
+                  {confidence !== undefined && value && (
                     <Badge variant={getConfidenceColor(confidence)} className="text-xs">
-                      {confidence}%
+                      {confidence < REVIEW_THRESHOLD ? `Review · ${confidence}%` : `${confidence}%`}
                     </Badge>
                   )}
                 </div>
@@ -304,15 +459,17 @@ export function BusinessCardDisplay({
                     value={value || ""}
                     onChange={(e) => handleFieldChange(key as keyof BusinessCardData, e.target.value)}
                     placeholder={`Enter ${label.toLowerCase()}`}
-                    className="text-sm"
+                    className={`text-sm ${reviewClass}`}
                   />
                 ) : (
-                  <div className="min-h-[40px] px-3 py-2 border rounded-md bg-muted/50 flex items-center text-sm">
+                  <div className={`min-h-[40px] px-3 py-2 border rounded-md bg-muted/50 flex items-center text-sm ${reviewClass}`}>
                     {value ? (
                       contactFieldType ? (
                         <InteractiveContactField
                           type={contactFieldType}
                           value={value}
+                          e164={contactFieldType === "phone" ? toE164(value, editedData) || undefined : undefined}
+                          onContact={handleContact(contactFieldType, value)}
                           showIcon={false}
                           className="text-sm font-normal"
                         />
@@ -329,6 +486,39 @@ export function BusinessCardDisplay({
           })}
         </div>
 
+        {/* Event the card was collected at */}
+        {isEditMode ? (
+          <div className="space-y-2">
+            <Label htmlFor="event-name" className="text-sm font-medium">Event</Label>
+            <EventFields
+              id="event"
+              value={editedData.event || {}}
+              onChange={handleEventChange}
+              knownEvents={knownEvents}
+            />
+          </div>
+        ) : editedData.event?.name && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CalendarDays className="w-4 h-4 shrink-0" />
+            <span>Met at <span className="text-foreground">{formatEvent(editedData.event)}</span></span>
+          </div>
+        )}
+
+        {/* Native script, romanized and phonetic forms of the name */}
+        {(editedData.metadata?.native_name || editedData.metadata?.romanized_name || phoneticName) && (
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+            {editedData.metadata?.native_name && editedData.metadata.native_name !== editedData.name && (
+              <span>Native name: <span className="text-foreground">{editedData.metadata.native_name}</span></span>
+            )}
+            {editedData.metadata?.romanized_name && editedData.metadata.romanized_name !== editedData.name && (
+              <span>Romanized: <span className="text-foreground">{editedData.metadata.romanized_name}</span></span>
+            )}
+            {phoneticName && (
+              <span>Reading: <span className="text-foreground">{phoneticName}</span></span>
+            )}
+          </div>
+        )}
+
         {data.timestamp && (
           <div className="pt-4 border-t text-sm text-muted-foreground">
             {isEditMode && hasChanges && (
@@ -338,6 +528,21 @@ export function BusinessCardDisplay({
               </div>
             )}
             Processed on {new Date(data.timestamp).toLocaleString()}
+            {data.captureLocation && (
+              <>
+                {" · "}
+                <a
+                  href={`https://www.openstreetmap.org/?mlat=${data.captureLocation.lat}&mlon=${data.captureLocation.lng}#map=16/${data.captureLocation.lat}/${data.captureLocation.lng}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 hover:text-foreground hover:underline"
+                >
+                  <MapPin className="w-3 h-3" />
+                  Captured at {data.captureLocation.lat.toFixed(4)}, {data.captureLocation.lng.toFixed(4)}
+                  {data.captureLocation.accuracy !== undefined && ` (±${data.captureLocation.accuracy} m)`}
+                </a>
+              </>
+            )}
           </div>
         )}
       </CardContent>
@@ -1,14 +1,18 @@
 "use client"
 
 import { useState, useRef, useEffect, useCallback } from "react"
-import { Camera, X, RotateCcw, CheckCircle, Square } from "lucide-react"
+import { Camera, X, RotateCcw, CheckCircle, Square, MapPin } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
+import { useLocationStamp } from "@/hooks/use-location-stamp"
+import type { CaptureLocation } from "@/types"
+import { MAX_CAPTURE_LOCATION_AGE_MS, toCaptureLocation } from "@/lib/geo-utils"
 
 interface CameraCaptureProps {
-  onCapture: (file: File) => void
+  onCapture: (file: File, location?: CaptureLocation) => void  // location is set when the user opted in
   onClose: () => void
   isOpen: boolean
+  guideLabel?: string  // Hint shown above the alignment guide (e.g. which side to capture)
 }
 
 interface CropBounds {
@@ -18,7 +22,7 @@ interface CropBounds {
   height: number
 }
 
-export function CameraCapture({ onCapture, onClose, isOpen }: CameraCaptureProps) {
+export function CameraCapture({ onCapture, onClose, isOpen, guideLabel = "Align business card here" }: CameraCaptureProps) {
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null)
@@ -29,6 +33,9 @@ export function CameraCapture({ onCapture, onClose, isOpen }: CameraCaptureProps
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment')
   const animationFrameRef = useRef<number | undefined>(undefined)
+  const locationRef = useRef<CaptureLocation | null>(null) // Latest position fix while the camera is open
+  const [locationStatus, setLocationStatus] = useState<'locating' | 'located' | 'denied' | null>(null)
+  const locationStamp = useLocationStamp()
 
   // Initialize camera stream
   const startCamera = useCallback(async () => {
@@ -84,6 +91,30 @@ export function CameraCapture({ onCapture, onClose, isOpen }: CameraCaptureProps
     }
   }, [])
 
+  // Follow the device position while the camera is open, so a capture never waits for a fix
+  useEffect(() => {
+    if (!isOpen || !locationStamp.enabled) {
+      locationRef.current = null
+      setLocationStatus(null)
+      return
+    }
+
+    setLocationStatus('locating')
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        locationRef.current = toCaptureLocation(position)
+        setLocationStatus('located')
+      },
+      (err) => {
+        console.error('Error getting location:', err)
+        setLocationStatus(err.code === err.PERMISSION_DENIED ? 'denied' : 'locating')
+      },
+      { enableHighAccuracy: true, maximumAge: 60 * 1000 }
+    )
+
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [isOpen, locationStamp.enabled])
+
   // Simple rectangle detection for business cards
   const detectBusinessCardBounds = useCallback((
     imageData: ImageData,
@@ -312,7 +343,9 @@ export function CameraCapture({ onCapture, onClose, isOpen }: CameraCaptureProps
         const file = new File([blob], `business-card-${Date.now()}.jpg`, {
           type: 'image/jpeg',
         })
-        onCapture(file)
+        const location = locationRef.current
+        const isFresh = location && Date.now() - new Date(location.capturedAt).getTime() < MAX_CAPTURE_LOCATION_AGE_MS
+        onCapture(file, isFresh ? location : undefined)
         onClose()
       }
     }, 'image/jpeg', 0.9)
@@ -373,14 +406,37 @@ export function CameraCapture({ onCapture, onClose, isOpen }: CameraCaptureProps
           )}
         </div>
         
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={switchCamera}
-          className="text-white hover:bg-white/20"
-        >
-          <RotateCcw className="h-6 w-6" />
-        </Button>
+        <div className="flex items-center">
+          {locationStamp.isSupported && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => locationStamp.setEnabled(!locationStamp.enabled)}
+              className={`hover:bg-white/20 ${
+                locationStatus === 'located' ? 'text-green-400'
+                  : locationStatus === 'denied' ? 'text-red-400'
+                  : locationStatus === 'locating' ? 'text-yellow-400'
+                  : 'text-white/60'
+              }`}
+              title={
+                !locationStamp.enabled ? "Stamp captures with your location"
+                  : locationStatus === 'denied' ? "Location permission denied"
+                  : locationStatus === 'located' ? "Location will be stamped (tap to turn off)"
+                  : "Finding your location..."
+              }
+            >
+              <MapPin className="h-6 w-6" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={switchCamera}
+            className="text-white hover:bg-white/20"
+          >
+            <RotateCcw className="h-6 w-6" />
+          </Button>
+        </div>
       </div>
 
       {/* Camera view */}
@@ -424,7 +480,7 @@ export function CameraCapture({ onCapture, onClose, isOpen }: CameraCaptureProps
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="w-80 h-48 border-2 border-white/50 rounded-lg relative">
                   <div className="absolute -top-6 left-1/2 transform -translate-x-1/2 text-white text-sm">
-                    Align business card here
+                    {guideLabel}
                   </div>
                   
                   {/* Corner markers */}
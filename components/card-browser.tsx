@@ -1,14 +1,14 @@
 "use client"
 
-import { useState, useEffect, forwardRef, useImperativeHandle } from "react"
-import { Search, Download, Trash2, Edit3, Calendar, Building, User, Phone, Mail, ChevronDown, ChevronRight, ExternalLink, ChevronUp, ArrowUpDown, UserPlus, Star, CreditCard, Filter } from "lucide-react"
+import { useCallback, useState, useEffect, useRef, forwardRef, useImperativeHandle } from "react"
+import { Download, Trash2, Edit3, Calendar, Building, User, Phone, Mail, ChevronDown, ChevronRight, ExternalLink, ChevronUp, ArrowUpDown, UserPlus, Star, CreditCard, Filter, GitMerge, CalendarDays, Check, Map as MapIcon, Archive, BookUser, Send, Webhook as WebhookIcon, KeyRound } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import {
@@ -25,48 +25,98 @@ import { BusinessCardDisplay } from "@/components/business-card-display"
 import { BusinessCardIcon } from "@/components/icons/business-card-icon"
 import { BusinessCardIconPng } from "@/components/icons/business-card-icon-png"
 import { SimpleBusinessCardIcon } from "@/components/icons/simple-business-card-icon"
-import type { BusinessCardData } from "@/types"
+import type { BusinessCardData, CardEvent, CardGroup, CardOrganization, CardPageCursor, CardSortField, GroupColor, SortDirection } from "@/types"
 import { EnhancedStorageService } from "@/services/enhanced-storage-service"
+import { getSearchSnippet, SEARCH_FIELD_LABELS } from "@/lib/search-utils"
 import { 
   exportContactAsVCard, 
   exportAsCSV, 
   smartExport, 
   isMobileDevice, 
-  getExportButtonText 
+  getExportButtonText,
+  getSmartExportFormat
 } from "@/services/contact-export-service"
 import { useToast } from "@/hooks/use-toast"
 import { useOrganization } from "@/hooks/use-organization"
 import { InteractiveContactField } from "@/components/interactive-contact-field"
+import { DuplicateFinder } from "@/components/duplicate-finder"
+import { ContactMap } from "@/components/contact-map"
+import { FollowUpTasks } from "@/components/follow-up-tasks"
+import { ActivityTimeline } from "@/components/activity-timeline"
+import { CardHistory } from "@/components/card-history"
+import { TrashView } from "@/components/trash-view"
+import { AddressBookSync } from "@/components/address-book-sync"
+import { CrmConnectorSettings } from "@/components/crm-settings"
+import { WebhookSettings } from "@/components/webhook-settings"
+import { AccessTokenSettings } from "@/components/access-token-settings"
+import { useCrmSettings } from "@/hooks/use-crm-settings"
+import { getCrmName, sendCardsToCrm } from "@/services/crm-service"
+import { ToastAction } from "@/components/ui/toast"
+import { TRASH_RETENTION_DAYS } from "@/lib/card-history"
+import { logCardActivity } from "@/services/activity-log-service"
+import { diffCards, getContactActivityType } from "@/lib/card-activity"
+import type { FollowUps } from "@/hooks/use-follow-ups"
+import { HighlightedText } from "@/components/highlighted-text"
+import { SearchQueryInput } from "@/components/search-query-input"
+import { OrganizeToolbar } from "@/components/organize-toolbar"
+import { GROUP_COLORS, collectTags, getCardGroups } from "@/lib/organization"
+import { formatEvent, formatEventDate } from "@/lib/card-events"
+import { normalizeText } from "@/lib/similarity"
+import { parseSearchQuery, setQueryFilter } from "@/lib/search-query"
 
 interface CardBrowserProps {
   userId: string
   onCardSelect?: (card: BusinessCardData) => void
   onExportAll?: (cards: BusinessCardData[]) => void
+  followUps?: FollowUps  // Shows the follow-up tasks of expanded cards
 }
 
 export interface CardBrowserRef {
   markCardAsNew: (cardId: string) => void
-  expandCard: (cardId: string) => void
+  expandCard: (cardId: string) => Promise<void>
   refreshCards: () => Promise<void>
 }
 
-export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userId, onCardSelect, onExportAll }, ref) => {
+export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userId, onCardSelect, onExportAll, followUps }, ref) => {
   const [cards, setCards] = useState<BusinessCardData[]>([])
   const [filteredCards, setFilteredCards] = useState<BusinessCardData[]>([])
   const [searchQuery, setSearchQuery] = useState("")
-  const [sortBy, setSortBy] = useState<"date" | "name" | "company" | "favorite">("date")
-  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc")
+  const [searchResults, setSearchResults] = useState<BusinessCardData[] | null>(null) // Best matches first
+  const [searchTerms, setSearchTerms] = useState<Record<string, string[]>>({})       // Matched terms per card ID
+  const [sortBy, setSortBy] = useState<CardSortField>("date")
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc")
   const [loading, setLoading] = useState(true)
+  const [cursor, setCursor] = useState<CardPageCursor | null>(null)
+  const [pageCount, setPageCount] = useState(0)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [totalCount, setTotalCount] = useState<number | null>(null)
   const [expandedCard, setExpandedCard] = useState<string | null>(null)
   const [newCards, setNewCards] = useState<Set<string>>(new Set())
   const [deleteConfirmCard, setDeleteConfirmCard] = useState<BusinessCardData | null>(null)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  const [showMap, setShowMap] = useState(false)
+  const [showTrash, setShowTrash] = useState(false)
+  const [showAddressBook, setShowAddressBook] = useState(false)
+  const [showCrmSettings, setShowCrmSettings] = useState(false)
+  const [showWebhooks, setShowWebhooks] = useState(false)
+  const [showAccessTokens, setShowAccessTokens] = useState(false)
+  const [crmSendingIds, setCrmSendingIds] = useState<Set<string>>(new Set())
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [knownEvents, setKnownEvents] = useState<CardEvent[]>([])
+  const loadRequest = useRef(0) // Ignore pages that arrive after the sort changed
+  const sentinelRef = useRef<HTMLDivElement>(null)
   const { toast } = useToast()
   
   // Organization features
   const {
+    groups,
+    favoritesMigrated,
+    organizeCards,
     toggleFavorite,
-    enhanceCards
+    createGroup,
+    deleteGroup
   } = useOrganization(userId)
+  const { settings: crmSettings, setSettings: setCrmSettings } = useCrmSettings(userId)
 
   // Helper function to safely format dates
   const formatDate = (timestamp?: string) => {
@@ -85,13 +135,125 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     }
   }
 
+  // Load the first page in the current sort order. The mirrored page from IndexedDB is shown
+  // right away and replaced when Firestore answers.
+  const loadCards = useCallback(async () => {
+    const request = ++loadRequest.current
+    const options = { sortBy, direction: sortDirection }
+
+    try {
+      const cachedPage = await EnhancedStorageService.getCachedCardsPage(userId, options)
+      if (request === loadRequest.current && cachedPage.cards.length > 0) {
+        setCards(cachedPage.cards)
+        setCursor(null) // Wait for the network page before loading more
+        setLoading(false)
+      }
+    } catch (error) {
+      console.error("Failed to read cached cards:", error)
+    }
+
+    try {
+      const page = await EnhancedStorageService.getCardsPage(userId, options)
+      if (request !== loadRequest.current) return
+      setCards(page.cards)
+      setCursor(page.cursor)
+      setPageCount(1)
+    } catch (error) {
+      console.error("Failed to load cards:", error)
+    } finally {
+      if (request === loadRequest.current) {
+        setLoading(false)
+      }
+    }
+
+    EnhancedStorageService.countCards(userId)
+      .then(count => {
+        if (request === loadRequest.current) setTotalCount(count)
+      })
+      .catch(error => console.error("Failed to count cards:", error))
+  }, [userId, sortBy, sortDirection])
+
+  const loadMoreCards = useCallback(async () => {
+    if (!cursor || loadingMore) return
+
+    const request = loadRequest.current
+    setLoadingMore(true)
+    try {
+      const page = await EnhancedStorageService.getCardsPage(
+        userId,
+        { sortBy, direction: sortDirection, cursor },
+        pageCount
+      )
+      if (request !== loadRequest.current) return
+
+      setCards(prev => {
+        const loadedIds = new Set(prev.map(card => card.id))
+        return [...prev, ...page.cards.filter(card => !loadedIds.has(card.id))]
+      })
+      setCursor(page.cursor)
+      setPageCount(prev => prev + 1)
+    } catch (error) {
+      console.error("Failed to load more cards:", error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [userId, sortBy, sortDirection, cursor, loadingMore, pageCount])
+
+  // Load again when the user or sort order changes, and when favorites moved from localStorage onto
+  // the cards, to show and sort them
   useEffect(() => {
     loadCards()
-  }, [userId])
+  }, [loadCards, favoritesMigrated])
 
   useEffect(() => {
     filterAndSortCards()
-  }, [cards, searchQuery, sortBy, sortDirection, newCards])
+  }, [cards, searchResults, newCards])
+
+  // Events of the whole collection for the event filter
+  useEffect(() => {
+    EnhancedStorageService.getKnownEvents(userId)
+      .then(setKnownEvents)
+      .catch(error => console.error("Failed to load events:", error))
+  }, [userId, cards])
+
+  // Search the whole collection, not just the loaded pages
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const results = await EnhancedStorageService.searchCards(userId, searchQuery)
+        const terms: Record<string, string[]> = {}
+        results.forEach(result => {
+          if (result.card.id) terms[result.card.id] = result.terms
+        })
+        setSearchTerms(terms)
+        setSearchResults(results.map(result => result.card))
+      } catch (error) {
+        console.error("Search failed:", error)
+      }
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [userId, searchQuery])
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !cursor || searchResults) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMoreCards()
+      }
+    }, { rootMargin: "400px" })
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [cursor, searchResults, loadMoreCards])
 
   useEffect(() => {
     if (newCards.size > 0) {
@@ -103,25 +265,29 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     }
   }, [newCards])
 
-  const loadCards = async () => {
-    try {
-      const userCards = await EnhancedStorageService.getCards(userId)
-      const enhancedUserCards = enhanceCards(userCards)
-      setCards(enhancedUserCards)
-    } catch (error) {
-      console.error("Failed to load cards:", error)
-    } finally {
-      setLoading(false)
-    }
-  }
-
   const markCardAsNew = (cardId: string) => {
     setNewCards(prev => new Set(prev).add(cardId))
     setExpandedCard(cardId)
   }
 
-  const expandCard = (cardId: string) => {
+  // Expand a card and scroll to it; a card beyond the loaded pages is added to the list
+  const expandCard = async (cardId: string) => {
+    setShowMap(false)
+    setShowDuplicates(false)
+    if (!cards.some(card => card.id === cardId)) {
+      try {
+        const card = (await EnhancedStorageService.getCards(userId)).find(card => card.id === cardId)
+        if (!card) return
+        setCards(prev => prev.some(loaded => loaded.id === cardId) ? prev : [...prev, card])
+      } catch (error) {
+        console.error("Failed to load card:", error)
+        return
+      }
+    }
     setExpandedCard(cardId)
+    requestAnimationFrame(() => {
+      document.getElementById(`card-${cardId}`)?.scrollIntoView({ behavior: "smooth", block: "start" })
+    })
   }
 
   const refreshCards = async () => {
@@ -132,9 +298,9 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     markCardAsNew,
     expandCard,
     refreshCards
-  }), [])
+  }), [userId, sortBy, sortDirection, cards])
 
-  const handleSort = (field: "date" | "name" | "company" | "favorite") => {
+  const handleSort = (field: CardSortField) => {
     if (sortBy === field) {
       // Toggle direction if same field
       setSortDirection(sortDirection === "asc" ? "desc" : "asc")
@@ -145,69 +311,39 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     }
   }
 
+  // Pages arrive sorted from Firestore; search results are ranked by relevance
   const filterAndSortCards = () => {
-    let filtered = cards
-
-    if (searchQuery) {
-      filtered = cards.filter(
-        (card) =>
-          card.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          card.company?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          card.jobTitle?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          card.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          card.phone?.includes(searchQuery) ||
-          card.mobile?.includes(searchQuery),
-      )
-    }
+    const sorted = searchResults || cards
 
-    filtered.sort((a, b) => {
-      const aIsNew = newCards.has(a.id!)
-      const bIsNew = newCards.has(b.id!)
-      
-      // New cards always at top regardless of sort
-      if (aIsNew && !bIsNew) return -1
-      if (!aIsNew && bIsNew) return 1
-      
-      let comparison = 0
-      switch (sortBy) {
-        case "name":
-          comparison = (a.name || "").localeCompare(b.name || "")
-          break
-        case "company":
-          comparison = (a.company || "").localeCompare(b.company || "")
-          break
-        case "favorite":
-          // Sort by favorite status, then by name
-          const aFav = a.isFavorite ? 1 : 0
-          const bFav = b.isFavorite ? 1 : 0
-          comparison = bFav - aFav // Favorites first
-          if (comparison === 0) {
-            // If same favorite status, sort by name
-            comparison = (a.name || "").localeCompare(b.name || "")
-          }
-          break
-        case "date":
-        default:
-          const aTime = new Date(a.timestamp || 0).getTime()
-          const bTime = new Date(b.timestamp || 0).getTime()
-          
-          // Simple comparison: newer dates should come first by default
-          comparison = bTime - aTime
-          break
-      }
-      
-      return sortDirection === "asc" ? -comparison : comparison
-    })
+    // New cards always at top regardless of sort
+    const pinned = sorted.filter(card => newCards.has(card.id!))
+    const rest = sorted.filter(card => !newCards.has(card.id!))
 
-    setFilteredCards(filtered)
+    setFilteredCards([...pinned, ...rest])
   }
 
   const handleDeleteCard = async (cardId: string) => {
     try {
-      await EnhancedStorageService.deleteCard(userId, cardId)
-      await loadCards()
+      const deleted = cards.find(card => card.id === cardId) || searchResults?.find(card => card.id === cardId)
+      const inTrash = await EnhancedStorageService.deleteCard(userId, cardId)
+      // Drop the card from the loaded pages instead of reloading them
+      setCards(prev => prev.filter(card => card.id !== cardId))
+      setSearchResults(prev => prev && prev.filter(card => card.id !== cardId))
+      setTotalCount(prev => prev === null ? prev : prev - 1)
       setDeleteConfirmCard(null)
-      // No toast notification - just silently delete
+      followUps?.reloadTasks()
+
+      if (inTrash) {
+        toast({
+          title: "Moved to Trash",
+          description: `${deleted?.name || "The card"} can be restored for ${TRASH_RETENTION_DAYS} days.`,
+          action: (
+            <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(cardId)}>
+              Undo
+            </ToastAction>
+          ),
+        })
+      }
     } catch (error) {
       console.error("Failed to delete card:", error)
       toast({
@@ -218,14 +354,36 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     }
   }
 
+  const handleUndoDelete = async (cardId: string) => {
+    try {
+      await EnhancedStorageService.restoreCard(userId, cardId)
+      await loadCards()
+      followUps?.reloadTasks()
+    } catch (error) {
+      console.error("Failed to restore card:", error)
+      toast({
+        title: "Undo failed",
+        description: error instanceof Error ? error.message : "The card is still in the Trash.",
+        variant: "destructive",
+      })
+    }
+  }
+
   const confirmDelete = (card: BusinessCardData) => {
     setDeleteConfirmCard(card)
   }
 
   const handleSaveCard = async (data: BusinessCardData) => {
+    const previous = cards.find(card => card.id === data.id) || searchResults?.find(card => card.id === data.id)
     try {
       await EnhancedStorageService.updateCard(userId, data)
-      await loadCards()
+      const changes = previous ? diffCards(previous, data) : []
+      if (changes.length > 0) {
+        logCardActivity(userId, [data.id!], "edited", { changes })
+      }
+      const replaceCard = (card: BusinessCardData) => card.id === data.id ? { ...card, ...data } : card
+      setCards(prev => prev.map(replaceCard))
+      setSearchResults(prev => prev && prev.map(replaceCard))
       // No toast notification - just silently update
     } catch (error) {
       console.error("Failed to save card:", error)
@@ -237,13 +395,26 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     }
   }
 
+  const handleVersionRestored = (restored: BusinessCardData) => {
+    const replaceCard = (card: BusinessCardData) => card.id === restored.id ? { ...card, ...restored } : card
+    setCards(prev => prev.map(replaceCard))
+    setSearchResults(prev => prev && prev.map(replaceCard))
+  }
+
   const exportToCSV = (cardsToExport: BusinessCardData[]) => {
     exportAsCSV(cardsToExport)
   }
 
-  const handleSmartExport = async (cardsToExport: BusinessCardData[]) => {
+  const handleSmartExport = async () => {
     try {
+      // Only some pages may be loaded; without a search, export the whole collection
+      const cardsToExport = searchResults
+        ? filteredCards
+        : await EnhancedStorageService.getCards(userId)
       await smartExport(cardsToExport)
+      logCardActivity(userId, cardsToExport.map(card => card.id!), "exported", {
+        detail: getSmartExportFormat(cardsToExport.length),
+      })
     } catch (error) {
       console.error('Export failed:', error)
       toast({
@@ -257,6 +428,7 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
   const handleSingleCardExport = async (card: BusinessCardData) => {
     try {
       await smartExport([card])
+      logCardActivity(userId, [card.id!], "exported", { detail: getSmartExportFormat(1) })
     } catch (error) {
       console.error('Contact export failed:', error)
       toast({
@@ -267,27 +439,198 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     }
   }
 
+  // Calls and emails from the list go to the card's activity timeline
+  const logContact = (card: BusinessCardData, fieldType: string, value: string) => {
+    const type = getContactActivityType(fieldType)
+    if (type && card.id) logCardActivity(userId, [card.id], type, { detail: value })
+  }
+
   const toggleCardExpansion = (cardId: string) => {
     setExpandedCard(expandedCard === cardId ? null : cardId)
   }
 
-  const handleFavoriteToggle = (cardId: string, event: React.MouseEvent) => {
+  // Put updated cards in place in the loaded pages and search results
+  const replaceCards = (updatedCards: BusinessCardData[]) => {
+    const byId = new Map(updatedCards.map(card => [card.id, card]))
+    const replace = (card: BusinessCardData) => byId.get(card.id) || card
+    setCards(prev => prev.map(replace))
+    setSearchResults(prev => prev && prev.map(replace))
+  }
+
+  const handleFavoriteToggle = async (card: BusinessCardData, event: React.MouseEvent) => {
     event.stopPropagation()
-    console.log('Toggling favorite for card ID:', cardId)
-    toggleFavorite(cardId)
-    
+
     // Update local state immediately to avoid race condition
-    setCards(prevCards => {
-      const updatedCards = prevCards.map(card => 
-        card.id === cardId 
-          ? { ...card, isFavorite: !card.isFavorite }
-          : card
-      )
-      console.log('Updated cards:', updatedCards.find(c => c.id === cardId))
-      return updatedCards
+    replaceCards([{ ...card, isFavorite: !card.isFavorite }])
+
+    try {
+      await toggleFavorite(card)
+    } catch (error) {
+      console.error("Failed to update favorite:", error)
+      toast({
+        title: "Favorite not saved",
+        description: error instanceof Error ? error.message : "Failed to update the favorite. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const toggleSelected = (cardId: string, event: React.MouseEvent | React.ChangeEvent) => {
+    event.stopPropagation()
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(cardId)) next.delete(cardId)
+      else next.add(cardId)
+      return next
     })
   }
 
+  const handleOrganize = async (change: (card: BusinessCardData) => CardOrganization) => {
+    const selected = filteredCards.filter(card => selectedIds.has(card.id!))
+    try {
+      replaceCards(await organizeCards(selected, change))
+    } catch (error) {
+      console.error("Failed to organize cards:", error)
+      // Offline changes are kept locally; show them anyway
+      replaceCards(selected.map(card => ({ ...card, ...change(card) })))
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Failed to update the cards. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Create or update leads for the cards; failures that may pass are queued and retried
+  const handleSendToCrm = async (cardsToSend: BusinessCardData[]) => {
+    if (!crmSettings) {
+      setShowCrmSettings(true)
+      toast({ title: "Set up your CRM", description: "Choose where cards are sent, then send them again." })
+      return
+    }
+
+    const ids = cardsToSend.map(card => card.id!)
+    setCrmSendingIds(prev => new Set([...Array.from(prev), ...ids]))
+    try {
+      const { sent, queued, failed } = await sendCardsToCrm(userId, crmSettings, cardsToSend)
+      replaceCards([...sent, ...queued, ...failed])
+      const parts = [
+        sent.length > 0 && `${sent.length} sent`,
+        queued.length > 0 && `${queued.length} queued to try again`,
+        failed.length > 0 && `${failed.length} refused${failed.length === 1 && failed[0].crm?.error ? `: ${failed[0].crm.error}` : ""}`,
+      ].filter(Boolean)
+      toast({
+        title: failed.length > 0 ? "Some cards were not sent" : queued.length > 0 ? "Cards queued for the CRM" : `Sent to ${getCrmName(crmSettings)}`,
+        description: parts.join(", "),
+        variant: failed.length > 0 ? "destructive" : undefined,
+      })
+    } catch (error) {
+      console.error("Failed to send cards to the CRM:", error)
+      toast({
+        title: "Send failed",
+        description: error instanceof Error ? error.message : "Failed to send the cards to the CRM. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setCrmSendingIds(prev => new Set(Array.from(prev).filter(id => !ids.includes(id))))
+    }
+  }
+
+  const handleCreateGroup = async (name: string, color: GroupColor) => {
+    try {
+      return await createGroup(name, color)
+    } catch (error) {
+      console.error("Failed to create group:", error)
+      toast({
+        title: "Group not created",
+        description: error instanceof Error ? error.message : "Failed to create the group. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDeleteGroup = async (group: CardGroup) => {
+    try {
+      await deleteGroup(group.id)
+      const removeGroup = (card: BusinessCardData) =>
+        card.groupIds?.includes(group.id) ? { ...card, groupIds: card.groupIds.filter(id => id !== group.id) } : card
+      setCards(prev => prev.map(removeGroup))
+      setSearchResults(prev => prev && prev.map(removeGroup))
+    } catch (error) {
+      console.error("Failed to delete group:", error)
+      toast({
+        title: "Group not deleted",
+        description: error instanceof Error ? error.message : "Failed to delete the group. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Event, tags and groups shown on a row
+  const renderOrganization = (card: BusinessCardData) => {
+    const cardGroups = getCardGroups(card, groups)
+    if (cardGroups.length === 0 && !card.tags?.length && !card.event?.name) return null
+
+    return (
+      <div className="flex flex-wrap items-center gap-1 mt-1">
+        {card.event?.name && (
+          <span
+            className="inline-flex items-center gap-1 text-xs text-muted-foreground"
+            title={formatEvent(card.event)}
+          >
+            <CalendarDays className="w-3 h-3" />
+            {card.event.name}
+          </span>
+        )}
+        {cardGroups.map(group => (
+          <span
+            key={group.id}
+            className={`inline-flex items-center gap-1 text-xs px-1.5 py-0.5 rounded ${GROUP_COLORS[group.color].badge}`}
+          >
+            <span className={`w-1.5 h-1.5 rounded-full ${GROUP_COLORS[group.color].dot}`} />
+            {group.name}
+          </span>
+        ))}
+        {card.tags?.map(tag => (
+          <Badge key={tag} variant="outline" className="text-xs font-normal px-1.5 py-0">
+            {tag}
+          </Badge>
+        ))}
+      </div>
+    )
+  }
+
+  // Where the card stands in the CRM, next to its organization
+  const renderCrmStatus = (card: BusinessCardData) => {
+    if (!card.crm) return null
+    const { state, error, sentAt } = card.crm
+    const label = state === "sent" ? "In CRM" : state === "queued" ? "CRM queued" : "CRM failed"
+    const title = state === "sent"
+      ? `Sent ${sentAt ? new Date(sentAt).toLocaleString() : ""}`
+      : error || label
+
+    return (
+      <Badge
+        variant={state === "failed" ? "destructive" : state === "queued" ? "secondary" : "outline"}
+        className="text-xs font-normal px-1.5 py-0 mt-1"
+        title={title}
+      >
+        <Send className="w-3 h-3 mr-1" />
+        {label}
+      </Badge>
+    )
+  }
+
+  // The event filter lives in the query as event:"name", so it combines with other filters
+  const eventFilter = parseSearchQuery(searchQuery).filters.find(filter =>
+    filter.type === "text" && filter.field === "event" && !filter.negate
+  )
+  const selectedEvent = eventFilter?.type === "text" ? eventFilter.value : null
+
+  const handleEventFilter = (event: CardEvent | null) => {
+    setSearchQuery(setQueryFilter(searchQuery, "event", event?.name || null))
+  }
+
   const handleContactSelect = (contact: BusinessCardData) => {
     if (contact.id) {
       setExpandedCard(contact.id)
@@ -295,8 +638,23 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     onCardSelect?.(contact)
   }
 
+  // Where a search matched when it was in a field the list does not show (notes, department, city...)
+  const renderSearchSnippet = (card: BusinessCardData) => {
+    if (!searchResults) return null
+    const terms = searchTerms[card.id!] || []
+    const snippet = getSearchSnippet(card, terms)
+    if (!snippet) return null
+
+    return (
+      <p className="text-xs text-muted-foreground truncate mt-1">
+        <span className="font-medium">{SEARCH_FIELD_LABELS[snippet.field]}:</span>{" "}
+        <HighlightedText text={snippet.text} terms={terms} />
+      </p>
+    )
+  }
+
   const SortableHeader = ({ field, children, className = "" }: { 
-    field: "date" | "name" | "company" | "favorite", 
+    field: CardSortField, 
     children: React.ReactNode,
     className?: string 
   }) => {
@@ -326,6 +684,8 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     )
   }
 
+  const exportCount = searchResults ? filteredCards.length : totalCount ?? filteredCards.length
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -337,19 +697,77 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
     )
   }
 
+  if (showMap) {
+    return (
+      <ContactMap
+        userId={userId}
+        onClose={() => setShowMap(false)}
+        onCardSelect={(card) => {
+          // The card may be beyond the loaded pages; add it so it can be expanded in the list
+          setCards(prev => prev.some(loaded => loaded.id === card.id) ? prev : [...prev, card])
+          setExpandedCard(card.id!)
+          setShowMap(false)
+        }}
+      />
+    )
+  }
+
+  if (showTrash) {
+    return (
+      <TrashView
+        userId={userId}
+        onClose={() => setShowTrash(false)}
+        onCardsChanged={async () => {
+          await loadCards()
+          followUps?.reloadTasks()
+        }}
+      />
+    )
+  }
+
+  if (showAddressBook) {
+    return (
+      <AddressBookSync
+        userId={userId}
+        onClose={() => setShowAddressBook(false)}
+        onCardsChanged={loadCards}
+      />
+    )
+  }
+
+  if (showCrmSettings) {
+    return (
+      <CrmConnectorSettings
+        settings={crmSettings}
+        onSave={setCrmSettings}
+        onClose={() => setShowCrmSettings(false)}
+      />
+    )
+  }
+
+  if (showWebhooks) {
+    return <WebhookSettings userId={userId} onClose={() => setShowWebhooks(false)} />
+  }
+
+  if (showAccessTokens) {
+    return <AccessTokenSettings userId={userId} onClose={() => setShowAccessTokens(false)} />
+  }
+
+  if (showDuplicates) {
+    return (
+      <DuplicateFinder
+        userId={userId}
+        onClose={() => setShowDuplicates(false)}
+        onCardsChanged={loadCards}
+      />
+    )
+  }
+
   return (
     <div className="space-y-6">
       {/* Search and Filter Bar */}
       <div className="flex flex-col space-y-3 sm:flex-row sm:space-y-0 sm:gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-          <Input
-            placeholder="Search cards..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
-        </div>
+        <SearchQueryInput userId={userId} value={searchQuery} onChange={setSearchQuery} />
         <div className="flex gap-2">
           {/* Mobile Sort Dropdown - Only visible on mobile */}
           <DropdownMenu>
@@ -400,18 +818,123 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
             </DropdownMenuContent>
           </DropdownMenu>
           
+          {knownEvents.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant={selectedEvent ? "secondary" : "outline"} className="shrink-0 max-w-[12rem]" title="Filter by event">
+                  <CalendarDays className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline truncate">{selectedEvent || "Events"}</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-64">
+                <DropdownMenuItem onClick={() => handleEventFilter(null)}>
+                  All events
+                  {!selectedEvent && <Check className="w-4 h-4 ml-auto" />}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {knownEvents.map(event => (
+                  <DropdownMenuItem key={event.name} onClick={() => handleEventFilter(event)}>
+                    <div className="min-w-0">
+                      <div className="truncate">{event.name}</div>
+                      {(event.date || event.location) && (
+                        <div className="text-xs text-muted-foreground truncate">
+                          {[event.date && formatEventDate(event.date), event.location].filter(Boolean).join(" · ")}
+                        </div>
+                      )}
+                    </div>
+                    {selectedEvent && normalizeText(selectedEvent) === normalizeText(event.name) && (
+                      <Check className="w-4 h-4 ml-auto shrink-0" />
+                    )}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          <Button
+            variant="outline"
+            onClick={() => setShowMap(true)}
+            disabled={(totalCount ?? cards.length) === 0}
+            className="shrink-0"
+            title="Map"
+          >
+            <MapIcon className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Map</span>
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => setShowDuplicates(true)}
+            disabled={(totalCount ?? cards.length) < 2}
+            className="shrink-0"
+            title="Find duplicates"
+          >
+            <GitMerge className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Find Duplicates</span>
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => setShowTrash(true)}
+            className="shrink-0"
+            title="Trash"
+          >
+            <Archive className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Trash</span>
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => setShowAddressBook(true)}
+            className="shrink-0"
+            title="Address book"
+          >
+            <BookUser className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Address Book</span>
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => setShowCrmSettings(true)}
+            className="shrink-0"
+            title="CRM settings"
+          >
+            <Send className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">CRM</span>
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => setShowWebhooks(true)}
+            className="shrink-0"
+            title="Webhooks"
+          >
+            <WebhookIcon className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Webhooks</span>
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => setShowAccessTokens(true)}
+            className="shrink-0"
+            title="API access tokens"
+          >
+            <KeyRound className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">API</span>
+          </Button>
+
           <Button 
             variant="outline" 
-            onClick={() => handleSmartExport(filteredCards)} 
+            onClick={handleSmartExport} 
             disabled={filteredCards.length === 0}
             className="shrink-0"
           >
-            {isMobileDevice() && filteredCards.length === 1 ? (
+            {isMobileDevice() && exportCount === 1 ? (
               <UserPlus className="w-4 h-4 sm:mr-2" />
             ) : (
               <Download className="w-4 h-4 sm:mr-2" />
             )}
-            <span className="hidden sm:inline">{getExportButtonText(filteredCards.length)}</span>
+            <span className="hidden sm:inline">{getExportButtonText(exportCount)}</span>
           </Button>
         </div>
       </div>
@@ -419,18 +942,33 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
       {/* Results Summary */}
       <div className="flex items-center justify-between">
         <p className="text-sm text-muted-foreground">
-          {filteredCards.length} of {cards.length} cards
-          {searchQuery && ` matching "${searchQuery}"`}
+          {searchResults
+            ? `${searchResults.length} cards matching "${searchQuery}", best matches first`
+            : `${filteredCards.length} of ${totalCount ?? filteredCards.length} cards`}
         </p>
       </div>
 
+      {/* Bulk organize */}
+      {selectedIds.size > 0 && (
+        <OrganizeToolbar
+          selectedCards={filteredCards.filter(card => selectedIds.has(card.id!))}
+          groups={groups}
+          knownTags={collectTags([...cards, ...(searchResults || [])])}
+          onOrganize={handleOrganize}
+          onCreateGroup={handleCreateGroup}
+          onDeleteGroup={handleDeleteGroup}
+          onClearSelection={() => setSelectedIds(new Set())}
+          onSendToCrm={() => handleSendToCrm(filteredCards.filter(card => selectedIds.has(card.id!)))}
+        />
+      )}
+
       {/* Cards List */}
       {filteredCards.length === 0 ? (
         <div className="text-center py-12">
           <SimpleBusinessCardIcon className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-          <h3 className="text-lg font-medium mb-2">{cards.length === 0 ? "No cards yet" : "No cards found"}</h3>
+          <h3 className="text-lg font-medium mb-2">{!searchResults ? "No cards yet" : "No cards found"}</h3>
           <p className="text-muted-foreground">
-            {cards.length === 0 ? "Upload your first business card to get started" : "Try adjusting your search terms"}
+            {!searchResults ? "Upload your first business card to get started" : "Try adjusting your search terms"}
           </p>
         </div>
       ) : (
@@ -438,7 +976,15 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
           {/* Desktop Table Header - Hidden on mobile */}
           <div className="hidden md:block bg-muted/50 px-6 py-3 border-b">
             <div className="grid grid-cols-12 gap-4 items-center text-sm font-medium">
-              <div className="col-span-1"></div>
+              <div className="col-span-1">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={filteredCards.length > 0 && filteredCards.every(card => selectedIds.has(card.id!))}
+                  onChange={(e) => setSelectedIds(e.target.checked ? new Set(filteredCards.map(card => card.id!)) : new Set())}
+                  title="Select all"
+                />
+              </div>
               <div className="col-span-1 text-muted-foreground">Image</div>
               <div className="col-span-1">
                 <SortableHeader field="favorite">★</SortableHeader>
@@ -459,13 +1005,21 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
 
           {/* Table Rows */}
           {filteredCards.map((card) => (
-            <div key={card.id} className="border-b last:border-b-0">
+            <div key={card.id} id={`card-${card.id}`} className="border-b last:border-b-0">
               {/* Mobile Layout */}
               <div 
                 className="md:hidden p-4 hover:bg-muted/20 cursor-pointer transition-colors"
                 onClick={() => toggleCardExpansion(card.id!)}
               >
                 <div className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 mt-3 shrink-0"
+                    checked={selectedIds.has(card.id!)}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => toggleSelected(card.id!, e)}
+                  />
+
                   {/* Thumbnail */}
                   <div className="flex-shrink-0">
                     {card.thumbnailBase64 ? (
@@ -488,14 +1042,16 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={(e) => handleFavoriteToggle(card.id!, e)}
+                          onClick={(e) => handleFavoriteToggle(card, e)}
                           className="h-6 w-6 p-0"
                         >
                           <Star 
                             className={`w-4 h-4 ${card.isFavorite ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`} 
                           />
                         </Button>
-                        <h3 className="font-medium truncate">{card.name || "Unknown Name"}</h3>
+                        <h3 className="font-medium truncate">
+                          <HighlightedText text={card.name || "Unknown Name"} terms={searchTerms[card.id!]} />
+                        </h3>
                         {newCards.has(card.id!) && (
                           <Badge variant="default" className="text-xs bg-green-500 hover:bg-green-600 text-white animate-pulse">
                             NEW
@@ -513,15 +1069,19 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                     
                     {card.company && (
                       <p className="text-sm text-muted-foreground truncate mt-1">
-                        {card.company}
+                        <HighlightedText text={card.company} terms={searchTerms[card.id!]} />
                       </p>
                     )}
                     
                     {card.jobTitle && (
                       <p className="text-sm text-muted-foreground truncate">
-                        {card.jobTitle}
+                        <HighlightedText text={card.jobTitle} terms={searchTerms[card.id!]} />
                       </p>
                     )}
+
+                    {renderSearchSnippet(card)}
+                    {renderOrganization(card)}
+                    {renderCrmStatus(card)}
                     
                     {/* Contact Info for Mobile */}
                     {(card.phone || card.email) && (
@@ -530,6 +1090,8 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                           <InteractiveContactField
                             type="phone"
                             value={card.phone}
+                            onContact={() => logContact(card, "phone", card.phone!)}
+                            e164={card.phoneE164}
                             className="text-xs bg-blue-50 hover:bg-blue-100 dark:bg-blue-950 dark:hover:bg-blue-900 px-2 py-1 rounded-full"
                             iconClassName="w-3 h-3"
                             truncate={true}
@@ -539,6 +1101,7 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                           <InteractiveContactField
                             type="email"
                             value={card.email}
+                            onContact={() => logContact(card, "email", card.email!)}
                             className="text-xs bg-green-50 hover:bg-green-100 dark:bg-green-950 dark:hover:bg-green-900 px-2 py-1 rounded-full"
                             iconClassName="w-3 h-3"
                             truncate={true}
@@ -566,6 +1129,18 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                             <Download className="w-3 h-3" />
                           )}
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleSendToCrm([card])
+                          }}
+                          disabled={crmSendingIds.has(card.id!)}
+                          title="Send to CRM"
+                        >
+                          <Send className="w-3 h-3" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -589,8 +1164,15 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                 onClick={() => toggleCardExpansion(card.id!)}
               >
                 <div className="grid grid-cols-12 gap-4 items-center">
-                  {/* Expand/Collapse Icon */}
-                  <div className="col-span-1">
+                  {/* Selection and Expand/Collapse Icon */}
+                  <div className="col-span-1 flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={selectedIds.has(card.id!)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => toggleSelected(card.id!, e)}
+                    />
                     {expandedCard === card.id ? (
                       <ChevronDown className="w-4 h-4 text-muted-foreground" />
                     ) : (
@@ -618,7 +1200,7 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={(e) => handleFavoriteToggle(card.id!, e)}
+                      onClick={(e) => handleFavoriteToggle(card, e)}
                       className="h-6 w-6 p-0"
                     >
                       <Star 
@@ -630,7 +1212,9 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                   {/* Name & Title */}
                   <div className="col-span-2">
                     <div className="flex items-center gap-2">
-                      <div className="font-medium">{card.name || "Unknown Name"}</div>
+                      <div className="font-medium">
+                        <HighlightedText text={card.name || "Unknown Name"} terms={searchTerms[card.id!]} />
+                      </div>
                       {newCards.has(card.id!) && (
                         <Badge variant="default" className="text-xs bg-green-500 hover:bg-green-600 text-white animate-pulse">
                           NEW
@@ -638,15 +1222,22 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                       )}
                     </div>
                     {card.jobTitle && (
-                      <div className="text-sm text-muted-foreground">{card.jobTitle}</div>
+                      <div className="text-sm text-muted-foreground">
+                        <HighlightedText text={card.jobTitle} terms={searchTerms[card.id!]} />
+                      </div>
                     )}
+                    {renderSearchSnippet(card)}
+                    {renderOrganization(card)}
+                    {renderCrmStatus(card)}
                   </div>
 
                   {/* Company */}
                   <div className="col-span-3">
                     <div className="flex items-center">
                       <Building className="w-4 h-4 mr-2 text-muted-foreground" />
-                      <span>{card.company || "—"}</span>
+                      <span>
+                        {card.company ? <HighlightedText text={card.company} terms={searchTerms[card.id!]} /> : "—"}
+                      </span>
                     </div>
                   </div>
 
@@ -657,6 +1248,8 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                         <InteractiveContactField
                           type="phone"
                           value={card.phone}
+                          onContact={() => logContact(card, "phone", card.phone!)}
+                          e164={card.phoneE164}
                           iconClassName="w-3 h-3 mr-1 text-muted-foreground"
                           className="text-sm"
                           truncate={true}
@@ -669,6 +1262,8 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                         <InteractiveContactField
                           type="phone"
                           value={card.mobile}
+                          onContact={() => logContact(card, "phone", card.mobile!)}
+                          e164={card.mobileE164}
                           showIcon={false}
                           className="text-xs"
                           truncate={true}
@@ -680,6 +1275,7 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                         <InteractiveContactField
                           type="email"
                           value={card.email}
+                          onContact={() => logContact(card, "email", card.email!)}
                           iconClassName="w-3 h-3 mr-1 text-muted-foreground"
                           className="text-sm"
                           truncate={true}
@@ -710,6 +1306,18 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                           <Download className="w-3 h-3" />
                         )}
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleSendToCrm([card])
+                        }}
+                        disabled={crmSendingIds.has(card.id!)}
+                        title="Send to CRM"
+                      >
+                        <Send className="w-3 h-3" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -733,7 +1341,20 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
                     data={card}
                     onSave={handleSaveCard}
                     isEditable={true}
+                    knownEvents={knownEvents}
+                    onActivity={(type, details) => logCardActivity(userId, [card.id!], type, details)}
                   />
+                  {followUps && (
+                    <div className="mt-6 pt-6 border-t">
+                      <FollowUpTasks card={card} followUps={followUps} />
+                    </div>
+                  )}
+                  <div className="mt-6 pt-6 border-t">
+                    <ActivityTimeline userId={userId} card={card} />
+                  </div>
+                  <div className="mt-6 pt-6 border-t">
+                    <CardHistory userId={userId} card={card} onRestored={handleVersionRestored} />
+                  </div>
                 </div>
               )}
             </div>
@@ -741,6 +1362,19 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
         </div>
       )}
 
+      {/* Infinite scroll: the next page loads when this comes into view */}
+      {!searchResults && cursor && (
+        <div ref={sentinelRef} className="flex justify-center py-4">
+          {loadingMore ? (
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          ) : (
+            <Button variant="ghost" size="sm" onClick={loadMoreCards}>
+              Load more
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteConfirmCard} onOpenChange={() => setDeleteConfirmCard(null)}>
         <AlertDialogContent>
@@ -750,7 +1384,7 @@ export const CardBrowser = forwardRef<CardBrowserRef, CardBrowserProps>(({ userI
               Are you sure you want to delete {deleteConfirmCard?.name ? `${deleteConfirmCard.name}'s` : "this"} business card?
               {deleteConfirmCard?.company && ` (${deleteConfirmCard.company})`}
               <br />
-              This action cannot be undone.
+              It stays in the Trash for {TRASH_RETENTION_DAYS} days and can be restored until then.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
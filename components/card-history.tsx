@@ -0,0 +1,127 @@
+"use client"
+
+import { useCallback, useState, useEffect } from "react"
+import { History, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { BusinessCardData, CardVersion } from "@/types"
+import { EnhancedStorageService } from "@/services/enhanced-storage-service"
+import { logCardActivity } from "@/services/activity-log-service"
+import { ACTIVITY_FIELD_LABELS, diffCards } from "@/lib/card-activity"
+import { useToast } from "@/hooks/use-toast"
+
+interface CardHistoryProps {
+  userId: string
+  card: BusinessCardData
+  onRestored: (card: BusinessCardData) => void
+}
+
+// Earlier versions of a card with who replaced them and what changed; any version can be restored.
+// Loaded on demand since most cards are opened without looking at their history.
+export function CardHistory({ userId, card, onRestored }: CardHistoryProps) {
+  const [versions, setVersions] = useState<CardVersion[] | null>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setVersions(await EnhancedStorageService.getVersions(userId, card.id!))
+    } catch (error) {
+      console.error("Failed to load card history:", error)
+      setVersions([])
+      toast({
+        title: "History unavailable",
+        description: error instanceof Error ? error.message : "Failed to load the card history.",
+        variant: "destructive",
+      })
+    }
+  }, [userId, card.id, toast])
+
+  // Load when the history opens, and again on an edit while it is open (which adds a version)
+  useEffect(() => {
+    if (isOpen) loadVersions()
+  }, [card, isOpen, loadVersions])
+
+  const handleToggle = () => {
+    setIsOpen(!isOpen)
+  }
+
+  const handleRestore = async (version: CardVersion) => {
+    setRestoringId(version.id)
+    try {
+      const restored = await EnhancedStorageService.restoreVersion(userId, card, version)
+      logCardActivity(userId, [card.id!], "edited", {
+        detail: `restored the version from ${new Date(version.replacedAt).toLocaleString()}`,
+        changes: diffCards(card, restored),
+      })
+      onRestored(restored)
+    } catch (error) {
+      console.error("Failed to restore version:", error)
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "Failed to restore this version. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <Button variant="ghost" size="sm" onClick={handleToggle} className="px-0 hover:bg-transparent">
+        <History className="w-4 h-4 mr-2" />
+        {isOpen ? "Hide edit history" : "Show edit history"}
+      </Button>
+
+      {isOpen && (
+        versions === null ? (
+          <p className="text-xs text-muted-foreground">Loading history...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">This card has not been edited yet.</p>
+        ) : (
+          <ol className="space-y-3">
+            {versions.map((version, index) => {
+              // Each version was replaced by the next newer one, the newest by the card as it is now
+              const changes = diffCards(version.data, index === 0 ? card : versions[index - 1].data)
+              return (
+                <li key={version.id} className="border rounded-md p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="text-xs text-muted-foreground">
+                      Replaced <time dateTime={version.replacedAt}>{new Date(version.replacedAt).toLocaleString()}</time>
+                      {version.replacedBy?.name && ` by ${version.replacedBy.name}`}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(version)}
+                      disabled={restoringId !== null}
+                      className="shrink-0"
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      {restoringId === version.id ? "Restoring..." : "Restore"}
+                    </Button>
+                  </div>
+                  {changes.length > 0 ? (
+                    <ul className="space-y-0.5 text-xs text-muted-foreground">
+                      {changes.map(change => (
+                        <li key={change.field} className="break-words">
+                          <span className="font-medium">{ACTIVITY_FIELD_LABELS[change.field] || change.field}:</span>{" "}
+                          {change.from || <span className="italic">empty</span>}
+                          {" → "}
+                          {change.to || <span className="italic">empty</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Other details changed</p>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,310 @@
+"use client"
+
+import { useCallback, useState, useEffect, useMemo, useRef } from "react"
+import { ArrowLeft, Building, MapPin, Plus, Minus, Crosshair } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { cn } from "@/lib/utils"
+import type { BusinessCardData, GeoPoint } from "@/types"
+import { EnhancedStorageService } from "@/services/enhanced-storage-service"
+import { useToast } from "@/hooks/use-toast"
+import { formatEvent } from "@/lib/card-events"
+import {
+  MAX_ZOOM,
+  MIN_ZOOM,
+  TILE_SIZE,
+  fitPoints,
+  getCardMapPoint,
+  needsGeocoding,
+  project,
+  unproject,
+  type MapMode,
+} from "@/lib/geo-utils"
+
+interface ContactMapProps {
+  userId: string
+  onClose: () => void
+  onCardSelect: (card: BusinessCardData) => void
+}
+
+interface MapCluster {
+  key: string
+  x: number  // Pixel position in the view
+  y: number
+  cards: BusinessCardData[]
+}
+
+// Raster tiles in the usual {z}/{x}/{y} scheme; OpenStreetMap unless configured
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png"
+const MAP_HEIGHT = 420
+const CLUSTER_CELL = 36 // Markers closer than this (in pixels) are shown as one
+
+function getTileUrl(x: number, y: number, zoom: number): string {
+  return TILE_URL.replace("{z}", String(zoom)).replace("{x}", String(x)).replace("{y}", String(y))
+}
+
+// Map of the collection: contacts by office address, or by where the card was captured
+export function ContactMap({ userId, onClose, onCardSelect }: ContactMapProps) {
+  const [cards, setCards] = useState<BusinessCardData[] | null>(null)
+  const [mode, setMode] = useState<MapMode>("office")
+  const [view, setView] = useState<{ center: GeoPoint; zoom: number } | null>(null)
+  const [width, setWidth] = useState(640)
+  const [selected, setSelected] = useState<BusinessCardData[] | null>(null)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ x: number; y: number; center: { x: number; y: number } } | null>(null)
+  const { toast } = useToast()
+
+  const isLoaded = cards !== null
+
+  // Locate addresses that were never geocoded (or changed since)
+  const geocode = useCallback(async (all: BusinessCardData[]) => {
+    if (!all.some(needsGeocoding)) return
+    try {
+      const updated = await EnhancedStorageService.geocodeCards(userId, all, (done, total) => setProgress({ done, total }))
+      if (updated.length === 0) return
+      const byId = new Map(updated.map(card => [card.id, card]))
+      setCards(prev => prev && prev.map(card => byId.get(card.id) || card))
+    } catch (error) {
+      console.error("Failed to locate addresses:", error)
+      toast({
+        title: "Some addresses could not be located",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      })
+    } finally {
+      setProgress(null)
+    }
+  }, [userId, toast])
+
+  // The card list only holds the loaded pages, so fetch the whole collection
+  const loadCards = useCallback(async () => {
+    let all: BusinessCardData[] = []
+    try {
+      all = await EnhancedStorageService.getCards(userId)
+    } catch (error) {
+      console.error("Failed to load cards for the map:", error)
+    }
+    setCards(all)
+    await geocode(all)
+  }, [userId, geocode])
+
+  useEffect(() => {
+    loadCards()
+  }, [loadCards])
+
+  // Follow the container width
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [isLoaded])
+
+  const located = useMemo(() => (cards || [])
+    .map(card => ({ card, point: getCardMapPoint(card, mode) }))
+    .filter((entry): entry is { card: BusinessCardData; point: GeoPoint } => !!entry.point), [cards, mode])
+
+  const fitAll = useCallback(() => {
+    setView(fitPoints(located.map(entry => entry.point), width, MAP_HEIGHT))
+  }, [located, width])
+
+  // Show every contact when the map opens, the mode changes or more addresses are located
+  useEffect(() => {
+    if (!isLoaded) return
+    fitAll()
+    setSelected(null)
+  }, [fitAll, isLoaded])
+
+  const zoomBy = (delta: number) => {
+    setView(prev => prev && { ...prev, zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.zoom + delta)) })
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!view) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { x: event.clientX, y: event.clientY, center: project(view.center, view.zoom) }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag || !view) return
+    const center = unproject(
+      drag.center.x - (event.clientX - drag.x),
+      drag.center.y - (event.clientY - drag.y),
+      view.zoom
+    )
+    setView({ ...view, center })
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+  }
+
+  // Tiles and marker clusters for the current view
+  const tiles: Array<{ key: string; url: string; left: number; top: number }> = []
+  let clusters: MapCluster[] = []
+  if (view) {
+    const centerPx = project(view.center, view.zoom)
+    const left = centerPx.x - width / 2
+    const top = centerPx.y - MAP_HEIGHT / 2
+    const tileCount = Math.pow(2, view.zoom)
+
+    for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + MAP_HEIGHT) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue
+      for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount
+        tiles.push({
+          key: `${view.zoom}/${tx}/${ty}`,
+          url: getTileUrl(wrappedX, ty, view.zoom),
+          left: tx * TILE_SIZE - left,
+          top: ty * TILE_SIZE - top,
+        })
+      }
+    }
+
+    const cells = new Map<string, MapCluster>()
+    for (const { card, point } of located) {
+      const px = project(point, view.zoom)
+      const x = px.x - left
+      const y = px.y - top
+      const key = `${Math.round(x / CLUSTER_CELL)}:${Math.round(y / CLUSTER_CELL)}`
+      const cluster = cells.get(key)
+      if (cluster) {
+        cluster.cards.push(card)
+      } else {
+        cells.set(key, { key, x, y, cards: [card] })
+      }
+    }
+    clusters = Array.from(cells.values())
+  }
+
+  const unlocatedCount = (cards?.length || 0) - located.length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back
+          </Button>
+          <h3 className="text-lg font-medium">Map</h3>
+        </div>
+        <div className="flex gap-2">
+          <Button variant={mode === "office" ? "default" : "outline"} size="sm" onClick={() => setMode("office")}>
+            <Building className="w-4 h-4 mr-2" />
+            Offices
+          </Button>
+          <Button variant={mode === "met" ? "default" : "outline"} size="sm" onClick={() => setMode("met")}>
+            <MapPin className="w-4 h-4 mr-2" />
+            Where we met
+          </Button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={(progress.done / progress.total) * 100} />
+          <p className="text-xs text-muted-foreground">Locating {progress.done} of {progress.total} addresses...</p>
+        </div>
+      )}
+
+      {cards === null ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-muted-foreground">Loading your cards...</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {located.length} of {cards.length} contacts on the map
+            {unlocatedCount > 0 && (mode === "office"
+              ? ` · ${unlocatedCount} without a known address`
+              : ` · ${unlocatedCount} captured without a location (turn on the location stamp in the camera)`)}
+          </p>
+
+          <div
+            ref={containerRef}
+            className="relative overflow-hidden rounded-lg border bg-muted touch-none select-none cursor-grab active:cursor-grabbing"
+            style={{ height: MAP_HEIGHT }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {tiles.map(tile => (
+              <img
+                key={tile.key}
+                src={tile.url}
+                alt=""
+                draggable={false}
+                className="absolute max-w-none pointer-events-none"
+                style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+              />
+            ))}
+
+            {clusters.map(cluster => (
+              <button
+                key={cluster.key}
+                type="button"
+                className={cn(
+                  "absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-md text-xs font-semibold text-white flex items-center justify-center",
+                  mode === "office" ? "bg-blue-600" : "bg-orange-500",
+                  cluster.cards.length > 1 ? "w-8 h-8" : "w-5 h-5"
+                )}
+                style={{ left: cluster.x, top: cluster.y }}
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => setSelected(cluster.cards)}
+                onDoubleClick={() => zoomBy(2)}
+                title={cluster.cards.map(card => card.name || card.company || "Unknown").join(", ")}
+              >
+                {cluster.cards.length > 1 ? cluster.cards.length : ""}
+              </button>
+            ))}
+
+            <div className="absolute top-2 right-2 flex flex-col gap-1" onPointerDown={(e) => e.stopPropagation()}>
+              <Button variant="secondary" size="icon" className="h-8 w-8" onClick={() => zoomBy(1)} title="Zoom in">
+                <Plus className="w-4 h-4" />
+              </Button>
+              <Button variant="secondary" size="icon" className="h-8 w-8" onClick={() => zoomBy(-1)} title="Zoom out">
+                <Minus className="w-4 h-4" />
+              </Button>
+              <Button variant="secondary" size="icon" className="h-8 w-8" onClick={fitAll} title="Show all">
+                <Crosshair className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="absolute bottom-0 right-0 bg-background/80 px-1 text-[10px] text-muted-foreground">
+              © OpenStreetMap contributors
+            </div>
+          </div>
+
+          {/* Contacts of the selected marker */}
+          {selected && (
+            <div className="border rounded-lg divide-y">
+              {selected.map(card => (
+                <button
+                  key={card.id}
+                  type="button"
+                  className="w-full text-left px-4 py-2 hover:bg-muted/50"
+                  onClick={() => onCardSelect(card)}
+                >
+                  <div className="font-medium text-sm">{card.name || "Unknown"}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {[card.company, mode === "office" ? card.address : card.event && formatEvent(card.event)]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
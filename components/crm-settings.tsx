@@ -0,0 +1,215 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowLeft, ChevronDown, Plus, Unplug, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { CSV_FIELD_LABELS, CSV_FIELD_OPTIONS } from "@/lib/csv-import"
+import { CRM_OBJECT_PRESETS, type CrmFieldMapping, type CrmObjectPreset } from "@/lib/crm-mapping"
+import type { CrmConnectorName, CrmSettings } from "@/services/crm-service"
+
+interface CrmConnectorSettingsProps {
+  settings: CrmSettings | null
+  onSave: (settings: CrmSettings | null) => void
+  onClose: () => void
+}
+
+const CONNECTOR_LABELS: Record<CrmConnectorName, string> = {
+  rest: "REST API",
+  webhook: "Webhook",
+}
+
+const DEFAULT_SETTINGS: CrmSettings = {
+  connector: "rest",
+  url: "",
+  apiKey: "",
+  objectType: CRM_OBJECT_PRESETS.lead.objectType,
+  mapping: CRM_OBJECT_PRESETS.lead.mapping,
+}
+
+// Where "Send to CRM" sends cards: the endpoint, its API key and which card field fills each
+// field of the lead or contact
+export function CrmConnectorSettings({ settings, onSave, onClose }: CrmConnectorSettingsProps) {
+  const [draft, setDraft] = useState<CrmSettings>(settings || DEFAULT_SETTINGS)
+
+  const update = (changes: Partial<CrmSettings>) => setDraft(prev => ({ ...prev, ...changes }))
+
+  const setMappingRow = (index: number, changes: Partial<CrmFieldMapping>) => {
+    update({ mapping: draft.mapping.map((row, i) => i === index ? { ...row, ...changes } : row) })
+  }
+
+  const applyPreset = (preset: CrmObjectPreset) => {
+    update({ objectType: CRM_OBJECT_PRESETS[preset].objectType, mapping: CRM_OBJECT_PRESETS[preset].mapping })
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    onSave({
+      ...draft,
+      url: draft.url.trim(),
+      apiKey: draft.apiKey?.trim() || undefined,
+      objectType: draft.objectType.trim(),
+      mapping: draft.mapping.filter(row => row.crmField.trim()),
+    })
+    onClose()
+  }
+
+  const handleDisconnect = () => {
+    onSave(null)
+    onClose()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </Button>
+        <h3 className="text-lg font-medium">CRM</h3>
+      </div>
+
+      <form onSubmit={handleSubmit} className="border rounded-lg p-4 space-y-4 max-w-2xl">
+        <div className="space-y-1">
+          <Label>Connector</Label>
+          <div className="flex gap-2">
+            {(Object.keys(CONNECTOR_LABELS) as CrmConnectorName[]).map(connector => (
+              <Button
+                key={connector}
+                type="button"
+                size="sm"
+                variant={draft.connector === connector ? "secondary" : "outline"}
+                onClick={() => update({ connector })}
+              >
+                {CONNECTOR_LABELS[connector]}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {draft.connector === "rest"
+              ? "New cards are created with POST to the URL; cards sent before are updated with PATCH to the URL followed by the record ID the CRM answered with."
+              : "Every send is POSTed to the URL as { objectType, sourceId, externalId, fields }; the receiver creates or updates the record."}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="crm-url">{draft.connector === "rest" ? "Collection URL" : "Webhook URL"}</Label>
+          <Input
+            id="crm-url"
+            type="url"
+            placeholder={draft.connector === "rest" ? "https://crm.example.com/api/leads" : "https://hooks.example.com/card-scan"}
+            value={draft.url}
+            onChange={(e) => update({ url: e.target.value })}
+            required
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="crm-api-key">API key</Label>
+          <Input
+            id="crm-api-key"
+            type="password"
+            autoComplete="off"
+            placeholder="Sent as a bearer token; leave empty if not needed"
+            value={draft.apiKey || ""}
+            onChange={(e) => update({ apiKey: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="crm-object-type">Record type</Label>
+              <Input
+                id="crm-object-type"
+                className="w-40"
+                value={draft.objectType}
+                onChange={(e) => update({ objectType: e.target.value })}
+                required
+              />
+            </div>
+            {(Object.keys(CRM_OBJECT_PRESETS) as CrmObjectPreset[]).map(preset => (
+              <Button key={preset} type="button" variant="outline" size="sm" onClick={() => applyPreset(preset)}>
+                {CRM_OBJECT_PRESETS[preset].label}
+              </Button>
+            ))}
+          </div>
+
+          <Label>Fields</Label>
+          <div className="space-y-1">
+            {draft.mapping.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={row.crmField}
+                  onChange={(e) => setMappingRow(index, { crmField: e.target.value })}
+                  placeholder="CRM field"
+                  className="h-8 w-44"
+                />
+                <span className="text-xs text-muted-foreground">from</span>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button type="button" variant="outline" size="sm" className="h-8 w-44 justify-between font-normal">
+                      <span className="truncate">{CSV_FIELD_LABELS[row.cardField]}</span>
+                      <ChevronDown className="w-3 h-3 ml-1 shrink-0" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start" className="w-56 max-h-72 overflow-y-auto">
+                    {CSV_FIELD_OPTIONS.map(option => (
+                      <DropdownMenuItem key={option.field} onClick={() => setMappingRow(index, { cardField: option.field })}>
+                        {option.label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => update({ mapping: draft.mapping.filter((_, i) => i !== index) })}
+                  title="Remove field"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => update({ mapping: [...draft.mapping, { crmField: "", cardField: "name" }] })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add field
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          The settings and API key are kept on this device. Fields a card has no value for are left out.
+          Cards that fail because the CRM or the connection is down are queued and sent again when pending
+          changes sync; cards the CRM refuses are marked as failed.
+        </p>
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={!draft.url.trim() || draft.mapping.every(row => !row.crmField.trim())}>
+            Save
+          </Button>
+          {settings && (
+            <Button type="button" variant="outline" onClick={handleDisconnect}>
+              <Unplug className="w-4 h-4 mr-2" />
+              Disconnect
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  )
+}
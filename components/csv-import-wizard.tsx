@@ -0,0 +1,332 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { AlertTriangle, ArrowLeft, ChevronDown, Copy, FileSpreadsheet, Plus, Upload } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { cn } from "@/lib/utils"
+import type { BusinessCardData } from "@/types"
+import {
+  CSV_FIELD_LABELS,
+  CSV_FIELD_OPTIONS,
+  autoMapColumns,
+  parseCsv,
+  rowToCard,
+  validateCard,
+  type CsvColumnMapping,
+  type CsvField,
+  type CsvRowIssue,
+} from "@/lib/csv-import"
+import { importCards, previewImport, type ImportPreview, type ImportResult } from "@/services/contact-import-service"
+
+interface CsvImportWizardProps {
+  userId: string
+  file: File | null
+  onClose: () => void
+  onImported: (result: ImportResult) => Promise<void> | void
+}
+
+// A data row with the card made from it; row is the line number in the file (the header is 1)
+interface CheckedRow {
+  row: number
+  card: BusinessCardData
+  issues: CsvRowIssue[]
+}
+
+type WizardStep = "map" | "review" | "importing"
+
+const PREVIEW_ROWS = 5
+
+// Import a CSV in three steps: map the columns (guessed from the headers) with a preview of
+// the first rows, review a dry run (new cards, duplicates, invalid rows), then import
+export function CsvImportWizard({ userId, file, onClose, onImported }: CsvImportWizardProps) {
+  const [rows, setRows] = useState<string[][] | null>(null)
+  const [mapping, setMapping] = useState<CsvColumnMapping>([])
+  const [step, setStep] = useState<WizardStep>("map")
+  const [checked, setChecked] = useState<CheckedRow[]>([])
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setRows(null)
+    setStep("map")
+    setPreview(null)
+    setError(null)
+    if (!file) return
+
+    file.text()
+      .then(text => {
+        const parsed = parseCsv(text)
+        if (parsed.length < 2) {
+          setError("The file has no rows to import. The first row must name the columns.")
+          return
+        }
+        setRows(parsed)
+        setMapping(autoMapColumns(parsed[0]))
+      })
+      .catch(readError => {
+        console.error("Failed to read CSV file:", readError)
+        setError("Failed to read the file.")
+      })
+  }, [file])
+
+  const headers = rows?.[0] || []
+  const dataRows = rows?.slice(1) || []
+  const hasMappedColumns = mapping.some(Boolean)
+
+  // Each field takes one column; choosing it for another column moves it there
+  const setColumnField = (column: number, field: CsvField | null) => {
+    setMapping(prev => prev.map((current, index) => {
+      if (index === column) return field
+      return field && current === field ? null : current
+    }))
+  }
+
+  const handleCheck = async () => {
+    const checkedRows = dataRows.map((row, index) => {
+      const card = { ...rowToCard(row, mapping), originalFilename: file?.name }
+      return { row: index + 2, card, issues: validateCard(card) }
+    })
+    setChecked(checkedRows)
+    setIsChecking(true)
+    try {
+      const importable = checkedRows.filter(entry => !entry.issues.some(issue => issue.blocking))
+      setPreview(await previewImport(userId, importable.map(entry => entry.card)))
+      setStep("review")
+    } catch (checkError) {
+      console.error("Failed to check CSV rows:", checkError)
+      setError("Failed to compare the rows with your cards. Please try again.")
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!preview) return
+    setStep("importing")
+    setProgress({ done: 0, total: preview.creates.length })
+
+    try {
+      // Duplicates found by the dry run are left out; the import checks the rest again
+      const result = await importCards(userId, preview.creates, (done, total) => setProgress({ done, total }))
+      await onImported({ ...result, duplicates: [...preview.duplicates, ...result.duplicates] })
+    } catch (importError) {
+      console.error("Failed to import CSV rows:", importError)
+      setError("The import stopped before all cards were saved. Cards saved so far are in your collection.")
+      setStep("review")
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const getRowNumber = (card: BusinessCardData) => checked.find(entry => entry.card === card)?.row
+  const skippedRows = checked.filter(entry => entry.issues.some(issue => issue.blocking))
+  const warningRows = checked.filter(entry => entry.issues.length > 0 && !skippedRows.includes(entry))
+
+  const renderMappingMenu = (column: number) => {
+    const field = mapping[column]
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={field ? "secondary" : "outline"}
+            size="sm"
+            className="h-7 w-full justify-between text-xs font-normal"
+          >
+            <span className="truncate">{field ? CSV_FIELD_LABELS[field] : "Don't import"}</span>
+            <ChevronDown className="w-3 h-3 ml-1 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56 max-h-72 overflow-y-auto">
+          <DropdownMenuItem onClick={() => setColumnField(column, null)}>{"Don't import"}</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {CSV_FIELD_OPTIONS.map(option => (
+            <DropdownMenuItem key={option.field} onClick={() => setColumnField(column, option.field)}>
+              {option.label}
+              {mapping.includes(option.field) && mapping[column] !== option.field && (
+                <span className="ml-auto text-xs text-muted-foreground">in use</span>
+              )}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    )
+  }
+
+  const renderMapStep = () => (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {dataRows.length} row{dataRows.length === 1 ? "" : "s"} found. Check the field each column goes to;
+        {' columns set to "Don\'t import" are left out.'}
+      </p>
+      <div className="overflow-x-auto border rounded-md">
+        <table className="text-xs w-full">
+          <thead className="bg-muted/50">
+            <tr>
+              {headers.map((header, column) => (
+                <th key={column} className="p-2 text-left align-top min-w-[9rem] font-medium">
+                  <div className="truncate mb-1" title={header}>{header || `Column ${column + 1}`}</div>
+                  {renderMappingMenu(column)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {dataRows.slice(0, PREVIEW_ROWS).map((row, index) => (
+              <tr key={index} className="border-t">
+                {headers.map((_, column) => (
+                  <td
+                    key={column}
+                    className={cn("p-2 max-w-[12rem] truncate", !mapping[column] && "text-muted-foreground/60")}
+                    title={row[column]}
+                  >
+                    {row[column]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {dataRows.length > PREVIEW_ROWS && (
+        <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROWS} rows.</p>
+      )}
+    </div>
+  )
+
+  const renderReviewStep = () => preview && (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge className="flex items-center gap-1">
+          <Plus className="w-3 h-3" />
+          {preview.creates.length} new card{preview.creates.length === 1 ? "" : "s"}
+        </Badge>
+        <Badge variant="secondary" className="flex items-center gap-1">
+          <Copy className="w-3 h-3" />
+          {preview.duplicates.length} duplicate{preview.duplicates.length === 1 ? "" : "s"} skipped
+        </Badge>
+        {skippedRows.length > 0 && (
+          <Badge variant="destructive">
+            {skippedRows.length} invalid row{skippedRows.length === 1 ? "" : "s"} skipped
+          </Badge>
+        )}
+        {warningRows.length > 0 && (
+          <Badge variant="outline" className="flex items-center gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            {warningRows.length} with warnings
+          </Badge>
+        )}
+      </div>
+
+      {preview.duplicates.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium">Already in your cards</h4>
+          <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+            {preview.duplicates.map(({ card, candidates }) => (
+              <li key={getRowNumber(card)} className="flex justify-between gap-2 border-b pb-1">
+                <span className="truncate">
+                  <span className="text-muted-foreground">Row {getRowNumber(card)}:</span> {card.name || card.email || card.company}
+                </span>
+                <span className="text-muted-foreground shrink-0">
+                  matches {candidates[0].card.name || "a card"} ({candidates[0].score}%)
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(skippedRows.length > 0 || warningRows.length > 0) && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium">Rows to check</h4>
+          <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+            {[...skippedRows, ...warningRows].sort((a, b) => a.row - b.row).map(entry => (
+              <li key={entry.row} className="border-b pb-1">
+                <span className="text-muted-foreground">Row {entry.row}:</span>{" "}
+                {entry.issues.map(issue => issue.message).join("; ")}
+                {entry.issues.some(issue => issue.blocking) ? " (skipped)" : " (imported as is)"}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <AlertDialog open={!!file} onOpenChange={(isOpen) => { if (!isOpen && step !== "importing") onClose() }}>
+      <AlertDialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Import {file?.name}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {step === "map" && "Step 1 of 2: map the columns to card fields."}
+            {step === "review" && "Step 2 of 2: nothing has been saved yet. Review what the import will do."}
+            {step === "importing" && "Importing contacts..."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !rows ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : step === "map" ? (
+          renderMapStep()
+        ) : step === "review" ? (
+          renderReviewStep()
+        ) : (
+          progress && (
+            <div className="space-y-1">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 100} />
+              <p className="text-xs text-muted-foreground">Saved {progress.done} of {progress.total} cards...</p>
+            </div>
+          )
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={step === "importing"}>Cancel</AlertDialogCancel>
+          {step === "map" && rows && (
+            <Button onClick={handleCheck} disabled={!hasMappedColumns || isChecking}>
+              {isChecking ? "Checking..." : "Check rows"}
+            </Button>
+          )}
+          {step === "review" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={!preview || preview.creates.length === 0}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import {preview?.creates.length ?? 0} card{preview?.creates.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
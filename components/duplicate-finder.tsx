@@ -0,0 +1,294 @@
+"use client"
+
+import { useCallback, useState, useEffect } from "react"
+import { ArrowLeft, GitMerge, EyeOff, Crown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { SimpleBusinessCardIcon } from "@/components/icons/simple-business-card-icon"
+import type { BusinessCardData } from "@/types"
+import {
+  clusterDuplicates,
+  LIKELY_DUPLICATE_SCORE,
+  type DuplicateCluster,
+} from "@/services/duplicate-detection-service"
+import { mergeDuplicateCards } from "@/services/card-merge-service"
+import { EnhancedStorageService } from "@/services/enhanced-storage-service"
+import { logCardActivity } from "@/services/activity-log-service"
+import { diffCards } from "@/lib/card-activity"
+import { useDismissedDuplicates } from "@/hooks/use-dismissed-duplicates"
+import { useToast } from "@/hooks/use-toast"
+
+interface DuplicateFinderProps {
+  userId: string
+  onClose: () => void
+  onCardsChanged: () => Promise<void>
+}
+
+// Merge all cards of a cluster into its primary card (the first), using default field choices
+function mergeCluster(cards: BusinessCardData[]): BusinessCardData {
+  const [primary, ...others] = cards
+  return others.reduce((merged, other) => mergeDuplicateCards(merged, other), primary)
+}
+
+// "Find duplicates" view: clusters the whole collection and merges or dismisses clusters in bulk
+export function DuplicateFinder({ userId, onClose, onCardsChanged }: DuplicateFinderProps) {
+  const [cards, setCards] = useState<BusinessCardData[] | null>(null)
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [primaryIds, setPrimaryIds] = useState<Record<string, string>>({})
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const { dismissedPairs, dismissGroups } = useDismissedDuplicates(userId)
+  const { toast } = useToast()
+
+  // The card list only holds the loaded pages, so fetch the whole collection
+  const loadCards = useCallback(async () => {
+    try {
+      setCards(await EnhancedStorageService.getCards(userId))
+    } catch (error) {
+      console.error("Failed to load cards for duplicate search:", error)
+      setCards([])
+    }
+  }, [userId])
+
+  useEffect(() => {
+    loadCards()
+  }, [loadCards])
+
+  // Clustering scores many pairs; let the spinner render before it starts
+  useEffect(() => {
+    setClusters(null)
+    if (!cards) return
+    const timer = setTimeout(() => {
+      const found = clusterDuplicates(cards, undefined, dismissedPairs)
+      setClusters(found)
+      setSelected(new Set(found.filter(cluster => cluster.score >= LIKELY_DUPLICATE_SCORE).map(cluster => cluster.id)))
+    }, 0)
+    return () => clearTimeout(timer)
+  }, [cards, dismissedPairs])
+
+  // Cluster cards with the user's chosen primary card first
+  const getOrderedCards = (cluster: DuplicateCluster) => {
+    const primaryId = primaryIds[cluster.id]
+    const primary = cluster.cards.find(card => card.id === primaryId)
+    return primary ? [primary, ...cluster.cards.filter(card => card !== primary)] : cluster.cards
+  }
+
+  const toggleSelected = (clusterId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(clusterId)) next.delete(clusterId)
+      else next.add(clusterId)
+      return next
+    })
+  }
+
+  const handleMerge = async (toMerge: DuplicateCluster[]) => {
+    if (toMerge.length === 0) return
+
+    setProgress({ done: 0, total: toMerge.length })
+    let merged = 0
+    let failed = 0
+
+    for (const cluster of toMerge) {
+      const ordered = getOrderedCards(cluster)
+      try {
+        const mergedCard = mergeCluster(ordered)
+        await EnhancedStorageService.mergeCards(userId, mergedCard, ordered.map(card => card.id!))
+        logCardActivity(userId, [mergedCard.id!], "edited", {
+          detail: `merged ${ordered.length - 1} duplicate${ordered.length === 2 ? "" : "s"}`,
+          changes: diffCards(ordered[0], mergedCard),
+        })
+        merged++
+      } catch (error) {
+        console.error("Failed to merge cluster:", error)
+        failed++
+      }
+      setProgress({ done: merged + failed, total: toMerge.length })
+    }
+
+    setProgress(null)
+    await Promise.all([loadCards(), onCardsChanged()])
+
+    toast({
+      title: failed > 0 ? "Some merges failed" : "Duplicates merged",
+      description: `${merged} group${merged === 1 ? "" : "s"} merged${failed > 0 ? `, ${failed} failed` : ""}.`,
+      variant: failed > 0 ? "destructive" : undefined,
+    })
+  }
+
+  const handleDismiss = (toDismiss: DuplicateCluster[]) => {
+    if (toDismiss.length === 0) return
+    dismissGroups(toDismiss.map(cluster => cluster.cards.map(card => card.id!)))
+    toast({
+      title: "Marked as not duplicates",
+      description: `${toDismiss.length} group${toDismiss.length === 1 ? "" : "s"} will no longer be suggested.`,
+    })
+  }
+
+  const selectedClusters = (clusters || []).filter(cluster => selected.has(cluster.id))
+  const isBusy = progress !== null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose} disabled={isBusy}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back
+          </Button>
+          <h3 className="text-lg font-medium">Find Duplicates</h3>
+        </div>
+        {clusters && clusters.length > 0 && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDismiss(selectedClusters)}
+              disabled={isBusy || selectedClusters.length === 0}
+            >
+              <EyeOff className="w-4 h-4 mr-2" />
+              Dismiss ({selectedClusters.length})
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => handleMerge(selectedClusters)}
+              disabled={isBusy || selectedClusters.length === 0}
+            >
+              <GitMerge className="w-4 h-4 mr-2" />
+              Merge ({selectedClusters.length})
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={(progress.done / progress.total) * 100} />
+          <p className="text-xs text-muted-foreground">Merging {progress.done} of {progress.total} groups...</p>
+        </div>
+      )}
+
+      {clusters === null ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-muted-foreground">
+              {cards ? `Comparing ${cards.length} cards...` : "Loading your cards..."}
+            </p>
+          </div>
+        </div>
+      ) : clusters.length === 0 ? (
+        <div className="text-center py-12">
+          <SimpleBusinessCardIcon className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-medium mb-2">No duplicates found</h3>
+          <p className="text-muted-foreground">Every card in your collection looks unique</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {clusters.length} group{clusters.length === 1 ? "" : "s"} of possible duplicates
+              ({clusters.reduce((sum, cluster) => sum + cluster.cards.length, 0)} cards)
+            </span>
+            <button
+              type="button"
+              className="hover:text-foreground"
+              onClick={() => setSelected(selected.size === clusters.length ? new Set() : new Set(clusters.map(cluster => cluster.id)))}
+            >
+              {selected.size === clusters.length ? "Select none" : "Select all"}
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {clusters.map(cluster => {
+              const ordered = getOrderedCards(cluster)
+              return (
+                <div key={cluster.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(cluster.id)}
+                        onChange={() => toggleSelected(cluster.id)}
+                        className="mt-1 h-4 w-4"
+                      />
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{ordered[0].name || "Unknown Name"}</span>
+                          <Badge variant={cluster.score >= LIKELY_DUPLICATE_SCORE ? "default" : "secondary"} className="text-xs">
+                            {cluster.score}% match
+                          </Badge>
+                        </div>
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {cluster.reasons.map(reason => (
+                            <span key={reason} className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
+                              {reason}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    </label>
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => handleDismiss([cluster])} disabled={isBusy}>
+                        <EyeOff className="w-3 h-3" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleMerge([cluster])} disabled={isBusy}>
+                        <GitMerge className="w-3 h-3 mr-1" />
+                        Merge
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                    {ordered.map((card, index) => (
+                      <button
+                        key={card.id}
+                        type="button"
+                        onClick={() => setPrimaryIds(prev => ({ ...prev, [cluster.id]: card.id! }))}
+                        className={`flex items-start gap-3 p-2 rounded-md border text-left text-sm transition-colors ${
+                          index === 0 ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                        }`}
+                        title={index === 0 ? "This card is kept" : "Keep this card instead"}
+                      >
+                        {card.thumbnailBase64 ? (
+                          <img
+                            src={card.thumbnailBase64}
+                            alt="Card thumbnail"
+                            className="w-12 h-8 object-cover rounded border flex-shrink-0"
+                          />
+                        ) : (
+                          <div className="w-12 h-8 bg-muted rounded border flex items-center justify-center flex-shrink-0">
+                            <SimpleBusinessCardIcon className="w-4 h-4 text-muted-foreground" />
+                          </div>
+                        )}
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-1 font-medium truncate">
+                            {index === 0 && <Crown className="w-3 h-3 text-primary flex-shrink-0" />}
+                            {card.name || "Unknown Name"}
+                          </div>
+                          {card.company && <div className="text-muted-foreground truncate">{card.company}</div>}
+                          {(card.email || card.phone) && (
+                            <div className="text-xs text-muted-foreground truncate">{card.email || card.phone}</div>
+                          )}
+                          {card.timestamp && (
+                            <div className="text-xs text-muted-foreground">
+                              {new Date(card.timestamp).toLocaleDateString()}
+                            </div>
+                          )}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Merging keeps the highlighted card and fills its empty fields from the others; their scans are kept in its scan history.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
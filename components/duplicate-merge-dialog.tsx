@@ -0,0 +1,220 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { GitMerge, Plus } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import type { BusinessCardData } from "@/types"
+import type { DuplicateCandidate } from "@/services/duplicate-detection-service"
+import {
+  MERGE_CHOICE_FIELDS,
+  MERGE_FIELD_LABELS,
+  defaultMergeSide,
+  mergeDuplicateCards,
+  type MergeChoiceField,
+  type MergeChoices,
+  type MergeSide,
+} from "@/services/card-merge-service"
+
+interface DuplicateMergeDialogProps {
+  open: boolean
+  newCard: BusinessCardData | null
+  candidates: DuplicateCandidate[]
+  onMerge: (merged: BusinessCardData, candidate: DuplicateCandidate) => Promise<void> | void
+  onAddAnyway: () => Promise<void> | void
+  onCancel: () => void
+}
+
+function getScoreVariant(score: number): "default" | "secondary" | "outline" {
+  if (score >= 80) return "default"
+  if (score >= 65) return "secondary"
+  return "outline"
+}
+
+// Side-by-side comparison of a new scan and an existing card; the user picks each field's
+// value and the two are merged into the existing card
+export function DuplicateMergeDialog({
+  open,
+  newCard,
+  candidates,
+  onMerge,
+  onAddAnyway,
+  onCancel,
+}: DuplicateMergeDialogProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [choices, setChoices] = useState<MergeChoices>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  const candidate = candidates[selectedIndex]
+  const existingCard = candidate?.card
+
+  // Start over whenever a different scan or candidate is shown
+  useEffect(() => {
+    setSelectedIndex(0)
+  }, [newCard, candidates])
+
+  useEffect(() => {
+    setChoices({})
+  }, [newCard, selectedIndex])
+
+  if (!newCard || !existingCard) return null
+
+  const sideOf = (field: MergeChoiceField): MergeSide =>
+    choices[field] || defaultMergeSide(existingCard, newCard, field)
+
+  const getValue = (card: BusinessCardData, field: MergeChoiceField) =>
+    field === "image" ? card.thumbnailBase64 || card.imageBase64 : card[field]
+
+  // Only fields with a value on either side; identical values need no choice
+  const rows = MERGE_CHOICE_FIELDS.filter(field => getValue(existingCard, field) || getValue(newCard, field))
+
+  const handleMerge = async () => {
+    setIsSaving(true)
+    try {
+      await onMerge(mergeDuplicateCards(existingCard, newCard, choices), candidate)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAddAnyway = async () => {
+    setIsSaving(true)
+    try {
+      await onAddAnyway()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderValue = (card: BusinessCardData, field: MergeChoiceField) => {
+    const value = getValue(card, field)
+    if (!value) return <span className="text-muted-foreground italic">Empty</span>
+    if (field === "image") {
+      return <img src={value} alt="Card scan" className="h-12 w-auto rounded border object-cover" />
+    }
+    return <span className="break-words whitespace-pre-line">{value}</span>
+  }
+
+  const renderCell = (card: BusinessCardData, side: MergeSide, field: MergeChoiceField, identical: boolean) => {
+    const selected = sideOf(field) === side
+    const disabled = identical || !getValue(card, field)
+
+    return (
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+        className={cn(
+          "w-full text-left text-sm px-3 py-2 rounded-md border transition-colors",
+          selected && !identical && "border-primary bg-primary/5 ring-1 ring-primary",
+          !selected && !disabled && "hover:bg-muted/50",
+          disabled && "cursor-default",
+          identical && "bg-muted/30"
+        )}
+      >
+        {renderValue(card, field)}
+      </button>
+    )
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onCancel() }}>
+      <AlertDialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Potential Duplicate Detected</AlertDialogTitle>
+          <AlertDialogDescription>
+            {candidates.length === 1
+              ? "This scan looks like a contact you already have."
+              : `This scan looks like ${candidates.length} contacts you already have.`}{" "}
+            Pick the values to keep and merge, or add it as a separate card.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {/* Ranked candidates */}
+        <div className="space-y-2">
+          {candidates.map((item, index) => (
+            <button
+              key={item.card.id || index}
+              type="button"
+              onClick={() => setSelectedIndex(index)}
+              className={cn(
+                "w-full text-left p-3 rounded-lg border transition-colors",
+                index === selectedIndex ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-medium text-sm truncate">
+                  {item.card.name || "Unknown Name"}
+                  {item.card.company && <span className="text-muted-foreground font-normal"> · {item.card.company}</span>}
+                  {item.card.id?.startsWith("offline_") && (
+                    <span className="ml-2 text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+                      Offline
+                    </span>
+                  )}
+                </div>
+                <Badge variant={getScoreVariant(item.score)} className="text-xs shrink-0">
+                  {item.score}% match
+                </Badge>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-1">
+                {item.reasons.map(reason => (
+                  <span key={reason.label} className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
+                    {reason.label}
+                  </span>
+                ))}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {/* Field-by-field comparison */}
+        <div className="space-y-2">
+          <div className="grid grid-cols-[7rem_1fr_1fr] gap-2 text-xs font-medium text-muted-foreground">
+            <span />
+            <span>
+              Existing card
+              {existingCard.timestamp && ` (${new Date(existingCard.timestamp).toLocaleDateString()})`}
+            </span>
+            <span>New scan</span>
+          </div>
+          {rows.map(field => {
+            const existingValue = getValue(existingCard, field)
+            const identical = !!existingValue && existingValue === getValue(newCard, field)
+            return (
+              <div key={field} className="grid grid-cols-[7rem_1fr_1fr] gap-2 items-center">
+                <span className="text-sm font-medium">{MERGE_FIELD_LABELS[field]}</span>
+                {renderCell(existingCard, "primary", field, identical)}
+                {renderCell(newCard, "secondary", field, identical)}
+              </div>
+            )
+          })}
+          <p className="text-xs text-muted-foreground">
+            Notes from both cards are kept. The scan that is not shown on the card stays in its scan history.
+          </p>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={handleAddAnyway} disabled={isSaving}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add as New Card
+          </Button>
+          <Button onClick={handleMerge} disabled={isSaving}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Merge
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
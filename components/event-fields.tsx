@@ -0,0 +1,63 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import type { CardEvent } from "@/types"
+import { normalizeText } from "@/lib/similarity"
+
+interface EventFieldsProps {
+  id: string                    // Prefix for the input IDs
+  value: Partial<CardEvent>
+  onChange: (value: Partial<CardEvent>) => void
+  knownEvents?: CardEvent[]     // Suggested names; picking one fills in its date and location
+  className?: string
+}
+
+// Name, date and location inputs for the event a card was collected at
+export function EventFields({ id, value, onChange, knownEvents = [], className }: EventFieldsProps) {
+  const handleNameChange = (name: string) => {
+    const known = knownEvents.find(event => normalizeText(event.name) === normalizeText(name))
+    if (known && !value.date && !value.location) {
+      onChange({ ...known, name })
+    } else {
+      onChange({ ...value, name })
+    }
+  }
+
+  return (
+    <div className={cn("grid gap-2 sm:grid-cols-3", className)}>
+      <Input
+        id={`${id}-name`}
+        aria-label="Event name"
+        value={value.name || ""}
+        onChange={(e) => handleNameChange(e.target.value)}
+        placeholder="Event (e.g. CES 2026)"
+        list={knownEvents.length > 0 ? `${id}-known` : undefined}
+        className="text-sm"
+      />
+      <Input
+        id={`${id}-date`}
+        aria-label="Event date"
+        type="date"
+        value={value.date || ""}
+        onChange={(e) => onChange({ ...value, date: e.target.value })}
+        className="text-sm"
+      />
+      <Input
+        id={`${id}-location`}
+        aria-label="Event location"
+        value={value.location || ""}
+        onChange={(e) => onChange({ ...value, location: e.target.value })}
+        placeholder="Location"
+        className="text-sm"
+      />
+      {knownEvents.length > 0 && (
+        <datalist id={`${id}-known`}>
+          {knownEvents.map(event => (
+            <option key={event.name} value={event.name} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  )
+}
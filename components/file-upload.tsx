@@ -2,13 +2,18 @@
 
 import { useCallback, useState, useEffect, useRef, forwardRef, useImperativeHandle } from "react"
 import { useDropzone } from "react-dropzone"
-import { Upload, X, Clipboard, Camera, Image } from "lucide-react"
+import { Upload, X, Clipboard, Camera, Image, FlipHorizontal, CalendarDays } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { CameraCapture } from "@/components/camera-capture"
+import { EventFields } from "@/components/event-fields"
+import type { CardEvent, CaptureLocation } from "@/types"
+import { formatEvent, normalizeEvent, toEventDate } from "@/lib/card-events"
+import { isVCardFile } from "@/lib/vcard-parser"
+import { isCsvFile } from "@/lib/csv-import"
 
 interface QueuedFile {
   id: string
@@ -17,8 +22,20 @@ interface QueuedFile {
   status: 'pending' | 'processing' | 'completed' | 'error'
 }
 
+interface PendingSide {
+  file: File
+  preview: string
+  location?: CaptureLocation
+}
+
 interface FileUploadProps {
-  onFileSelect: (file: File) => void
+  onFileSelect: (file: File, location?: CaptureLocation) => void  // location: camera captures with the location stamp on
+  onDoubleSidedSelect?: (front: File, back: File, location?: CaptureLocation) => void  // Enables the "Front + back" mode
+  onVCardSelect?: (files: File[]) => void                 // Enables importing contacts from .vcf files
+  onCsvSelect?: (file: File) => void                      // Enables the CSV import wizard
+  activeEvent?: CardEvent | null                          // Stamped on every card scanned while set
+  onActiveEventChange?: (event: CardEvent | null) => void // Enables setting the active event
+  knownEvents?: CardEvent[]
   isUploading?: boolean
   progress?: number
   error?: string
@@ -31,6 +48,12 @@ export interface FileUploadRef {
 
 export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({ 
   onFileSelect, 
+  onDoubleSidedSelect,
+  onVCardSelect,
+  onCsvSelect,
+  activeEvent,
+  onActiveEventChange,
+  knownEvents,
   isUploading, 
   progress = 0, 
   error
@@ -41,6 +64,10 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
   const [showCamera, setShowCamera] = useState(false)
   const [fileQueue, setFileQueue] = useState<QueuedFile[]>([])
   const [keepCameraOpen, setKeepCameraOpen] = useState(false)
+  const [isDoubleSided, setIsDoubleSided] = useState(false)
+  const [pendingFront, setPendingFront] = useState<PendingSide | null>(null)
+  const [eventDraft, setEventDraft] = useState<Partial<CardEvent> | null>(null) // Set while editing the active event
+  const pendingFrontRef = useRef<PendingSide | null>(null) // Read by async callbacks
   const containerRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const processedFiles = useRef(new Set<string>()) // Track processed files to prevent duplicates
@@ -70,7 +97,7 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
   }
 
   // Simple file processing without complex state management
-  const processFileDirectly = useCallback(async (file: File, isBatch: boolean = false) => {
+  const processFileDirectly = useCallback(async (file: File, isBatch: boolean = false, location?: CaptureLocation) => {
     // Create a more unique identifier for this file including current timestamp to avoid false duplicates
     const fileId = `${file.name}-${file.size}-${file.lastModified}-${Date.now()}-${Math.random()}`
     
@@ -102,7 +129,7 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
       setFileQueue(prev => [...prev, queuedFile])
       
       // Process the file
-      onFileSelect(file)
+      onFileSelect(file, location)
       
       // Remove from queue after a delay
       setTimeout(() => {
@@ -112,12 +139,51 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
       // Single mode: show preview and process
       const preview = await createFilePreview(file)
       setPreview(preview)
-      onFileSelect(file)
+      onFileSelect(file, location)
     }
   }, [fileQueue.length, onFileSelect])
 
+  const updatePendingFront = (side: PendingSide | null) => {
+    pendingFrontRef.current = side
+    setPendingFront(side)
+  }
+
+  // Double-sided mode: the first image is the front, the next one the back
+  const processDoubleSidedFiles = useCallback(async (files: File[], location?: CaptureLocation) => {
+    if (!onDoubleSidedSelect) return
+
+    for (const file of files) {
+      const front = pendingFrontRef.current
+      if (!front) {
+        updatePendingFront({ file, preview: await createFilePreview(file), location })
+        continue
+      }
+
+      updatePendingFront(null)
+      setPreview(front.preview)
+      onDoubleSidedSelect(front.file, file, front.location || location)
+    }
+  }, [onDoubleSidedSelect])
+
+  // .vcf and .csv files are imported as contacts (one CSV at a time); returns the files left to scan
+  const takeContactFiles = useCallback((files: File[]): File[] => {
+    const vCards = onVCardSelect ? files.filter(isVCardFile) : []
+    const csvFiles = onCsvSelect ? files.filter(isCsvFile) : []
+    if (vCards.length > 0) onVCardSelect?.(vCards)
+    if (csvFiles.length > 0) onCsvSelect?.(csvFiles[0])
+    return files.filter(file => !vCards.includes(file) && !csvFiles.includes(file))
+  }, [onVCardSelect, onCsvSelect])
+
   const onDrop = useCallback(
-    (acceptedFiles: File[]) => {
+    (droppedFiles: File[]) => {
+      const acceptedFiles = takeContactFiles(droppedFiles)
+      if (acceptedFiles.length === 0) return
+
+      if (isDoubleSided) {
+        processDoubleSidedFiles(acceptedFiles)
+        return
+      }
+
       const isBatch = acceptedFiles.length > 1
       acceptedFiles.forEach((file, index) => {
         // Add small delay between files to prevent race conditions
@@ -126,7 +192,7 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
         }, index * 50) // 50ms delay between each file
       })
     },
-    [processFileDirectly],
+    [processFileDirectly, processDoubleSidedFiles, isDoubleSided, takeContactFiles],
   )
 
   // Handle paste events
@@ -149,6 +215,11 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
 
     if (imageFiles.length > 0) {
       e.preventDefault()
+      if (isDoubleSided) {
+        processDoubleSidedFiles(imageFiles)
+        return
+      }
+
       const isBatch = imageFiles.length > 1
       imageFiles.forEach((file, index) => {
         setTimeout(() => {
@@ -156,7 +227,7 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
         }, index * 50)
       })
     }
-  }, [processFileDirectly])
+  }, [processFileDirectly, processDoubleSidedFiles, isDoubleSided])
 
   // Add global paste event listener
   useEffect(() => {
@@ -185,6 +256,8 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
       "image/gif": [".gif"],
       "image/webp": [".webp"],
       "application/pdf": [".pdf"],
+      ...(onVCardSelect ? { "text/vcard": [".vcf", ".vcard"], "text/x-vcard": [".vcf"] } : {}),
+      ...(onCsvSelect ? { "text/csv": [".csv"] } : {}),
     },
     maxSize: 10 * 1024 * 1024, // 10MB
     multiple: true, // Always allow multiple
@@ -199,8 +272,18 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
     setFileQueue([])
   }
 
-  const handleCameraCapture = (file: File) => {
-    processFileDirectly(file, isBatchMode)
+  const handleCameraCapture = (file: File, location?: CaptureLocation) => {
+    if (isDoubleSided) {
+      const isFront = !pendingFrontRef.current
+      processDoubleSidedFiles([file], location)
+      if (isFront) {
+        // CameraCapture closes itself after each shot; reopen it for the back side
+        setTimeout(() => setShowCamera(true), 0)
+      }
+      return
+    }
+
+    processFileDirectly(file, isBatchMode, location)
     if (isBatchMode || keepCameraOpen) {
       setKeepCameraOpen(true) // Keep camera open after first capture
     } else {
@@ -217,7 +300,13 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
   }
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || [])
+    const files = takeContactFiles(Array.from(e.target.files || []))
+    if (isDoubleSided) {
+      processDoubleSidedFiles(files)
+      e.target.value = ''
+      return
+    }
+
     const isBatch = files.length > 1
     files.forEach((file, index) => {
       setTimeout(() => {
@@ -229,6 +318,18 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
     e.target.value = ''
   }
 
+  const toggleDoubleSided = () => {
+    updatePendingFront(null)
+    setIsDoubleSided(prev => !prev)
+  }
+
+  const startEvent = () => {
+    const event = normalizeEvent(eventDraft)
+    if (!event) return
+    onActiveEventChange?.(event)
+    setEventDraft(null)
+  }
+
   const startBatchMode = () => {
     // Convert single preview to queue if it exists
     if (preview) {
@@ -258,11 +359,65 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
         </div>
       )}
 
+      {/* Active event: stamped on everything scanned until it is ended */}
+      {onActiveEventChange && (
+        eventDraft ? (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <CalendarDays className="w-4 h-4" />
+                Event for the next scans
+              </div>
+              <EventFields
+                id="active-event"
+                value={eventDraft}
+                onChange={setEventDraft}
+                knownEvents={knownEvents}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setEventDraft(null)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={startEvent} disabled={!eventDraft.name?.trim()}>
+                  {activeEvent ? "Update event" : "Start event"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : activeEvent ? (
+          <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+            <Badge variant="secondary" className="flex items-center gap-1 max-w-full">
+              <CalendarDays className="w-3 h-3 shrink-0" />
+              <span className="truncate">{formatEvent(activeEvent)}</span>
+            </Badge>
+            <Button variant="ghost" size="sm" className="h-7" onClick={() => setEventDraft(activeEvent)}>
+              Change
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7" onClick={() => onActiveEventChange(null)}>
+              <X className="w-3 h-3 mr-1" />
+              End event
+            </Button>
+          </div>
+        ) : (
+          <div className="flex justify-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground"
+              onClick={() => setEventDraft({ date: toEventDate(new Date()) })}
+            >
+              <CalendarDays className="w-4 h-4 mr-2" />
+              Scanning at an event?
+            </Button>
+          </div>
+        )
+      )}
+
       {/* Hidden file input for gallery browsing */}
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/jpeg,image/jpg,image/png,image/gif,image/webp,application/pdf"
+        accept={`image/jpeg,image/jpg,image/png,image/gif,image/webp,application/pdf${onVCardSelect ? ",.vcf,text/vcard,text/x-vcard" : ""}${onCsvSelect ? ",.csv,text/csv" : ""}`}
         multiple
         onChange={handleFileInputChange}
         style={{ display: 'none' }}
@@ -271,6 +426,11 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
       {/* Camera Component */}
       <CameraCapture
         isOpen={showCamera}
+        guideLabel={
+          isDoubleSided
+            ? pendingFront ? "Now align the BACK of the card" : "Align the FRONT of the card"
+            : undefined
+        }
         onCapture={handleCameraCapture}
         onClose={() => {
           setShowCamera(false)
@@ -296,11 +456,15 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
               </div>
               <div>
                 <p className="text-lg font-medium">
-                  {isDragActive 
-                    ? "Drop your business cards here" 
-                    : mounted && isMobile 
-                      ? "Add business cards"
-                      : "Upload business cards"
+                  {isDoubleSided
+                    ? pendingFront
+                      ? "Now add the back of the card"
+                      : "Add the front of the card"
+                    : isDragActive 
+                      ? "Drop your business cards here" 
+                      : mounted && isMobile 
+                        ? "Add business cards"
+                        : "Upload business cards"
                   }
                 </p>
                 <p className="text-sm text-muted-foreground mt-1">
@@ -309,6 +473,11 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
                     : "Drag & drop multiple files, click to browse, or press Ctrl+V to paste"
                   }
                 </p>
+                {(onVCardSelect || onCsvSelect) && !isDoubleSided && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Have contacts already? Add {[onVCardSelect && ".vcf", onCsvSelect && ".csv"].filter(Boolean).join(" or ")} files to import them
+                  </p>
+                )}
                 {isBatchMode && (
                   <p className="text-xs text-muted-foreground mt-2">
                     📸 Camera will stay open for multiple captures • Files process automatically
@@ -346,6 +515,25 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
                 </div>
               )}
               
+              {/* Double-sided toggle */}
+              {onDoubleSidedSelect && !isBatchMode && (
+                <div className="flex justify-center mt-2">
+                  <Button
+                    type="button"
+                    variant={isDoubleSided ? "default" : "outline"}
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      toggleDoubleSided()
+                    }}
+                    className="flex items-center gap-2"
+                  >
+                    <FlipHorizontal className="w-4 h-4" />
+                    Front + back
+                  </Button>
+                </div>
+              )}
+
               {/* Paste hint - only show on desktop and after mounting */}
               {mounted && !isMobile && (
                 <div className="flex items-center justify-center gap-2 mt-2">
@@ -360,6 +548,31 @@ export const FileUpload = forwardRef<FileUploadRef, FileUploadProps>(({
         </Card>
       )}
 
+      {/* Double-sided: front captured, waiting for the back */}
+      {pendingFront && (
+        <Card>
+          <CardContent className="p-4 flex items-center gap-4">
+            <img
+              src={pendingFront.preview}
+              alt="Front of business card"
+              className="w-24 h-16 object-cover rounded border"
+            />
+            <div className="flex-1 text-sm">
+              <p className="font-medium">Front captured</p>
+              <p className="text-muted-foreground">Add the back side to merge both into one contact.</p>
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => updatePendingFront(null)}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Single Mode Preview */}
       {!isBatchMode && preview && (
         <Card>
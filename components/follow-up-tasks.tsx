@@ -0,0 +1,237 @@
+"use client"
+
+import { useState } from "react"
+import { AlarmClock, Bell, Check, Circle, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { cn } from "@/lib/utils"
+import type { BusinessCardData, FollowUpTask } from "@/types"
+import type { FollowUps } from "@/hooks/use-follow-ups"
+import { useToast } from "@/hooks/use-toast"
+import {
+  SNOOZE_OPTIONS,
+  formatDueTime,
+  fromDateTimeInput,
+  getCardTasks,
+  getDefaultDueAt,
+  getReminderTime,
+  isOverdue,
+  isSnoozed,
+  toDateTimeInput,
+  type SnoozeOption,
+} from "@/lib/follow-ups"
+
+interface TaskRowProps {
+  task: FollowUpTask
+  now: Date
+  showContact?: boolean
+  onToggleDone: (task: FollowUpTask) => void
+  onSnooze: (task: FollowUpTask, option: SnoozeOption) => void
+  onDelete?: (task: FollowUpTask) => void
+  onOpen?: (task: FollowUpTask) => void
+}
+
+function TaskRow({ task, now, showContact, onToggleDone, onSnooze, onDelete, onOpen }: TaskRowProps) {
+  const overdue = isOverdue(task, now)
+  const snoozed = isSnoozed(task, now)
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2">
+      <button
+        type="button"
+        onClick={() => onToggleDone(task)}
+        className="flex-shrink-0 text-muted-foreground hover:text-primary"
+        title={task.done ? "Mark as not done" : "Mark as done"}
+      >
+        {task.done ? <Check className="w-4 h-4 text-green-600" /> : <Circle className="w-4 h-4" />}
+      </button>
+
+      <div
+        className={cn("flex-1 min-w-0", onOpen && "cursor-pointer")}
+        onClick={onOpen ? () => onOpen(task) : undefined}
+      >
+        <p className={cn("text-sm truncate", task.done && "line-through text-muted-foreground")}>
+          {showContact && task.contactName && <span className="font-medium">{task.contactName}: </span>}
+          {task.title}
+        </p>
+        {!task.done && (
+          <p className={cn("text-xs", overdue ? "text-destructive" : "text-muted-foreground")}>
+            {snoozed ? "Snoozed until " : overdue ? "Overdue · " : ""}
+            {formatDueTime(getReminderTime(task), now)}
+          </p>
+        )}
+      </div>
+
+      {!task.done && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2" title="Snooze">
+              <AlarmClock className="w-3 h-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Snooze</DropdownMenuLabel>
+            {SNOOZE_OPTIONS.map(option => (
+              <DropdownMenuItem key={option.value} onClick={() => onSnooze(task, option.value)}>
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {onDelete && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+          onClick={() => onDelete(task)}
+          title="Delete task"
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// Report failed task changes the same way everywhere
+function useTaskActions(followUps: FollowUps) {
+  const { toast } = useToast()
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return {
+    run,
+    toggleDone: (task: FollowUpTask) => run(() => followUps.setTaskDone(task, !task.done), "Failed to update task"),
+    snooze: (task: FollowUpTask, option: SnoozeOption) => run(() => followUps.snoozeTask(task, option), "Failed to snooze task"),
+    remove: (task: FollowUpTask) => run(() => followUps.deleteTask(task), "Failed to delete task"),
+  }
+}
+
+interface FollowUpTasksProps {
+  card: BusinessCardData
+  followUps: FollowUps
+}
+
+// Tasks of one contact, with a form to add one
+export function FollowUpTasks({ card, followUps }: FollowUpTasksProps) {
+  const [title, setTitle] = useState("")
+  const [dueAt, setDueAt] = useState(() => toDateTimeInput(getDefaultDueAt()))
+  const actions = useTaskActions(followUps)
+
+  const tasks = getCardTasks(followUps.tasks, card.id!)
+  const due = fromDateTimeInput(dueAt)
+
+  const handleAdd = () => {
+    if (!title.trim() || !due) return
+    actions.run(async () => {
+      await followUps.addTask(card, title, due)
+      setTitle("")
+      setDueAt(toDateTimeInput(getDefaultDueAt()))
+    }, "Failed to add task")
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <Bell className="w-4 h-4" />
+        Follow-ups
+      </h4>
+
+      {tasks.length > 0 && (
+        <div className="border rounded-lg divide-y bg-background">
+          {tasks.map(task => (
+            <TaskRow
+              key={task.id}
+              task={task}
+              now={followUps.now}
+              onToggleDone={actions.toggleDone}
+              onSnooze={actions.snooze}
+              onDelete={actions.remove}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          placeholder="Add a follow-up (e.g. Send the proposal)"
+          aria-label="Follow-up task"
+          className="text-sm"
+        />
+        <Input
+          type="datetime-local"
+          value={dueAt}
+          onChange={(e) => setDueAt(e.target.value)}
+          aria-label="Due"
+          className="text-sm sm:w-56"
+        />
+        <Button size="sm" onClick={handleAdd} disabled={!title.trim() || !due} className="sm:h-10">
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface DueTodayListProps {
+  followUps: FollowUps
+  onOpenCard: (cardId: string) => void
+}
+
+// Open tasks due today or overdue, across all contacts
+export function DueTodayList({ followUps, onOpenCard }: DueTodayListProps) {
+  const actions = useTaskActions(followUps)
+  const { dueTasks, now } = followUps
+
+  if (dueTasks.length === 0) return null
+
+  const overdueCount = dueTasks.filter(task => isOverdue(task, now)).length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <h2 className="text-2xl font-bold">Due today</h2>
+        <Badge variant="secondary">{dueTasks.length}</Badge>
+        {overdueCount > 0 && <Badge variant="destructive">{overdueCount} overdue</Badge>}
+      </div>
+      <div className="border rounded-lg divide-y">
+        {dueTasks.map(task => (
+          <TaskRow
+            key={task.id}
+            task={task}
+            now={now}
+            showContact
+            onToggleDone={actions.toggleDone}
+            onSnooze={actions.snooze}
+            onOpen={(task) => onOpenCard(task.cardId)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
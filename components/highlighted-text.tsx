@@ -0,0 +1,33 @@
+"use client"
+
+import { Fragment } from "react"
+import { getHighlightRanges } from "@/lib/search-utils"
+
+interface HighlightedTextProps {
+  text: string
+  terms?: string[]  // Matched search terms; nothing is highlighted without them
+}
+
+// Text with the words that matched a search marked
+export function HighlightedText({ text, terms = [] }: HighlightedTextProps) {
+  const ranges = getHighlightRanges(text, terms)
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let position = 0
+  ranges.forEach((range, index) => {
+    if (range.start < position) return
+    parts.push(
+      <Fragment key={index}>
+        {text.slice(position, range.start)}
+        <mark className="bg-yellow-200 dark:bg-yellow-800 text-inherit rounded-sm px-0.5">
+          {text.slice(range.start, range.end)}
+        </mark>
+      </Fragment>
+    )
+    position = range.end
+  })
+  parts.push(text.slice(position))
+
+  return <>{parts}</>
+}
@@ -3,27 +3,36 @@
 import React from "react"
 import { Phone, Mail, Globe, Linkedin, ExternalLink } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { normalizePhone } from "@/lib/phone-utils"
 
 interface InteractiveContactFieldProps {
   type: "phone" | "email" | "website" | "linkedin" | "twitter"
   value: string
+  e164?: string          // Normalized phone number used for tel: links
   className?: string
   iconClassName?: string
   showIcon?: boolean
   truncate?: boolean
+  onContact?: () => void // Called when the link is followed (e.g. to log a call)
 }
 
 export function InteractiveContactField({
   type,
   value,
+  e164,
   className = "",
   iconClassName = "",
   showIcon = true,
-  truncate = false
+  truncate = false,
+  onContact,
 }: InteractiveContactFieldProps) {
   if (!value) return null
 
   const formatPhoneNumber = (phone: string) => {
+    // Prefer the E.164 form so the link dials correctly from abroad
+    const normalized = e164 || normalizePhone(phone)?.e164
+    if (normalized) return normalized
+
     // Remove any non-digit characters for the tel: link
     const cleaned = phone.replace(/\D/g, '')
     return cleaned
@@ -167,8 +176,10 @@ export function InteractiveContactField({
           const confirmed = confirm(`Do you want to call ${value}?`)
           if (!confirmed) {
             e.preventDefault()
+            return
           }
         }
+        onContact?.()
       }}
     >
       {showIcon && (
@@ -120,16 +120,16 @@ export function OfflineIndicator({ userId, onSync }: OfflineIndicatorProps) {
                 <div>
                   <p className="text-sm font-medium text-red-800">You're offline</p>
                   <p className="text-xs text-red-600">
-                    Cards will be saved locally and synced when you're back online
+                    Cards and follow-ups will be saved locally and synced when you're back online
                   </p>
                 </div>
               ) : pendingUploads > 0 ? (
                 <div>
                   <p className="text-sm font-medium text-yellow-800">
-                    {pendingUploads} card{pendingUploads > 1 ? 's' : ''} pending sync
+                    {pendingUploads} change{pendingUploads > 1 ? 's' : ''} pending sync
                   </p>
                   <p className="text-xs text-yellow-600">
-                    Cards saved offline are being uploaded
+                    Cards and follow-ups saved offline are being uploaded
                   </p>
                 </div>
               ) : null}
@@ -0,0 +1,270 @@
+"use client"
+
+import { useState } from "react"
+import { Star, Tag, FolderPlus, Folder, X, Plus, Trash2, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { cn } from "@/lib/utils"
+import type { BusinessCardData, CardGroup, CardOrganization, GroupColor } from "@/types"
+import {
+  GROUP_COLORS,
+  GROUP_COLOR_NAMES,
+  changeGroups,
+  changeTags,
+  hasTag,
+  normalizeTag,
+} from "@/lib/organization"
+
+interface OrganizeToolbarProps {
+  selectedCards: BusinessCardData[]
+  groups: CardGroup[]
+  knownTags: string[]
+  onOrganize: (change: (card: BusinessCardData) => CardOrganization) => Promise<void>
+  onCreateGroup: (name: string, color: GroupColor) => Promise<CardGroup | undefined>
+  onDeleteGroup: (group: CardGroup) => Promise<void>
+  onClearSelection: () => void
+  onSendToCrm?: () => Promise<void>
+}
+
+// Checkbox state of a tag or group across the selected cards
+function getCheckState(count: number, total: number): boolean | "indeterminate" {
+  if (count === 0) return false
+  return count === total ? true : "indeterminate"
+}
+
+// Bulk actions for the selected cards: favorite, tags, groups and sending to the CRM
+export function OrganizeToolbar({
+  selectedCards,
+  groups,
+  knownTags,
+  onOrganize,
+  onCreateGroup,
+  onDeleteGroup,
+  onClearSelection,
+  onSendToCrm,
+}: OrganizeToolbarProps) {
+  const [newTag, setNewTag] = useState("")
+  const [newGroupName, setNewGroupName] = useState("")
+  const [newGroupColor, setNewGroupColor] = useState<GroupColor>("blue")
+  const [isBusy, setIsBusy] = useState(false)
+
+  const total = selectedCards.length
+  const allFavorite = selectedCards.every(card => card.isFavorite)
+
+  // Tags on the selected cards first, then the rest of the known tags
+  const selectedTags = knownTags.filter(tag => selectedCards.some(card => hasTag(card, tag)))
+  const tagOptions = [...selectedTags, ...knownTags.filter(tag => !selectedTags.includes(tag))]
+
+  const run = async (change: (card: BusinessCardData) => CardOrganization) => {
+    setIsBusy(true)
+    try {
+      await onOrganize(change)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  // Checking a tag adds it to every selected card; unchecking (or a partly applied tag) removes it
+  const toggleTag = (tag: string) => {
+    const count = selectedCards.filter(card => hasTag(card, tag)).length
+    const add = count < total
+    return run(card => ({ tags: add ? changeTags(card, [tag], []) : changeTags(card, [], [tag]) }))
+  }
+
+  const addNewTag = async () => {
+    const tag = normalizeTag(newTag)
+    if (!tag) return
+    setNewTag("")
+    await run(card => ({ tags: changeTags(card, [tag], []) }))
+  }
+
+  const toggleGroup = (group: CardGroup) => {
+    const count = selectedCards.filter(card => card.groupIds?.includes(group.id)).length
+    const add = count < total
+    return run(card => ({ groupIds: add ? changeGroups(card, [group.id], []) : changeGroups(card, [], [group.id]) }))
+  }
+
+  const addNewGroup = async () => {
+    const name = newGroupName.trim()
+    if (!name) return
+    setIsBusy(true)
+    try {
+      const group = await onCreateGroup(name, newGroupColor)
+      setNewGroupName("")
+      if (group) {
+        await onOrganize(card => ({ groupIds: changeGroups(card, [group.id], []) }))
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  // Typing in a menu would otherwise jump to matching items
+  const stopMenuKeys = (event: React.KeyboardEvent, submit: () => void) => {
+    event.stopPropagation()
+    if (event.key === "Enter") {
+      event.preventDefault()
+      submit()
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/30 px-3 py-2">
+      <span className="text-sm font-medium mr-1">{total} selected</span>
+
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={isBusy}
+        onClick={() => run(() => ({ isFavorite: !allFavorite }))}
+      >
+        <Star className={cn("w-4 h-4 mr-2", allFavorite && "fill-yellow-400 text-yellow-400")} />
+        {allFavorite ? "Unfavorite" : "Favorite"}
+      </Button>
+
+      {/* Tags */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isBusy}>
+            <Tag className="w-4 h-4 mr-2" />
+            Tags
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-60">
+          <div className="flex items-center gap-1 p-1">
+            <Input
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => stopMenuKeys(e, addNewTag)}
+              placeholder="New tag"
+              className="h-8"
+            />
+            <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={addNewTag} disabled={!newTag.trim()}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+          {tagOptions.length > 0 && <DropdownMenuSeparator />}
+          {tagOptions.map(tag => (
+            <DropdownMenuCheckboxItem
+              key={tag}
+              checked={getCheckState(selectedCards.filter(card => hasTag(card, tag)).length, total)}
+              onSelect={(e) => {
+                e.preventDefault()
+                toggleTag(tag)
+              }}
+            >
+              {tag}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Groups */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isBusy}>
+            <Folder className="w-4 h-4 mr-2" />
+            Groups
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          {groups.length > 0 && (
+            <>
+              {groups.map(group => (
+                <DropdownMenuCheckboxItem
+                  key={group.id}
+                  checked={getCheckState(selectedCards.filter(card => card.groupIds?.includes(group.id)).length, total)}
+                  onSelect={(e) => {
+                    e.preventDefault()
+                    toggleGroup(group)
+                  }}
+                  className="group"
+                >
+                  <span className={cn("w-2.5 h-2.5 rounded-full mr-2 shrink-0", GROUP_COLORS[group.color].dot)} />
+                  <span className="truncate">{group.name}</span>
+                  <button
+                    type="button"
+                    className="ml-auto opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onDeleteGroup(group)
+                    }}
+                    title="Delete group"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </DropdownMenuCheckboxItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuLabel className="flex items-center gap-2 text-xs font-normal text-muted-foreground">
+            <FolderPlus className="w-3 h-3" />
+            New group
+          </DropdownMenuLabel>
+          <div className="space-y-2 p-1">
+            <Input
+              value={newGroupName}
+              onChange={(e) => setNewGroupName(e.target.value)}
+              onKeyDown={(e) => stopMenuKeys(e, addNewGroup)}
+              placeholder="Group name"
+              className="h-8"
+            />
+            <div className="flex items-center justify-between">
+              <div className="flex gap-1">
+                {GROUP_COLOR_NAMES.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setNewGroupColor(color)}
+                    className={cn(
+                      "w-4 h-4 rounded-full",
+                      GROUP_COLORS[color].dot,
+                      newGroupColor === color && "ring-2 ring-offset-1 ring-primary"
+                    )}
+                    title={color}
+                  />
+                ))}
+              </div>
+              <Button size="sm" className="h-7" onClick={addNewGroup} disabled={!newGroupName.trim() || isBusy}>
+                Add
+              </Button>
+            </div>
+          </div>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {onSendToCrm && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isBusy}
+          onClick={async () => {
+            setIsBusy(true)
+            try {
+              await onSendToCrm()
+            } finally {
+              setIsBusy(false)
+            }
+          }}
+        >
+          <Send className="w-4 h-4 mr-2" />
+          Send to CRM
+        </Button>
+      )}
+
+      <Button variant="ghost" size="sm" onClick={onClearSelection} className="ml-auto">
+        <X className="w-4 h-4 mr-1" />
+        Clear
+      </Button>
+    </div>
+  )
+}
@@ -7,13 +7,15 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { QrCode, Download, Share2 } from "lucide-react"
 import type { BusinessCardData } from "@/types"
+import { formatVCardPhone, generateVCardAddressLines, generateVCardNameLines } from "@/services/contact-export-service"
 
 interface QRContactShareProps {
   data: BusinessCardData
   className?: string
+  onShare?: (method: "shared" | "copied" | "downloaded") => void // Called after the QR code left the app
 }
 
-export function QRContactShare({ data, className }: QRContactShareProps) {
+export function QRContactShare({ data, className, onShare }: QRContactShareProps) {
   const [qrCodeDataURL, setQrCodeDataURL] = useState<string>("")
   const [isGenerating, setIsGenerating] = useState(false)
 
@@ -24,15 +26,9 @@ export function QRContactShare({ data, className }: QRContactShareProps) {
     vcard.push("BEGIN:VCARD")
     vcard.push("VERSION:3.0")
     
-    // Name (required field)
+    // Name (required field) - locale-aware order and phonetic readings
     if (data.name) {
-      // Try to split name into first and last name
-      const nameParts = data.name.trim().split(/\s+/)
-      const firstName = nameParts[0] || ""
-      const lastName = nameParts.slice(1).join(" ") || ""
-      
-      vcard.push(`N:${lastName};${firstName};;;`)
-      vcard.push(`FN:${data.name}`)
+      vcard.push(...generateVCardNameLines(data))
     }
     
     // Organization and title
@@ -46,11 +42,11 @@ export function QRContactShare({ data, className }: QRContactShareProps) {
     
     // Phone numbers
     if (data.phone) {
-      vcard.push(`TEL;TYPE=WORK,VOICE:${data.phone}`)
+      vcard.push(`TEL;TYPE=WORK,VOICE:${formatVCardPhone(data, "phone")}`)
     }
     
     if (data.mobile && data.mobile !== data.phone) {
-      vcard.push(`TEL;TYPE=CELL:${data.mobile}`)
+      vcard.push(`TEL;TYPE=CELL:${formatVCardPhone(data, "mobile")}`)
     }
     
     // Email
@@ -59,10 +55,7 @@ export function QRContactShare({ data, className }: QRContactShareProps) {
     }
     
     // Address
-    if (data.address) {
-      // Simple address format - you could enhance this to parse components
-      vcard.push(`ADR;TYPE=WORK:;;${data.address};;;;`)
-    }
+    vcard.push(...generateVCardAddressLines(data))
     
     // Website
     if (data.website) {
@@ -104,7 +97,7 @@ export function QRContactShare({ data, className }: QRContactShareProps) {
         vcard.push(`X-DEPARTMENT:${data.metadata.department}`)
       }
       if (data.metadata.fax) {
-        vcard.push(`TEL;TYPE=FAX:${data.metadata.fax}`)
+        vcard.push(`TEL;TYPE=FAX:${formatVCardPhone(data, "fax")}`)
       }
     }
     
@@ -155,6 +148,7 @@ export function QRContactShare({ data, className }: QRContactShareProps) {
     link.download = `${data.name || "contact"}_qr_code.png`
     link.href = qrCodeDataURL
     link.click()
+    onShare?.("downloaded")
   }
 
   const handleShareQR = async () => {
@@ -176,6 +170,7 @@ export function QRContactShare({ data, className }: QRContactShareProps) {
             text: "Scan this QR code to add contact details",
             files: [file],
           })
+          onShare?.("shared")
           return
         }
       }
@@ -186,6 +181,7 @@ export function QRContactShare({ data, className }: QRContactShareProps) {
           "image/png": blob,
         }),
       ])
+      onShare?.("copied")
       
       // You might want to show a toast notification here
     } catch (error) {
@@ -225,7 +221,19 @@ export function QRContactShare({ data, className }: QRContactShareProps) {
             </div>
           ) : null}
         </div>
-        
+
+        {qrCodeDataURL && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1" onClick={handleShareQR}>
+              <Share2 className="w-4 h-4 mr-2" />
+              Share
+            </Button>
+            <Button variant="outline" size="sm" className="flex-1" onClick={handleDownloadQR}>
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   )
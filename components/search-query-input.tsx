@@ -0,0 +1,224 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Search, Bookmark, BookmarkCheck, Clock, X } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { EnhancedStorageService } from "@/services/enhanced-storage-service"
+import { useSavedSearches } from "@/hooks/use-saved-searches"
+import {
+  applyQuerySuggestion,
+  getQuerySuggestions,
+  parseSearchQuery,
+  type QueryTextField,
+} from "@/lib/search-query"
+
+interface SearchQueryInputProps {
+  userId: string
+  value: string
+  onChange: (value: string) => void
+}
+
+interface DropdownItem {
+  key: string
+  label: string
+  description?: string
+  icon?: "recent" | "saved"
+  apply: () => void
+  onRemove?: () => void
+}
+
+// Search box that understands field filters (company:acme is:favorite ...), with autocomplete
+// for field names and known values, and the user's recent and saved searches
+export function SearchQueryInput({ userId, value, onChange }: SearchQueryInputProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [knownValues, setKnownValues] = useState<Partial<Record<QueryTextField, string[]>>>({})
+  const inputRef = useRef<HTMLInputElement>(null)
+  const {
+    recentSearches,
+    savedSearches,
+    addRecentSearch,
+    clearRecentSearches,
+    saveSearch,
+    removeSavedSearch,
+  } = useSavedSearches(userId)
+
+  // Known values for autocomplete come from the cached collection; refresh them when the box opens
+  useEffect(() => {
+    if (!isOpen) return
+    EnhancedStorageService.getKnownSearchValues(userId)
+      .then(setKnownValues)
+      .catch(error => console.error("Failed to load search suggestions:", error))
+  }, [userId, isOpen])
+
+  useEffect(() => {
+    setActiveIndex(-1)
+  }, [value])
+
+  const trimmed = value.trim()
+  const isSaved = savedSearches.some(search => search.query === trimmed)
+  const { errors } = parseSearchQuery(value)
+
+  const runSearch = (query: string) => {
+    onChange(query)
+    addRecentSearch(query)
+    setIsOpen(false)
+  }
+
+  const items: DropdownItem[] = trimmed
+    ? getQuerySuggestions(value, knownValues).map(suggestion => ({
+        key: suggestion.label,
+        label: suggestion.label,
+        description: suggestion.description,
+        apply: () => {
+          onChange(applyQuerySuggestion(value, suggestion))
+          inputRef.current?.focus()
+        },
+      }))
+    : [
+        ...savedSearches.map(search => ({
+          key: `saved:${search.query}`,
+          label: search.name,
+          description: search.name !== search.query ? search.query : undefined,
+          icon: "saved" as const,
+          apply: () => runSearch(search.query),
+          onRemove: () => removeSavedSearch(search.query),
+        })),
+        ...recentSearches
+          .filter(recent => !savedSearches.some(search => search.query === recent))
+          .map(recent => ({
+            key: `recent:${recent}`,
+            label: recent,
+            icon: "recent" as const,
+            apply: () => runSearch(recent),
+          })),
+      ]
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" && items.length > 0) {
+      event.preventDefault()
+      setIsOpen(true)
+      setActiveIndex(index => (index + 1) % items.length)
+    } else if (event.key === "ArrowUp" && items.length > 0) {
+      event.preventDefault()
+      setActiveIndex(index => (index <= 0 ? items.length - 1 : index - 1))
+    } else if (event.key === "Tab" && isOpen && trimmed && items.length > 0) {
+      // Tab completes the highlighted (or first) suggestion
+      event.preventDefault()
+      items[Math.max(activeIndex, 0)].apply()
+    } else if (event.key === "Enter") {
+      event.preventDefault()
+      if (isOpen && activeIndex >= 0 && items[activeIndex]) {
+        items[activeIndex].apply()
+      } else {
+        runSearch(value)
+      }
+    } else if (event.key === "Escape") {
+      setIsOpen(false)
+    }
+  }
+
+  const toggleSaved = () => {
+    if (isSaved) {
+      removeSavedSearch(trimmed)
+    } else {
+      saveSearch(trimmed, trimmed)
+    }
+  }
+
+  return (
+    <div className="relative flex-1">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+        <Input
+          ref={inputRef}
+          placeholder="Search cards... (try company:acme is:favorite)"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setIsOpen(true)
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => {
+            setIsOpen(false)
+            addRecentSearch(value)
+          }}
+          onKeyDown={handleKeyDown}
+          className="pl-10 pr-10"
+          aria-autocomplete="list"
+          aria-expanded={isOpen && items.length > 0}
+        />
+        {trimmed && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={toggleSaved}
+            className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 p-0"
+            title={isSaved ? "Remove saved search" : "Save this search"}
+          >
+            {isSaved ? (
+              <BookmarkCheck className="w-4 h-4 text-primary" />
+            ) : (
+              <Bookmark className="w-4 h-4 text-muted-foreground" />
+            )}
+          </Button>
+        )}
+      </div>
+
+      {errors.length > 0 && !(isOpen && items.length > 0) && (
+        <p className="mt-1 text-xs text-destructive">{errors.join(" · ")}</p>
+      )}
+
+      {isOpen && items.length > 0 && (
+        <div
+          className="absolute z-20 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md py-1"
+          // Keep focus in the input while clicking items
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {!trimmed && recentSearches.length > 0 && (
+            <div className="flex items-center justify-between px-3 py-1 text-xs text-muted-foreground">
+              <span>{savedSearches.length > 0 ? "Saved and recent searches" : "Recent searches"}</span>
+              <button type="button" className="hover:text-foreground" onClick={clearRecentSearches}>
+                Clear recent
+              </button>
+            </div>
+          )}
+          {items.map((item, index) => (
+            <div
+              key={item.key}
+              className={cn(
+                "flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer",
+                index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted/50"
+              )}
+              onClick={item.apply}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              {item.icon === "recent" && <Clock className="w-3 h-3 text-muted-foreground shrink-0" />}
+              {item.icon === "saved" && <Bookmark className="w-3 h-3 text-muted-foreground shrink-0" />}
+              <span className="font-mono truncate">{item.label}</span>
+              {item.description && (
+                <span className="ml-auto text-xs text-muted-foreground truncate">{item.description}</span>
+              )}
+              {item.onRemove && (
+                <button
+                  type="button"
+                  className={cn("text-muted-foreground hover:text-foreground", !item.description && "ml-auto")}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    item.onRemove!()
+                  }}
+                  title="Remove saved search"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { useCallback, useState, useEffect } from "react"
+import { ArrowLeft, RotateCcw, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { SimpleBusinessCardIcon } from "@/components/icons/simple-business-card-icon"
+import type { TrashedCard } from "@/types"
+import { EnhancedStorageService } from "@/services/enhanced-storage-service"
+import { TRASH_RETENTION_DAYS, getTrashDaysLeft } from "@/lib/card-history"
+import { useToast } from "@/hooks/use-toast"
+
+interface TrashViewProps {
+  userId: string
+  onClose: () => void
+  onCardsChanged: () => Promise<void>
+}
+
+// Deleted cards, kept for TRASH_RETENTION_DAYS days: restore them or delete them for good
+export function TrashView({ userId, onClose, onCardsChanged }: TrashViewProps) {
+  const [trash, setTrash] = useState<TrashedCard[] | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [confirmEmpty, setConfirmEmpty] = useState(false)
+  const { toast } = useToast()
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await EnhancedStorageService.getTrash(userId))
+    } catch (error) {
+      console.error("Failed to load trash:", error)
+      setTrash([])
+      toast({
+        title: "Trash unavailable",
+        description: "Deleted cards can only be listed when you are online.",
+        variant: "destructive",
+      })
+    }
+  }, [userId, toast])
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  const removeFromList = (cardId: string) => {
+    setTrash(prev => prev && prev.filter(entry => entry.card.id !== cardId))
+  }
+
+  const handleRestore = async (entry: TrashedCard) => {
+    setBusyId(entry.card.id!)
+    try {
+      await EnhancedStorageService.restoreCard(userId, entry.card.id!)
+      removeFromList(entry.card.id!)
+      await onCardsChanged()
+      toast({
+        title: "Card restored",
+        description: `${entry.card.name || "The card"} is back in your collection.`,
+      })
+    } catch (error) {
+      console.error("Failed to restore card:", error)
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "Failed to restore the card. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePurge = async (entries: TrashedCard[]) => {
+    let failed = 0
+    for (const entry of entries) {
+      setBusyId(entry.card.id!)
+      try {
+        await EnhancedStorageService.purgeCard(userId, entry.card.id!)
+        removeFromList(entry.card.id!)
+      } catch (error) {
+        console.error("Failed to delete card for good:", error)
+        failed++
+      }
+    }
+    setBusyId(null)
+
+    if (failed > 0) {
+      toast({
+        title: "Delete failed",
+        description: `${failed} card${failed === 1 ? "" : "s"} could not be deleted. Please try again.`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const isBusy = busyId !== null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose} disabled={isBusy}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back
+          </Button>
+          <h3 className="text-lg font-medium">Trash</h3>
+        </div>
+        {trash && trash.length > 0 && (
+          <Button variant="outline" size="sm" onClick={() => setConfirmEmpty(true)} disabled={isBusy}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Empty Trash
+          </Button>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Deleted cards are kept for {TRASH_RETENTION_DAYS} days, then deleted for good with their history.
+      </p>
+
+      {trash === null ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-muted-foreground">Loading deleted cards...</p>
+          </div>
+        </div>
+      ) : trash.length === 0 ? (
+        <div className="text-center py-12">
+          <SimpleBusinessCardIcon className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-medium mb-2">Trash is empty</h3>
+          <p className="text-muted-foreground">Cards you delete show up here</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {trash.map(entry => {
+            const daysLeft = getTrashDaysLeft(entry.deletedAt)
+            return (
+              <div key={entry.card.id} className="flex items-center gap-3 border rounded-lg p-3">
+                {entry.card.thumbnailBase64 ? (
+                  <img
+                    src={entry.card.thumbnailBase64}
+                    alt="Card thumbnail"
+                    className="w-12 h-8 object-cover rounded border flex-shrink-0"
+                  />
+                ) : (
+                  <SimpleBusinessCardIcon className="w-12 h-8 text-muted-foreground flex-shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="font-medium truncate">{entry.card.name || "Unknown Name"}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {[entry.card.company, `Deleted ${new Date(entry.deletedAt).toLocaleDateString()}`]
+                      .filter(Boolean)
+                      .join(" · ")}
+                    {" · "}
+                    {daysLeft === 0 ? "deleted for good today" : `${daysLeft} day${daysLeft === 1 ? "" : "s"} left`}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(entry)} disabled={isBusy}>
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handlePurge([entry])}
+                    disabled={isBusy}
+                    className="text-destructive hover:text-destructive"
+                    title="Delete forever"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={confirmEmpty} onOpenChange={setConfirmEmpty}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty Trash</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete {trash?.length === 1 ? "the card" : `all ${trash?.length ?? 0} cards`} in the trash for good?
+              Their activity and edit history are deleted too. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => trash && handlePurge(trash)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Empty Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,392 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ArrowLeft, Copy, Eye, EyeOff, History, Plus, RefreshCw, Trash2, Zap } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  retryWebhookDeliveries,
+  testWebhook,
+  updateWebhook,
+  type WebhookChanges,
+} from "@/services/webhook-service"
+import { useToast } from "@/hooks/use-toast"
+import type { Webhook, WebhookDelivery, WebhookEventType } from "@/types"
+
+interface WebhookSettingsProps {
+  userId: string
+  onClose: () => void
+}
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  "card.created": "Created",
+  "card.updated": "Updated",
+  "card.deleted": "Deleted",
+  "card.merged": "Merged",
+}
+
+const ALL_EVENTS = Object.keys(EVENT_LABELS) as WebhookEventType[]
+
+const STATE_BADGES: Record<WebhookDelivery["state"], { label: string; variant: "secondary" | "outline" | "destructive" }> = {
+  delivered: { label: "Delivered", variant: "secondary" },
+  retrying: { label: "Retrying", variant: "outline" },
+  failed: { label: "Failed", variant: "destructive" },
+}
+
+function describeDelivery(delivery: WebhookDelivery): string {
+  return [
+    new Date(delivery.createdAt).toLocaleString(),
+    `${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"}`,
+    delivery.responseStatus && `HTTP ${delivery.responseStatus}`,
+    delivery.durationMs !== undefined && `${delivery.durationMs} ms`,
+    delivery.state === "retrying" && delivery.nextAttemptAt && `next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`,
+  ].filter(Boolean).join(" · ")
+}
+
+// Webhooks of the user's automation, told about cards created, updated, deleted and merged.
+// Each payload is signed with the webhook's secret; deliveries are logged and retried by the server.
+export function WebhookSettings({ userId, onClose }: WebhookSettingsProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[] | null>(null)
+  const [url, setUrl] = useState("")
+  const [description, setDescription] = useState("")
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [revealedId, setRevealedId] = useState<string | null>(null)
+  const [logId, setLogId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null)
+  const [confirmDelete, setConfirmDelete] = useState<Webhook | null>(null)
+  const { toast } = useToast()
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const loaded = await getWebhooks()
+      setWebhooks(loaded)
+      // Send retries that came due while the app was closed; the log shows how they went
+      if (loaded.length > 0) {
+        retryWebhookDeliveries().catch(error => console.error("Failed to send webhook retries:", error))
+      }
+    } catch (error) {
+      console.error("Failed to load webhooks:", error)
+      setWebhooks([])
+      toast({
+        title: "Webhooks unavailable",
+        description: error instanceof Error ? error.message : "Failed to load webhooks. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadWebhooks()
+  }, [userId, loadWebhooks])
+
+  const loadDeliveries = async (webhookId: string) => {
+    setLogId(webhookId)
+    setDeliveries(null)
+    try {
+      setDeliveries(await getWebhookDeliveries(webhookId))
+    } catch (error) {
+      console.error("Failed to load webhook deliveries:", error)
+      setDeliveries([])
+    }
+  }
+
+  // Create a webhook, or change one when given its ID
+  const saveWebhook = async (webhookId: string | null, changes: WebhookChanges) => {
+    setBusyId(webhookId || "new")
+    try {
+      const saved = webhookId
+        ? await updateWebhook(webhookId, changes)
+        : await createWebhook({ ...changes, url: changes.url! })
+      setWebhooks(prev => {
+        const current = prev || []
+        return current.some(existing => existing.id === saved.id)
+          ? current.map(existing => existing.id === saved.id ? saved : existing)
+          : [...current, saved]
+      })
+      return saved
+    } catch (error) {
+      console.error("Failed to save webhook:", error)
+      toast({
+        title: "Webhook not saved",
+        description: error instanceof Error ? error.message : "Failed to save the webhook. Please try again.",
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const saved = await saveWebhook(null, {
+      url: url.trim(),
+      description: description.trim() || undefined,
+      events: ALL_EVENTS,
+    })
+    if (saved) {
+      setUrl("")
+      setDescription("")
+      setRevealedId(saved.id)
+    }
+  }
+
+  const toggleEvent = (webhook: Webhook, event: WebhookEventType) => {
+    const events = webhook.events.includes(event)
+      ? webhook.events.filter(existing => existing !== event)
+      : ALL_EVENTS.filter(existing => existing === event || webhook.events.includes(existing))
+    saveWebhook(webhook.id, { events })
+  }
+
+  const handleTest = async (webhook: Webhook) => {
+    setBusyId(webhook.id)
+    try {
+      const delivery = await testWebhook(webhook.id)
+      toast({
+        title: delivery.state === "delivered" ? "Test event delivered" : "Test event failed",
+        description: delivery.state === "delivered"
+          ? `The endpoint answered ${delivery.responseStatus} in ${delivery.durationMs} ms.`
+          : delivery.error,
+        variant: delivery.state === "delivered" ? undefined : "destructive",
+      })
+      if (logId === webhook.id) await loadDeliveries(webhook.id)
+    } catch (error) {
+      console.error("Failed to send test event:", error)
+      toast({
+        title: "Test event failed",
+        description: error instanceof Error ? error.message : "Failed to send the test event. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCopySecret = async (webhook: Webhook) => {
+    try {
+      await navigator.clipboard.writeText(webhook.secret)
+      toast({ title: "Secret copied" })
+    } catch (error) {
+      console.error("Failed to copy secret:", error)
+      setRevealedId(webhook.id)
+    }
+  }
+
+  const handleDelete = async (webhook: Webhook) => {
+    setBusyId(webhook.id)
+    try {
+      await deleteWebhook(webhook.id)
+      setWebhooks(prev => prev && prev.filter(existing => existing.id !== webhook.id))
+      if (logId === webhook.id) setLogId(null)
+    } catch (error) {
+      console.error("Failed to delete webhook:", error)
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Failed to delete the webhook. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const isBusy = busyId !== null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </Button>
+        <h3 className="text-lg font-medium">Webhooks</h3>
+      </div>
+
+      <form onSubmit={handleAdd} className="border rounded-lg p-4 space-y-3 max-w-2xl">
+        <div className="space-y-1">
+          <Label htmlFor="webhook-url">Endpoint URL</Label>
+          <Input
+            id="webhook-url"
+            type="url"
+            placeholder="https://hooks.example.com/card-scan"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="webhook-description">Description</Label>
+          <Input
+            id="webhook-description"
+            placeholder="Optional, e.g. Zapier lead flow"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={!url.trim() || isBusy}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Webhook
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Every event is POSTed as JSON ({"{ id, event, createdAt, data: { card } }"}) with an
+          X-CardScan-Signature header: the HMAC-SHA256 of the timestamp and body, keyed with the
+          secret of the webhook. Failed deliveries are retried for about 15 hours, waiting longer each time.
+        </p>
+      </form>
+
+      {webhooks === null ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+      ) : (
+        <div className="space-y-3 max-w-2xl">
+          {webhooks.map(webhook => (
+            <div key={webhook.id} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{webhook.url}</div>
+                  {webhook.description && (
+                    <div className="text-xs text-muted-foreground truncate">{webhook.description}</div>
+                  )}
+                </div>
+                <Switch
+                  checked={webhook.active}
+                  onCheckedChange={(active) => saveWebhook(webhook.id, { active })}
+                  disabled={isBusy}
+                  aria-label="Active"
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {ALL_EVENTS.map(event => (
+                  <Button
+                    key={event}
+                    type="button"
+                    size="sm"
+                    variant={webhook.events.includes(event) ? "secondary" : "outline"}
+                    onClick={() => toggleEvent(webhook, event)}
+                    disabled={isBusy || (webhook.events.length === 1 && webhook.events[0] === event)}
+                  >
+                    {EVENT_LABELS[event]}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <code className="text-xs bg-muted rounded px-2 py-1 truncate">
+                  {revealedId === webhook.id ? webhook.secret : `${webhook.secret.slice(0, 6)}${"•".repeat(16)}`}
+                </code>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                  title={revealedId === webhook.id ? "Hide secret" : "Show secret"}
+                >
+                  {revealedId === webhook.id ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleCopySecret(webhook)} title="Copy secret">
+                  <Copy className="w-3 h-3" />
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleTest(webhook)} disabled={isBusy}>
+                  <Zap className="w-3 h-3 mr-1" />
+                  Send Test Event
+                </Button>
+                <Button
+                  variant={logId === webhook.id ? "secondary" : "outline"}
+                  size="sm"
+                  onClick={() => logId === webhook.id ? setLogId(null) : loadDeliveries(webhook.id)}
+                >
+                  <History className="w-3 h-3 mr-1" />
+                  Delivery Log
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setConfirmDelete(webhook)}
+                  disabled={isBusy}
+                  className="text-destructive hover:text-destructive"
+                  title="Delete webhook"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+
+              {logId === webhook.id && (
+                <div className="border-t pt-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Recent deliveries</span>
+                    <Button variant="ghost" size="sm" onClick={() => loadDeliveries(webhook.id)} title="Refresh">
+                      <RefreshCw className="w-3 h-3" />
+                    </Button>
+                  </div>
+                  {deliveries === null ? (
+                    <p className="text-xs text-muted-foreground">Loading...</p>
+                  ) : deliveries.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Nothing sent yet.</p>
+                  ) : (
+                    deliveries.map(delivery => (
+                      <div key={delivery.id} className="text-xs space-y-0.5">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={STATE_BADGES[delivery.state].variant} className="text-[10px] px-1.5 py-0">
+                            {STATE_BADGES[delivery.state].label}
+                          </Badge>
+                          <span className="font-medium">{delivery.event}</span>
+                          <span className="text-muted-foreground truncate">{describeDelivery(delivery)}</span>
+                        </div>
+                        {delivery.error && <div className="text-muted-foreground truncate">{delivery.error}</div>}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={confirmDelete !== null} onOpenChange={(open) => !open && setConfirmDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+            <AlertDialogDescription>
+              Stop sending events to {confirmDelete?.url}? Its delivery log is deleted too, and retries
+              still waiting are dropped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirmDelete && handleDelete(confirmDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import type { CardEvent } from "@/types"
+import { normalizeEvent } from "@/lib/card-events"
+
+// The event new scans are stamped with, kept per user in localStorage so it survives
+// reloads during a day at a trade show
+export function useActiveEvent(userId?: string) {
+  const [activeEvent, setActiveEventState] = useState<CardEvent | null>(null)
+
+  const storageKey = userId ? `active_event_${userId}` : null
+
+  // Load the active event from localStorage
+  useEffect(() => {
+    if (!storageKey) {
+      setActiveEventState(null)
+      return
+    }
+    try {
+      const saved = localStorage.getItem(storageKey)
+      setActiveEventState(saved ? normalizeEvent(JSON.parse(saved)) : null)
+    } catch (error) {
+      console.error("Failed to load active event:", error)
+    }
+  }, [storageKey])
+
+  // Set (or clear, with null) the active event
+  const setActiveEvent = (event: CardEvent | null) => {
+    const normalized = normalizeEvent(event)
+    if (storageKey) {
+      try {
+        if (normalized) {
+          localStorage.setItem(storageKey, JSON.stringify(normalized))
+        } else {
+          localStorage.removeItem(storageKey)
+        }
+      } catch (error) {
+        console.error("Failed to save active event:", error)
+      }
+    }
+    setActiveEventState(normalized)
+  }
+
+  return {
+    activeEvent,
+    setActiveEvent,
+  }
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import type { CardDavAccount } from "@/services/carddav-sync-service"
+
+// The connected CardDAV address book, kept per user in localStorage: the credentials stay on
+// this device (use an app password), and so does the sync token. Another device syncs from
+// scratch and finds the cards already linked to their contacts.
+export function useCardDavAccount(userId?: string) {
+  const [account, setAccountState] = useState<CardDavAccount | null>(null)
+
+  const storageKey = userId ? `carddav_account_${userId}` : null
+
+  // Load the account from localStorage
+  useEffect(() => {
+    if (!storageKey) {
+      setAccountState(null)
+      return
+    }
+    try {
+      const saved = localStorage.getItem(storageKey)
+      setAccountState(saved ? JSON.parse(saved) : null)
+    } catch (error) {
+      console.error("Failed to load address book account:", error)
+    }
+  }, [storageKey])
+
+  // Save (or disconnect, with null) the account
+  const setAccount = (next: CardDavAccount | null) => {
+    if (storageKey) {
+      try {
+        if (next) {
+          localStorage.setItem(storageKey, JSON.stringify(next))
+        } else {
+          localStorage.removeItem(storageKey)
+        }
+      } catch (error) {
+        console.error("Failed to save address book account:", error)
+      }
+    }
+    setAccountState(next)
+  }
+
+  return {
+    account,
+    setAccount,
+  }
+}
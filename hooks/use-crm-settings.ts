@@ -0,0 +1,25 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { loadCrmSettings, saveCrmSettings, type CrmSettings } from "@/services/crm-service"
+
+// The CRM cards are sent to, kept per user in localStorage like the address book account: the
+// API key stays on this device, and queued sends use the settings as they are when retried.
+export function useCrmSettings(userId?: string) {
+  const [settings, setSettingsState] = useState<CrmSettings | null>(null)
+
+  useEffect(() => {
+    setSettingsState(userId ? loadCrmSettings(userId) : null)
+  }, [userId])
+
+  // Save (or disconnect, with null) the settings
+  const setSettings = (next: CrmSettings | null) => {
+    if (userId) saveCrmSettings(userId, next)
+    setSettingsState(next)
+  }
+
+  return {
+    settings,
+    setSettings,
+  }
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { duplicatePairKey } from "@/services/duplicate-detection-service"
+
+// Pairs of cards the user marked as "not duplicates", so the dedupe view stops suggesting them
+export function useDismissedDuplicates(userId: string) {
+  const [dismissedPairs, setDismissedPairs] = useState<Set<string>>(new Set())
+
+  const storageKey = `dismissed_duplicates_${userId}`
+
+  // Load dismissed pairs from localStorage
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(storageKey)
+      setDismissedPairs(new Set(saved ? JSON.parse(saved) : []))
+    } catch (error) {
+      console.error("Failed to load dismissed duplicates:", error)
+    }
+  }, [storageKey])
+
+  // Dismiss every pair of cards in a group
+  const dismissGroups = (groups: string[][]) => {
+    const next = new Set(dismissedPairs)
+    for (const cardIds of groups) {
+      for (let i = 0; i < cardIds.length; i++) {
+        for (let j = i + 1; j < cardIds.length; j++) {
+          next.add(duplicatePairKey(cardIds[i], cardIds[j]))
+        }
+      }
+    }
+
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(Array.from(next)))
+    } catch (error) {
+      console.error("Failed to save dismissed duplicates:", error)
+    }
+    setDismissedPairs(next)
+  }
+
+  return {
+    dismissedPairs,
+    dismissGroups,
+  }
+}
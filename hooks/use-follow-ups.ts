@@ -0,0 +1,98 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import type { BusinessCardData, FollowUpTask } from "@/types"
+import { EnhancedStorageService } from "@/services/enhanced-storage-service"
+import { requestReminderPermission, showTaskReminder } from "@/services/reminder-notification-service"
+import { createFollowUpTask, getDueTasks, getSnoozeUntil, getTasksToNotify, type SnoozeOption } from "@/lib/follow-ups"
+
+const CLOCK_INTERVAL_MS = 60 * 1000
+
+// Follow-up tasks of all the user's contacts. Changes are saved through EnhancedStorageService,
+// which queues them while offline; reminders are shown as tasks come due.
+export function useFollowUps(userId?: string) {
+  const [tasks, setTasks] = useState<FollowUpTask[]>([])
+  const [now, setNow] = useState(() => new Date())
+
+  const loadTasks = async () => {
+    if (!userId) {
+      setTasks([])
+      return
+    }
+    try {
+      setTasks(await EnhancedStorageService.getTasks(userId))
+    } catch (error) {
+      console.error("Failed to load follow-up tasks:", error)
+    }
+  }
+
+  // Load tasks, and again when the connection returns and queued changes sync
+  useEffect(() => {
+    loadTasks()
+    window.addEventListener("online", loadTasks)
+    return () => window.removeEventListener("online", loadTasks)
+  }, [userId])
+
+  // Tasks come due while the app stays open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  const replaceTask = (task: FollowUpTask) => {
+    setTasks(prev => [...prev.filter(current => current.id !== task.id), task])
+  }
+
+  const saveTask = async (task: FollowUpTask): Promise<FollowUpTask> => {
+    const saved = await EnhancedStorageService.saveTask(userId!, task)
+    replaceTask(saved)
+    return saved
+  }
+
+  // Notify once per reminder time; snoozing sets a new one
+  useEffect(() => {
+    if (!userId) return
+    for (const task of getTasksToNotify(tasks, now)) {
+      showTaskReminder(task).then(shown => {
+        if (shown) {
+          saveTask({ ...task, notifiedAt: new Date().toISOString() })
+            .catch(error => console.error("Failed to mark reminder as shown:", error))
+        }
+      })
+    }
+  }, [tasks, now, userId])
+
+  const addTask = async (card: BusinessCardData, title: string, dueAt: Date): Promise<FollowUpTask | null> => {
+    const task = createFollowUpTask(card, title, dueAt)
+    if (!task || !userId) return null
+    const saved = await saveTask(task)
+    requestReminderPermission()
+    return saved
+  }
+
+  const setTaskDone = async (task: FollowUpTask, done: boolean): Promise<FollowUpTask> => {
+    return saveTask({ ...task, done, completedAt: done ? new Date().toISOString() : null })
+  }
+
+  const snoozeTask = async (task: FollowUpTask, option: SnoozeOption): Promise<FollowUpTask> => {
+    return saveTask({ ...task, snoozedUntil: getSnoozeUntil(option).toISOString() })
+  }
+
+  const deleteTask = async (task: FollowUpTask): Promise<void> => {
+    await EnhancedStorageService.deleteTask(userId!, task)
+    setTasks(prev => prev.filter(current => current.id !== task.id))
+  }
+
+  return {
+    tasks,
+    dueTasks: getDueTasks(tasks, now),  // Open tasks due today or overdue
+    now,
+    addTask,
+    setTaskDone,
+    snoozeTask,
+    deleteTask,
+    reloadTasks: loadTasks,
+  }
+}
+
+export type FollowUps = ReturnType<typeof useFollowUps>
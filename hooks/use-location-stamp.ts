@@ -0,0 +1,40 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+const STORAGE_KEY = "location_stamp_enabled"
+
+// Opt-in setting for stamping camera captures with the device location. It is kept per
+// device in localStorage because the browser's location permission is per device too.
+export function useLocationStamp() {
+  const [enabled, setEnabledState] = useState(false)
+  const [isSupported, setIsSupported] = useState(false)
+
+  useEffect(() => {
+    setIsSupported("geolocation" in navigator)
+    try {
+      setEnabledState(localStorage.getItem(STORAGE_KEY) === "true")
+    } catch (error) {
+      console.error("Failed to load location setting:", error)
+    }
+  }, [])
+
+  const setEnabled = (value: boolean) => {
+    try {
+      if (value) {
+        localStorage.setItem(STORAGE_KEY, "true")
+      } else {
+        localStorage.removeItem(STORAGE_KEY)
+      }
+    } catch (error) {
+      console.error("Failed to save location setting:", error)
+    }
+    setEnabledState(value)
+  }
+
+  return {
+    isSupported,
+    enabled: isSupported && enabled,
+    setEnabled,
+  }
+}
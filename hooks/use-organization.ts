@@ -1,71 +1,62 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import type { BusinessCardData } from "@/types"
-
-interface OrganizationData {
-  favorites: Set<string>               // cardId set
-}
+import type { BusinessCardData, CardGroup, CardOrganization, GroupColor } from "@/types"
+import { EnhancedStorageService } from "@/services/enhanced-storage-service"
 
+// Favorites, tags and groups. Everything is stored with the cards (and the groups collection)
+// through EnhancedStorageService, so it follows the user across devices.
 export function useOrganization(userId: string) {
-  const [organizationData, setOrganizationData] = useState<OrganizationData>({
-    favorites: new Set()
-  })
+  const [groups, setGroups] = useState<CardGroup[]>([])
+  const [favoritesMigrated, setFavoritesMigrated] = useState(0)
 
-  const storageKey = `organization_data_${userId}`
-
-  // Load organization data from localStorage
+  // Load groups, and move favorites kept in localStorage by earlier versions onto the cards
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem(storageKey)
-      if (saved) {
-        const parsed = JSON.parse(saved)
-        setOrganizationData({
-          favorites: new Set(parsed.favorites || [])
-        })
-      }
-    } catch (error) {
-      console.error("Failed to load organization data:", error)
-    }
-  }, [storageKey])
-
-  // Save organization data to localStorage
-  const saveData = (data: OrganizationData) => {
-    try {
-      const toSave = {
-        favorites: Array.from(data.favorites)
-      }
-      localStorage.setItem(storageKey, JSON.stringify(toSave))
-      setOrganizationData(data)
-    } catch (error) {
-      console.error("Failed to save organization data:", error)
-    }
+    EnhancedStorageService.getGroups(userId)
+      .then(setGroups)
+      .catch(error => console.error("Failed to load groups:", error))
+
+    EnhancedStorageService.migrateLocalFavorites(userId)
+      .then(count => {
+        if (count > 0) setFavoritesMigrated(count)
+      })
+      .catch(error => console.error("Failed to migrate favorites:", error))
+  }, [userId])
+
+  // Apply a change to each card; returns the updated cards
+  const organizeCards = async (
+    cards: BusinessCardData[],
+    change: (card: BusinessCardData) => CardOrganization
+  ): Promise<BusinessCardData[]> => {
+    return EnhancedStorageService.updateOrganization(
+      userId,
+      cards.map(card => ({ card, changes: change(card) }))
+    )
   }
 
   // Toggle favorite status
-  const toggleFavorite = (cardId: string) => {
-    const newData = { ...organizationData }
-    newData.favorites = new Set(newData.favorites)
-    
-    if (newData.favorites.has(cardId)) {
-      newData.favorites.delete(cardId)
-    } else {
-      newData.favorites.add(cardId)
-    }
-    saveData(newData)
+  const toggleFavorite = async (card: BusinessCardData): Promise<BusinessCardData> => {
+    const [updated] = await organizeCards([card], current => ({ isFavorite: !current.isFavorite }))
+    return updated
   }
 
-  // Enhance cards with organization data
-  const enhanceCards = (cards: BusinessCardData[]): BusinessCardData[] => {
-    return cards.map(card => ({
-      ...card,
-      isFavorite: card.id ? organizationData.favorites.has(card.id) : false
-    }))
+  const createGroup = async (name: string, color: GroupColor): Promise<CardGroup> => {
+    const group = await EnhancedStorageService.saveGroup(userId, { name: name.trim(), color })
+    setGroups(prev => [...prev, group].sort((a, b) => a.name.localeCompare(b.name)))
+    return group
+  }
+
+  const deleteGroup = async (groupId: string): Promise<void> => {
+    await EnhancedStorageService.deleteGroup(userId, groupId)
+    setGroups(prev => prev.filter(group => group.id !== groupId))
   }
 
   return {
+    groups,
+    favoritesMigrated,  // Number of favorites moved from localStorage; reload cards when it changes
+    organizeCards,
     toggleFavorite,
-    enhanceCards,
-    organizationData
+    createGroup,
+    deleteGroup,
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+export interface SavedSearch {
+  name: string
+  query: string
+}
+
+interface SavedSearchData {
+  recent: string[]       // Most recent first
+  saved: SavedSearch[]
+}
+
+const MAX_RECENT_SEARCHES = 8
+
+// Recent and saved card searches, kept per user in localStorage
+export function useSavedSearches(userId: string) {
+  const [data, setData] = useState<SavedSearchData>({ recent: [], saved: [] })
+
+  const storageKey = `saved_searches_${userId}`
+
+  // Load searches from localStorage
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(storageKey)
+      const parsed = saved ? JSON.parse(saved) : {}
+      setData({
+        recent: parsed.recent || [],
+        saved: parsed.saved || []
+      })
+    } catch (error) {
+      console.error("Failed to load saved searches:", error)
+    }
+  }, [storageKey])
+
+  // Save searches to localStorage
+  const saveData = (next: SavedSearchData) => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(next))
+    } catch (error) {
+      console.error("Failed to save searches:", error)
+    }
+    setData(next)
+  }
+
+  // Move a query to the top of the recent searches
+  const addRecentSearch = (query: string) => {
+    const trimmed = query.trim()
+    if (!trimmed || data.recent[0] === trimmed) return
+
+    saveData({
+      ...data,
+      recent: [trimmed, ...data.recent.filter(recent => recent !== trimmed)].slice(0, MAX_RECENT_SEARCHES)
+    })
+  }
+
+  const clearRecentSearches = () => {
+    saveData({ ...data, recent: [] })
+  }
+
+  // Save a query under a name; saving the same query again renames it
+  const saveSearch = (name: string, query: string) => {
+    const trimmed = query.trim()
+    if (!trimmed) return
+
+    saveData({
+      ...data,
+      saved: [...data.saved.filter(search => search.query !== trimmed), { name: name.trim() || trimmed, query: trimmed }]
+    })
+  }
+
+  const removeSavedSearch = (query: string) => {
+    saveData({ ...data, saved: data.saved.filter(search => search.query !== query) })
+  }
+
+  return {
+    recentSearches: data.recent,
+    savedSearches: data.saved,
+    addRecentSearch,
+    clearRecentSearches,
+    saveSearch,
+    removeSavedSearch,
+  }
+}
@@ -0,0 +1,260 @@
+// Structured postal addresses: parsing free-form OCR text and formatting per country
+import type { BusinessCardData, PostalAddress } from "@/types"
+import { countryNameToCode } from "@/lib/phone-utils"
+
+// Countries that write addresses from the largest unit down (country, province, city, street)
+const BIG_ENDIAN_COUNTRIES = ["KR", "JP", "CN", "TW"]
+
+// Countries that put the postal code before the city ("10115 Berlin")
+const POSTAL_CODE_FIRST_COUNTRIES = ["DE", "FR", "ES", "IT", "NL", "BE", "CH", "AT", "DK", "SE", "NO", "FI", "PL", "PT", "CZ"]
+
+const US_STATE_ZIP = /^(.*?)[,\s]+([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/
+const CA_PROVINCE_POSTAL = /^(.*?)[,\s]+([A-Z]{2})\s+([A-Z]\d[A-Z]\s?\d[A-Z]\d)$/i
+const UK_POSTCODE = /\b([A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2})\b/i
+const POSTAL_CITY = /^(\d{4,5}(?:-\d{3})?)\s+(.+)$/
+const JP_POSTAL = /〒?\s*(\d{3}-\d{4})/
+const KR_POSTAL = /\(?\b(\d{5})\b\)?/
+
+const HANGUL = /[가-힯]/
+const JAPANESE = /[぀-ヿ一-鿿]/
+
+// Text address components are empty strings in OCR output more often than missing
+function clean(value?: string | null): string | undefined {
+  const trimmed = value?.trim().replace(/\s+/g, " ")
+  return trimmed ? trimmed : undefined
+}
+
+// Drop empty components so the address can be stored in Firestore as-is
+export function compactAddress(address: PostalAddress): PostalAddress {
+  const result: PostalAddress = {}
+  for (const [key, value] of Object.entries(address) as Array<[keyof PostalAddress, string | undefined]>) {
+    const cleaned = clean(value)
+    if (cleaned) result[key] = cleaned
+  }
+  return result
+}
+
+export function isEmptyAddress(address?: PostalAddress | null): boolean {
+  return !address || Object.values(address).every(value => !clean(value))
+}
+
+// Korean addresses: "서울특별시 강남구 테헤란로 123, 4층 (06234)"
+function parseKoreanAddress(text: string): PostalAddress {
+  const postalCode = text.match(KR_POSTAL)?.[1]
+  const withoutPostal = text.replace(KR_POSTAL, " ").replace(/대한민국|한국|South Korea|Korea/gi, " ")
+  const [main, ...extended] = withoutPostal.split(",").map(part => part.trim()).filter(Boolean)
+  const tokens = (main || "").split(/\s+/).filter(Boolean)
+
+  let state: string | undefined
+  let city: string | undefined
+  let index = 0
+
+  if (tokens[index] && /(특별시|광역시|특별자치시|도|특별자치도)$/.test(tokens[index])) {
+    state = tokens[index++]
+  }
+  // City, county or district (시/군/구), possibly followed by a district inside a city
+  const cityParts: string[] = []
+  while (tokens[index] && /(시|군|구)$/.test(tokens[index]) && cityParts.length < 2) {
+    cityParts.push(tokens[index++])
+  }
+  if (cityParts.length > 0) city = cityParts.join(" ")
+
+  return compactAddress({
+    street: tokens.slice(index).join(" "),
+    extended: extended.join(", "),
+    city,
+    state,
+    postalCode,
+    country: "South Korea",
+    countryCode: "KR",
+  })
+}
+
+// Japanese addresses: "〒100-0005 東京都千代田区丸の内1-1-1 パレスビル5F"
+function parseJapaneseAddress(text: string): PostalAddress {
+  const postalCode = text.match(JP_POSTAL)?.[1]
+  const rest = text.replace(JP_POSTAL, " ").replace(/日本|Japan/gi, " ").trim()
+
+  const prefecture = rest.match(/^(東京都|北海道|(?:京都|大阪)府|[^\s]{2,3}県)/)?.[1]
+  const afterPrefecture = prefecture ? rest.slice(prefecture.length) : rest
+  const city = afterPrefecture.match(/^([^\s]+?[市区町村])/)?.[1]
+  const street = (city ? afterPrefecture.slice(city.length) : afterPrefecture).trim()
+  const [streetLine, ...extended] = street.split(/\s+/)
+
+  return compactAddress({
+    street: streetLine,
+    extended: extended.join(" "),
+    city,
+    state: prefecture,
+    postalCode,
+    country: "Japan",
+    countryCode: "JP",
+  })
+}
+
+// Western addresses: comma/newline separated, street first, country last
+function parseWesternAddress(parts: string[], countryCode?: string): PostalAddress {
+  const address: PostalAddress = {}
+  const remaining = [...parts]
+
+  // Find the line holding the city with state/postal code, scanning from the end
+  for (let i = remaining.length - 1; i >= 0 && !address.city; i--) {
+    const part = remaining[i]
+    // "San Francisco, CA 94105" may arrive split into "San Francisco" and "CA 94105"
+    const joined = i > 0 ? `${remaining[i - 1]} ${part}` : part
+
+    const usMatch = part.match(US_STATE_ZIP) || joined.match(US_STATE_ZIP)
+    const caMatch = !usMatch && (part.match(CA_PROVINCE_POSTAL) || joined.match(CA_PROVINCE_POSTAL))
+    const match = usMatch || caMatch
+    if (match) {
+      const usedPrevious = !part.match(US_STATE_ZIP) && !part.match(CA_PROVINCE_POSTAL)
+      address.city = clean(match[1])
+      address.state = match[2].toUpperCase()
+      address.postalCode = match[3].toUpperCase()
+      remaining.splice(usedPrevious ? i - 1 : i, usedPrevious ? 2 : 1)
+      break
+    }
+
+    const postalCityMatch = part.match(POSTAL_CITY)
+    if (postalCityMatch && (!countryCode || POSTAL_CODE_FIRST_COUNTRIES.includes(countryCode) || !countryCode.match(/US|CA|GB/))) {
+      address.postalCode = postalCityMatch[1]
+      address.city = clean(postalCityMatch[2])
+      remaining.splice(i, 1)
+      break
+    }
+
+    const ukMatch = part.match(UK_POSTCODE)
+    if (ukMatch && (countryCode === "GB" || !countryCode)) {
+      address.postalCode = ukMatch[1].toUpperCase()
+      const cityText = clean(part.replace(ukMatch[0], ""))
+      if (cityText) {
+        address.city = cityText
+        remaining.splice(i, 1)
+      } else if (i > 0) {
+        address.city = remaining[i - 1]
+        remaining.splice(i - 1, 2)
+      } else {
+        remaining.splice(i, 1)
+      }
+      break
+    }
+  }
+
+  address.street = remaining.shift()
+  if (remaining.length > 0) {
+    if (!address.city) {
+      address.city = remaining.pop()
+    }
+    address.extended = remaining.join(", ")
+  }
+
+  return compactAddress(address)
+}
+
+// Parse a free-form address into components. The country is taken from the text, or from
+// the hint (e.g. the card's phone/website country) when the text has none.
+export function parseAddress(text: string, countryHint?: string): PostalAddress {
+  const normalized = text.replace(/\r/g, "").trim()
+  if (!normalized) return {}
+
+  const parts = normalized.split(/\s*[,\n]\s*/).filter(Boolean)
+  const lastPartCode = countryNameToCode(parts[parts.length - 1])
+  const countryCode = lastPartCode || countryNameToCode(countryHint)
+
+  if (HANGUL.test(normalized) || (countryCode === "KR" && /\d{5}/.test(normalized) && !lastPartCode)) {
+    return parseKoreanAddress(normalized)
+  }
+  if (JAPANESE.test(normalized) && (countryCode === "JP" || JP_POSTAL.test(normalized) || /[都道府県]/.test(normalized))) {
+    return parseJapaneseAddress(normalized)
+  }
+
+  const country = lastPartCode ? parts.pop() : undefined
+  const address = parseWesternAddress(parts, countryCode)
+  if (country) address.country = country
+  if (countryCode) address.countryCode = countryCode
+
+  return compactAddress(address)
+}
+
+// Format an address on one line in the order used by its country
+export function formatAddress(address?: PostalAddress | null): string {
+  if (!address || isEmptyAddress(address)) return ""
+  const countryCode = address.countryCode || countryNameToCode(address.country)
+
+  if (countryCode && BIG_ENDIAN_COUNTRIES.includes(countryCode) && /[^\x00-\x7F]/.test(Object.values(address).join(""))) {
+    const postal = countryCode === "JP" && address.postalCode ? `〒${address.postalCode}` : address.postalCode
+    // Japanese and Chinese addresses run together; Korean separates units with spaces
+    const separator = countryCode === "KR" ? " " : ""
+    const body = [address.state, address.city, address.street].filter(Boolean).join(separator)
+    return [postal, body, address.extended].filter(Boolean).join(" ")
+  }
+
+  const cityLine = countryCode && POSTAL_CODE_FIRST_COUNTRIES.includes(countryCode)
+    ? [address.postalCode, address.city].filter(Boolean).join(" ")
+    : [address.city, [address.state, address.postalCode].filter(Boolean).join(" ")].filter(Boolean).join(", ")
+
+  return [address.street, address.extended, cityLine, address.country].filter(Boolean).join(", ")
+}
+
+// Structured address of a card: stored details, else the OCR components in metadata
+// (cards saved before addresses were structured), else the parsed free-form address
+export function getCardAddress(card: BusinessCardData): PostalAddress {
+  if (card.addressDetails && !isEmptyAddress(card.addressDetails)) {
+    return card.addressDetails
+  }
+
+  const metadata = card.metadata || {}
+  const fromMetadata = compactAddress({
+    street: metadata.street_address,
+    city: metadata.city,
+    state: metadata.state,
+    postalCode: metadata.zip_code,
+    country: metadata.country,
+    countryCode: countryNameToCode(metadata.country),
+  })
+  if (fromMetadata.street || fromMetadata.city) {
+    return fromMetadata
+  }
+
+  return card.address ? parseAddress(card.address, metadata.country) : {}
+}
+
+// Do the structured details still describe the free-form address? (false after the
+// address text was edited somewhere that only updates the display string)
+function detailsMatchAddress(details: PostalAddress, address: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s.,]+/g, "")
+  const text = normalize(address)
+  return [details.street, details.city, details.postalCode]
+    .filter((value): value is string => !!value)
+    .every(value => text.includes(normalize(value)))
+}
+
+// Make sure a card carries structured address details and a matching display string
+export function withStructuredAddress(card: BusinessCardData): BusinessCardData {
+  if (card.address && card.addressDetails && !detailsMatchAddress(card.addressDetails, card.address)) {
+    const reparsed = parseAddress(card.address, card.addressDetails.country || card.metadata?.country)
+    return { ...card, addressDetails: reparsed }
+  }
+
+  const details = getCardAddress(card)
+  if (isEmptyAddress(details)) return card
+
+  return {
+    ...card,
+    addressDetails: details,
+    address: card.address || formatAddress(details),
+  }
+}
+
+// vCard ADR value: PO box;extended;street;city;region;postal code;country
+export function toVCardAdr(address: PostalAddress, escape: (value: string) => string = value => value): string {
+  return [
+    "",
+    address.extended,
+    address.street,
+    address.city,
+    address.state,
+    address.postalCode,
+    address.country,
+  ].map(value => escape(value || "")).join(";")
+}
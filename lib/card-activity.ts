@@ -0,0 +1,94 @@
+// Activity timeline of a card: what was done with the contact and when
+import type { BusinessCardData, CardActivity, CardActivityType, FieldChange } from "@/types"
+import { formatEvent } from "@/lib/card-events"
+
+const MAX_NOTE_LENGTH = 1000
+
+// Fields compared when a card is edited, in display order
+export const ACTIVITY_FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  company: "Company",
+  jobTitle: "Job Title",
+  phone: "Phone",
+  mobile: "Mobile",
+  email: "Email",
+  address: "Address",
+  website: "Website",
+  linkedin: "LinkedIn",
+  twitter: "Twitter",
+  notes: "Notes",
+  event: "Event",
+}
+
+export type ActivityDetails = Pick<CardActivity, "detail" | "note" | "changes">
+
+function getFieldValue(card: BusinessCardData, field: string): string | null {
+  if (field === "event") return card.event ? formatEvent(card.event) : null
+  const value = card[field as keyof BusinessCardData]
+  return typeof value === "string" && value.trim() ? value.trim() : null
+}
+
+// Fields that differ between two versions of a card
+export function diffCards(before: BusinessCardData, after: BusinessCardData): FieldChange[] {
+  const changes: FieldChange[] = []
+  for (const field of Object.keys(ACTIVITY_FIELD_LABELS)) {
+    const from = getFieldValue(before, field)
+    const to = getFieldValue(after, field)
+    if (from !== to) changes.push({ field, from, to })
+  }
+  return changes
+}
+
+// New entry for a card; the ID is made here so entries added offline keep it after syncing
+export function createActivity(cardId: string, type: CardActivityType, details: ActivityDetails = {}): CardActivity {
+  const activity: CardActivity = {
+    id: crypto.randomUUID(),
+    cardId,
+    type,
+    at: new Date().toISOString(),
+    ...details,
+  }
+  if (activity.note) activity.note = activity.note.trim().slice(0, MAX_NOTE_LENGTH)
+  return activity
+}
+
+// One-line summary: "Edited 2 fields", "Exported as CSV", "Called +1 555 0100"
+export function describeActivity(activity: CardActivity): string {
+  switch (activity.type) {
+    case "scanned":
+      return activity.detail ? `Scanned · ${activity.detail}` : "Scanned"
+    case "imported":
+      return activity.detail ? `Imported from ${activity.detail}` : "Imported"
+    case "edited": {
+      const changes = activity.changes || []
+      const summary = changes.length === 1
+        ? `Edited ${ACTIVITY_FIELD_LABELS[changes[0].field] || changes[0].field}`
+        : `Edited ${changes.length} fields`
+      return activity.detail ? `${summary} · ${activity.detail}` : summary
+    }
+    case "exported":
+      return activity.detail ? `Exported as ${activity.detail}` : "Exported"
+    case "sent":
+      return activity.detail ? `Sent to ${activity.detail}` : "Sent to the CRM"
+    case "shared":
+      return activity.detail ? `Shared via QR code (${activity.detail})` : "Shared via QR code"
+    case "called":
+      return activity.detail ? `Called ${activity.detail}` : "Called"
+    case "emailed":
+      return activity.detail ? `Emailed ${activity.detail}` : "Emailed"
+    case "note":
+      return activity.note || "Note"
+  }
+}
+
+// Newest first; entries made at the same time keep a stable order
+export function sortActivity(activity: CardActivity[]): CardActivity[] {
+  return [...activity].sort((a, b) => b.at.localeCompare(a.at) || a.id.localeCompare(b.id))
+}
+
+// Following a contact link is recorded for calls and emails only
+export function getContactActivityType(fieldType: string): CardActivityType | null {
+  if (fieldType === "phone") return "called"
+  if (fieldType === "email") return "emailed"
+  return null
+}
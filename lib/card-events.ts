@@ -0,0 +1,61 @@
+// Events (trade shows, conferences) that cards were collected at
+import type { BusinessCardData, CardEvent } from "@/types"
+import { normalizeText } from "@/lib/similarity"
+
+const MAX_EVENT_NAME_LENGTH = 80
+const EVENT_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Clean up an event typed by the user; returns null when it has no name
+export function normalizeEvent(event: Partial<CardEvent> | null | undefined): CardEvent | null {
+  const name = event?.name?.replace(/\s+/g, " ").trim().slice(0, MAX_EVENT_NAME_LENGTH)
+  if (!name) return null
+
+  const normalized: CardEvent = { name }
+  if (event?.date && EVENT_DATE_PATTERN.test(event.date)) normalized.date = event.date
+  const location = event?.location?.replace(/\s+/g, " ").trim()
+  if (location) normalized.location = location
+  return normalized
+}
+
+// YYYY-MM-DD of a local calendar day
+export function toEventDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// "Jan 7, 2026" for a YYYY-MM-DD date, read as a local calendar day
+export function formatEventDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number)
+  const local = new Date(year, month - 1, day)
+  if (isNaN(local.getTime())) return date
+  return local.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+}
+
+// One-line description: "CES 2026 · Jan 7, 2026 · Las Vegas"
+export function formatEvent(event: CardEvent): string {
+  return [event.name, event.date && formatEventDate(event.date), event.location].filter(Boolean).join(" · ")
+}
+
+// Events used across the cards, most recent first (undated events last, by number of cards)
+export function collectEvents(cards: BusinessCardData[]): CardEvent[] {
+  const events = new Map<string, { event: CardEvent; count: number }>()
+  for (const card of cards) {
+    const event = normalizeEvent(card.event)
+    if (!event) continue
+    const key = normalizeText(event.name)
+    const entry = events.get(key) || { event, count: 0 }
+    entry.count++
+    // Prefer the most complete details seen for the event
+    if (!entry.event.date && event.date) entry.event = { ...entry.event, date: event.date }
+    if (!entry.event.location && event.location) entry.event = { ...entry.event, location: event.location }
+    events.set(key, entry)
+  }
+
+  return Array.from(events.values())
+    .sort((a, b) =>
+      (b.event.date || "").localeCompare(a.event.date || "") ||
+      b.count - a.count ||
+      a.event.name.localeCompare(b.event.name)
+    )
+    .map(entry => entry.event)
+}
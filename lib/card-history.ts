@@ -0,0 +1,80 @@
+// Earlier versions of cards and the trash of deleted ones
+import type { BusinessCardData, CardVersion } from "@/types"
+
+export const TRASH_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Not kept in versions: images (edits do not change them), storage details, sync links and CRM status
+const VERSION_OMITTED_FIELDS = [
+  "id",
+  "userId",
+  "imageBase64",
+  "thumbnailBase64",
+  "backImageBase64",
+  "scanHistory",
+  "carddav",
+  "crm",
+  "createdAt",
+  "updatedAt",
+]
+
+// Kept as they are when restoring a version: images, organization and derived data
+const RESTORE_KEPT_FIELDS = [
+  ...VERSION_OMITTED_FIELDS,
+  "timestamp",
+  "isFavorite",
+  "tags",
+  "groupIds",
+  "addressLocation",
+  "lastAccessed",
+]
+
+function omitFields(card: BusinessCardData, fields: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...card }
+  for (const field of fields) {
+    delete result[field]
+  }
+  return result
+}
+
+// The part of a card stored in a version
+export function toVersionData(card: BusinessCardData): BusinessCardData {
+  return omitFields(card, VERSION_OMITTED_FIELDS) as BusinessCardData
+}
+
+// Whether an edit changes anything a version would keep
+export function isVersionChange(before: BusinessCardData, after: BusinessCardData): boolean {
+  const normalize = (card: BusinessCardData) => {
+    const data = omitFields(card, RESTORE_KEPT_FIELDS)
+    return JSON.stringify(Object.keys(data).filter(key => data[key] != null).sort().map(key => [key, data[key]]))
+  }
+  return normalize(before) !== normalize(after)
+}
+
+// The card with the contents of an earlier version. Images and organization (favorite, tags,
+// groups) stay as they are now; fields the version did not have are cleared (null).
+export function restoreVersion(card: BusinessCardData, version: CardVersion): BusinessCardData {
+  const restored: Record<string, unknown> = {}
+  for (const field of Object.keys(card)) {
+    restored[field] = null
+  }
+  Object.assign(restored, omitFields(version.data, RESTORE_KEPT_FIELDS))
+  for (const field of RESTORE_KEPT_FIELDS) {
+    if (field in card) restored[field] = card[field as keyof BusinessCardData]
+  }
+  return restored as BusinessCardData
+}
+
+// When a card deleted at this time leaves the trash for good
+export function getTrashExpiry(deletedAt: string): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS)
+}
+
+export function isTrashExpired(deletedAt: string, now = new Date()): boolean {
+  return getTrashExpiry(deletedAt) <= now
+}
+
+// Whole days left before the card is deleted for good (at least 0)
+export function getTrashDaysLeft(deletedAt: string, now = new Date()): number {
+  return Math.max(0, Math.ceil((getTrashExpiry(deletedAt).getTime() - now.getTime()) / DAY_MS))
+}
@@ -0,0 +1,35 @@
+// Cards as sent outside the app (webhook payloads, the REST API), built on the server from the stored document
+import type { BusinessCardData } from "@/types"
+import { SORT_FIELD_NAMES } from "@/lib/card-sort"
+
+// Storage details are left out
+const PAYLOAD_OMITTED_FIELDS = [...SORT_FIELD_NAMES, "userId"]
+
+// Left out unless asked for: large base64 strings
+const IMAGE_FIELDS = ["imageBase64", "thumbnailBase64", "backImageBase64"]
+
+function toIsoString(value: unknown): unknown {
+  if (value && typeof value === "object" && typeof (value as { toDate?: unknown }).toDate === "function") {
+    return (value as { toDate: () => Date }).toDate().toISOString()
+  }
+  return value
+}
+
+// The card in a business_cards document (or a trash entry), with Firestore timestamps as ISO strings
+export function toCardPayload(id: string, data: Record<string, unknown>, { images = false } = {}): BusinessCardData {
+  const card: Record<string, unknown> = { ...data }
+  for (const field of images ? PAYLOAD_OMITTED_FIELDS : [...PAYLOAD_OMITTED_FIELDS, ...IMAGE_FIELDS]) {
+    delete card[field]
+  }
+  if (!images && Array.isArray(card.scanHistory)) {
+    card.scanHistory = card.scanHistory.map((scan: Record<string, unknown>) => {
+      const withoutImages = { ...scan }
+      IMAGE_FIELDS.forEach(field => delete withoutImages[field])
+      return withoutImages
+    })
+  }
+  for (const field of ["timestamp", "createdAt", "updatedAt"]) {
+    if (card[field] !== undefined) card[field] = toIsoString(card[field])
+  }
+  return { ...card, id } as BusinessCardData
+}
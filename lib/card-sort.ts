@@ -0,0 +1,94 @@
+// Sort keys stored on each card document, so Firestore can page through cards in every sort mode
+import type { BusinessCardData, CardPageCursor, CardSortField, SortDirection } from "@/types"
+import { normalizeText } from "@/lib/similarity"
+
+export const DEFAULT_PAGE_SIZE = 30
+
+// Firestore only returns documents that have every orderBy field, so each card stores
+// all sort keys, with empty strings rather than missing values
+export interface CardSortFields {
+  sortDate: string
+  sortName: string
+  sortCompany: string
+  isFavorite: boolean
+}
+
+export const SORT_FIELD_NAMES = ["sortDate", "sortName", "sortCompany"] as const
+
+export function getCardSortFields(card: BusinessCardData): CardSortFields {
+  return {
+    sortDate: card.timestamp || "",
+    sortName: normalizeText(card.name || ""),
+    sortCompany: normalizeText(card.company || ""),
+    isFavorite: !!card.isFavorite,
+  }
+}
+
+// Ordering of each sort mode as (field, direction) pairs; the document ID breaks ties.
+// Favorites come first when ascending, then cards by name.
+export function getSortOrder(sortBy: CardSortField, direction: SortDirection): Array<[keyof CardSortFields, SortDirection]> {
+  switch (sortBy) {
+    case "name":
+      return [["sortName", direction]]
+    case "company":
+      return [["sortCompany", direction]]
+    case "favorite":
+      return [["isFavorite", direction === "asc" ? "desc" : "asc"], ["sortName", "asc"]]
+    case "date":
+    default:
+      return [["sortDate", direction]]
+  }
+}
+
+// Cursor pointing just after the given card in the given sort mode
+export function getPageCursor(card: BusinessCardData, sortBy: CardSortField, direction: SortDirection): CardPageCursor {
+  const fields = getCardSortFields(card)
+  return {
+    values: getSortOrder(sortBy, direction).map(([field]) => fields[field]),
+    id: card.id || "",
+  }
+}
+
+function compareValues(a: string | boolean, b: string | boolean): number {
+  if (a === b) return 0
+  // Plain code-unit comparison, like Firestore's string ordering (not localeCompare)
+  return a < b ? -1 : 1
+}
+
+// Compare two cards in the same order the Firestore query returns them
+export function compareCards(a: BusinessCardData, b: BusinessCardData, sortBy: CardSortField, direction: SortDirection): number {
+  const order = getSortOrder(sortBy, direction)
+  const fieldsA = getCardSortFields(a)
+  const fieldsB = getCardSortFields(b)
+
+  for (const [field, fieldDirection] of order) {
+    const comparison = compareValues(fieldsA[field], fieldsB[field])
+    if (comparison !== 0) return fieldDirection === "asc" ? comparison : -comparison
+  }
+
+  // Tie-breaker follows the direction of the last sort field, as in the query
+  const lastDirection = order[order.length - 1][1]
+  const idComparison = compareValues(a.id || "", b.id || "")
+  return lastDirection === "asc" ? idComparison : -idComparison
+}
+
+// Is the card after the cursor position?
+export function isAfterCursor(card: BusinessCardData, cursor: CardPageCursor, sortBy: CardSortField, direction: SortDirection): boolean {
+  const order = getSortOrder(sortBy, direction)
+  const fields = getCardSortFields(card)
+
+  for (let i = 0; i < order.length; i++) {
+    const [field, fieldDirection] = order[i]
+    const comparison = compareValues(fields[field], cursor.values[i])
+    if (comparison !== 0) return fieldDirection === "asc" ? comparison > 0 : comparison < 0
+  }
+
+  const lastDirection = order[order.length - 1][1]
+  const idComparison = compareValues(card.id || "", cursor.id)
+  return lastDirection === "asc" ? idComparison > 0 : idComparison < 0
+}
+
+// Stable key for a sort mode, used to store mirrored pages
+export function getSortKey(sortBy: CardSortField, direction: SortDirection): string {
+  return `${sortBy}:${direction}`
+}
@@ -1,8 +1,8 @@
 // Configuration for the application using environment variables
 
-// Upstage API Configuration
+// Upstage API Configuration (server-side only - never expose with a NEXT_PUBLIC_ prefix)
 export function getUpstageApiKey(): string {
-  const apiKey = process.env.NEXT_PUBLIC_UPSTAGE_API_KEY;
+  const apiKey = process.env.UPSTAGE_API_KEY;
   
   if (apiKey && apiKey !== "your_upstage_api_key_here") {
     return apiKey;
@@ -13,12 +13,79 @@ export function getUpstageApiKey(): string {
     
     To use the business card scanner:
     1. Get your API key from https://console.upstage.ai/
-    2. Add it to your .env.local file as NEXT_PUBLIC_UPSTAGE_API_KEY=your_actual_key
+    2. Add it to your .env.local file as UPSTAGE_API_KEY=your_actual_key
     
-    Note: In production, store API keys securely using environment variables and server-side API routes.
+    Note: The key is only read by the /api/extract route and is never sent to the browser.
   `);
 }
 
+// OCR provider configuration (server-side only)
+// OCR_PROVIDER selects the primary engine: "upstage" (default), "openai" or "local".
+// OCR_FALLBACK_PROVIDER is tried when the primary one fails (e.g. "local").
+export function getOcrConfig() {
+  return {
+    provider: process.env.OCR_PROVIDER || "upstage",
+    fallbackProvider: process.env.OCR_FALLBACK_PROVIDER || undefined,
+    openai: {
+      baseUrl: process.env.OPENAI_OCR_BASE_URL || "https://api.openai.com/v1",
+      model: process.env.OPENAI_OCR_MODEL || "gpt-4o-mini",
+      apiKey: process.env.OPENAI_OCR_API_KEY,
+    },
+    local: {
+      url: process.env.LOCAL_OCR_URL,
+    },
+  };
+}
+
+// Geocoder configuration (server-side only)
+// GEOCODER_PROVIDER selects the engine: "local" (default, a built-in table of cities that never
+// leaves the server) or "nominatim" (OpenStreetMap, or a self-hosted instance at NOMINATIM_URL).
+export function getGeocoderConfig() {
+  return {
+    provider: process.env.GEOCODER_PROVIDER || "local",
+    nominatim: {
+      baseUrl: process.env.NOMINATIM_URL || "https://nominatim.openstreetmap.org",
+      userAgent: process.env.NOMINATIM_USER_AGENT || "card-scan (https://github.com/hunkim/card-scan)",
+      email: process.env.NOMINATIM_EMAIL,
+    },
+  };
+}
+
+// CardDAV import configuration (server-side only)
+// The /api/carddav route connects to servers chosen by users, so hosts on private networks are
+// refused in production unless CARDDAV_ALLOW_PRIVATE_HOSTS=true (e.g. a self-hosted Nextcloud).
+export function getCardDavConfig() {
+  const allowPrivateHosts = process.env.CARDDAV_ALLOW_PRIVATE_HOSTS;
+  return {
+    allowPrivateHosts: allowPrivateHosts ? allowPrivateHosts === "true" : process.env.NODE_ENV !== "production",
+    timeoutMs: Number(process.env.CARDDAV_TIMEOUT_MS) || 20000,
+  };
+}
+
+// CRM connector configuration (server-side only)
+// Like CardDAV servers, CRM endpoints are chosen by users: hosts on private networks are refused
+// in production unless CRM_ALLOW_PRIVATE_HOSTS=true (e.g. an on-prem CRM).
+export function getCrmConfig() {
+  const allowPrivateHosts = process.env.CRM_ALLOW_PRIVATE_HOSTS;
+  return {
+    allowPrivateHosts: allowPrivateHosts ? allowPrivateHosts === "true" : process.env.NODE_ENV !== "production",
+    timeoutMs: Number(process.env.CRM_TIMEOUT_MS) || 15000,
+  };
+}
+
+// Outgoing webhook configuration (server-side only)
+// Webhook URLs are chosen by users too: hosts on private networks are refused in production unless
+// WEBHOOK_ALLOW_PRIVATE_HOSTS=true. CRON_SECRET lets a scheduler (e.g. Vercel Cron) call
+// GET /api/webhooks/retry to send due retries of every user.
+export function getWebhookConfig() {
+  const allowPrivateHosts = process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS;
+  return {
+    allowPrivateHosts: allowPrivateHosts ? allowPrivateHosts === "true" : process.env.NODE_ENV !== "production",
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000,
+    cronSecret: process.env.CRON_SECRET || undefined,
+  };
+}
+
 // Firebase Client Configuration (for browser)
 export const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -0,0 +1,102 @@
+// CRM field mapping: which card field fills each field of the lead or contact sent to a CRM.
+// Card fields are the ones offered by the CSV import, so both mappings read the same way.
+import type { BusinessCardData } from "@/types"
+import { getCardAddress } from "@/lib/address-utils"
+import { getPersonNameParts } from "@/lib/name-utils"
+import type { CsvField } from "@/lib/csv-import"
+
+export interface CrmFieldMapping {
+  crmField: string   // Field name in the CRM (e.g. LastName, jobtitle)
+  cardField: CsvField
+}
+
+// Field values of a lead or contact, by CRM field name
+export type CrmRecord = Record<string, string>
+
+export type CrmObjectPreset = "lead" | "contact"
+
+// Starting points for the mapping: a Salesforce-style lead and a HubSpot-style contact
+export const CRM_OBJECT_PRESETS: Record<CrmObjectPreset, { label: string; objectType: string; mapping: CrmFieldMapping[] }> = {
+  lead: {
+    label: "Lead (Salesforce style)",
+    objectType: "lead",
+    mapping: [
+      { crmField: "FirstName", cardField: "metadata.first_name" },
+      { crmField: "LastName", cardField: "metadata.last_name" },
+      { crmField: "Company", cardField: "company" },
+      { crmField: "Title", cardField: "jobTitle" },
+      { crmField: "Phone", cardField: "phone" },
+      { crmField: "MobilePhone", cardField: "mobile" },
+      { crmField: "Email", cardField: "email" },
+      { crmField: "Website", cardField: "website" },
+      { crmField: "Street", cardField: "street" },
+      { crmField: "City", cardField: "city" },
+      { crmField: "State", cardField: "state" },
+      { crmField: "PostalCode", cardField: "postalCode" },
+      { crmField: "Country", cardField: "country" },
+      { crmField: "Description", cardField: "notes" },
+    ],
+  },
+  contact: {
+    label: "Contact (HubSpot style)",
+    objectType: "contact",
+    mapping: [
+      { crmField: "firstname", cardField: "metadata.first_name" },
+      { crmField: "lastname", cardField: "metadata.last_name" },
+      { crmField: "company", cardField: "company" },
+      { crmField: "jobtitle", cardField: "jobTitle" },
+      { crmField: "phone", cardField: "phone" },
+      { crmField: "mobilephone", cardField: "mobile" },
+      { crmField: "email", cardField: "email" },
+      { crmField: "website", cardField: "website" },
+      { crmField: "address", cardField: "street" },
+      { crmField: "city", cardField: "city" },
+      { crmField: "state", cardField: "state" },
+      { crmField: "zip", cardField: "postalCode" },
+      { crmField: "country", cardField: "country" },
+    ],
+  },
+}
+
+// Value of a card field as text; empty when the card does not have it
+export function getCardFieldValue(card: BusinessCardData, field: CsvField): string {
+  switch (field) {
+    case "metadata.first_name":
+      return getPersonNameParts(card).givenName
+    case "metadata.last_name":
+      return getPersonNameParts(card).familyName
+    case "street":
+    case "extended":
+    case "city":
+    case "state":
+    case "postalCode":
+    case "country":
+      return getCardAddress(card)[field] || ""
+    case "tags":
+      return (card.tags || []).join(", ")
+    case "eventName":
+      return card.event?.name || ""
+    case "eventDate":
+      return card.event?.date || ""
+    case "eventLocation":
+      return card.event?.location || ""
+  }
+
+  if (field.startsWith("metadata.")) {
+    const key = field.slice("metadata.".length) as keyof NonNullable<BusinessCardData["metadata"]>
+    return card.metadata?.[key]?.trim() || ""
+  }
+  const value = card[field as keyof BusinessCardData]
+  return typeof value === "string" ? value.trim() : ""
+}
+
+// The lead or contact for a card; fields the card has no value for are left out
+export function mapCardToCrm(card: BusinessCardData, mapping: CrmFieldMapping[]): CrmRecord {
+  const record: CrmRecord = {}
+  for (const { crmField, cardField } of mapping) {
+    const name = crmField.trim()
+    const value = getCardFieldValue(card, cardField)
+    if (name && value) record[name] = value
+  }
+  return record
+}
@@ -0,0 +1,231 @@
+// CSV import: parsing, mapping columns to card fields and checking the rows
+import type { BusinessCardData } from "@/types"
+import { compactAddress, formatAddress, isEmptyAddress } from "@/lib/address-utils"
+import { formatPersonName, inferNameLocale } from "@/lib/name-utils"
+import { inferCardCountry, normalizePhone } from "@/lib/phone-utils"
+import { normalizeEvent, toEventDate } from "@/lib/card-events"
+import { normalizeTag } from "@/lib/organization"
+
+type MetadataKey = keyof NonNullable<BusinessCardData["metadata"]>
+
+// Where a column's values go: card fields, metadata keys, address parts and the event
+export type CsvField =
+  | "name" | "company" | "jobTitle" | "phone" | "mobile" | "email" | "address"
+  | "website" | "linkedin" | "twitter" | "notes" | "tags"
+  | "street" | "extended" | "city" | "state" | "postalCode" | "country"
+  | "eventName" | "eventDate" | "eventLocation"
+  | `metadata.${MetadataKey}`
+
+// The field of each column, by column index; null columns are not imported
+export type CsvColumnMapping = Array<CsvField | null>
+
+export interface CsvFieldOption {
+  field: CsvField
+  label: string
+  headers: string[]   // Column names that map to the field, compared without case, spaces or punctuation
+}
+
+// Fields offered in the mapping, in display order. Headers cover our own export and common
+// exports (LinkedIn connections, Google and Outlook contacts, CRMs).
+export const CSV_FIELD_OPTIONS: CsvFieldOption[] = [
+  { field: "name", label: "Name", headers: ["Name", "Full Name", "Display Name", "Contact Name", "Contact"] },
+  { field: "metadata.first_name", label: "First Name", headers: ["First Name", "Given Name", "First", "Firstname"] },
+  { field: "metadata.last_name", label: "Last Name", headers: ["Last Name", "Family Name", "Surname", "Last", "Lastname"] },
+  { field: "metadata.native_name", label: "Native Name", headers: ["Native Name"] },
+  { field: "metadata.romanized_name", label: "Romanized Name", headers: ["Romanized Name"] },
+  { field: "metadata.phonetic_first_name", label: "Phonetic First Name", headers: ["Phonetic First Name", "Given Name Yomi"] },
+  { field: "metadata.phonetic_last_name", label: "Phonetic Last Name", headers: ["Phonetic Last Name", "Family Name Yomi"] },
+  { field: "company", label: "Company", headers: ["Company", "Company Name", "Organization", "Organization 1 - Name", "Organisation", "Account Name", "Employer"] },
+  { field: "jobTitle", label: "Job Title", headers: ["Job Title", "Title", "Position", "Organization 1 - Title", "Role"] },
+  { field: "metadata.department", label: "Department", headers: ["Department", "Organization 1 - Department"] },
+  { field: "phone", label: "Phone", headers: ["Phone", "Phone Number", "Business Phone", "Work Phone", "Phone 1 - Value", "Telephone", "Tel", "Office Phone"] },
+  { field: "mobile", label: "Mobile", headers: ["Mobile", "Mobile Phone", "Mobile Phone Number", "Cell", "Cell Phone"] },
+  { field: "metadata.fax", label: "Fax", headers: ["Fax", "Business Fax", "Fax Number"] },
+  { field: "email", label: "Email", headers: ["Email", "Email Address", "E-mail", "E-mail Address", "E-mail 1 - Value", "Work Email", "Business Email"] },
+  { field: "address", label: "Address (one line)", headers: ["Address", "Full Address", "Address 1 - Formatted", "Business Address", "Mailing Address"] },
+  { field: "street", label: "Street", headers: ["Street", "Street Address", "Business Street", "Address 1 - Street", "Mailing Street", "Address Line 1"] },
+  { field: "extended", label: "Suite / Floor", headers: ["Address Line 2", "Business Street 2", "Address 1 - Extended Address", "Suite"] },
+  { field: "city", label: "City", headers: ["City", "Business City", "Address 1 - City", "Mailing City", "Town"] },
+  { field: "state", label: "State / Province", headers: ["State", "Province", "Region", "Business State", "Address 1 - Region", "Mailing State", "State/Province"] },
+  { field: "postalCode", label: "Postal Code", headers: ["Postal Code", "Zip", "Zip Code", "Postcode", "Business Postal Code", "Address 1 - Postal Code", "Mailing Zip"] },
+  { field: "country", label: "Country", headers: ["Country", "Business Country/Region", "Address 1 - Country", "Mailing Country", "Country/Region"] },
+  { field: "website", label: "Website", headers: ["Website", "Web Page", "Website URL", "URL", "Web", "Homepage", "Website 1 - Value"] },
+  { field: "linkedin", label: "LinkedIn", headers: ["LinkedIn", "LinkedIn URL", "LinkedIn Profile", "Profile URL"] },
+  { field: "twitter", label: "Twitter", headers: ["Twitter", "Twitter Handle", "X"] },
+  { field: "metadata.facebook", label: "Facebook", headers: ["Facebook"] },
+  { field: "metadata.instagram", label: "Instagram", headers: ["Instagram"] },
+  { field: "metadata.skype", label: "Skype", headers: ["Skype"] },
+  { field: "metadata.whatsapp", label: "WhatsApp", headers: ["WhatsApp"] },
+  { field: "notes", label: "Notes", headers: ["Notes", "Note", "Comments", "Description"] },
+  { field: "tags", label: "Tags", headers: ["Tags", "Labels", "Group Membership"] },
+  { field: "eventName", label: "Event", headers: ["Event", "Event Name"] },
+  { field: "eventDate", label: "Event Date", headers: ["Event Date"] },
+  { field: "eventLocation", label: "Event Location", headers: ["Event Location"] },
+  { field: "metadata.additional_info", label: "Additional Info", headers: ["Additional Info", "Other"] },
+]
+
+export const CSV_FIELD_LABELS = Object.fromEntries(
+  CSV_FIELD_OPTIONS.map(option => [option.field, option.label])
+) as Record<CsvField, string>
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/
+const DELIMITERS = [",", ";", "\t"]
+
+export function isCsvFile(file: File): boolean {
+  return /\.csv$/i.test(file.name) || file.type === "text/csv"
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+// Rows of a CSV file (RFC 4180: quoted fields may contain delimiters, quotes and line breaks).
+// The delimiter is taken from the header line: comma, semicolon (European Excel) or tab.
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "")
+  const headerLine = content.split(/\r?\n/, 1)[0] || ""
+  const delimiter = DELIMITERS
+    .map(candidate => ({ candidate, count: headerLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines are not rows
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+// Field of each column from its header; a field is given to the first column that matches it
+export function autoMapColumns(headers: string[]): CsvColumnMapping {
+  const used = new Set<CsvField>()
+  return headers.map(header => {
+    const normalized = normalizeHeader(header)
+    const option = CSV_FIELD_OPTIONS.find(candidate =>
+      !used.has(candidate.field) && candidate.headers.some(name => normalizeHeader(name) === normalized)
+    )
+    if (!option) return null
+    used.add(option.field)
+    return option.field
+  })
+}
+
+// YYYY-MM-DD from common date formats; dates that cannot be read are dropped
+function toDate(value: string): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : toEventDate(date)
+}
+
+// A card from one row; empty cells are skipped
+export function rowToCard(row: string[], mapping: CsvColumnMapping): BusinessCardData {
+  const values: Partial<Record<CsvField, string>> = {}
+  mapping.forEach((field, index) => {
+    const value = row[index]?.trim()
+    if (field && value) values[field] = value
+  })
+
+  const card: BusinessCardData = {}
+  const metadata: Record<string, string> = {}
+
+  for (const [field, value] of Object.entries(values) as Array<[CsvField, string]>) {
+    if (field.startsWith("metadata.")) {
+      metadata[field.slice("metadata.".length)] = value
+    }
+  }
+  for (const field of ["name", "company", "jobTitle", "phone", "mobile", "email", "website", "linkedin", "twitter", "notes"] as const) {
+    if (values[field]) card[field] = values[field]
+  }
+
+  if (!card.name) {
+    const locale = inferNameLocale(`${metadata.last_name || ""}${metadata.first_name || ""}`)
+    card.name = formatPersonName(metadata.last_name, metadata.first_name, locale) || undefined
+  }
+
+  const address = compactAddress({
+    street: values.street,
+    extended: values.extended,
+    city: values.city,
+    state: values.state,
+    postalCode: values.postalCode,
+    country: values.country,
+  })
+  if (!isEmptyAddress(address)) card.addressDetails = address
+  const addressText = values.address || formatAddress(address)
+  if (addressText) card.address = addressText
+
+  if (values.tags) {
+    const tags = values.tags.split(/[;,]|:::/).map(normalizeTag).filter(Boolean)
+    if (tags.length > 0) card.tags = Array.from(new Set(tags))
+  }
+
+  const event = normalizeEvent({
+    name: values.eventName,
+    date: values.eventDate && toDate(values.eventDate),
+    location: values.eventLocation,
+  })
+  if (event) card.event = event
+
+  if (Object.keys(metadata).length > 0) card.metadata = metadata
+  return card
+}
+
+export interface CsvRowIssue {
+  field: CsvField | null
+  message: string
+  blocking: boolean   // The row is not imported
+}
+
+// Problems with a row's card: rows without a name, company, email or phone are not imported;
+// emails and phone numbers that do not look right are imported as they are, with a warning
+export function validateCard(card: BusinessCardData): CsvRowIssue[] {
+  const issues: CsvRowIssue[] = []
+
+  if (!card.name && !card.company && !card.email && !card.phone && !card.mobile) {
+    issues.push({ field: null, message: "No name, company, email or phone", blocking: true })
+  }
+  if (card.email && !EMAIL_PATTERN.test(card.email)) {
+    issues.push({ field: "email", message: `"${card.email}" is not a valid email address`, blocking: false })
+  }
+
+  const country = inferCardCountry(card)
+  for (const field of ["phone", "mobile"] as const) {
+    const value = card[field]
+    if (value && !normalizePhone(value, country)) {
+      issues.push({ field, message: `"${value}" is not a recognizable phone number`, blocking: false })
+    }
+  }
+  return issues
+}
@@ -0,0 +1,161 @@
+// Firebase Admin initialization for server-side route handlers
+import { createHash, randomBytes } from 'crypto';
+import { initializeApp, getApps, getApp, cert } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { firebaseAdminConfig } from './config';
+import type { AccessToken } from '@/types';
+
+// Initialize Firebase Admin app (only if not already initialized)
+function getAdminApp() {
+  if (getApps().length > 0) {
+    return getApp();
+  }
+
+  if (!firebaseAdminConfig.project_id || !firebaseAdminConfig.client_email || !firebaseAdminConfig.private_key) {
+    throw new Error(`
+      Firebase Admin credentials not configured.
+
+      Set FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY in your .env.local file
+      (copy them from your Firebase service account JSON).
+    `);
+  }
+
+  return initializeApp({
+    credential: cert({
+      projectId: firebaseAdminConfig.project_id,
+      clientEmail: firebaseAdminConfig.client_email,
+      privateKey: firebaseAdminConfig.private_key,
+    }),
+  });
+}
+
+export function getAdminAuth() {
+  return getAuth(getAdminApp());
+}
+
+// Firestore with admin rights, for work done on the server on behalf of a user (webhooks).
+// Security rules do not apply: check the documents belong to the user.
+export function getAdminFirestore() {
+  return getFirestore(getAdminApp());
+}
+
+// Verify the "Authorization: Bearer <Firebase ID token>" header of a request.
+// Returns the user's uid, or null if the token is missing or invalid.
+export async function verifyRequestUser(request: Request): Promise<string | null> {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const decodedToken = await getAdminAuth().verifyIdToken(match[1]);
+    return decodedToken.uid;
+  } catch (error) {
+    console.error('Failed to verify Firebase ID token:', error);
+    return null;
+  }
+}
+
+// Personal access tokens for the REST API: "cs_pat_" and 40 hex digits. They are stored under the
+// SHA-256 of the token, so a leaked database does not leak them. Only the server reads and writes
+// them (see app/api/access-tokens).
+const ACCESS_TOKENS_COLLECTION = 'access_tokens';
+const ACCESS_TOKEN_PREFIX = 'cs_pat_';
+const ACCESS_TOKEN_PATTERN = /^cs_pat_[0-9a-f]{40}$/;
+const SHOWN_PREFIX_LENGTH = ACCESS_TOKEN_PREFIX.length + 4;
+
+// How stale lastUsedAt may get before a request updates it
+const LAST_USED_PRECISION_MS = 5 * 60 * 1000;
+
+function hashAccessToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export interface AccessTokenUser {
+  userId: string;
+  tokenName: string;
+}
+
+// Verify the "Authorization: Bearer <personal access token>" header of a REST API request.
+// Returns the token's user, or null if the token is missing, malformed or revoked.
+export async function verifyAccessToken(request: Request): Promise<AccessTokenUser | null> {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+
+  if (!match || !ACCESS_TOKEN_PATTERN.test(match[1])) {
+    return null;
+  }
+
+  try {
+    const tokenRef = getAdminFirestore().collection(ACCESS_TOKENS_COLLECTION).doc(hashAccessToken(match[1]));
+    const token = await tokenRef.get();
+    const data = token.data();
+    if (!data?.userId) {
+      return null;
+    }
+
+    const lastUsedAt = data.lastUsedAt ? Date.parse(data.lastUsedAt) : 0;
+    if (Date.now() - lastUsedAt > LAST_USED_PRECISION_MS) {
+      // Only shown in the token list: a failed update does not fail the request
+      tokenRef.update({ lastUsedAt: new Date().toISOString() }).catch(error => {
+        console.error('Failed to record access token use:', error);
+      });
+    }
+    return { userId: data.userId, tokenName: data.name || 'API token' };
+  } catch (error) {
+    console.error('Failed to verify access token:', error);
+    return null;
+  }
+}
+
+// The user's access tokens, newest first
+export async function getAccessTokens(userId: string): Promise<AccessToken[]> {
+  const snapshot = await getAdminFirestore().collection(ACCESS_TOKENS_COLLECTION).where('userId', '==', userId).get();
+  return snapshot.docs
+    .map(document => {
+      const data = document.data();
+      return {
+        id: document.id,
+        name: data.name,
+        prefix: data.prefix,
+        createdAt: data.createdAt,
+        lastUsedAt: data.lastUsedAt || undefined,
+      };
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Create a token for the user. The token is returned this once; only its hash is stored.
+export async function createAccessToken(userId: string, name: string): Promise<{ token: string; accessToken: AccessToken }> {
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(20).toString('hex')}`;
+  const accessToken: AccessToken = {
+    id: hashAccessToken(token),
+    name: name.trim() || 'API token',
+    prefix: token.slice(0, SHOWN_PREFIX_LENGTH),
+    createdAt: new Date().toISOString(),
+  };
+
+  await getAdminFirestore().collection(ACCESS_TOKENS_COLLECTION).doc(accessToken.id).set({
+    name: accessToken.name,
+    prefix: accessToken.prefix,
+    createdAt: accessToken.createdAt,
+    userId,
+  });
+  return { token, accessToken };
+}
+
+// Revoke one of the user's tokens: requests made with it are refused from then on.
+// Returns false when the user has no such token.
+export async function revokeAccessToken(userId: string, tokenId: string): Promise<boolean> {
+  const tokenRef = getAdminFirestore().collection(ACCESS_TOKENS_COLLECTION).doc(tokenId);
+  const token = await tokenRef.get();
+  if (token.data()?.userId !== userId) {
+    return false;
+  }
+
+  await tokenRef.delete();
+  return true;
+}
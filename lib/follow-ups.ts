@@ -0,0 +1,135 @@
+// Follow-up tasks on contacts: when they are due, snoozing and reminders
+import type { BusinessCardData, FollowUpTask } from "@/types"
+import { toEventDate } from "@/lib/card-events"
+
+const MAX_TASK_TITLE_LENGTH = 200
+const REMINDER_HOUR = 9 // "Tomorrow" and "next week" mean this hour in the morning
+
+export type SnoozeOption = "hour" | "tomorrow" | "week"
+
+export const SNOOZE_OPTIONS: Array<{ value: SnoozeOption; label: string }> = [
+  { value: "hour", label: "1 hour" },
+  { value: "tomorrow", label: "Tomorrow morning" },
+  { value: "week", label: "Next week" },
+]
+
+function atReminderHour(date: Date, daysAhead: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + daysAhead)
+  result.setHours(REMINDER_HOUR, 0, 0, 0)
+  return result
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date)
+  result.setHours(0, 0, 0, 0)
+  return result
+}
+
+// Due time suggested for a new task: tomorrow morning
+export function getDefaultDueAt(now = new Date()): Date {
+  return atReminderHour(now, 1)
+}
+
+export function getSnoozeUntil(option: SnoozeOption, now = new Date()): Date {
+  switch (option) {
+    case "hour":
+      return new Date(now.getTime() + 60 * 60 * 1000)
+    case "tomorrow":
+      return atReminderHour(now, 1)
+    case "week":
+      return atReminderHour(now, 7)
+  }
+}
+
+// When the task should come up: its due time, or later when snoozed
+export function getReminderTime(task: FollowUpTask): Date {
+  const dueAt = new Date(task.dueAt)
+  const snoozedUntil = task.snoozedUntil ? new Date(task.snoozedUntil) : null
+  return snoozedUntil && snoozedUntil > dueAt ? snoozedUntil : dueAt
+}
+
+export function isSnoozed(task: FollowUpTask, now = new Date()): boolean {
+  return !task.done && !!task.snoozedUntil && new Date(task.snoozedUntil) > now
+}
+
+// Open and due before today
+export function isOverdue(task: FollowUpTask, now = new Date()): boolean {
+  return !task.done && getReminderTime(task) < startOfDay(now)
+}
+
+// Open tasks due by the end of today (overdue ones included), soonest first
+export function getDueTasks(tasks: FollowUpTask[], now = new Date()): FollowUpTask[] {
+  const endOfToday = startOfDay(now)
+  endOfToday.setDate(endOfToday.getDate() + 1)
+  return tasks
+    .filter(task => !task.done && getReminderTime(task) < endOfToday)
+    .sort((a, b) => getReminderTime(a).getTime() - getReminderTime(b).getTime())
+}
+
+// Tasks of one card: open ones soonest first, then done ones most recent first
+export function getCardTasks(tasks: FollowUpTask[], cardId: string): FollowUpTask[] {
+  return tasks
+    .filter(task => task.cardId === cardId)
+    .sort((a, b) => {
+      if (a.done !== b.done) return a.done ? 1 : -1
+      if (a.done) return (b.completedAt || "").localeCompare(a.completedAt || "")
+      return getReminderTime(a).getTime() - getReminderTime(b).getTime()
+    })
+}
+
+// Open tasks whose reminder time has come and that were not notified for it yet
+export function getTasksToNotify(tasks: FollowUpTask[], now = new Date()): FollowUpTask[] {
+  return tasks.filter(task => {
+    if (task.done) return false
+    const reminderTime = getReminderTime(task)
+    return reminderTime <= now && (!task.notifiedAt || new Date(task.notifiedAt) < reminderTime)
+  })
+}
+
+// "Today, 3:00 PM", "Tomorrow, 9:00 AM" or "Jan 7, 3:00 PM"
+export function formatDueTime(date: Date, now = new Date()): string {
+  const time = date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+  const days = Math.round((startOfDay(date).getTime() - startOfDay(now).getTime()) / (24 * 60 * 60 * 1000))
+  if (days === 0) return `Today, ${time}`
+  if (days === 1) return `Tomorrow, ${time}`
+  if (days === -1) return `Yesterday, ${time}`
+
+  const day = date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: date.getFullYear() === now.getFullYear() ? undefined : "numeric",
+  })
+  return `${day}, ${time}`
+}
+
+// Value for an <input type="datetime-local">, in local time
+export function toDateTimeInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${toEventDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+// Read an <input type="datetime-local"> value; null when incomplete
+export function fromDateTimeInput(value: string): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// New open task on a card; the ID is made here so tasks created offline keep it after syncing
+export function createFollowUpTask(card: BusinessCardData, title: string, dueAt: Date): FollowUpTask | null {
+  const trimmed = title.replace(/\s+/g, " ").trim().slice(0, MAX_TASK_TITLE_LENGTH)
+  if (!trimmed || !card.id) return null
+
+  const now = new Date().toISOString()
+  return {
+    id: crypto.randomUUID(),
+    cardId: card.id,
+    title: trimmed,
+    dueAt: dueAt.toISOString(),
+    done: false,
+    contactName: card.name || card.company || undefined,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
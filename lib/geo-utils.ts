@@ -0,0 +1,88 @@
+// Card locations and Web Mercator math for the contact map
+import type { BusinessCardData, CaptureLocation, GeoPoint } from "@/types"
+import { formatAddress, getCardAddress } from "@/lib/address-utils"
+
+// Positions older than this are not stamped on a capture
+export const MAX_CAPTURE_LOCATION_AGE_MS = 5 * 60 * 1000
+
+// Address text sent to the geocoder ("" when the card has no address)
+export function getGeocodeQuery(card: BusinessCardData): string {
+  return (formatAddress(getCardAddress(card)) || card.address || "").replace(/\s+/g, " ").trim()
+}
+
+// Has the address never been geocoded, or changed since?
+export function needsGeocoding(card: BusinessCardData): boolean {
+  const query = getGeocodeQuery(card)
+  return !!query && card.addressLocation?.query !== query
+}
+
+export function toCaptureLocation(position: GeolocationPosition): CaptureLocation {
+  return {
+    lat: position.coords.latitude,
+    lng: position.coords.longitude,
+    accuracy: Math.round(position.coords.accuracy),
+    capturedAt: new Date(position.timestamp).toISOString(),
+  }
+}
+
+export type MapMode = "office" | "met"
+
+// Where the card goes on the map: its office address, or where it was captured
+export function getCardMapPoint(card: BusinessCardData, mode: MapMode): GeoPoint | null {
+  if (mode === "office") return card.addressLocation?.point || null
+  return card.captureLocation || null
+}
+
+export const TILE_SIZE = 256
+export const MIN_ZOOM = 1
+export const MAX_ZOOM = 18
+const MAX_LATITUDE = 85.05112878
+
+// Pixel position of a point in the whole world map at a zoom level
+export function project(point: GeoPoint, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * Math.pow(2, zoom)
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.lat))
+  const sin = Math.sin((lat * Math.PI) / 180)
+  return {
+    x: ((point.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  }
+}
+
+export function unproject(x: number, y: number, zoom: number): GeoPoint {
+  const scale = TILE_SIZE * Math.pow(2, zoom)
+  const n = Math.PI - (2 * Math.PI * y) / scale
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / scale) * 360 - 180,
+  }
+}
+
+// Center and zoom that show every point in a view of the given size
+export function fitPoints(
+  points: GeoPoint[],
+  width: number,
+  height: number,
+  padding = 40
+): { center: GeoPoint; zoom: number } {
+  if (points.length === 0) return { center: { lat: 20, lng: 0 }, zoom: MIN_ZOOM }
+
+  for (let zoom = 14; zoom > MIN_ZOOM; zoom--) {
+    const projected = points.map(point => project(point, zoom))
+    const xs = projected.map(p => p.x)
+    const ys = projected.map(p => p.y)
+    const spanX = Math.max(...xs) - Math.min(...xs)
+    const spanY = Math.max(...ys) - Math.min(...ys)
+    if (spanX <= width - padding * 2 && spanY <= height - padding * 2) {
+      return {
+        center: unproject((Math.max(...xs) + Math.min(...xs)) / 2, (Math.max(...ys) + Math.min(...ys)) / 2, zoom),
+        zoom,
+      }
+    }
+  }
+
+  const projected = points.map(point => project(point, MIN_ZOOM))
+  const x = projected.reduce((sum, p) => sum + p.x, 0) / projected.length
+  const y = projected.reduce((sum, p) => sum + p.y, 0) / projected.length
+  return { center: unproject(x, y, MIN_ZOOM), zoom: MIN_ZOOM }
+}
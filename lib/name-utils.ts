@@ -0,0 +1,282 @@
+// Person name handling for Korean, Japanese, Chinese and Western names
+import type { BusinessCardData } from "@/types"
+
+export interface PersonNameParts {
+  familyName: string
+  givenName: string
+  phoneticFamilyName?: string
+  phoneticGivenName?: string
+}
+
+// Languages that write the family name first
+const FAMILY_NAME_FIRST_LOCALES = ["ko", "ja", "zh", "vi", "hu"]
+
+// Two-character family names that would otherwise be split after the first character
+const KOREAN_COMPOUND_SURNAMES = ["남궁", "황보", "제갈", "선우", "독고", "사공", "서문", "동방", "어금", "망절"]
+const CHINESE_COMPOUND_SURNAMES = ["欧阳", "歐陽", "司马", "司馬", "诸葛", "諸葛", "上官", "东方", "東方", "夏侯", "皇甫", "尉迟", "尉遲", "公孙", "公孫", "慕容", "令狐", "司徒", "长孙", "長孫", "宇文", "轩辕", "軒轅"]
+
+const HANGUL_PATTERN = /[가-힯]/
+const KANA_PATTERN = /[぀-ヿ]/
+const HAN_PATTERN = /[一-鿿㐀-䶿]/
+
+export type NameScript = "hangul" | "kana" | "han" | "latin"
+
+// Detect the writing system of a name
+export function detectNameScript(name: string): NameScript {
+  if (HANGUL_PATTERN.test(name)) return "hangul"
+  if (KANA_PATTERN.test(name)) return "kana"
+  if (HAN_PATTERN.test(name)) return "han"
+  return "latin"
+}
+
+// Best-guess language of a name from its script (kanji-only names are ambiguous: assume Chinese)
+export function inferNameLocale(name: string): string | undefined {
+  switch (detectNameScript(name)) {
+    case "hangul":
+      return "ko"
+    case "kana":
+      return "ja"
+    case "han":
+      return "zh"
+    default:
+      return undefined
+  }
+}
+
+export function isFamilyNameFirst(locale?: string): boolean {
+  if (!locale) return false
+  return FAMILY_NAME_FIRST_LOCALES.includes(locale.toLowerCase().split(/[-_]/)[0])
+}
+
+// Join family and given names in the order and spacing used by the locale
+export function formatPersonName(familyName?: string | null, givenName?: string | null, locale?: string): string | null {
+  const parts = isFamilyNameFirst(locale) ? [familyName, givenName] : [givenName, familyName]
+  const filtered = parts.filter((part): part is string => !!part && !!part.trim())
+  if (filtered.length === 0) return null
+
+  // CJK names are written without a space between family and given name
+  const script = detectNameScript(filtered.join(""))
+  return filtered.join(script === "latin" ? " " : "")
+}
+
+// Split an unspaced CJK name into family and given name
+function splitUnspacedCjkName(name: string, script: NameScript): [string, string] {
+  const compounds = script === "hangul" ? KOREAN_COMPOUND_SURNAMES : CHINESE_COMPOUND_SURNAMES
+  const compound = compounds.find(surname => name.startsWith(surname) && name.length > surname.length)
+  if (compound) {
+    return [compound, name.slice(compound.length)]
+  }
+
+  // Japanese family names vary from one to three characters; without a separator
+  // the whole name is kept as the family name so it still sorts correctly
+  if (script === "kana" || name.length > 4) {
+    return [name, ""]
+  }
+
+  return [name.slice(0, 1), name.slice(1)]
+}
+
+// Split a single name string into family and given names
+export function splitPersonName(name: string, locale?: string): PersonNameParts {
+  const trimmed = name.trim()
+  const script = detectNameScript(trimmed)
+  const effectiveLocale = locale || inferNameLocale(trimmed)
+  const tokens = trimmed.split(/[\s　]+/).filter(Boolean)
+
+  if (script !== "latin" && tokens.length === 1) {
+    const [familyName, givenName] = splitUnspacedCjkName(trimmed, script)
+    return { familyName, givenName }
+  }
+
+  if (tokens.length === 1) {
+    return { familyName: "", givenName: tokens[0] }
+  }
+
+  // A single all-caps token is the family name ("KIM Chul-soo", "Chul-soo KIM")
+  if (script === "latin") {
+    const upperTokens = tokens.filter(token => token.length > 1 && token === token.toUpperCase() && token !== token.toLowerCase())
+    if (upperTokens.length === 1) {
+      const familyName = upperTokens[0]
+      return { familyName, givenName: tokens.filter(token => token !== familyName).join(" ") }
+    }
+  }
+
+  if (isFamilyNameFirst(effectiveLocale)) {
+    return { familyName: tokens[0], givenName: tokens.slice(1).join(" ") }
+  }
+
+  // Western order: everything but the last token is the given (and middle) name
+  return { familyName: tokens[tokens.length - 1], givenName: tokens.slice(0, -1).join(" ") }
+}
+
+// Split the romanization of a native-script name. Romanized names are printed either way
+// ("Chulsoo Kim", "Kim Cheolsu"): the token spelling the family name tells the order, and
+// otherwise the romanization is taken to follow the native name's order.
+function splitRomanizedName(romanized: string, familyName: string, locale?: string): PersonNameParts {
+  const tokens = romanized.trim().split(/\s+/).filter(Boolean)
+  const spellings = romanizeFamilyName(familyName)
+  const spells = (token?: string) => !!token && spellings.includes(token.toLowerCase())
+
+  if (tokens.length > 1 && spells(tokens[0]) !== spells(tokens[tokens.length - 1])) {
+    return spells(tokens[0])
+      ? { familyName: tokens[0], givenName: tokens.slice(1).join(" ") }
+      : { familyName: tokens[tokens.length - 1], givenName: tokens.slice(0, -1).join(" ") }
+  }
+  return splitPersonName(romanized, locale)
+}
+
+// Name parts for a card: explicit first/last names from OCR win over splitting the full name.
+// Phonetic readings come from the OCR reading, or from the romanized name for CJK names.
+export function getPersonNameParts(card: BusinessCardData): PersonNameParts {
+  const metadata = card.metadata || {}
+  const displayName = metadata.native_name || card.name || ""
+  const locale = metadata.name_locale || inferNameLocale(displayName)
+
+  // OCR'd first/last names are only used when written in the same script as the display name
+  const explicitParts = [metadata.first_name, metadata.last_name].filter(Boolean).join("")
+  const useExplicitParts = !!explicitParts && detectNameScript(explicitParts) === detectNameScript(displayName)
+
+  const parts: PersonNameParts = useExplicitParts
+    ? { familyName: metadata.last_name || "", givenName: metadata.first_name || "" }
+    : splitPersonName(displayName, locale)
+
+  if (metadata.phonetic_last_name || metadata.phonetic_first_name) {
+    parts.phoneticFamilyName = metadata.phonetic_last_name || undefined
+    parts.phoneticGivenName = metadata.phonetic_first_name || undefined
+  } else if (metadata.romanized_name && detectNameScript(displayName) !== "latin") {
+    const romanized = splitRomanizedName(metadata.romanized_name, parts.familyName, locale)
+    parts.phoneticFamilyName = romanized.familyName || undefined
+    parts.phoneticGivenName = romanized.givenName || undefined
+  } else if (explicitParts && !useExplicitParts && detectNameScript(explicitParts) === "latin") {
+    // Latin first/last names next to a native-script name are its romanization
+    parts.phoneticFamilyName = metadata.last_name || undefined
+    parts.phoneticGivenName = metadata.first_name || undefined
+  }
+
+  return parts
+}
+
+// Revised Romanization of Korean, by syllable component
+const HANGUL_INITIALS = ["g", "kk", "n", "d", "tt", "r", "m", "b", "pp", "s", "ss", "", "j", "jj", "ch", "k", "t", "p", "h"]
+const HANGUL_MEDIALS = ["a", "ae", "ya", "yae", "eo", "e", "yeo", "ye", "o", "wa", "wae", "oe", "yo", "u", "wo", "we", "wi", "yu", "eu", "ui", "i"]
+const HANGUL_FINALS = ["", "k", "k", "k", "n", "n", "n", "t", "l", "k", "m", "l", "l", "l", "p", "l", "m", "p", "p", "t", "t", "ng", "t", "t", "k", "t", "p", "t"]
+
+// Customary spellings of common Korean family names, which rarely follow Revised Romanization
+const KOREAN_SURNAME_ROMANIZATIONS: Record<string, string[]> = {
+  "김": ["kim"], "이": ["lee", "yi", "rhee"], "박": ["park", "pak"], "최": ["choi", "choe"],
+  "정": ["jung", "jeong", "chung"], "강": ["kang"], "조": ["cho", "jo"], "윤": ["yoon", "yun"],
+  "장": ["jang", "chang"], "임": ["lim", "im", "yim"], "한": ["han"], "오": ["oh"],
+  "서": ["seo", "suh"], "신": ["shin", "sin"], "권": ["kwon", "gwon"], "황": ["hwang"],
+  "안": ["ahn", "an"], "송": ["song"], "류": ["ryu", "yoo"], "유": ["yoo", "yu"],
+  "전": ["jeon", "jun", "chun"], "홍": ["hong"], "고": ["ko", "go"], "문": ["moon", "mun"],
+  "손": ["son", "sohn"], "배": ["bae"], "백": ["baek", "paik"], "허": ["heo", "huh"],
+  "노": ["noh", "roh"], "남": ["nam"], "심": ["shim", "sim"], "곽": ["kwak"], "성": ["sung", "seong"],
+  "차": ["cha"], "주": ["joo", "ju"], "우": ["woo", "u"], "구": ["koo", "gu"], "민": ["min"],
+}
+
+// Hepburn romanization of kana (katakana is mapped onto hiragana first)
+const KANA_ROMAJI: Record<string, string> = {
+  "あ": "a", "い": "i", "う": "u", "え": "e", "お": "o",
+  "か": "ka", "き": "ki", "く": "ku", "け": "ke", "こ": "ko", "が": "ga", "ぎ": "gi", "ぐ": "gu", "げ": "ge", "ご": "go",
+  "さ": "sa", "し": "shi", "す": "su", "せ": "se", "そ": "so", "ざ": "za", "じ": "ji", "ず": "zu", "ぜ": "ze", "ぞ": "zo",
+  "た": "ta", "ち": "chi", "つ": "tsu", "て": "te", "と": "to", "だ": "da", "ぢ": "ji", "づ": "zu", "で": "de", "ど": "do",
+  "な": "na", "に": "ni", "ぬ": "nu", "ね": "ne", "の": "no",
+  "は": "ha", "ひ": "hi", "ふ": "fu", "へ": "he", "ほ": "ho", "ば": "ba", "び": "bi", "ぶ": "bu", "べ": "be", "ぼ": "bo",
+  "ぱ": "pa", "ぴ": "pi", "ぷ": "pu", "ぺ": "pe", "ぽ": "po",
+  "ま": "ma", "み": "mi", "む": "mu", "め": "me", "も": "mo",
+  "や": "ya", "ゆ": "yu", "よ": "yo",
+  "ら": "ra", "り": "ri", "る": "ru", "れ": "re", "ろ": "ro",
+  "わ": "wa", "ゐ": "i", "ゑ": "e", "を": "o", "ん": "n", "ゔ": "vu",
+  "ぁ": "a", "ぃ": "i", "ぅ": "u", "ぇ": "e", "ぉ": "o",
+}
+
+const SMALL_KANA_GLIDES: Record<string, string> = { "ゃ": "ya", "ゅ": "yu", "ょ": "yo" }
+
+function romanizeHangul(text: string): string {
+  let result = ""
+  for (const char of text) {
+    const code = char.charCodeAt(0) - 0xac00
+    if (code < 0 || code > 11171) {
+      result += char
+      continue
+    }
+    result += HANGUL_INITIALS[Math.floor(code / 588)] +
+      HANGUL_MEDIALS[Math.floor((code % 588) / 28)] +
+      HANGUL_FINALS[code % 28]
+  }
+  return result
+}
+
+function romanizeKana(text: string): string {
+  // Katakana -> hiragana (same layout, offset by 0x60)
+  const hiragana = text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+  let result = ""
+  let doubleNext = false
+
+  for (let i = 0; i < hiragana.length; i++) {
+    const char = hiragana[i]
+    if (char === "っ") {
+      doubleNext = true
+      continue
+    }
+    if (char === "ー") {
+      result += result.slice(-1)
+      continue
+    }
+
+    let romaji = KANA_ROMAJI[char]
+    if (romaji === undefined) {
+      result += char
+      continue
+    }
+
+    // Contracted sounds: きゃ -> kya, しゃ -> sha, ちゃ -> cha
+    const glide = SMALL_KANA_GLIDES[hiragana[i + 1]]
+    if (glide) {
+      const stem = romaji.slice(0, -1)
+      romaji = /(sh|ch|j)$/.test(stem) ? stem + glide.slice(1) : stem + glide
+      i++
+    }
+
+    if (doubleNext) {
+      romaji = (romaji.startsWith("ch") ? "t" : romaji[0]) + romaji
+      doubleNext = false
+    }
+    result += romaji
+  }
+
+  return result
+}
+
+// Latin-script spellings of a Korean or Japanese family name; none for Chinese characters
+function romanizeFamilyName(familyName: string): string[] {
+  switch (detectNameScript(familyName)) {
+    case "hangul":
+      return KOREAN_SURNAME_ROMANIZATIONS[familyName] || [romanizeHangul(familyName)]
+    case "kana":
+      return [romanizeKana(familyName)]
+    default:
+      return []
+  }
+}
+
+// Latin-script spellings of a Korean or Japanese name, for matching it against romanized
+// names on other cards. Chinese characters cannot be read without a dictionary, so
+// names in Han script only match through the card's romanized or phonetic fields.
+export function romanizeName(name: string): string[] {
+  const trimmed = name.trim()
+  const script = detectNameScript(trimmed)
+
+  if (script === "hangul") {
+    const { familyName, givenName } = splitPersonName(trimmed, "ko")
+    const romanizedGiven = romanizeHangul(givenName)
+    const surnames = KOREAN_SURNAME_ROMANIZATIONS[familyName] || [romanizeHangul(familyName)]
+    return surnames.map(surname => [surname, romanizedGiven].filter(Boolean).join(" "))
+  }
+
+  if (script === "kana") {
+    return [trimmed.split(/[\s　]+/).map(romanizeKana).join(" ")]
+  }
+
+  return []
+}
@@ -0,0 +1,275 @@
+// OpenAPI document of the REST API (/api/cards), served at /api/openapi. The card schemas come from
+// types/index.ts through lib/openapi-schemas.json (regenerate with npm run openapi); the paths are
+// written here. Request bodies are checked against the same schemas.
+import generated from "@/lib/openapi-schemas.json"
+
+interface JsonSchema {
+  type?: string | string[]
+  enum?: string[]
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: JsonSchema
+  anyOf?: JsonSchema[]
+  $ref?: string
+  description?: string
+  readOnly?: boolean
+}
+
+const SCHEMAS = generated.schemas as Record<string, JsonSchema>
+const CARD_FIELDS = SCHEMAS.BusinessCardData.properties || {}
+
+// Set by the app, not by API clients: ignored in request bodies, so a card read from the API can be sent back
+export const READ_ONLY_CARD_FIELDS = [
+  "id", "userId", "phoneE164", "mobileE164", "scanHistory", "lastAccessed", "carddav", "crm", "createdAt", "updatedAt",
+]
+
+export const MAX_PAGE_SIZE = 100
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string": return typeof value === "string"
+    case "number": return typeof value === "number" && Number.isFinite(value)
+    case "boolean": return typeof value === "boolean"
+    case "array": return Array.isArray(value)
+    case "object": return isPlainObject(value)
+    case "null": return value === null
+    default: return false
+  }
+}
+
+// The first problem with a value, as a message for the client; null when it matches the schema
+function findProblem(value: unknown, schema: JsonSchema, path: string): string | null {
+  if (schema.$ref) {
+    return findProblem(value, SCHEMAS[schema.$ref.replace("#/components/schemas/", "")], path)
+  }
+  if (schema.anyOf) {
+    const problems = schema.anyOf.map(option => findProblem(value, option, path))
+    return problems.includes(null) ? null : problems.find(problem => problem && !problem.endsWith("must be null")) || problems[0]
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []
+  if (types.length > 0 && !types.some(type => hasType(value, type))) {
+    return `${path} must be ${types.map(type => type === "array" || type === "object" ? `an ${type}` : type).join(" or ")}`
+  }
+  if (value === null) return null
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return `${path} must be one of ${schema.enum.join(", ")}`
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const problem = findProblem(value[i], schema.items, `${path}[${i}]`)
+      if (problem) return problem
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const field of schema.required || []) {
+      if (value[field] === undefined) return `${path}.${field} is required`
+    }
+    for (const [field, fieldValue] of Object.entries(value)) {
+      const fieldSchema = schema.properties?.[field] || schema.additionalProperties
+      if (!fieldSchema) return `${path}.${field} is not a known field`
+      const problem = findProblem(fieldValue, fieldSchema, `${path}.${field}`)
+      if (problem) return problem
+    }
+  }
+  return null
+}
+
+export type CardInput = { fields: Record<string, unknown>; error?: undefined } | { fields?: undefined; error: string }
+
+// Check a request body against BusinessCardData. Read-only fields are dropped. For a partial
+// update (PATCH), null removes a field; when creating a card, null fields are left out.
+export function validateCardInput(body: unknown, { partial = false } = {}): CardInput {
+  if (!isPlainObject(body)) {
+    return { error: "Expected a JSON object with the card's fields" }
+  }
+
+  const fields: Record<string, unknown> = {}
+  for (const [field, value] of Object.entries(body)) {
+    if (READ_ONLY_CARD_FIELDS.includes(field)) continue
+    if (!CARD_FIELDS[field]) {
+      return { error: `${field} is not a known field` }
+    }
+    if (value === null) {
+      if (partial) fields[field] = null
+      continue
+    }
+    const problem = findProblem(value, CARD_FIELDS[field], field)
+    if (problem) return { error: problem }
+    fields[field] = value
+  }
+  return { fields }
+}
+
+// The card as the API returns it: read-only fields marked, plus the document's timestamps
+function cardSchema(): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  for (const [field, schema] of Object.entries(CARD_FIELDS)) {
+    properties[field] = READ_ONLY_CARD_FIELDS.includes(field) ? { ...schema, readOnly: true } : schema
+  }
+  return {
+    ...SCHEMAS.BusinessCardData,
+    description: "A business card. Image fields (base64 JPEG) are only included when a single card is requested.",
+    properties: {
+      ...properties,
+      createdAt: { type: "string", description: "ISO timestamp of when the card was saved", readOnly: true },
+      updatedAt: { type: "string", description: "ISO timestamp of the last change", readOnly: true },
+    },
+  }
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+})
+
+const cardResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": {
+      schema: { type: "object", properties: { card: { $ref: "#/components/schemas/BusinessCardData" } }, required: ["card"] },
+    },
+  },
+})
+
+const cardIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+}
+
+export function getOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Card Scan API",
+      version: "1",
+      description:
+        "Read and change your business cards from scripts and other apps. Create a personal access token " +
+        "under API in the app and send it as a bearer token. Changes made through the API reach your webhooks.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ accessToken: [] }],
+    paths: {
+      "/api/cards": {
+        get: {
+          summary: "List cards",
+          description: "One page of cards, without images. Pass nextCursor back as cursor for the next page.",
+          parameters: [
+            { name: "sort", in: "query", schema: { type: "string", enum: ["date", "name", "company", "favorite"], default: "date" } },
+            { name: "direction", in: "query", schema: { type: "string", enum: ["asc", "desc"], default: "desc" } },
+            { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: 30 } },
+            { name: "cursor", in: "query", schema: { type: "string" }, description: "nextCursor of the previous page" },
+            {
+              name: "q",
+              in: "query",
+              schema: { type: "string" },
+              description: "Search, with the app's filters, e.g. company:upstage is:favorite has:email scanned:>2026-01-01",
+            },
+          ],
+          responses: {
+            200: {
+              description: "A page of cards",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      cards: { type: "array", items: { $ref: "#/components/schemas/BusinessCardData" } },
+                      nextCursor: { type: ["string", "null"], description: "null on the last page" },
+                    },
+                    required: ["cards", "nextCursor"],
+                  },
+                },
+              },
+            },
+            400: errorResponse("Invalid parameter"),
+            401: errorResponse("Missing or revoked access token"),
+          },
+        },
+        post: {
+          summary: "Create a card",
+          description:
+            "From JSON fields, or from a photo of the card: multipart/form-data with an image file and an " +
+            "optional backImage file, read by the same OCR as the app. Photos are not stored with the card.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/BusinessCardData" } },
+              "multipart/form-data": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    image: { type: "string", format: "binary" },
+                    backImage: { type: "string", format: "binary" },
+                  },
+                  required: ["image"],
+                },
+              },
+            },
+          },
+          responses: {
+            201: cardResponse("The card as saved"),
+            400: errorResponse("Invalid card"),
+            401: errorResponse("Missing or revoked access token"),
+            413: errorResponse("Image too large (max 10MB)"),
+            502: errorResponse("The card could not be read or saved"),
+          },
+        },
+      },
+      "/api/cards/{id}": {
+        parameters: [cardIdParameter],
+        get: {
+          summary: "Get a card",
+          description: "The card with its images.",
+          responses: {
+            200: cardResponse("The card"),
+            401: errorResponse("Missing or revoked access token"),
+            404: errorResponse("No such card"),
+          },
+        },
+        patch: {
+          summary: "Update a card",
+          description: "Changes the fields sent; null removes a field. The previous version is kept in the card's history.",
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: { $ref: "#/components/schemas/BusinessCardData" } } },
+          },
+          responses: {
+            200: cardResponse("The card as saved"),
+            400: errorResponse("Invalid card"),
+            401: errorResponse("Missing or revoked access token"),
+            404: errorResponse("No such card"),
+          },
+        },
+        delete: {
+          summary: "Delete a card",
+          description: "Moves the card and its follow-ups to the trash, where it can be restored in the app.",
+          responses: {
+            204: { description: "Deleted" },
+            401: errorResponse("Missing or revoked access token"),
+            404: errorResponse("No such card"),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        accessToken: { type: "http", scheme: "bearer", description: "Personal access token (cs_pat_...)" },
+      },
+      schemas: {
+        ...SCHEMAS,
+        BusinessCardData: cardSchema(),
+        Error: { type: "object", properties: { error: { type: "string" } }, required: ["error"] },
+      },
+    },
+  }
+}
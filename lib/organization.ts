@@ -0,0 +1,72 @@
+// Tags and colored groups for organizing cards
+import type { BusinessCardData, CardGroup, GroupColor } from "@/types"
+import { normalizeText } from "@/lib/similarity"
+
+export const GROUP_COLORS: Record<GroupColor, { dot: string; badge: string }> = {
+  gray: { dot: "bg-gray-500", badge: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200" },
+  red: { dot: "bg-red-500", badge: "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-200" },
+  orange: { dot: "bg-orange-500", badge: "bg-orange-100 text-orange-800 dark:bg-orange-950 dark:text-orange-200" },
+  yellow: { dot: "bg-yellow-500", badge: "bg-yellow-100 text-yellow-800 dark:bg-yellow-950 dark:text-yellow-200" },
+  green: { dot: "bg-green-500", badge: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-200" },
+  teal: { dot: "bg-teal-500", badge: "bg-teal-100 text-teal-800 dark:bg-teal-950 dark:text-teal-200" },
+  blue: { dot: "bg-blue-500", badge: "bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-200" },
+  purple: { dot: "bg-purple-500", badge: "bg-purple-100 text-purple-800 dark:bg-purple-950 dark:text-purple-200" },
+  pink: { dot: "bg-pink-500", badge: "bg-pink-100 text-pink-800 dark:bg-pink-950 dark:text-pink-200" },
+}
+
+export const GROUP_COLOR_NAMES = Object.keys(GROUP_COLORS) as GroupColor[]
+
+const MAX_TAG_LENGTH = 40
+
+// Clean up a tag typed by the user; returns "" when nothing is left
+export function normalizeTag(tag: string): string {
+  return tag.replace(/\s+/g, " ").trim().slice(0, MAX_TAG_LENGTH)
+}
+
+// Tags used across the cards, most used first
+export function collectTags(cards: BusinessCardData[]): string[] {
+  const counts = new Map<string, { tag: string; count: number }>()
+  for (const card of cards) {
+    for (const tag of card.tags || []) {
+      const key = normalizeText(tag)
+      const entry = counts.get(key) || { tag, count: 0 }
+      entry.count++
+      counts.set(key, entry)
+    }
+  }
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .map(entry => entry.tag)
+}
+
+// Does the card carry the tag? Tags compare case- and accent-insensitively.
+export function hasTag(card: BusinessCardData, tag: string): boolean {
+  const key = normalizeText(tag)
+  return (card.tags || []).some(cardTag => normalizeText(cardTag) === key)
+}
+
+// Tags of the card after adding and removing some
+export function changeTags(card: BusinessCardData, add: string[], remove: string[]): string[] {
+  const removeKeys = new Set(remove.map(normalizeText))
+  const tags = (card.tags || []).filter(tag => !removeKeys.has(normalizeText(tag)))
+
+  for (const tag of add.map(normalizeTag).filter(Boolean)) {
+    if (!tags.some(existing => normalizeText(existing) === normalizeText(tag))) {
+      tags.push(tag)
+    }
+  }
+  return tags
+}
+
+// Group IDs of the card after adding and removing some
+export function changeGroups(card: BusinessCardData, add: string[], remove: string[]): string[] {
+  const groupIds = (card.groupIds || []).filter(groupId => !remove.includes(groupId))
+  return [...groupIds, ...add.filter(groupId => !groupIds.includes(groupId))]
+}
+
+// The card's groups, in the order the user's groups are listed
+export function getCardGroups(card: BusinessCardData, groups: CardGroup[]): CardGroup[] {
+  const groupIds = card.groupIds || []
+  return groups.filter(group => groupIds.includes(group.id))
+}
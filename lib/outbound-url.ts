@@ -0,0 +1,116 @@
+// Server-side checks for URLs chosen by users (CardDAV servers, CRM endpoints, webhooks), which our
+// backend connects to on their behalf
+import { lookup, promises as dns, type LookupAddress, type LookupOptions } from "dns"
+import { BlockList, isIP } from "net"
+import { Agent, fetch, type RequestInit, type Response } from "undici"
+
+// Loopback, private, link-local (cloud metadata), shared, benchmarking, multicast and reserved ranges
+const PRIVATE_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4")
+}
+// Unique local, link-local, site-local, multicast, discard-only, documentation and Teredo
+for (const [network, prefix] of [
+  ["fc00::", 7], ["fe80::", 10], ["fec0::", 10], ["ff00::", 8], ["100::", 64], ["2001:db8::", 32], ["2001::", 32],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6")
+}
+
+// The 16 bytes of a valid IPv6 address, whatever its notation (zero compression, a dotted IPv4 tail)
+function toIPv6Bytes(address: string): number[] {
+  let text = address.replace(/%.*$/, "")
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number)
+    text = `${text.slice(0, -dotted[0].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+  const [head, tail] = text.split("::")
+  const headGroups = head ? head.split(":") : []
+  const tailGroups = tail ? tail.split(":") : []
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill("0"), ...tailGroups]
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16)
+    return [value >> 8, value & 0xff]
+  })
+}
+
+// The IPv4 address an IPv6 address stands for: IPv4-mapped (::ffff:a.b.c.d, which URL parsing
+// turns into ::ffff:7f00:1), IPv4-compatible (::a.b.c.d, also :: and ::1), NAT64 (64:ff9b::/96) and 6to4 (2002::/16)
+function getEmbeddedIPv4(bytes: number[]): string | null {
+  const isZero = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0)
+  if (isZero(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return bytes.slice(12).join(".")
+  if (isZero(0, 12)) return bytes.slice(12).join(".")
+  if (bytes[0] === 0 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && isZero(4, 12)) return bytes.slice(12).join(".")
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return bytes.slice(2, 6).join(".")
+  return null
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 4) return PRIVATE_RANGES.check(address, "ipv4")
+  if (version !== 6) return true
+
+  const bytes = toIPv6Bytes(address)
+  const embedded = getEmbeddedIPv4(bytes)
+  if (embedded) return PRIVATE_RANGES.check(embedded, "ipv4")
+  const normalized = Array.from({ length: 8 }, (_, i) => ((bytes[2 * i] << 8) | bytes[2 * i + 1]).toString(16)).join(":")
+  return PRIVATE_RANGES.check(normalized, "ipv6")
+}
+
+// Throw unless the URL is http(s) and, when private hosts are not allowed, resolves to public
+// addresses only. Check every redirect hop as well.
+export async function checkOutboundUrl(url: URL, allowPrivateHosts: boolean): Promise<void> {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("The URL must start with https:// or http://")
+  }
+  if (allowPrivateHosts) return
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "")
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await dns.lookup(hostname, { all: true })).map(entry => entry.address)
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`${url.hostname} is on a private network`)
+  }
+}
+
+// Error code of a connection refused because the host resolved to a private address
+const PRIVATE_HOST_ERROR_CODE = "EPRIVATEHOST"
+
+// DNS lookup for outbound connections that fails when the host resolves to a private address. The
+// check above resolves the host once, and the connection would resolve it again: a host whose DNS
+// answers change in between (DNS rebinding) could pass the check and still reach a private address.
+function lookupPublicAddress(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, [])
+    if (addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(Object.assign(new Error(`${hostname} is on a private network`), { code: PRIVATE_HOST_ERROR_CODE }), [])
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+// Connects to the addresses the lookup above accepted (IP literals are checked by checkOutboundUrl)
+const publicOnlyAgent = new Agent({ connect: { lookup: lookupPublicAddress } })
+
+// fetch for URLs checked with checkOutboundUrl: unless private hosts are allowed, the connection
+// is only made to public addresses of the host, whatever its DNS answers by then
+export async function fetchOutbound(url: URL, init: RequestInit, allowPrivateHosts: boolean): Promise<Response> {
+  try {
+    return await fetch(url, allowPrivateHosts ? init : { ...init, dispatcher: publicOnlyAgent })
+  } catch (error) {
+    // fetch reports connection errors as "fetch failed": give the reason when the address was refused
+    const cause = error instanceof Error ? error.cause as NodeJS.ErrnoException | undefined : undefined
+    throw cause?.code === PRIVATE_HOST_ERROR_CODE ? cause : error
+  }
+}
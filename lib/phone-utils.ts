@@ -0,0 +1,183 @@
+// Phone number normalization to E.164 with country inference from the card
+import { parsePhoneNumberFromString, getCountries, type CountryCode } from "libphonenumber-js"
+import type { BusinessCardData } from "@/types"
+
+// Country names that Intl.DisplayNames does not produce
+const COUNTRY_ALIASES: Record<string, CountryCode> = {
+  "usa": "US",
+  "u.s.a.": "US",
+  "u.s.": "US",
+  "america": "US",
+  "united states of america": "US",
+  "uk": "GB",
+  "u.k.": "GB",
+  "england": "GB",
+  "great britain": "GB",
+  "korea": "KR",
+  "republic of korea": "KR",
+  "rep. of korea": "KR",
+  "대한민국": "KR",
+  "한국": "KR",
+  "日本": "JP",
+  "中国": "CN",
+  "中國": "CN",
+  "台灣": "TW",
+  "台湾": "TW",
+  "香港": "HK",
+  "deutschland": "DE",
+  "españa": "ES",
+  "schweiz": "CH",
+  "suisse": "CH",
+  "österreich": "AT",
+  "nederland": "NL",
+  "italia": "IT",
+  "uae": "AE",
+}
+
+// Language of the name as a last-resort hint
+const LOCALE_COUNTRIES: Record<string, CountryCode> = {
+  ko: "KR",
+  ja: "JP",
+  zh: "CN",
+  vi: "VN",
+  hu: "HU",
+}
+
+let countryNameIndex: Map<string, CountryCode> | null = null
+
+// Lowercased country names (English and CJK) -> ISO code, built once from Intl
+function getCountryNameIndex(): Map<string, CountryCode> {
+  if (countryNameIndex) return countryNameIndex
+
+  countryNameIndex = new Map(Object.entries(COUNTRY_ALIASES) as Array<[string, CountryCode]>)
+
+  for (const language of ["en", "ko", "ja", "zh"]) {
+    try {
+      const displayNames = new Intl.DisplayNames([language], { type: "region" })
+      for (const code of getCountries()) {
+        const name = displayNames.of(code)
+        if (name && !countryNameIndex.has(name.toLowerCase())) {
+          countryNameIndex.set(name.toLowerCase(), code)
+        }
+      }
+    } catch {
+      // Intl.DisplayNames is unavailable in very old browsers; aliases still work
+    }
+  }
+
+  return countryNameIndex
+}
+
+// Map a country name or ISO code ("Korea", "KR", "日本") to a country code
+export function countryNameToCode(country?: string | null): CountryCode | undefined {
+  if (!country) return undefined
+  const trimmed = country.trim()
+
+  const upper = trimmed.toUpperCase()
+  if (/^[A-Z]{2}$/.test(upper) && (getCountries() as string[]).includes(upper)) {
+    return upper as CountryCode
+  }
+
+  return getCountryNameIndex().get(trimmed.toLowerCase())
+}
+
+// Infer the card's country from its structured address, free-form address, website TLD or name locale
+export function inferCardCountry(card: BusinessCardData): CountryCode | undefined {
+  const fromAddressDetails = countryNameToCode(card.addressDetails?.countryCode) ||
+    countryNameToCode(card.addressDetails?.country) ||
+    countryNameToCode(card.metadata?.country)
+  if (fromAddressDetails) return fromAddressDetails
+
+  // Last comma-separated part of a free-form address is usually the country
+  if (card.address) {
+    const parts = card.address.split(/[,\n]/).map(part => part.trim()).filter(Boolean)
+    const fromAddress = countryNameToCode(parts[parts.length - 1])
+    if (fromAddress) return fromAddress
+  }
+
+  const domain = (card.website || card.email?.split("@")[1] || "").toLowerCase()
+  const tld = domain.replace(/^https?:\/\//, "").split("/")[0].split(".").pop()
+  if (tld && tld.length === 2 && tld !== "io" && tld !== "ai" && tld !== "co") {
+    const fromTld = countryNameToCode(tld === "uk" ? "GB" : tld)
+    if (fromTld) return fromTld
+  }
+
+  const locale = card.metadata?.name_locale?.toLowerCase().split(/[-_]/)[0]
+  return locale ? LOCALE_COUNTRIES[locale] : undefined
+}
+
+export interface NormalizedPhone {
+  e164: string      // +821012345678
+  display: string   // +82 10-1234-5678
+  country?: CountryCode
+}
+
+// Parse a phone number as printed on a card. Numbers without a country prefix are
+// interpreted in the given default country.
+export function normalizePhone(value?: string | null, defaultCountry?: CountryCode): NormalizedPhone | null {
+  if (!value || !value.trim()) return null
+
+  try {
+    const parsed = parsePhoneNumberFromString(value, defaultCountry)
+    if (!parsed || !parsed.isPossible()) return null
+
+    return {
+      e164: parsed.number,
+      display: parsed.formatInternational(),
+      country: parsed.country,
+    }
+  } catch {
+    return null
+  }
+}
+
+// E.164 form of a number for a given card, or null if it cannot be parsed
+export function toE164(value: string | undefined | null, card: BusinessCardData): string | null {
+  return normalizePhone(value, inferCardCountry(card))?.e164 || null
+}
+
+// Do two cards share a phone number? Numbers without a country prefix are interpreted in
+// the country of either card, so "+82 10-1234-5678" matches "010-1234-5678".
+export function phonesMatch(a: BusinessCardData, b: BusinessCardData): boolean {
+  const numbersA = [a.phone, a.mobile].filter((phone): phone is string => !!phone)
+  const numbersB = [b.phone, b.mobile].filter((phone): phone is string => !!phone)
+  if (numbersA.length === 0 || numbersB.length === 0) return false
+
+  // Saved cards carry E.164 forms of every number: compare those without re-parsing
+  const storedA = [a.phoneE164, a.mobileE164].filter((phone): phone is string => !!phone)
+  const storedB = [b.phoneE164, b.mobileE164].filter((phone): phone is string => !!phone)
+  if (storedA.length === numbersA.length && storedB.length === numbersB.length) {
+    return storedA.some(phone => storedB.includes(phone))
+  }
+
+  const countryA = inferCardCountry(a)
+  const countryB = inferCardCountry(b)
+
+  return numbersA.some(phoneA => numbersB.some(phoneB => {
+    const parsedA = normalizePhone(phoneA, countryA || countryB)
+    const parsedB = normalizePhone(phoneB, countryB || countryA || parsedA?.country)
+    const reparsedA = parsedA || normalizePhone(phoneA, parsedB?.country)
+
+    if (reparsedA && parsedB) {
+      return reparsedA.e164 === parsedB.e164
+    }
+
+    // Compare digits only when a number cannot be parsed at all
+    const digitsA = phoneA.replace(/\D/g, "")
+    return digitsA.length > 0 && digitsA === phoneB.replace(/\D/g, "")
+  }))
+}
+
+// Refresh the stored E.164 forms from the display values (called on every save)
+export function withNormalizedPhones(card: BusinessCardData): BusinessCardData {
+  const phoneE164 = toE164(card.phone, card)
+  const mobileE164 = toE164(card.mobile, card)
+
+  const normalized: BusinessCardData = { ...card }
+  if (phoneE164) normalized.phoneE164 = phoneE164
+  else delete normalized.phoneE164
+  if (mobileE164) normalized.mobileE164 = mobileE164
+  else delete normalized.mobileE164
+
+  return normalized
+}
@@ -0,0 +1,426 @@
+// Structured search queries: free text plus field filters such as
+// `company:upstage city:seoul event:"ces 2026" is:favorite scanned:>2026-01-01 has:email -has:phone`
+import type { BusinessCardData, CardGroup } from "@/types"
+import { normalizeText } from "@/lib/similarity"
+import { getCardAddress } from "@/lib/address-utils"
+import { collectTags, getCardGroups } from "@/lib/organization"
+import { collectEvents } from "@/lib/card-events"
+
+// Fields that filter on their text (case- and accent-insensitive "contains")
+export type QueryTextField =
+  | "name" | "company" | "title" | "department" | "email" | "phone" | "city" | "country" | "notes" | "website" | "tag" | "group" | "event"
+
+export const QUERY_TEXT_FIELDS: QueryTextField[] = [
+  "name", "company", "title", "department", "email", "phone", "city", "country", "notes", "website", "tag", "group", "event",
+]
+
+export const QUERY_IS_VALUES = ["favorite", "offline"] as const
+export type QueryIsValue = typeof QUERY_IS_VALUES[number]
+
+export const QUERY_HAS_VALUES = [
+  "email", "phone", "mobile", "address", "website", "linkedin", "twitter", "notes", "image", "back", "tags", "group", "event",
+] as const
+export type QueryHasValue = typeof QUERY_HAS_VALUES[number]
+
+// Other spellings accepted for field names
+const FIELD_ALIASES: Record<string, QueryTextField | "scanned"> = {
+  jobtitle: "title",
+  dept: "department",
+  org: "company",
+  tel: "phone",
+  mail: "email",
+  site: "website",
+  note: "notes",
+  date: "scanned",
+  tags: "tag",
+  label: "tag",
+  groups: "group",
+  met: "event",
+  events: "event",
+}
+
+export type QueryFilter =
+  | { type: "text"; field: QueryTextField; value: string; negate: boolean }
+  | { type: "is"; value: QueryIsValue; negate: boolean }
+  | { type: "has"; value: QueryHasValue; negate: boolean }
+  | { type: "scanned"; operator: ">" | ">=" | "<" | "<=" | "="; date: string; negate: boolean }
+  | { type: "scannedRange"; from: string; to: string; negate: boolean }
+
+export interface ParsedQuery {
+  text: string              // Free text for the full-text index
+  filters: QueryFilter[]
+  errors: string[]          // Filters that could not be understood; they are ignored
+}
+
+interface QueryToken {
+  raw: string
+  start: number
+  end: number
+}
+
+// Split on whitespace, keeping quoted values together (`company:"acme corp"`)
+export function splitQuery(input: string): QueryToken[] {
+  const tokens: QueryToken[] = []
+  const pattern = /(?:[^\s"]+|"[^"]*"?)+/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push({ raw: match[0], start: match.index, end: match.index + match[0].length })
+  }
+  return tokens
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, "").replace(/"$/, "")
+}
+
+// Resolve a field name typed in a query, or null if it is not a field
+export function resolveQueryField(name: string): QueryTextField | "is" | "has" | "scanned" | null {
+  const lower = name.toLowerCase()
+  if (lower === "is" || lower === "has" || lower === "scanned") return lower
+  if ((QUERY_TEXT_FIELDS as string[]).includes(lower)) return lower as QueryTextField
+  return FIELD_ALIASES[lower] || null
+}
+
+// Dates as YYYY-MM-DD, YYYY-MM or YYYY
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/
+
+function parseFilter(field: NonNullable<ReturnType<typeof resolveQueryField>>, value: string, negate: boolean): QueryFilter | string {
+  switch (field) {
+    case "is": {
+      const isValue = value.toLowerCase()
+      if (!(QUERY_IS_VALUES as readonly string[]).includes(isValue)) {
+        return `Unknown "is:${value}" (try ${QUERY_IS_VALUES.map(v => `is:${v}`).join(", ")})`
+      }
+      return { type: "is", value: isValue as QueryIsValue, negate }
+    }
+    case "has": {
+      const hasValue = value.toLowerCase()
+      if (!(QUERY_HAS_VALUES as readonly string[]).includes(hasValue)) {
+        return `Unknown "has:${value}" (try ${QUERY_HAS_VALUES.map(v => `has:${v}`).join(", ")})`
+      }
+      return { type: "has", value: hasValue as QueryHasValue, negate }
+    }
+    case "scanned": {
+      const range = value.split("..")
+      if (range.length === 2 && DATE_PATTERN.test(range[0]) && DATE_PATTERN.test(range[1])) {
+        return { type: "scannedRange", from: range[0], to: range[1], negate }
+      }
+
+      const match = value.match(/^(>=|<=|>|<|=)?(.+)$/)
+      if (!match || !DATE_PATTERN.test(match[2])) {
+        return `Invalid date in "scanned:${value}" (use YYYY-MM-DD, e.g. scanned:>2026-01-01)`
+      }
+      return { type: "scanned", operator: (match[1] || "=") as ">" | ">=" | "<" | "<=" | "=", date: match[2], negate }
+    }
+    default:
+      return { type: "text", field, value, negate }
+  }
+}
+
+// Parse a query into free text and filters. Words that are not filters stay free text,
+// so "10:30" or a URL are searched as typed.
+export function parseSearchQuery(input: string): ParsedQuery {
+  const textParts: string[] = []
+  const filters: QueryFilter[] = []
+  const errors: string[] = []
+
+  for (const token of splitQuery(input)) {
+    const match = token.raw.match(/^(-?)([a-zA-Z]+):(.*)$/)
+    const field = match ? resolveQueryField(match[2]) : null
+
+    if (!match || !field) {
+      textParts.push(unquote(token.raw))
+      continue
+    }
+
+    // A field still being typed ("company:") filters nothing yet
+    const value = unquote(match[3])
+    if (!value) continue
+
+    const filter = parseFilter(field, value, match[1] === "-")
+    if (typeof filter === "string") {
+      errors.push(filter)
+    } else {
+      filters.push(filter)
+    }
+  }
+
+  return { text: textParts.join(" ").trim(), filters, errors }
+}
+
+// Text a text filter looks at; group filters need the user's groups to match on names
+export function getQueryFieldValue(card: BusinessCardData, field: QueryTextField, groups: CardGroup[] = []): string {
+  switch (field) {
+    case "name":
+      return [card.name, card.metadata?.native_name, card.metadata?.romanized_name].filter(Boolean).join(" ")
+    case "company":
+      return card.company || ""
+    case "title":
+      return card.jobTitle || ""
+    case "department":
+      return card.metadata?.department || ""
+    case "email":
+      return card.email || ""
+    case "phone":
+      return [card.phone, card.mobile, card.phoneE164, card.mobileE164, card.metadata?.fax].filter(Boolean).join(" ")
+    case "city":
+      return getCardAddress(card).city || ""
+    case "country": {
+      const address = getCardAddress(card)
+      return [address.country, address.countryCode].filter(Boolean).join(" ")
+    }
+    case "notes":
+      return card.notes || ""
+    case "website":
+      return card.website || ""
+    case "tag":
+      return (card.tags || []).join(", ")
+    case "group":
+      return getCardGroups(card, groups).map(group => group.name).join(", ")
+    case "event":
+      return [card.event?.name, card.event?.location, card.event?.date].filter(Boolean).join(" ")
+  }
+}
+
+function hasValue(card: BusinessCardData, value: QueryHasValue): boolean {
+  switch (value) {
+    case "email":
+      return !!card.email
+    case "phone":
+      return !!(card.phone || card.mobile)
+    case "mobile":
+      return !!card.mobile
+    case "address":
+      return !!card.address
+    case "website":
+      return !!card.website
+    case "linkedin":
+      return !!card.linkedin
+    case "twitter":
+      return !!card.twitter
+    case "notes":
+      return !!card.notes?.trim()
+    case "image":
+      return !!(card.imageBase64 || card.thumbnailBase64)
+    case "back":
+      return !!card.backImageBase64
+    case "tags":
+      return (card.tags || []).length > 0
+    case "group":
+      return (card.groupIds || []).length > 0
+    case "event":
+      return !!card.event?.name
+  }
+}
+
+// Compare the card's scan date (local calendar day) with a possibly partial date
+function compareScanDate(timestamp: string | undefined, date: string): number | null {
+  if (!timestamp) return null
+  const scanned = new Date(timestamp)
+  if (isNaN(scanned.getTime())) return null
+
+  const pad = (n: number) => String(n).padStart(2, "0")
+  const day = `${scanned.getFullYear()}-${pad(scanned.getMonth() + 1)}-${pad(scanned.getDate())}`
+  const prefix = day.slice(0, date.length)
+  return prefix < date ? -1 : prefix > date ? 1 : 0
+}
+
+function matchesFilter(card: BusinessCardData, filter: QueryFilter, groups: CardGroup[]): boolean {
+  switch (filter.type) {
+    case "text": {
+      const value = normalizeText(getQueryFieldValue(card, filter.field, groups))
+      const query = normalizeText(filter.value)
+      if (filter.field === "phone") {
+        const digits = filter.value.replace(/\D/g, "")
+        if (digits && value.replace(/\D/g, "").includes(digits)) return true
+      }
+      return value.includes(query)
+    }
+    case "is":
+      return filter.value === "favorite" ? !!card.isFavorite : !!card.id?.startsWith("offline_")
+    case "has":
+      return hasValue(card, filter.value)
+    case "scanned": {
+      const comparison = compareScanDate(card.timestamp, filter.date)
+      if (comparison === null) return false
+      switch (filter.operator) {
+        case ">": return comparison > 0
+        case ">=": return comparison >= 0
+        case "<": return comparison < 0
+        case "<=": return comparison <= 0
+        case "=": return comparison === 0
+      }
+      return false
+    }
+    case "scannedRange": {
+      const afterFrom = compareScanDate(card.timestamp, filter.from)
+      const beforeTo = compareScanDate(card.timestamp, filter.to)
+      return afterFrom !== null && beforeTo !== null && afterFrom >= 0 && beforeTo <= 0
+    }
+  }
+}
+
+// Does the card pass every filter?
+export function matchesQueryFilters(card: BusinessCardData, filters: QueryFilter[], groups: CardGroup[] = []): boolean {
+  return filters.every(filter => matchesFilter(card, filter, groups) !== filter.negate)
+}
+
+// Words of positive text filters, to highlight them in results
+export function getFilterHighlightText(filters: QueryFilter[]): string {
+  return filters
+    .filter((filter): filter is Extract<QueryFilter, { type: "text" }> => filter.type === "text" && !filter.negate)
+    .map(filter => filter.value)
+    .join(" ")
+}
+
+// Fields whose known values are suggested while typing
+export const SUGGESTED_VALUE_FIELDS: QueryTextField[] = ["company", "city", "country", "department", "title", "tag", "group", "event"]
+const MAX_KNOWN_VALUES = 50
+
+// Most common values of each suggested field across the cards
+export function collectKnownValues(cards: BusinessCardData[], groups: CardGroup[] = []): Partial<Record<QueryTextField, string[]>> {
+  const known: Partial<Record<QueryTextField, string[]>> = {
+    tag: collectTags(cards).slice(0, MAX_KNOWN_VALUES),
+    group: groups.map(group => group.name),
+    event: collectEvents(cards).slice(0, MAX_KNOWN_VALUES).map(event => event.name),
+  }
+
+  for (const field of SUGGESTED_VALUE_FIELDS) {
+    if (field === "tag" || field === "group" || field === "event") continue
+    const counts = new Map<string, { value: string; count: number }>()
+    for (const card of cards) {
+      const value = field === "country" ? getCardAddress(card).country : getQueryFieldValue(card, field)
+      if (!value?.trim()) continue
+      const key = normalizeText(value)
+      const entry = counts.get(key) || { value: value.trim(), count: 0 }
+      entry.count++
+      counts.set(key, entry)
+    }
+    known[field] = Array.from(counts.values())
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, MAX_KNOWN_VALUES)
+      .map(entry => entry.value)
+  }
+
+  return known
+}
+
+export interface QuerySuggestion {
+  label: string        // What the list shows
+  replacement: string  // Text that replaces the word being typed
+  description?: string
+}
+
+const FIELD_DESCRIPTIONS: Record<QueryTextField | "is" | "has" | "scanned", string> = {
+  name: "Name contains",
+  company: "Company contains",
+  title: "Job title contains",
+  department: "Department contains",
+  email: "Email contains",
+  phone: "Phone number contains",
+  city: "City contains",
+  country: "Country contains",
+  notes: "Notes contain",
+  website: "Website contains",
+  tag: "Has a tag",
+  group: "In a group",
+  event: "Met at an event",
+  is: "favorite, offline",
+  has: "Card has a field",
+  scanned: "Scan date, e.g. >2026-01-01",
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value
+}
+
+// Replace the filters on a field with one for the value (or just remove them when value is null)
+export function setQueryFilter(input: string, field: QueryTextField, value: string | null): string {
+  const kept = splitQuery(input)
+    .filter(token => {
+      const match = token.raw.match(/^-?([a-zA-Z]+):/)
+      return !match || resolveQueryField(match[1]) !== field
+    })
+    .map(token => token.raw)
+
+  if (value) kept.push(`${field}:${quoteValue(value)}`)
+  return kept.join(" ")
+}
+
+const MAX_SUGGESTIONS = 8
+
+// Suggestions for the word at the end of the input: field names, then known values of the field
+export function getQuerySuggestions(
+  input: string,
+  knownValues: Partial<Record<QueryTextField, string[]>>
+): QuerySuggestion[] {
+  // Nothing to complete after a space
+  if (!input || /\s$/.test(input)) return []
+
+  const tokens = splitQuery(input)
+  const current = tokens[tokens.length - 1]?.raw || ""
+  const match = current.match(/^(-?)([a-zA-Z]*)(:?)(.*)$/)
+  if (!match) return []
+
+  const [, negation, name, colon, partialValue] = match
+
+  // Completing a field name
+  if (!colon) {
+    if (!name) return []
+    const lower = name.toLowerCase()
+    const fields = [...QUERY_TEXT_FIELDS, "is", "has", "scanned"] as const
+    return fields
+      .filter(field => field.startsWith(lower) && field !== lower)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(field => ({
+        label: `${field}:`,
+        replacement: `${negation}${field}:`,
+        description: FIELD_DESCRIPTIONS[field],
+      }))
+  }
+
+  // Completing a value
+  const field = resolveQueryField(name)
+  if (!field) return []
+  const partial = normalizeText(unquote(partialValue))
+
+  let values: string[]
+  switch (field) {
+    case "is":
+      values = [...QUERY_IS_VALUES]
+      break
+    case "has":
+      values = [...QUERY_HAS_VALUES]
+      break
+    case "scanned": {
+      const today = new Date()
+      const pad = (n: number) => String(n).padStart(2, "0")
+      const monthAgo = new Date(today.getFullYear(), today.getMonth() - 1, today.getDate())
+      values = [
+        `>${monthAgo.getFullYear()}-${pad(monthAgo.getMonth() + 1)}-${pad(monthAgo.getDate())}`,
+        `${today.getFullYear()}`,
+        `${today.getFullYear()}-${pad(today.getMonth() + 1)}`,
+      ]
+      break
+    }
+    default:
+      values = knownValues[field] || []
+  }
+
+  return values
+    .filter(value => normalizeText(value).startsWith(partial) && normalizeText(value) !== partial)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(value => ({
+      label: `${name}:${quoteValue(value)}`,
+      replacement: `${negation}${name}:${quoteValue(value)} `,
+    }))
+}
+
+// Replace the word being typed with a suggestion
+export function applyQuerySuggestion(input: string, suggestion: QuerySuggestion): string {
+  const tokens = splitQuery(input)
+  const current = tokens[tokens.length - 1]
+  if (!current) return suggestion.replacement
+  return input.slice(0, current.start) + suggestion.replacement
+}
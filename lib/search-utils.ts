@@ -0,0 +1,245 @@
+// Tokenizing, term matching and highlighting for the full-text card search
+import type { BusinessCardData } from "@/types"
+import { normalizeText, levenshtein } from "@/lib/similarity"
+import { romanizeName } from "@/lib/name-utils"
+import { getCardAddress } from "@/lib/address-utils"
+
+export type SearchField =
+  | "name"
+  | "company"
+  | "tags"
+  | "jobTitle"
+  | "department"
+  | "email"
+  | "phone"
+  | "city"
+  | "social"
+  | "event"
+  | "website"
+  | "address"
+  | "notes"
+
+// How much a match in each field counts towards a card's rank
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  company: 8,
+  tags: 6,
+  jobTitle: 5,
+  department: 5,
+  email: 5,
+  phone: 4,
+  city: 4,
+  social: 4,
+  event: 4,
+  website: 3,
+  address: 2,
+  notes: 2,
+}
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: "Name",
+  company: "Company",
+  tags: "Tags",
+  jobTitle: "Title",
+  department: "Department",
+  email: "Email",
+  phone: "Phone",
+  city: "City",
+  social: "Social",
+  event: "Event",
+  website: "Website",
+  address: "Address",
+  notes: "Notes",
+}
+
+// Punctuation that separates words, including URL and email separators
+const TOKEN_SEPARATORS = /[\s.,;:!?'"`()[\]{}<>/\\|@#&*+=~^%$_\-–—·・、。，]+/
+
+// URL noise that would match nearly every card with a website or profile link
+const IGNORED_TERMS = new Set(["http", "https", "www", "com", "in"])
+
+// Scripts written without spaces; every suffix is indexed so a query can match inside a word
+const CJK_PATTERN = /[가-힯぀-ヿ一-鿿㐀-䶿]/
+
+const MIN_PHONE_SUFFIX = 4
+const PHONE_TEXT_PATTERN = /^[\d\s()+.\-]+$/
+
+// Split text into normalized search tokens ("José García-López" -> ["jose", "garcia", "lopez"])
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(TOKEN_SEPARATORS)
+    .filter(token => token.length > 0)
+}
+
+// Searchable text of each field of a card
+export function getCardSearchFields(card: BusinessCardData): Array<[SearchField, string]> {
+  const fields: Array<[SearchField, string | undefined]> = [
+    ["name", card.name],
+    ["name", card.metadata?.native_name],
+    ["name", card.metadata?.romanized_name],
+    ["company", card.company],
+    ["tags", card.tags?.join(", ")],
+    ["jobTitle", card.jobTitle],
+    ["department", card.metadata?.department],
+    ["email", card.email],
+    ["phone", card.phone],
+    ["phone", card.mobile],
+    ["phone", card.metadata?.fax],
+    ["city", getCardAddress(card).city],
+    ["social", card.linkedin],
+    ["social", card.twitter],
+    ["social", card.metadata?.facebook],
+    ["social", card.metadata?.instagram],
+    ["social", card.metadata?.skype],
+    ["social", card.metadata?.whatsapp],
+    ["event", card.event?.name],
+    ["event", card.event?.location],
+    ["website", card.website],
+    ["address", card.address],
+    ["notes", card.notes],
+  ]
+
+  return fields.filter((field): field is [SearchField, string] => !!field[1]?.trim())
+}
+
+// Index terms of a single field value
+function getFieldTerms(field: SearchField, value: string): string[] {
+  const terms = tokenize(value).filter(term => !IGNORED_TERMS.has(term))
+
+  // Phone numbers match on any run of trailing digits ("4567", "1234567")
+  if (field === "phone") {
+    const digits = value.replace(/\D/g, "")
+    for (let i = 0; i <= digits.length - MIN_PHONE_SUFFIX; i++) {
+      terms.push(digits.slice(i))
+    }
+  }
+
+  for (const term of [...terms]) {
+    if (CJK_PATTERN.test(term)) {
+      for (let i = 1; i < term.length; i++) {
+        terms.push(term.slice(i))
+      }
+    }
+  }
+
+  return terms
+}
+
+// Every term of a card with the weight of the best field it appears in
+export function getCardSearchTerms(card: BusinessCardData): Map<string, number> {
+  const terms = new Map<string, number>()
+
+  const addTerm = (term: string, weight: number) => {
+    if (weight > (terms.get(term) || 0)) {
+      terms.set(term, weight)
+    }
+  }
+
+  for (const [field, value] of getCardSearchFields(card)) {
+    for (const term of getFieldTerms(field, value)) {
+      addTerm(term, SEARCH_FIELD_WEIGHTS[field])
+    }
+  }
+
+  // Romanized Korean and Japanese names, so "kim" finds 김철수
+  if (card.name) {
+    for (const romanized of romanizeName(card.name)) {
+      for (const term of tokenize(romanized)) {
+        addTerm(term, SEARCH_FIELD_WEIGHTS.name * 0.8)
+      }
+    }
+  }
+
+  return terms
+}
+
+// Edits allowed for a typo match, by query token length
+function getMaxEdits(token: string): number {
+  if (token.length >= 8) return 2
+  if (token.length >= 4) return 1
+  return 0
+}
+
+// How well an index term matches a query token (0..1): exact, prefix of the term, or within a typo or two
+export function matchTerm(token: string, term: string): number {
+  if (token === term) return 1
+  if (term.startsWith(token)) return 0.6 + 0.3 * (token.length / term.length)
+
+  const maxEdits = getMaxEdits(token)
+  if (maxEdits === 0 || Math.abs(term.length - token.length) > maxEdits + 3) return 0
+
+  // A typo in a complete word, or in the part of a word typed so far
+  const distance = Math.min(
+    levenshtein(token, term),
+    term.length > token.length ? levenshtein(token, term.slice(0, token.length)) : Infinity
+  )
+  if (distance > maxEdits) return 0
+  return distance === 1 ? 0.5 : 0.35
+}
+
+export interface HighlightRange {
+  start: number
+  end: number
+}
+
+// Ranges of the original text whose words match any of the terms
+export function getHighlightRanges(text: string, terms: string[]): HighlightRange[] {
+  if (!text || terms.length === 0) return []
+
+  const ranges: HighlightRange[] = []
+  const wordPattern = /[^\s.,;:!?'"`()[\]{}<>/\\|@#&*+=~^%$_\-–—·・、。，]+/g
+  let match: RegExpExecArray | null
+
+  while ((match = wordPattern.exec(text)) !== null) {
+    const word = normalizeText(match[0])
+    const start = match.index
+
+    for (const term of terms) {
+      if (word === term || word.startsWith(term)) {
+        ranges.push({ start, end: start + match[0].length })
+        break
+      }
+      // The term is a suffix of a CJK word
+      const index = word.indexOf(term)
+      if (index > 0 && CJK_PATTERN.test(term)) {
+        ranges.push({ start: start + index, end: start + index + term.length })
+        break
+      }
+    }
+  }
+
+  // Digit runs in phone numbers are split by separators; highlight the whole number
+  if (PHONE_TEXT_PATTERN.test(text)) {
+    const digits = text.replace(/\D/g, "")
+    if (terms.some(term => /^\d+$/.test(term) && term.length >= MIN_PHONE_SUFFIX && digits.endsWith(term))) {
+      return [{ start: 0, end: text.length }]
+    }
+  }
+
+  return ranges
+}
+
+// Fields that the card list does not show; a match there is shown as a snippet
+const SNIPPET_FIELDS: SearchField[] = ["department", "city", "social", "event", "website", "address", "notes"]
+const SNIPPET_CONTEXT = 40
+
+export interface SearchSnippet {
+  field: SearchField
+  text: string
+}
+
+// Text around the first match in a field the list does not show, e.g. a note mentioning the query
+export function getSearchSnippet(card: BusinessCardData, terms: string[]): SearchSnippet | null {
+  for (const [field, value] of getCardSearchFields(card)) {
+    if (!SNIPPET_FIELDS.includes(field)) continue
+
+    const ranges = getHighlightRanges(value, terms)
+    if (ranges.length === 0) continue
+
+    const start = Math.max(0, ranges[0].start - SNIPPET_CONTEXT)
+    const end = Math.min(value.length, ranges[0].end + SNIPPET_CONTEXT)
+    const text = `${start > 0 ? "…" : ""}${value.slice(start, end).replace(/\s+/g, " ")}${end < value.length ? "…" : ""}`
+    return { field, text }
+  }
+  return null
+}
@@ -0,0 +1,99 @@
+// String similarity helpers for fuzzy matching of names, companies and search terms
+
+// Lowercase, strip diacritics ("José" -> "jose") and collapse whitespace
+export function normalizeText(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// Edit distance (insertions, deletions, substitutions)
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Jaro-Winkler similarity (0..1), favouring strings that share a prefix
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a.length > 0 ? 1 : 0
+  if (a.length === 0 || b.length === 0) return 0
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatches = new Array<boolean>(a.length).fill(false)
+  const bMatches = new Array<boolean>(b.length).fill(false)
+  let matches = 0
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow)
+    const end = Math.min(i + matchWindow + 1, b.length)
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue
+      aMatches[i] = true
+      bMatches[j] = true
+      matches++
+      break
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue
+    while (!bMatches[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+function permutations(tokens: string[]): string[][] {
+  if (tokens.length <= 1) return [tokens]
+  return tokens.flatMap((token, i) =>
+    permutations([...tokens.slice(0, i), ...tokens.slice(i + 1)]).map(rest => [token, ...rest])
+  )
+}
+
+// Similarity of two multi-word values regardless of word order ("Kim Chulsoo" vs "Chulsoo Kim")
+export function tokenSimilarity(a: string, b: string): number {
+  const tokensA = normalizeText(a).split(/[\s\-_.,]+/).filter(Boolean)
+  const tokensB = normalizeText(b).split(/[\s\-_.,]+/).filter(Boolean)
+  if (tokensA.length === 0 || tokensB.length === 0) return 0
+
+  const sortedA = [...tokensA].sort().join(" ")
+  const sortedB = [...tokensB].sort().join(" ")
+  let best = jaroWinkler(sortedA, sortedB)
+
+  // Hyphens and spaces inside given names vary ("Chul-soo", "Chul Soo", "Chulsoo"), so
+  // also compare the words run together, trying each word order of the shorter value
+  const [fixed, reordered] = tokensA.length >= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA]
+  const joined = fixed.join("")
+  const orders = reordered.length <= 4 ? permutations(reordered) : [reordered]
+  for (const order of orders) {
+    best = Math.max(best, jaroWinkler(joined, order.join("")))
+  }
+
+  return best
+}
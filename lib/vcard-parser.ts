@@ -0,0 +1,476 @@
+// vCard 2.1, 3.0 and 4.0 parsing for importing contacts from .vcf files, and merging edits into synced vCards
+import type { BusinessCardData, PostalAddress } from "@/types"
+import { compactAddress, formatAddress, isEmptyAddress } from "@/lib/address-utils"
+import { detectNameScript, formatPersonName, inferNameLocale } from "@/lib/name-utils"
+
+// A property line: TEL;TYPE=WORK,VOICE:+1 555 0100
+interface VCardProperty {
+  name: string                        // Upper case, without the group prefix ("item1.")
+  params: Record<string, string[]>    // Upper-case parameter names; TYPE values in lower case
+  value: string                       // Transfer encoding removed, text escapes still in place
+}
+
+// A value of a property that may appear several times (TEL, EMAIL, ADR, URL)
+interface TypedValue<T> {
+  value: T
+  types: string[]
+  pref: boolean
+}
+
+export interface VCardContact {
+  card: BusinessCardData
+  photo?: string   // Embedded PHOTO as a data URL, still at full size
+}
+
+// vCard 2.1 allows bare parameters: TEL;WORK;VOICE;ENCODING=... or PHOTO;BASE64;JPEG
+const BARE_ENCODINGS = ["QUOTED-PRINTABLE", "BASE64", "B", "8BIT", "7BIT"]
+const PHOTO_TYPES: Record<string, string> = { jpeg: "image/jpeg", jpg: "image/jpeg", png: "image/png", gif: "image/gif", webp: "image/webp" }
+
+function isQuotedPrintableStart(line: string): boolean {
+  const colon = line.indexOf(":")
+  return colon > 0 && /QUOTED-PRINTABLE/i.test(line.slice(0, colon))
+}
+
+// Join folded lines: a line starting with a space or tab continues the previous one, and a
+// quoted-printable value ending with "=" (soft line break, vCard 2.1) continues on the next line
+function unfoldLines(text: string): string[] {
+  const lines: string[] = []
+  let inQuotedPrintable = false
+
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const last = lines.length - 1
+    if (inQuotedPrintable && last >= 0) {
+      lines[last] = lines[last].slice(0, -1) + line
+    } else if (/^[ \t]/.test(line) && last >= 0) {
+      lines[last] += line.slice(1)
+    } else {
+      lines.push(line)
+    }
+    inQuotedPrintable = lines.length > 0 && isQuotedPrintableStart(lines[lines.length - 1]) && lines[lines.length - 1].endsWith("=")
+  }
+  return lines
+}
+
+// Split on a separator that is not inside double quotes
+function splitUnquoted(text: string, separator: string): string[] {
+  const parts: string[] = []
+  let current = ""
+  let inQuotes = false
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes
+    if (char === separator && !inQuotes) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts
+}
+
+function decodeQuotedPrintable(value: string, charset = "utf-8"): string {
+  const bytes: number[] = []
+  const encoder = new TextEncoder()
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.slice(i + 1, i + 3)
+    if (value[i] === "=" && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      i += 2
+    } else {
+      bytes.push(...Array.from(encoder.encode(value[i])))
+    }
+  }
+
+  try {
+    return new TextDecoder(charset).decode(new Uint8Array(bytes))
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(new Uint8Array(bytes))
+  }
+}
+
+function parseProperty(line: string): VCardProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let colon = -1
+  let inQuotes = false
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon <= 0) return null
+
+  const [nameWithGroup, ...paramParts] = splitUnquoted(line.slice(0, colon), ";")
+  const params: Record<string, string[]> = {}
+  for (const part of paramParts) {
+    const separator = part.indexOf("=")
+    const bare = part.trim().toUpperCase()
+    const key = separator >= 0
+      ? part.slice(0, separator).trim().toUpperCase()
+      : BARE_ENCODINGS.includes(bare) ? "ENCODING" : "TYPE"
+    const values = (separator >= 0 ? part.slice(separator + 1) : part)
+      .replace(/"/g, "")
+      .split(",")
+      .map(value => value.trim())
+      .filter(Boolean)
+    params[key] = [...(params[key] || []), ...(key === "TYPE" ? values.map(value => value.toLowerCase()) : values)]
+  }
+
+  let value = line.slice(colon + 1)
+  if (params.ENCODING?.[0]?.toUpperCase() === "QUOTED-PRINTABLE") {
+    value = decodeQuotedPrintable(value, params.CHARSET?.[0])
+  }
+
+  return {
+    name: nameWithGroup.slice(nameWithGroup.lastIndexOf(".") + 1).trim().toUpperCase(),
+    params,
+    value,
+  }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char))
+}
+
+// Components of a structured value (N, ADR, ORG), separated by unescaped semicolons
+function splitComponents(value: string): string[] {
+  const components: string[] = []
+  let current = ""
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\" && i + 1 < value.length) {
+      current += value[i] + value[i + 1]
+      i++
+    } else if (value[i] === ";") {
+      components.push(current)
+      current = ""
+    } else {
+      current += value[i]
+    }
+  }
+  components.push(current)
+  return components.map(component => unescapeText(component).trim())
+}
+
+function isPreferred(property: VCardProperty): boolean {
+  return property.params.TYPE?.includes("pref") || property.params.PREF !== undefined
+}
+
+// Preferred values first, then in file order
+function byPreference<T>(values: TypedValue<T>[]): TypedValue<T>[] {
+  return [...values].sort((a, b) => Number(b.pref) - Number(a.pref))
+}
+
+// TEL values are "tel:" URIs in vCard 4.0
+function cleanPhone(value: string): string {
+  return unescapeText(value).replace(/^tel:/i, "").trim()
+}
+
+// Base64 PHOTO (2.1/3.0 ENCODING=BASE64 or b, 4.0 data: URI) as a data URL; remote photos are skipped
+function getPhotoDataUrl(property: VCardProperty): string | undefined {
+  const value = property.value.replace(/\s/g, "")
+  if (/^data:image\//i.test(value)) return value
+
+  const encoding = property.params.ENCODING?.[0]?.toUpperCase()
+  if (encoding !== "BASE64" && encoding !== "B") return undefined
+
+  const type = (property.params.TYPE || []).map(type => PHOTO_TYPES[type.replace(/^image\//, "")]).find(Boolean)
+  return `data:${type || "image/jpeg"};base64,${value}`
+}
+
+function toPostalAddress(value: string): PostalAddress {
+  // ADR: Post office box;Extended address;Street;City;State;Postal code;Country
+  const [poBox, extended, street, city, state, postalCode, country] = splitComponents(value)
+  return compactAddress({
+    street: [street, poBox && `PO Box ${poBox}`].filter(Boolean).join(", "),
+    extended,
+    city,
+    state,
+    postalCode,
+    country,
+  })
+}
+
+// Which card field a URL belongs to, by TYPE (our export, Apple's X-SOCIALPROFILE) or by host
+function getUrlField(url: string, types: string[]): "linkedin" | "twitter" | "facebook" | "instagram" | "website" {
+  const target = `${types.join(" ")} ${url}`.toLowerCase()
+  if (/linkedin/.test(target)) return "linkedin"
+  if (/twitter|\bx\.com\b/.test(target)) return "twitter"
+  if (/facebook/.test(target)) return "facebook"
+  if (/instagram/.test(target)) return "instagram"
+  return "website"
+}
+
+// Turn the properties of one vCard into a card
+function toContact(properties: VCardProperty[]): VCardContact | null {
+  const card: BusinessCardData = {}
+  const metadata: NonNullable<BusinessCardData["metadata"]> = {}
+  const phones: TypedValue<string>[] = []
+  const emails: TypedValue<string>[] = []
+  const addresses: TypedValue<PostalAddress>[] = []
+  const labels: TypedValue<string>[] = []
+  const urls: TypedValue<string>[] = []
+  const notes: string[] = []
+  let nickname: string | undefined
+  let photo: string | undefined
+
+  for (const property of properties) {
+    const types = property.params.TYPE || []
+    const pref = isPreferred(property)
+
+    switch (property.name) {
+      case "FN":
+        card.name = unescapeText(property.value).trim() || card.name
+        break
+      case "N": {
+        const [familyName, givenName] = splitComponents(property.value)
+        if (familyName) metadata.last_name = familyName
+        if (givenName) metadata.first_name = givenName
+        break
+      }
+      case "X-PHONETIC-LAST-NAME":
+        metadata.phonetic_last_name = unescapeText(property.value).trim()
+        break
+      case "X-PHONETIC-FIRST-NAME":
+        metadata.phonetic_first_name = unescapeText(property.value).trim()
+        break
+      case "NICKNAME":
+        nickname = unescapeText(property.value).split(",")[0].trim()
+        break
+      case "ORG": {
+        const [company, department] = splitComponents(property.value)
+        if (company) card.company = company
+        if (department) metadata.department = department
+        break
+      }
+      case "TITLE":
+        card.jobTitle = unescapeText(property.value).trim()
+        break
+      case "ROLE":
+        card.jobTitle = card.jobTitle || unescapeText(property.value).trim()
+        break
+      case "TEL":
+        if (cleanPhone(property.value)) phones.push({ value: cleanPhone(property.value), types, pref })
+        break
+      case "EMAIL": {
+        const email = unescapeText(property.value).replace(/^mailto:/i, "").trim()
+        if (email) emails.push({ value: email, types, pref })
+        break
+      }
+      case "ADR": {
+        const address = toPostalAddress(property.value)
+        // vCard 4.0 puts the printed form in a LABEL parameter
+        if (property.params.LABEL) labels.push({ value: unescapeText(property.params.LABEL.join(", ")), types, pref })
+        if (!isEmptyAddress(address)) addresses.push({ value: address, types, pref })
+        break
+      }
+      case "LABEL":
+        labels.push({ value: unescapeText(property.value).replace(/\s*\n\s*/g, ", ").trim(), types, pref })
+        break
+      case "URL":
+      case "X-SOCIALPROFILE": {
+        const url = unescapeText(property.value).trim()
+        if (url) urls.push({ value: url, types, pref })
+        break
+      }
+      case "IMPP":
+      case "X-SKYPE":
+      case "X-SKYPE-USERNAME": {
+        const value = unescapeText(property.value).trim()
+        if (property.name !== "IMPP") metadata.skype = value
+        else if (/^skype:/i.test(value)) metadata.skype = value.replace(/^skype:/i, "").split("?")[0]
+        break
+      }
+      case "NOTE":
+        if (property.value.trim()) notes.push(unescapeText(property.value).replace(/\r\n?/g, "\n").trim())
+        break
+      case "PHOTO":
+        photo = photo || getPhotoDataUrl(property)
+        break
+    }
+  }
+
+  // Names: FN is required from 3.0 on, but 2.1 files often carry N only
+  if (!card.name) {
+    const locale = inferNameLocale(`${metadata.last_name || ""}${metadata.first_name || ""}`)
+    card.name = formatPersonName(metadata.last_name, metadata.first_name, locale) || undefined
+  }
+  if (card.name && detectNameScript(card.name) !== "latin") {
+    metadata.native_name = card.name
+    metadata.name_locale = inferNameLocale(card.name)
+    // Our own export writes the romanized name as NICKNAME
+    if (nickname && detectNameScript(nickname) === "latin") metadata.romanized_name = nickname
+  }
+
+  // Phones: mobiles and faxes by type, the first other number is the main phone
+  const otherPhones: string[] = []
+  for (const phone of byPreference(phones)) {
+    if (phone.types.includes("fax")) {
+      if (!metadata.fax) metadata.fax = phone.value
+      else otherPhones.push(phone.value)
+    } else if (phone.types.includes("cell") || phone.types.includes("mobile") || phone.types.includes("iphone")) {
+      if (!card.mobile) card.mobile = phone.value
+      else otherPhones.push(phone.value)
+    } else if (!card.phone) {
+      card.phone = phone.value
+    } else {
+      otherPhones.push(phone.value)
+    }
+  }
+
+  const [email, ...otherEmails] = byPreference(emails).map(entry => entry.value)
+  if (email) card.email = email
+
+  // The work address is the card's address; a label of the same type is its printed form
+  const sortedAddresses = byPreference(addresses).sort((a, b) => Number(b.types.includes("work")) - Number(a.types.includes("work")))
+  const [address, ...otherAddresses] = sortedAddresses
+  if (address) {
+    card.addressDetails = address.value
+    const label = labels.find(entry => entry.types.join() === address.types.join()) || (labels.length === 1 ? labels[0] : undefined)
+    card.address = label?.value || formatAddress(address.value)
+  } else if (labels.length > 0) {
+    card.address = byPreference(labels)[0].value
+  }
+
+  const otherUrls: string[] = []
+  for (const url of byPreference(urls)) {
+    const field = getUrlField(url.value, url.types)
+    if (field === "linkedin" || field === "twitter" || field === "website") {
+      if (!card[field]) card[field] = url.value
+      else otherUrls.push(url.value)
+    } else if (!metadata[field]) {
+      metadata[field] = url.value
+    }
+  }
+
+  if (notes.length > 0) card.notes = notes.join("\n\n")
+
+  // Values beyond what a card holds are kept as text rather than dropped
+  const additional = [
+    otherPhones.length > 0 && `Other phones: ${otherPhones.join(", ")}`,
+    otherEmails.length > 0 && `Other emails: ${otherEmails.join(", ")}`,
+    ...otherAddresses.map(entry => `Other address: ${formatAddress(entry.value)}`),
+    otherUrls.length > 0 && `Other links: ${otherUrls.join(", ")}`,
+  ].filter(Boolean)
+  if (additional.length > 0) metadata.additional_info = additional.join("\n")
+
+  if (Object.keys(metadata).length > 0) card.metadata = metadata
+
+  // A vCard without anything a card can show is skipped
+  if (!card.name && !card.company && !card.email && !card.phone && !card.mobile) return null
+
+  return { card, photo }
+}
+
+export function isVCardFile(file: File): boolean {
+  return /\.(vcf|vcard)$/i.test(file.name) || /^text\/(x-)?vcard$/i.test(file.type)
+}
+
+// All contacts in a .vcf file. Nested vCards (2.1 AGENT) and malformed lines are ignored.
+export function parseVCards(text: string): VCardContact[] {
+  const contacts: VCardContact[] = []
+  let properties: VCardProperty[] | null = null
+  let depth = 0
+
+  for (const line of unfoldLines(text)) {
+    if (!line.trim()) continue
+    const property = parseProperty(line)
+    if (!property) continue
+
+    if (property.name === "BEGIN" && property.value.trim().toUpperCase() === "VCARD") {
+      depth++
+      if (depth === 1) properties = []
+    } else if (property.name === "END" && property.value.trim().toUpperCase() === "VCARD") {
+      depth = Math.max(0, depth - 1)
+      if (depth === 0 && properties) {
+        const contact = toContact(properties)
+        if (contact) contacts.push(contact)
+        properties = null
+      }
+    } else if (depth === 1 && properties) {
+      properties.push(property)
+    }
+  }
+
+  return contacts
+}
+
+// Written from the card on every push: the address book's values are replaced
+const CARD_PROPERTIES = ["VERSION", "N", "FN", "ORG", "TITLE", "NICKNAME", "X-PHONETIC-FIRST-NAME", "X-PHONETIC-LAST-NAME", "SORT-STRING", "REV", "PRODID"]
+// May hold several values, of which the card shows some
+const MULTI_VALUE_PROPERTIES = ["TEL", "EMAIL", "URL", "X-SOCIALPROFILE"]
+
+// Phone numbers, emails and URLs compared without formatting ("tel:+1 415-555-0100" == "+14155550100")
+function comparableValue(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\\/g, "")
+    .replace(/^(tel|mailto):/, "")
+    .replace(/^https?:\/\/(www\.)?/, "")
+    .replace(/[\s\-().+/]/g, "")
+}
+
+// A card's vCard (local) merged into the address book's copy of the contact (remote), so that
+// what the card does not hold (photo, birthday, other phones...) survives a push. Names,
+// company and title come from the card; of the phones, emails and links only the values the
+// card shows replace the remote ones, and its address replaces the work (or untyped) one.
+export function mergeVCard(local: string, remote: string | null, uid: string): string {
+  const localLines = unfoldLines(local).filter(line => line.trim() && !/^(BEGIN|END):/i.test(line))
+  const keptLines: string[] = []
+
+  if (remote) {
+    const shown = parseVCards(remote)[0]?.card || {}
+    const localCard = parseVCards(local)[0]?.card || {}
+    const replacedValues = new Set(
+      [shown, localCard]
+        .flatMap(card => [card.phone, card.mobile, card.email, card.website, card.linkedin, card.twitter])
+        .filter((value): value is string => !!value)
+        .map(comparableValue)
+    )
+    const hasAddress = !!(shown.address || localCard.address)
+
+    // Labels (item1.X-ABLABEL) go with the property of their group
+    const skippedGroups = new Set<string>()
+    const candidates: Array<{ line: string; group?: string }> = []
+    let depth = 0
+
+    for (const line of unfoldLines(remote)) {
+      const property = line.trim() ? parseProperty(line) : null
+      if (!property) continue
+      const isVCardBoundary = property.value.trim().toUpperCase() === "VCARD"
+      if (property.name === "BEGIN" && isVCardBoundary) {
+        depth++
+        continue
+      }
+      if (property.name === "END" && isVCardBoundary) {
+        if (--depth === 0) break
+        continue
+      }
+      if (depth !== 1) continue
+
+      const group = line.match(/^([^.;:]+)\./)?.[1]
+      const types = property.params.TYPE || []
+      const skip = CARD_PROPERTIES.includes(property.name) ||
+        (MULTI_VALUE_PROPERTIES.includes(property.name) && replacedValues.has(comparableValue(property.value))) ||
+        ((property.name === "ADR" || property.name === "LABEL") && hasAddress && (types.length === 0 || types.includes("work")))
+
+      if (skip) {
+        if (group) skippedGroups.add(group)
+      } else {
+        candidates.push({ line, group })
+      }
+    }
+    keptLines.push(...candidates.filter(({ group }) => !group || !skippedGroups.has(group)).map(({ line }) => line))
+  }
+
+  const hasUid = [...localLines, ...keptLines].some(line => /^UID[;:]/i.test(line))
+  return [
+    "BEGIN:VCARD",
+    ...localLines,
+    ...keptLines,
+    ...(hasUid ? [] : [`UID:${uid}`]),
+    "END:VCARD",
+  ].join("\r\n") + "\r\n"
+}
@@ -48,6 +48,21 @@ export default withPWA({
         },
       },
     },
+    {
+      // Map tiles, so places seen once stay visible offline
+      urlPattern: /^https:\/\/tile\.openstreetmap\.org\/.*/i,
+      handler: 'CacheFirst',
+      options: {
+        cacheName: 'map-tiles',
+        expiration: {
+          maxEntries: 500,
+          maxAgeSeconds: 60 * 60 * 24 * 30, // 30 days
+        },
+        cacheableResponse: {
+          statuses: [0, 200],
+        },
+      },
+    },
     {
       urlPattern: /\.(?:js|css|woff2?|png|jpg|jpeg|gif|svg|ico)$/i,
       handler: 'StaleWhileRevalidate',
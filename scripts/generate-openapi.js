@@ -0,0 +1,142 @@
+const fs = require('fs')
+const path = require('path')
+const ts = require('typescript')
+
+// Generates the JSON Schemas of the REST API's OpenAPI document (lib/openapi.ts) from the
+// interfaces in types/index.ts, so the document follows the BusinessCardData shape.
+// Usage: npm run openapi   (run it again after changing a type the API returns)
+// The trailing comment of a field becomes its description.
+
+const typesFile = path.join(__dirname, '..', 'types', 'index.ts')
+const outputFile = path.join(__dirname, '..', 'lib', 'openapi-schemas.json')
+
+// Types the API returns; the types they use are added as they are found
+const ROOT_TYPES = ['BusinessCardData']
+
+const text = fs.readFileSync(typesFile, 'utf8')
+const source = ts.createSourceFile(typesFile, text, ts.ScriptTarget.Latest, true)
+
+const declarations = new Map()
+source.statements.forEach(statement => {
+  if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+    declarations.set(statement.name.text, statement)
+  }
+})
+
+const schemas = {}
+const pending = [...ROOT_TYPES]
+
+function commentText(ranges) {
+  return (ranges || [])
+    .filter(range => range.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+    .map(range => text.slice(range.pos + 2, range.end).trim())
+    .join(' ')
+}
+
+// "// Where the card was collected" above a declaration
+function leadingComment(node) {
+  return commentText(ts.getLeadingCommentRanges(text, node.pos))
+}
+
+// "name?: string  // Display name" after a field
+function trailingComment(node) {
+  return commentText(ts.getTrailingCommentRanges(text, node.end))
+}
+
+function reference(name) {
+  if (!declarations.has(name)) {
+    throw new Error(`Unknown type ${name} in ${typesFile}`)
+  }
+  if (!schemas[name] && !pending.includes(name)) pending.push(name)
+  return { $ref: `#/components/schemas/${name}` }
+}
+
+function withNull(schema) {
+  if (schema.type && !schema.enum) return { ...schema, type: [schema.type, 'null'] }
+  return { anyOf: [schema, { type: 'null' }] }
+}
+
+function toSchema(node) {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { type: 'string' }
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: 'number' }
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: 'boolean' }
+  }
+
+  if (ts.isParenthesizedTypeNode(node)) return toSchema(node.type)
+  if (ts.isArrayTypeNode(node)) return { type: 'array', items: toSchema(node.elementType) }
+  if (ts.isTypeLiteralNode(node)) return objectSchema(node.members)
+  if (ts.isLiteralTypeNode(node) && ts.isStringLiteral(node.literal)) {
+    return { type: 'string', enum: [node.literal.text] }
+  }
+
+  if (ts.isUnionTypeNode(node)) {
+    const types = node.types.filter(type => !(ts.isLiteralTypeNode(type) && type.literal.kind === ts.SyntaxKind.NullKeyword))
+    const nullable = types.length < node.types.length
+
+    let schema
+    if (types.every(type => ts.isLiteralTypeNode(type) && ts.isStringLiteral(type.literal))) {
+      schema = { type: 'string', enum: types.map(type => type.literal.text) }
+    } else if (types.length === 1) {
+      schema = toSchema(types[0])
+    } else {
+      schema = { anyOf: types.map(toSchema) }
+    }
+    return nullable ? withNull(schema) : schema
+  }
+
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText(source)
+    const args = node.typeArguments || []
+    if (name === 'Array') return { type: 'array', items: toSchema(args[0]) }
+    if (name === 'Record') return { type: 'object', additionalProperties: toSchema(args[1]) }
+    return reference(name)
+  }
+
+  throw new Error(`Unsupported type ${node.getText(source)} in ${typesFile}`)
+}
+
+function objectSchema(members) {
+  const properties = {}
+  const required = []
+  members.forEach(member => {
+    if (!ts.isPropertySignature(member) || !member.type) return
+    const name = member.name.getText(source)
+    const schema = toSchema(member.type)
+    const description = trailingComment(member)
+    properties[name] = description ? { ...schema, description } : schema
+    if (!member.questionToken) required.push(name)
+  })
+  return required.length > 0
+    ? { type: 'object', properties, required }
+    : { type: 'object', properties }
+}
+
+// Inherited fields are copied in, which reads better in API docs than allOf
+function interfaceMembers(declaration) {
+  const inherited = (declaration.heritageClauses || [])
+    .flatMap(clause => clause.types)
+    .flatMap(type => interfaceMembers(declarations.get(type.expression.getText(source))))
+  return [...inherited, ...declaration.members]
+}
+
+while (pending.length > 0) {
+  const name = pending.shift()
+  const declaration = declarations.get(name)
+  const schema = ts.isInterfaceDeclaration(declaration)
+    ? objectSchema(interfaceMembers(declaration))
+    : toSchema(declaration.type)
+  const description = leadingComment(declaration)
+  schemas[name] = description ? { description, ...schema } : schema
+}
+
+const sorted = Object.fromEntries(Object.keys(schemas).sort().map(name => [name, schemas[name]]))
+fs.writeFileSync(outputFile, JSON.stringify({
+  $comment: 'Generated from types/index.ts by scripts/generate-openapi.js (npm run openapi). Do not edit.',
+  schemas: sorted,
+}, null, 2) + '\n')
+
+console.log(`Wrote ${Object.keys(sorted).length} schemas to ${path.relative(process.cwd(), outputFile)}`)
@@ -0,0 +1,243 @@
+const http = require('http')
+
+// Local stand-in CardDAV server with one address book, for trying the address book sync.
+// Usage: node scripts/local-carddav-server.js [port]
+// Then connect to http://localhost:4020 as demo / demo from the Address Book screen.
+// Contacts are kept in memory; change them with curl to see incremental syncs, e.g.
+//   curl -u demo:demo -X PUT -H 'Content-Type: text/vcard' --data-binary @contact.vcf \
+//     http://localhost:4020/dav/addressbooks/demo/contacts/new.vcf
+//   curl -u demo:demo -X DELETE http://localhost:4020/dav/addressbooks/demo/contacts/sam-lee.vcf
+
+const port = Number(process.argv[2] || process.env.PORT || 4020)
+const username = process.env.CARDDAV_USER || 'demo'
+const password = process.env.CARDDAV_PASSWORD || 'demo'
+
+const PRINCIPAL = `/dav/principals/${username}/`
+const HOME = `/dav/addressbooks/${username}/`
+const BOOK = `${HOME}contacts/`
+const SYNC_TOKEN_PREFIX = `http://localhost:${port}/sync/`
+
+// Jane Doe matches the card returned by the local OCR stand-in, so she is linked rather than imported
+const sampleContacts = {
+  'jane-doe.vcf': [
+    'BEGIN:VCARD', 'VERSION:3.0', 'UID:jane-doe', 'FN:Jane Doe', 'N:Doe;Jane;;;',
+    'ORG:Example Corp', 'TITLE:Head of Partnerships', 'EMAIL;TYPE=WORK:jane.doe@example.com',
+    'TEL;TYPE=CELL:+1 415-555-0199', 'END:VCARD',
+  ],
+  'sam-lee.vcf': [
+    'BEGIN:VCARD', 'VERSION:3.0', 'UID:sam-lee', 'FN:Sam Lee', 'N:Lee;Sam;;;',
+    'ORG:Northwind Traders;Sales', 'TITLE:Account Executive', 'EMAIL;TYPE=WORK:sam.lee@northwind.example',
+    'TEL;TYPE=WORK:+1 206-555-0142', 'ADR;TYPE=WORK:;;500 Pine St;Seattle;WA;98101;USA', 'END:VCARD',
+  ],
+  'kim-minji.vcf': [
+    'BEGIN:VCARD', 'VERSION:3.0', 'UID:kim-minji', 'FN:김민지', 'N:김;민지;;;', 'NICKNAME:Minji Kim',
+    'ORG:Hanbit Labs', 'TITLE:CTO', 'EMAIL:minji@hanbit.example', 'TEL;TYPE=WORK:+82 2-555-0100',
+    'URL:https://hanbit.example', 'END:VCARD',
+  ],
+}
+
+// Every change bumps the revision; a sync token is the revision it was issued at.
+// Deleted contacts are kept as tombstones so that syncs report them.
+let revision = 0
+const contacts = new Map()
+for (const [name, lines] of Object.entries(sampleContacts)) {
+  revision++
+  contacts.set(BOOK + name, { vcard: lines.join('\r\n') + '\r\n', revision, deleted: false })
+}
+
+const etagOf = contact => `"${contact.revision}"`
+
+function escapeXml(text) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function multistatus(responses, extra = '') {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav">
+${responses.join('\n')}${extra}
+</d:multistatus>`
+}
+
+function propResponse(href, props) {
+  return `  <d:response>
+    <d:href>${escapeXml(href)}</d:href>
+    <d:propstat>
+      <d:prop>${props}</d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`
+}
+
+function statusResponse(href, status) {
+  return `  <d:response>
+    <d:href>${escapeXml(href)}</d:href>
+    <d:status>HTTP/1.1 ${status}</d:status>
+  </d:response>`
+}
+
+const principalProps = `<d:current-user-principal><d:href>${PRINCIPAL}</d:href></d:current-user-principal>`
+
+function bookProps() {
+  return `<d:resourcetype><d:collection/><card:addressbook/></d:resourcetype>
+        <d:displayname>Contacts</d:displayname>
+        <d:sync-token>${SYNC_TOKEN_PREFIX}${revision}</d:sync-token>
+        <d:supported-report-set>
+          <d:supported-report><d:report><d:sync-collection/></d:report></d:supported-report>
+          <d:supported-report><d:report><card:addressbook-multiget/></d:report></d:supported-report>
+        </d:supported-report-set>`
+}
+
+function liveContacts() {
+  return Array.from(contacts.entries()).filter(([, contact]) => !contact.deleted)
+}
+
+function handlePropfind(path, depth) {
+  if (path === '/' || path === '/dav/') {
+    return multistatus([propResponse(path, principalProps + '<d:resourcetype><d:collection/></d:resourcetype>')])
+  }
+  if (path === PRINCIPAL) {
+    return multistatus([propResponse(path, `${principalProps}
+        <card:addressbook-home-set><d:href>${HOME}</d:href></card:addressbook-home-set>
+        <d:resourcetype><d:principal/></d:resourcetype>`)])
+  }
+  if (path === HOME) {
+    const responses = [propResponse(HOME, principalProps + '<d:resourcetype><d:collection/></d:resourcetype>')]
+    if (depth === '1') responses.push(propResponse(BOOK, bookProps()))
+    return multistatus(responses)
+  }
+  if (path === BOOK) {
+    const responses = [propResponse(BOOK, principalProps + bookProps())]
+    if (depth === '1') {
+      for (const [href, contact] of liveContacts()) {
+        responses.push(propResponse(href, `<d:getetag>${etagOf(contact)}</d:getetag>`))
+      }
+    }
+    return multistatus(responses)
+  }
+  return null
+}
+
+// sync-collection (RFC 6578) and addressbook-multiget (RFC 6352) reports on the address book
+function handleReport(body, res) {
+  if (body.includes('sync-collection')) {
+    const token = (body.match(/<[^>]*sync-token>([^<]*)</) || [])[1] || ''
+    const since = token ? Number(token.slice(SYNC_TOKEN_PREFIX.length)) : 0
+    if (token && (!token.startsWith(SYNC_TOKEN_PREFIX) || !(since <= revision))) {
+      res.writeHead(403, { 'Content-Type': 'application/xml; charset=utf-8' })
+      res.end('<?xml version="1.0" encoding="utf-8"?>\n<d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>')
+      return
+    }
+
+    const responses = Array.from(contacts.entries())
+      .filter(([, contact]) => contact.revision > since && !(contact.deleted && !token))
+      .map(([href, contact]) => contact.deleted
+        ? statusResponse(href, '404 Not Found')
+        : propResponse(href, `<d:getetag>${etagOf(contact)}</d:getetag>`))
+    res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' })
+    res.end(multistatus(responses, `\n  <d:sync-token>${SYNC_TOKEN_PREFIX}${revision}</d:sync-token>`))
+    return
+  }
+
+  if (body.includes('addressbook-multiget')) {
+    const hrefs = Array.from(body.matchAll(/<[^>]*href>([^<]*)</g)).map(match => decodeURIComponent(match[1]))
+    const responses = hrefs.map(href => {
+      const contact = contacts.get(href)
+      return contact && !contact.deleted
+        ? propResponse(href, `<d:getetag>${etagOf(contact)}</d:getetag><card:address-data>${escapeXml(contact.vcard)}</card:address-data>`)
+        : statusResponse(href, '404 Not Found')
+    })
+    res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' })
+    res.end(multistatus(responses))
+    return
+  }
+
+  res.writeHead(501)
+  res.end()
+}
+
+// Conditional writes: If-Match must name the current ETag, If-None-Match: * requires a new resource
+function preconditionFails(req, contact) {
+  const ifMatch = req.headers['if-match']
+  const ifNoneMatch = req.headers['if-none-match']
+  if (ifMatch && (!contact || contact.deleted || ifMatch !== etagOf(contact))) return true
+  return ifNoneMatch === '*' && contact && !contact.deleted
+}
+
+const server = http.createServer((req, res) => {
+  const chunks = []
+  req.on('data', chunk => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    const path = decodeURIComponent(new URL(req.url, `http://localhost:${port}`).pathname)
+    console.log(`${req.method} ${path}`)
+
+    if (path === '/.well-known/carddav') {
+      res.writeHead(301, { Location: '/dav/' })
+      res.end()
+      return
+    }
+
+    const expected = 'Basic ' + Buffer.from(`${username}:${password}`).toString('base64')
+    if (req.headers.authorization !== expected) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="CardDAV stand-in"' })
+      res.end()
+      return
+    }
+
+    const contact = contacts.get(path)
+
+    switch (req.method) {
+      case 'OPTIONS':
+        res.writeHead(200, { DAV: '1, 3, addressbook', Allow: 'OPTIONS, GET, PUT, DELETE, PROPFIND, REPORT' })
+        res.end()
+        return
+      case 'PROPFIND': {
+        const xml = handlePropfind(path, req.headers.depth || '0')
+        res.writeHead(xml ? 207 : 404, xml ? { 'Content-Type': 'application/xml; charset=utf-8' } : {})
+        res.end(xml || undefined)
+        return
+      }
+      case 'REPORT':
+        if (path !== BOOK) break
+        handleReport(body, res)
+        return
+      case 'GET':
+        if (!contact || contact.deleted) break
+        res.writeHead(200, { 'Content-Type': 'text/vcard; charset=utf-8', ETag: etagOf(contact) })
+        res.end(contact.vcard)
+        return
+      case 'PUT': {
+        if (!path.startsWith(BOOK) || path === BOOK) break
+        if (preconditionFails(req, contact)) {
+          res.writeHead(412)
+          res.end()
+          return
+        }
+        const isNew = !contact || contact.deleted
+        const saved = { vcard: body, revision: ++revision, deleted: false }
+        contacts.set(path, saved)
+        res.writeHead(isNew ? 201 : 204, { ETag: etagOf(saved) })
+        res.end()
+        return
+      }
+      case 'DELETE':
+        if (!contact || contact.deleted) break
+        if (preconditionFails(req, contact)) {
+          res.writeHead(412)
+          res.end()
+          return
+        }
+        contacts.set(path, { vcard: '', revision: ++revision, deleted: true })
+        res.writeHead(204)
+        res.end()
+        return
+    }
+
+    res.writeHead(404)
+    res.end()
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Local CardDAV stand-in listening on http://localhost:${port} (user ${username}, password ${password})`)
+})
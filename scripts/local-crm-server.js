@@ -0,0 +1,135 @@
+const http = require('http')
+
+// Local mock CRM for trying "Send to CRM" with the REST and webhook connectors.
+// Usage: node scripts/local-crm-server.js [port]
+// Then open CRM from the card list and use, with the API key demo-key:
+//   REST API: http://localhost:4030/api/leads (or /api/contacts)
+//   Webhook:  http://localhost:4030/webhook
+// Records are kept in memory; list them with curl http://localhost:4030/api/leads
+// Simulate an outage (503 on every send, to see cards queued and retried) with
+//   curl -X POST http://localhost:4030/_outage     (again to end it)
+
+const port = Number(process.argv[2] || process.env.PORT || 4030)
+const apiKey = process.env.CRM_API_KEY || 'demo-key'
+
+// Fields a record cannot be created without, by collection (like Salesforce leads)
+const REQUIRED_FIELDS = {
+  leads: [['LastName', 'lastname'], ['Company', 'company']],
+  contacts: [['email', 'Email', 'lastname', 'LastName']],
+}
+
+const collections = new Map()   // name -> Map(id -> record)
+const webhookIds = new Map()    // sourceId -> id, so repeated webhook sends update one record
+let nextId = 1
+let outage = false
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+function getCollection(name) {
+  if (!collections.has(name)) collections.set(name, new Map())
+  return collections.get(name)
+}
+
+// A group of alternatives is satisfied when any of its fields has a value
+function missingFields(collection, fields) {
+  return (REQUIRED_FIELDS[collection] || [])
+    .filter(names => !names.some(name => typeof fields[name] === 'string' && fields[name].trim()))
+    .map(names => names[0])
+}
+
+function handleRest(req, res, collection, id, body) {
+  const records = getCollection(collection)
+
+  if (req.method === 'GET' && !id) {
+    send(res, 200, { records: Array.from(records.values()) })
+    return
+  }
+  if (req.method === 'POST' && !id) {
+    const missing = missingFields(collection, body)
+    if (missing.length > 0) {
+      send(res, 400, { message: `Required fields are missing: ${missing.join(', ')}` })
+      return
+    }
+    const record = { ...body, id: String(nextId++), createdAt: new Date().toISOString() }
+    records.set(record.id, record)
+    console.log(`Created ${collection}/${record.id}:`, body)
+    send(res, 201, { id: record.id, success: true })
+    return
+  }
+  if (req.method === 'PATCH' && id) {
+    const record = records.get(id)
+    if (!record) {
+      send(res, 404, { message: `No record ${id}` })
+      return
+    }
+    Object.assign(record, body, { updatedAt: new Date().toISOString() })
+    console.log(`Updated ${collection}/${id}:`, body)
+    send(res, 200, { id, success: true })
+    return
+  }
+  send(res, 405, { message: 'Method not allowed' })
+}
+
+function handleWebhook(res, payload) {
+  if (!payload || typeof payload.fields !== 'object' || !payload.sourceId) {
+    send(res, 400, { message: 'Expected { objectType, sourceId, externalId, fields }' })
+    return
+  }
+  const records = getCollection(`webhook-${payload.objectType || 'record'}`)
+  const id = payload.externalId || webhookIds.get(payload.sourceId) || String(nextId++)
+  webhookIds.set(payload.sourceId, id)
+  records.set(id, { ...records.get(id), ...payload.fields, id })
+  console.log(`Webhook ${payload.objectType} ${id} (card ${payload.sourceId}):`, payload.fields)
+  send(res, 200, { received: true, id })
+}
+
+const server = http.createServer((req, res) => {
+  const chunks = []
+  req.on('data', chunk => chunks.push(chunk))
+  req.on('end', () => {
+    const path = new URL(req.url, `http://localhost:${port}`).pathname
+    console.log(`${req.method} ${path}`)
+
+    if (path === '/_outage' && req.method === 'POST') {
+      outage = !outage
+      send(res, 200, { outage })
+      return
+    }
+    if (req.headers.authorization !== `Bearer ${apiKey}`) {
+      send(res, 401, { message: 'Invalid API key' })
+      return
+    }
+    if (outage && req.method !== 'GET') {
+      send(res, 503, { message: 'The CRM is down for maintenance' })
+      return
+    }
+
+    let body = {}
+    if (chunks.length > 0) {
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'))
+      } catch {
+        send(res, 400, { message: 'Expected a JSON body' })
+        return
+      }
+    }
+
+    if (path === '/webhook' && req.method === 'POST') {
+      handleWebhook(res, body)
+      return
+    }
+    const match = path.match(/^\/api\/([\w-]+)(?:\/([^/]+))?\/?$/)
+    if (match) {
+      handleRest(req, res, match[1], match[2] && decodeURIComponent(match[2]), body)
+      return
+    }
+    send(res, 404, { message: 'Not found' })
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Local mock CRM listening on http://localhost:${port} (API key ${apiKey})`)
+})
@@ -0,0 +1,50 @@
+const http = require('http')
+
+// Local stand-in for the "local" OCR provider.
+// Usage: node scripts/local-ocr-server.js [port]
+// Then set OCR_PROVIDER=local (or OCR_FALLBACK_PROVIDER=local) and
+// LOCAL_OCR_URL=http://localhost:4010/extract in .env.local
+
+const port = Number(process.argv[2] || process.env.PORT || 4010)
+
+// Canned extraction result returned for every image
+const sampleCard = {
+  fields: {
+    name: 'Jane Doe',
+    first_name: 'Jane',
+    last_name: 'Doe',
+    company: 'Example Corp',
+    job_title: 'Head of Partnerships',
+    phone: '+1 415-555-0100',
+    email: 'jane.doe@example.com',
+    website: 'www.example.com',
+    street_address: '1 Market St',
+    city: 'San Francisco',
+    state: 'CA',
+    zip_code: '94105',
+    country: 'USA',
+  },
+  text: 'Jane Doe\nHead of Partnerships\nExample Corp\n+1 415-555-0100\njane.doe@example.com\nwww.example.com\n1 Market St, San Francisco, CA 94105, USA',
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Method not allowed' }))
+    return
+  }
+
+  let size = 0
+  req.on('data', chunk => {
+    size += chunk.length
+  })
+  req.on('end', () => {
+    console.log(`${req.method} ${req.url} (${size} bytes)`)
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(sampleCard))
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Local OCR stand-in listening on http://localhost:${port}/extract`)
+})
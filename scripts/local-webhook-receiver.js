@@ -0,0 +1,82 @@
+const http = require('http')
+const crypto = require('crypto')
+
+// Local endpoint for trying webhooks: checks each payload's signature and prints the event.
+// Usage: WEBHOOK_SECRET=whsec_... node scripts/local-webhook-receiver.js [port]
+// Then add http://localhost:4040/webhook under Webhooks, copy its secret into WEBHOOK_SECRET
+// and restart. Without a secret, events are printed but signatures are not checked.
+// Simulate an outage (503 on every event, to see deliveries retried) with
+//   curl -X POST http://localhost:4040/_outage     (again to end it)
+
+const port = Number(process.argv[2] || process.env.PORT || 4040)
+const secret = process.env.WEBHOOK_SECRET || ''
+
+// Signatures older than this are refused, so a captured request cannot be replayed
+const TOLERANCE_SECONDS = 5 * 60
+
+let outage = false
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+// X-CardScan-Signature: t=<unix time>,v1=<hex HMAC-SHA256 of "<unix time>.<raw body>">
+function checkSignature(header, body) {
+  const parts = Object.fromEntries(String(header || '').split(',').map(part => part.split('=')))
+  const timestamp = Number(parts.t)
+  if (!timestamp || !parts.v1) return 'missing signature'
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) return 'signature too old'
+
+  const expected = crypto.createHmac('sha256', secret).update(`${parts.t}.${body}`).digest()
+  const received = Buffer.from(parts.v1, 'hex')
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected) ? null : 'wrong signature'
+}
+
+const server = http.createServer((req, res) => {
+  const chunks = []
+  req.on('data', chunk => chunks.push(chunk))
+  req.on('end', () => {
+    const path = new URL(req.url, `http://localhost:${port}`).pathname
+    const body = Buffer.concat(chunks).toString('utf8')
+
+    if (path === '/_outage' && req.method === 'POST') {
+      outage = !outage
+      send(res, 200, { outage })
+      return
+    }
+    if (path !== '/webhook' || req.method !== 'POST') {
+      send(res, 404, { message: 'Not found' })
+      return
+    }
+    if (outage) {
+      console.log(`${req.headers['x-cardscan-event']} ${req.headers['x-cardscan-delivery']}: refused (outage)`)
+      send(res, 503, { message: 'Down for maintenance' })
+      return
+    }
+
+    const problem = secret ? checkSignature(req.headers['x-cardscan-signature'], body) : null
+    if (problem) {
+      console.log(`${req.headers['x-cardscan-event']} ${req.headers['x-cardscan-delivery']}: ${problem}`)
+      send(res, 401, { message: problem })
+      return
+    }
+
+    let payload
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      send(res, 400, { message: 'Expected a JSON body' })
+      return
+    }
+    const card = payload.data && payload.data.card
+    console.log(`${payload.event} ${payload.id}${secret ? ' (signature ok)' : ''}:`,
+      card ? `${card.name || 'Unknown'} (${card.id})` : '', payload.data && payload.data.mergedCardIds || '')
+    send(res, 200, { received: true })
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Local webhook receiver listening on http://localhost:${port}/webhook` +
+    (secret ? '' : ' (set WEBHOOK_SECRET to check signatures)'))
+})
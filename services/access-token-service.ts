@@ -0,0 +1,47 @@
+import type { AccessToken } from "@/types"
+import { auth } from "@/lib/firebase"
+
+// Personal access tokens for the REST API (/api/cards) are created, listed and revoked by the
+// server (see app/api/access-tokens), under the signed-in user; only their hash is stored.
+const ACCESS_TOKENS_API_URL = "/api/access-tokens"
+
+async function requestAccessTokensRoute<T>(path: string, init: { method: string; body?: unknown }): Promise<T> {
+  const currentUser = auth.currentUser
+  if (!currentUser) {
+    throw new Error("Please sign in to manage access tokens.")
+  }
+  if (!navigator.onLine) {
+    throw new Error("Access tokens are not available offline.")
+  }
+
+  const idToken = await currentUser.getIdToken()
+  const response = await fetch(path ? `${ACCESS_TOKENS_API_URL}/${path}` : ACCESS_TOKENS_API_URL, {
+    method: init.method,
+    headers: {
+      "Authorization": `Bearer ${idToken}`,
+      ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  })
+
+  if (!response.ok) {
+    const responseBody = await response.json().catch(() => null)
+    throw new Error(responseBody?.error || `Access token request failed: ${response.status} ${response.statusText}`)
+  }
+  return response.status === 204 ? (undefined as T) : response.json()
+}
+
+// The user's tokens, newest first
+export async function getAccessTokens(): Promise<AccessToken[]> {
+  return (await requestAccessTokensRoute<{ accessTokens: AccessToken[] }>("", { method: "GET" })).accessTokens
+}
+
+// Create a token for the user. The token is returned this once; it cannot be shown again.
+export async function createAccessToken(name: string): Promise<{ token: string; accessToken: AccessToken }> {
+  return requestAccessTokensRoute("", { method: "POST", body: { name } })
+}
+
+// Revoke a token: requests made with it are refused from then on
+export async function revokeAccessToken(tokenId: string): Promise<void> {
+  await requestAccessTokensRoute<void>(encodeURIComponent(tokenId), { method: "DELETE" })
+}
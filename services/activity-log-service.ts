@@ -0,0 +1,35 @@
+import type { CardActivity, CardActivityType } from "@/types"
+import { EnhancedStorageService } from "./enhanced-storage-service"
+import { createActivity, type ActivityDetails } from "@/lib/card-activity"
+
+type ActivityListener = (activity: CardActivity[]) => void
+
+const listeners = new Set<ActivityListener>()
+
+// Be told about entries as they are recorded, e.g. to update an open timeline; returns an unsubscribe function
+export function onCardActivity(listener: ActivityListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Record something done with one or more cards. Logging never fails the action that caused it:
+// errors are only reported to the console.
+export async function logCardActivity(
+  userId: string,
+  cardIds: string[],
+  type: CardActivityType,
+  details: ActivityDetails = {}
+): Promise<CardActivity[]> {
+  const activity = cardIds.filter(Boolean).map(cardId => createActivity(cardId, type, details))
+  if (activity.length === 0) return []
+
+  try {
+    await EnhancedStorageService.addActivity(userId, activity)
+    listeners.forEach(listener => listener(activity))
+  } catch (error) {
+    console.error('Failed to record activity:', error)
+  }
+  return activity
+}
@@ -0,0 +1,218 @@
+import { FieldPath, Timestamp } from "firebase-admin/firestore"
+import type { BusinessCardData, CardGroup, CardPageCursor, CardSortField, ChangeAuthor, SortDirection, WebhookEventType } from "@/types"
+import { getAdminFirestore } from "@/lib/firebase-admin"
+import { toCardPayload } from "@/lib/card-payload"
+import { withNormalizedPhones } from "@/lib/phone-utils"
+import { withStructuredAddress } from "@/lib/address-utils"
+import { DEFAULT_PAGE_SIZE, compareCards, getCardSortFields, getPageCursor, getSortOrder, isAfterCursor } from "@/lib/card-sort"
+import { isVersionChange, toVersionData } from "@/lib/card-history"
+import { matchesQueryFilters, parseSearchQuery } from "@/lib/search-query"
+import { getCardSearchTerms, matchTerm, tokenize } from "@/lib/search-utils"
+import { emitCardEvent } from "@/services/webhooks"
+
+// Firestore collection names, as in services/storage-service.ts
+const COLLECTION_NAME = "business_cards"
+const GROUPS_COLLECTION_NAME = "card_groups"
+const TASKS_COLLECTION_NAME = "follow_up_tasks"
+const TRASH_COLLECTION_NAME = "deleted_cards"
+const VERSIONS_SUBCOLLECTION_NAME = "versions"
+
+export interface CardListOptions {
+  sortBy: CardSortField
+  direction: SortDirection
+  pageSize?: number
+  cursor?: CardPageCursor | null
+  query?: string            // Search query, with the filters of the search box (company:acme is:favorite...)
+}
+
+export interface CardListPage {
+  cards: BusinessCardData[]
+  cursor: CardPageCursor | null   // Pass to the next request; null when there are no more cards
+}
+
+// Drop undefined fields (Firestore refuses them) by going through JSON; Timestamps are added after
+function toFirestoreData(data: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(data))
+}
+
+// Card changes reach webhooks like those made in the app; a failed event does not fail the request
+async function notifyWebhooks(userId: string, event: WebhookEventType, cardId: string): Promise<void> {
+  try {
+    await emitCardEvent(userId, event, cardId)
+  } catch (error) {
+    console.error(`Failed to send the ${event} webhook event:`, error)
+  }
+}
+
+// Does the card contain every word of the free text (prefixes and small typos allowed)?
+function matchesText(card: BusinessCardData, tokens: string[]): boolean {
+  const terms = Array.from(getCardSearchTerms(card).keys())
+  return tokens.every(token => terms.some(term => matchTerm(token, term) > 0))
+}
+
+// Server-side counterpart of StorageService for the REST API (/api/cards): the same documents,
+// read and written with Firebase Admin for a user authenticated by a personal access token.
+// Security rules do not apply here, so every method checks the card belongs to the user.
+export class AdminStorageService {
+  // A page of the user's cards in one of the app's sort orders. Without a query, pages come
+  // straight from Firestore; with one, the collection is filtered on the server, as search does in the app.
+  static async listCards(userId: string, options: CardListOptions): Promise<CardListPage> {
+    const pageSize = options.pageSize || DEFAULT_PAGE_SIZE
+    const db = getAdminFirestore()
+
+    if (!options.query?.trim()) {
+      const order = getSortOrder(options.sortBy, options.direction)
+      const lastDirection = order[order.length - 1][1]
+      let cardsQuery = db.collection(COLLECTION_NAME).where("userId", "==", userId)
+      for (const [field, direction] of order) {
+        cardsQuery = cardsQuery.orderBy(field, direction)
+      }
+      cardsQuery = cardsQuery.orderBy(FieldPath.documentId(), lastDirection)
+      if (options.cursor) {
+        cardsQuery = cardsQuery.startAfter(...options.cursor.values, options.cursor.id)
+      }
+
+      // One extra document tells whether another page exists
+      const snapshot = await cardsQuery.limit(pageSize + 1).get()
+      const cards = snapshot.docs.slice(0, pageSize).map(document => toCardPayload(document.id, document.data()))
+      const hasMore = snapshot.docs.length > pageSize
+      return {
+        cards,
+        cursor: hasMore && cards.length > 0 ? getPageCursor(cards[cards.length - 1], options.sortBy, options.direction) : null,
+      }
+    }
+
+    const { text, filters } = parseSearchQuery(options.query)
+    const tokens = tokenize(text)
+    const needsGroups = filters.some(filter => filter.type === "text" && filter.field === "group")
+    const [snapshot, groups] = await Promise.all([
+      db.collection(COLLECTION_NAME).where("userId", "==", userId).get(),
+      needsGroups ? this.getGroups(userId) : Promise.resolve([]),
+    ])
+
+    const matches = snapshot.docs
+      .map(document => toCardPayload(document.id, document.data()))
+      .filter(card => matchesQueryFilters(card, filters, groups) && (tokens.length === 0 || matchesText(card, tokens)))
+      .filter(card => !options.cursor || isAfterCursor(card, options.cursor, options.sortBy, options.direction))
+      .sort((a, b) => compareCards(a, b, options.sortBy, options.direction))
+
+    const cards = matches.slice(0, pageSize)
+    return {
+      cards,
+      cursor: matches.length > pageSize ? getPageCursor(cards[cards.length - 1], options.sortBy, options.direction) : null,
+    }
+  }
+
+  private static async getGroups(userId: string): Promise<CardGroup[]> {
+    const snapshot = await getAdminFirestore().collection(GROUPS_COLLECTION_NAME).where("userId", "==", userId).get()
+    return snapshot.docs.map(document => {
+      const data = document.data()
+      return { id: document.id, name: data.name, color: data.color, createdAt: data.createdAt }
+    })
+  }
+
+  // One of the user's cards; null when there is no such card
+  static async getCard(userId: string, cardId: string, { images = false } = {}): Promise<BusinessCardData | null> {
+    const document = await getAdminFirestore().collection(COLLECTION_NAME).doc(cardId).get()
+    const data = document.data()
+    return data && data.userId === userId ? toCardPayload(document.id, data, { images }) : null
+  }
+
+  static async createCard(userId: string, card: BusinessCardData): Promise<BusinessCardData> {
+    const cardsRef = getAdminFirestore().collection(COLLECTION_NAME)
+    const timestamp = card.timestamp || new Date().toISOString()
+    const cardData = withNormalizedPhones(withStructuredAddress({ ...card, timestamp }))
+    delete cardData.id
+
+    const cardRef = await cardsRef.add({
+      ...toFirestoreData(cardData),
+      userId,
+      ...getCardSortFields(cardData),
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    })
+    await notifyWebhooks(userId, "card.created", cardRef.id)
+    return (await this.getCard(userId, cardRef.id, { images: true }))!
+  }
+
+  // Change some fields of a card: fields set to null are removed, the others replaced. The version
+  // it replaces is kept, as for edits in the app. Returns the card as saved, or null when there is no such card.
+  static async updateCard(
+    userId: string,
+    cardId: string,
+    changes: Partial<Record<keyof BusinessCardData, unknown>>,
+    author: ChangeAuthor
+  ): Promise<BusinessCardData | null> {
+    const db = getAdminFirestore()
+    const cardRef = db.collection(COLLECTION_NAME).doc(cardId)
+    const current = await cardRef.get()
+    const stored = current.data()
+    if (!stored || stored.userId !== userId) return null
+
+    const previous = toCardPayload(cardId, stored, { images: true })
+    const merged: Record<string, unknown> = { ...previous }
+    for (const [field, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete merged[field]
+      } else {
+        merged[field] = value
+      }
+    }
+    const updated = withNormalizedPhones(withStructuredAddress(merged as BusinessCardData))
+    delete updated.id
+
+    const batch = db.batch()
+    if (isVersionChange(previous, updated)) {
+      batch.set(cardRef.collection(VERSIONS_SUBCOLLECTION_NAME).doc(), toFirestoreData({
+        data: toVersionData(previous),
+        replacedAt: new Date().toISOString(),
+        replacedBy: author,
+        userId,
+      }))
+    }
+    // Replaced as a whole so removed fields go; the creation time stays a Timestamp
+    batch.set(cardRef, {
+      ...toFirestoreData(updated),
+      userId,
+      ...getCardSortFields(updated),
+      createdAt: stored.createdAt ?? Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    })
+    await batch.commit()
+
+    await notifyWebhooks(userId, "card.updated", cardId)
+    return this.getCard(userId, cardId, { images: true })
+  }
+
+  // Move a card to the trash with its follow-up tasks, as deleting it in the app does.
+  // Returns false when there is no such card.
+  static async deleteCard(userId: string, cardId: string, author: ChangeAuthor): Promise<boolean> {
+    const db = getAdminFirestore()
+    const cardRef = db.collection(COLLECTION_NAME).doc(cardId)
+    const card = await cardRef.get()
+    const stored = card.data()
+    if (!stored || stored.userId !== userId) return false
+
+    const tasks = (await db.collection(TASKS_COLLECTION_NAME).where("userId", "==", userId).get())
+      .docs.filter(document => document.data().cardId === cardId)
+
+    const batch = db.batch()
+    batch.set(db.collection(TRASH_COLLECTION_NAME).doc(cardId), {
+      card: stored,
+      tasks: tasks.map(document => {
+        const task: Record<string, unknown> = { ...document.data(), id: document.id }
+        delete task.userId
+        return task
+      }),
+      userId,
+      deletedAt: new Date().toISOString(),
+      deletedBy: toFirestoreData(author),
+    })
+    batch.delete(cardRef)
+    tasks.forEach(document => batch.delete(document.ref))
+    await batch.commit()
+
+    await notifyWebhooks(userId, "card.deleted", cardId)
+    return true
+  }
+}
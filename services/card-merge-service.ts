@@ -0,0 +1,263 @@
+import type { BusinessCardData, ScanRecord } from "@/types"
+import { detectNameScript } from "@/lib/name-utils"
+import { changeGroups, changeTags } from "@/lib/organization"
+
+// Top-level text fields that can conflict between the two sides of a card
+const MERGEABLE_FIELDS = [
+  "name",
+  "company",
+  "jobTitle",
+  "phone",
+  "mobile",
+  "email",
+  "address",
+  "website",
+  "linkedin",
+  "twitter",
+] as const
+
+type MergeableField = typeof MERGEABLE_FIELDS[number]
+
+const FIELD_LABELS: Record<MergeableField, string> = {
+  name: "Name",
+  company: "Company",
+  jobTitle: "Job title",
+  phone: "Phone",
+  mobile: "Mobile",
+  email: "Email",
+  address: "Address",
+  website: "Website",
+  linkedin: "LinkedIn",
+  twitter: "Twitter",
+}
+
+// Compare values ignoring case, spacing and punctuation ("+82 10-1234" == "+821 01234")
+function sameValue(a: string, b: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s.,;:()\-_/]+/g, "")
+  return normalize(a) === normalize(b)
+}
+
+// Merge the extraction results of the front and back of one double-sided card.
+// Each field keeps the value with the higher confidence (the front wins ties); a differing
+// value from the other side is kept in metadata.additional_info so nothing is lost.
+export function mergeCardSides(front: BusinessCardData, back: BusinessCardData): BusinessCardData {
+  const merged: BusinessCardData = {
+    ...back,
+    ...front,
+    id: front.id || back.id,
+    timestamp: front.timestamp || back.timestamp,
+  }
+  const confidence: Record<string, number> = {}
+  const alternates: string[] = []
+  const nameMetadata: NonNullable<BusinessCardData["metadata"]> = {}
+
+  for (const field of MERGEABLE_FIELDS) {
+    const frontValue = front[field]
+    const backValue = back[field]
+    const frontConfidence = front.confidence?.[field] ?? 0
+    const backConfidence = back.confidence?.[field] ?? 0
+
+    // A native-script name on one side and a Latin one on the other are the same person:
+    // keep the native name and record the romanized form instead of treating it as a conflict
+    if (field === "name" && frontValue && backValue) {
+      const frontIsLatin = detectNameScript(frontValue) === "latin"
+      const backIsLatin = detectNameScript(backValue) === "latin"
+      if (frontIsLatin !== backIsLatin) {
+        const native = frontIsLatin ? back : front
+        merged.name = native.name
+        nameMetadata.native_name = native.name
+        nameMetadata.romanized_name = frontIsLatin ? frontValue : backValue
+        if (native.confidence?.name !== undefined) confidence.name = native.confidence.name
+        continue
+      }
+    }
+
+    if (frontValue && backValue) {
+      if (sameValue(frontValue, backValue)) {
+        merged[field] = frontValue
+        if (front.confidence?.[field] !== undefined || back.confidence?.[field] !== undefined) {
+          confidence[field] = Math.max(frontConfidence, backConfidence)
+        }
+        continue
+      }
+
+      const useBack = backConfidence > frontConfidence
+      merged[field] = useBack ? backValue : frontValue
+      const winnerConfidence = useBack ? back.confidence?.[field] : front.confidence?.[field]
+      if (winnerConfidence !== undefined) confidence[field] = winnerConfidence
+      alternates.push(`${FIELD_LABELS[field]} (${useBack ? "front" : "back"}): ${useBack ? frontValue : backValue}`)
+    } else if (frontValue || backValue) {
+      const source = frontValue ? front : back
+      merged[field] = frontValue || backValue
+      if (source.confidence?.[field] !== undefined) confidence[field] = source.confidence[field]
+    }
+  }
+
+  // The structured address follows whichever side's address was kept
+  const addressSource = merged.address && merged.address === back.address && merged.address !== front.address ? back : front
+  const otherSide = addressSource === front ? back : front
+  const addressDetails = addressSource.addressDetails || otherSide.addressDetails
+  if (addressDetails) {
+    merged.addressDetails = addressDetails
+  }
+
+  // Metadata: front values win, the back fills in the gaps
+  if (front.metadata || back.metadata || Object.keys(nameMetadata).length > 0) {
+    merged.metadata = { ...nameMetadata, ...back.metadata, ...front.metadata }
+
+    const additionalInfo = [
+      front.metadata?.additional_info,
+      back.metadata?.additional_info !== front.metadata?.additional_info ? back.metadata?.additional_info : undefined,
+      ...alternates,
+    ].filter(Boolean)
+
+    if (additionalInfo.length > 0) {
+      merged.metadata.additional_info = additionalInfo.join("\n")
+    }
+  } else if (alternates.length > 0) {
+    merged.metadata = { additional_info: alternates.join("\n") }
+  }
+
+  if (Object.keys(confidence).length > 0) {
+    merged.confidence = confidence
+  } else {
+    delete merged.confidence
+  }
+
+  return merged
+}
+
+export type MergeSide = "primary" | "secondary"
+
+// Fields the user picks between when merging duplicates ("image" selects the scan shown on the card)
+export const MERGE_CHOICE_FIELDS = [...MERGEABLE_FIELDS, "notes", "image"] as const
+export type MergeChoiceField = typeof MERGE_CHOICE_FIELDS[number]
+export type MergeChoices = Partial<Record<MergeChoiceField, MergeSide>>
+
+export const MERGE_FIELD_LABELS: Record<MergeChoiceField, string> = {
+  ...FIELD_LABELS,
+  notes: "Notes",
+  image: "Card image",
+}
+
+// Earlier scans are kept inside the card's document, which Firestore limits to 1 MB: only their
+// thumbnails are kept, and only the most recent ones
+const MAX_SCAN_HISTORY = 20
+
+function toScanRecord(card: BusinessCardData): ScanRecord | null {
+  if (!card.thumbnailBase64) return null
+
+  const record: ScanRecord = { timestamp: card.timestamp || new Date().toISOString(), thumbnailBase64: card.thumbnailBase64 }
+  if (card.id) record.cardId = card.id
+  if (card.originalFilename) record.originalFilename = card.originalFilename
+  return record
+}
+
+// Records saved by earlier versions carry the full images as well
+function withoutFullImages(record: ScanRecord): ScanRecord {
+  const trimmed = { ...record }
+  delete trimmed.imageBase64
+  delete trimmed.backImageBase64
+  return trimmed
+}
+
+// Default choice for a field: the primary card's value unless it has none
+export function defaultMergeSide(primary: BusinessCardData, secondary: BusinessCardData, field: MergeChoiceField): MergeSide {
+  if (field === "image") {
+    return primary.imageBase64 || !secondary.imageBase64 ? "primary" : "secondary"
+  }
+  return primary[field] || !secondary[field] ? "primary" : "secondary"
+}
+
+// Merge two cards of the same contact into the primary card (which keeps its ID).
+// Each field takes the chosen side's value; unchosen notes are appended, and the thumbnail
+// of the scan whose image is not kept moves into scanHistory.
+export function mergeDuplicateCards(
+  primary: BusinessCardData,
+  secondary: BusinessCardData,
+  choices: MergeChoices = {},
+): BusinessCardData {
+  const sideOf = (field: MergeChoiceField) => choices[field] || defaultMergeSide(primary, secondary, field)
+  const pick = (field: MergeChoiceField) => sideOf(field) === "primary" ? primary : secondary
+
+  const merged: BusinessCardData = {
+    ...secondary,
+    ...primary,
+    id: primary.id || secondary.id,
+    isFavorite: primary.isFavorite || secondary.isFavorite,
+  }
+
+  // The CRM record and address book contact stay linked to the primary card only: the secondary
+  // card's links point at records of their own
+  for (const link of ["crm", "carddav"] as const) {
+    if (!primary[link]) delete merged[link]
+  }
+
+  // Tags and groups of both cards
+  const tags = changeTags(primary, secondary.tags || [], [])
+  if (tags.length > 0) merged.tags = tags
+  const groupIds = changeGroups(primary, secondary.groupIds || [], [])
+  if (groupIds.length > 0) merged.groupIds = groupIds
+
+  // Keep the date the contact was first scanned
+  const timestamps = [primary.timestamp, secondary.timestamp].filter((value): value is string => !!value).sort()
+  if (timestamps.length > 0) merged.timestamp = timestamps[0]
+
+  const confidence: Record<string, number> = {}
+  for (const field of MERGEABLE_FIELDS) {
+    const source = pick(field)
+    const value = source[field]
+    if (value) {
+      merged[field] = value
+    } else {
+      delete merged[field]
+    }
+    if (value && source.confidence?.[field] !== undefined) {
+      confidence[field] = source.confidence[field]
+    }
+  }
+  if (Object.keys(confidence).length > 0) merged.confidence = confidence
+  else delete merged.confidence
+
+  // The structured address and normalized numbers follow the chosen display values
+  const addressSource = pick("address")
+  if (addressSource.addressDetails) merged.addressDetails = addressSource.addressDetails
+  else delete merged.addressDetails
+  delete merged.phoneE164
+  delete merged.mobileE164
+
+  // Notes: the chosen side first, the other side's notes appended when different
+  const chosenNotes = pick("notes").notes
+  const otherNotes = (sideOf("notes") === "primary" ? secondary : primary).notes
+  const notes = [chosenNotes, otherNotes !== chosenNotes ? otherNotes : undefined].filter(Boolean).join("\n\n")
+  if (notes) merged.notes = notes
+  else delete merged.notes
+
+  // Card images come from one scan; the other scan is kept in the history
+  const imageSource = pick("image")
+  const otherScan = imageSource === primary ? secondary : primary
+  for (const key of ["imageBase64", "thumbnailBase64", "backImageBase64", "originalFilename"] as const) {
+    if (imageSource[key]) merged[key] = imageSource[key]
+    else delete merged[key]
+  }
+
+  const otherRecord = toScanRecord(otherScan)
+  const scanHistory = [
+    ...(primary.scanHistory || []),
+    ...(secondary.scanHistory || []),
+    ...(otherRecord ? [otherRecord] : []),
+  ]
+    .filter(record => record.thumbnailBase64)
+    .map(withoutFullImages)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .slice(-MAX_SCAN_HISTORY)
+  if (scanHistory.length > 0) merged.scanHistory = scanHistory
+  else delete merged.scanHistory
+
+  // Metadata: the primary card wins, the other fills in the gaps
+  if (primary.metadata || secondary.metadata) {
+    merged.metadata = { ...secondary.metadata, ...primary.metadata }
+  }
+
+  return merged
+}
@@ -0,0 +1,389 @@
+import type { BusinessCardData, CardDavLink } from "@/types"
+import { auth } from "@/lib/firebase"
+import { mergeVCard, parseVCards, type VCardContact } from "@/lib/vcard-parser"
+import { diffCards } from "@/lib/card-activity"
+import { withStructuredAddress } from "@/lib/address-utils"
+import { withNormalizedPhones } from "@/lib/phone-utils"
+import { EnhancedStorageService } from "./enhanced-storage-service"
+import { logCardActivity } from "./activity-log-service"
+import { getLikelyDuplicates, toCardImages } from "./contact-import-service"
+import { generateVCard } from "./contact-export-service"
+import type { AddressBookChanges, AddressBookInfo, PutContactResult, RemoteContact } from "./carddav/types"
+
+export type { AddressBookInfo } from "./carddav/types"
+
+// Server-side CardDAV route (CardDAV servers do not allow requests from the browser)
+const CARDDAV_API_URL = "/api/carddav"
+
+// A connected address book; kept on the device by useCardDavAccount
+export interface CardDavAccount {
+  serverUrl: string
+  username: string
+  password: string              // Password, app password or OAuth access token
+  addressBook?: AddressBookInfo
+  pushCards?: boolean           // Also send new and edited cards to the address book
+  syncToken?: string | null     // From the last sync; only changes since then are fetched
+  lastSyncedAt?: string
+}
+
+export interface AddressBookSyncResult {
+  created: BusinessCardData[]
+  linked: BusinessCardData[]     // Existing cards found by duplicate detection and linked to a contact
+  updated: BusinessCardData[]    // Linked cards whose contact changed
+  unlinked: BusinessCardData[]   // Linked cards whose contact was deleted; the cards are kept
+  pushed: BusinessCardData[]     // Cards added to or updated in the address book
+  conflicts: BusinessCardData[]  // Cards edited on both sides, left for the user to resolve
+  failed: number
+  syncToken: string | null
+}
+
+// Fields a contact fills in; the address text and its structured form go together
+const CONTACT_FIELDS = ["name", "company", "jobTitle", "phone", "mobile", "email", "website", "linkedin", "twitter"] as const
+
+async function requestCardDav<T>(body: Record<string, unknown>): Promise<T> {
+  const currentUser = auth.currentUser
+  if (!currentUser) {
+    throw new Error("Please sign in to connect an address book.")
+  }
+
+  const idToken = await currentUser.getIdToken()
+
+  const response = await fetch(CARDDAV_API_URL, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${idToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null)
+    throw new Error(error?.error || `CardDAV request failed: ${response.status} ${response.statusText}`)
+  }
+
+  return response.json()
+}
+
+function getCredentials(account: CardDavAccount) {
+  return { username: account.username, password: account.password }
+}
+
+// Address books of an account, found from the server URL
+export async function discoverAddressBooks(account: CardDavAccount): Promise<AddressBookInfo[]> {
+  const { addressBooks } = await requestCardDav<{ addressBooks: AddressBookInfo[] }>({
+    action: "discover",
+    serverUrl: account.serverUrl,
+    ...getCredentials(account),
+  })
+  return addressBooks
+}
+
+// Fingerprint of what a card sends to the address book (FNV-1a of its vCard, without the REV
+// timestamp), compared with the one stored at the last sync to tell whether the card was edited since
+function getContactFingerprint(card: BusinessCardData): string {
+  const vcard = generateVCard(withNormalizedPhones(withStructuredAddress({ ...card, timestamp: undefined })))
+  let hash = 0x811c9dc5
+  for (let i = 0; i < vcard.length; i++) {
+    hash ^= vcard.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+// Links made before fingerprints were kept count as unedited
+function isEditedSinceSync(card: BusinessCardData): boolean {
+  const localHash = card.carddav?.localHash
+  return localHash !== undefined && localHash !== getContactFingerprint(card)
+}
+
+// The card with the contact's values. A changed contact overwrites what it has (the edit is kept
+// in the card's history); a card linked for the first time only gets the values it is missing.
+// Values the contact does not have are kept either way.
+async function withContact(card: BusinessCardData, { card: contact, photo }: VCardContact, overwrite: boolean): Promise<BusinessCardData> {
+  const result: BusinessCardData = { ...card }
+
+  for (const field of CONTACT_FIELDS) {
+    if (contact[field] && (overwrite || !card[field])) result[field] = contact[field]
+  }
+  if (contact.address && (overwrite || !card.address)) {
+    result.address = contact.address
+    result.addressDetails = contact.addressDetails
+  }
+  if (contact.notes && !card.notes) result.notes = contact.notes
+  if (contact.metadata) {
+    const metadata = { ...card.metadata }
+    for (const [key, value] of Object.entries(contact.metadata) as Array<[keyof typeof metadata, string]>) {
+      if (value && (overwrite || !metadata[key])) metadata[key] = value
+    }
+    result.metadata = metadata
+  }
+  if (photo && !card.imageBase64) {
+    Object.assign(result, await toCardImages(photo))
+  }
+  return result
+}
+
+// Link to a contact as synced now, with the fingerprint of the card it was synced with
+function createLink(addressBookUrl: string, href: string, etag: string, card: BusinessCardData): CardDavLink {
+  return {
+    addressBookUrl,
+    href,
+    etag,
+    syncedAt: new Date().toISOString(),
+    localHash: getContactFingerprint(card),
+    conflict: null,
+  }
+}
+
+async function fetchContact(account: CardDavAccount, href: string): Promise<RemoteContact | null> {
+  const { contact } = await requestCardDav<{ contact: RemoteContact | null }>({ action: "get", href, ...getCredentials(account) })
+  return contact
+}
+
+// Write a card to the address book, merged into the contact's current vCard when it has one
+async function pushCard(
+  account: CardDavAccount,
+  card: BusinessCardData,
+  href: string,
+  remote: RemoteContact | null
+): Promise<PutContactResult> {
+  return requestCardDav<PutContactResult>({
+    action: "put",
+    href,
+    vcard: mergeVCard(generateVCard(withNormalizedPhones(card)), remote?.vcard || null, card.id!),
+    etag: remote?.etag || null,
+    ...getCredentials(account),
+  })
+}
+
+// Sync an address book with the collection, pulling first:
+// - new contacts become cards, or are linked to an existing card when duplicate detection finds one
+// - changed contacts update their linked card; deleted ones leave the card unlinked
+// - with pushCards, cards added or edited here are written to the address book (conditional PUTs)
+// A card edited on both sides since the last sync is marked as a conflict and left as it is.
+// Only changes since the account's sync token are fetched when the server supports it.
+export async function syncAddressBook(
+  userId: string,
+  account: CardDavAccount,
+  onProgress?: (done: number, total: number) => void
+): Promise<AddressBookSyncResult> {
+  const addressBook = account.addressBook
+  if (!addressBook) {
+    throw new Error("Choose an address book to sync.")
+  }
+
+  const changes = await requestCardDav<AddressBookChanges>({
+    action: "sync",
+    addressBookUrl: addressBook.url,
+    syncToken: account.syncToken || null,
+    ...getCredentials(account),
+  })
+
+  const result: AddressBookSyncResult = {
+    created: [],
+    linked: [],
+    updated: [],
+    unlinked: [],
+    pushed: [],
+    conflicts: [],
+    failed: 0,
+    syncToken: changes.syncToken,
+  }
+  const cards = await EnhancedStorageService.getCards(userId)
+  const linkedCards = new Map(
+    cards
+      .filter(card => card.carddav?.addressBookUrl === addressBook.url && !card.carddav.deleted)
+      .map(card => [card.carddav!.href, card])
+  )
+  const deleted = changes.full
+    ? Array.from(linkedCards.keys()).filter(href => !changes.contacts.some(contact => contact.href === href))
+    : changes.deleted
+  let done = 0
+  let total = changes.contacts.length + deleted.length
+  // A contact that failed to save is fetched again next time: the sync token is not advanced
+  let keepSyncToken = false
+
+  const saveCard = async (before: BusinessCardData, after: BusinessCardData) => {
+    await EnhancedStorageService.updateCard(userId, after)
+    cards[cards.indexOf(before)] = after
+  }
+  // Only the link changes: the card is not edited (no new version, webhook event or push)
+  const saveLink = async (card: BusinessCardData, carddav: CardDavLink) => {
+    const after = await EnhancedStorageService.updateCardDavLink(userId, card, carddav)
+    cards[cards.indexOf(card)] = after
+    return after
+  }
+
+  for (const remote of changes.contacts) {
+    const contact = parseVCards(remote.vcard)[0]
+
+    try {
+      const linkedCard = linkedCards.get(remote.href)
+      const link = linkedCard?.carddav
+      if (!contact) {
+        result.failed++
+      } else if (linkedCard && link) {
+        if (link.etag === remote.etag || link.conflict?.etag === remote.etag) {
+          // Unchanged, or a change already marked as a conflict
+        } else if (link.conflict || isEditedSinceSync(linkedCard)) {
+          await saveLink(linkedCard, { ...link, conflict: { etag: remote.etag, detectedAt: new Date().toISOString() } })
+          result.conflicts.push(linkedCard)
+        } else {
+          const updated = await withContact(linkedCard, contact, true)
+          updated.carddav = createLink(addressBook.url, remote.href, remote.etag, updated)
+          await saveCard(linkedCard, updated)
+          logCardActivity(userId, [updated.id!], "edited", {
+            detail: `from ${addressBook.displayName}`,
+            changes: diffCards(linkedCard, updated),
+          })
+          result.updated.push(updated)
+        }
+      } else {
+        // Cards linked to another contact of the address book are not matched again
+        const candidates = getLikelyDuplicates(contact.card, cards.filter(card =>
+          card.carddav?.addressBookUrl !== addressBook.url || card.carddav.deleted
+        ))
+        if (candidates) {
+          const match = candidates[0].card
+          const linked = await withContact(match, contact, false)
+          linked.carddav = createLink(addressBook.url, remote.href, remote.etag, linked)
+          await saveCard(match, linked)
+          logCardActivity(userId, [linked.id!], "imported", {
+            detail: `${addressBook.displayName}, linked to the existing card`,
+            changes: diffCards(match, linked),
+          })
+          result.linked.push(linked)
+        } else {
+          const images = contact.photo ? await toCardImages(contact.photo) : null
+          const card: BusinessCardData = { ...contact.card, ...images, originalFilename: addressBook.displayName }
+          card.carddav = createLink(addressBook.url, remote.href, remote.etag, card)
+          const saved = await EnhancedStorageService.saveCard(userId, card)
+          cards.push(saved)
+          logCardActivity(userId, [saved.id!], "imported", { detail: addressBook.displayName })
+          result.created.push(saved)
+        }
+      }
+    } catch (error) {
+      console.error("Failed to sync contact:", remote.href, error)
+      result.failed++
+      keepSyncToken = true
+    }
+    onProgress?.(++done, total)
+  }
+
+  for (const href of deleted) {
+    const linkedCard = linkedCards.get(href)
+    if (linkedCard) {
+      try {
+        // The link is kept as a tombstone so the card is not sent straight back
+        const unlinked = await saveLink(linkedCard, { ...linkedCard.carddav!, etag: "", conflict: null, deleted: true })
+        result.unlinked.push(unlinked)
+      } catch (error) {
+        console.error("Failed to unlink card:", linkedCard.id, error)
+        result.failed++
+        keepSyncToken = true
+      }
+    }
+    onProgress?.(++done, total)
+  }
+
+  if (account.pushCards) {
+    // New cards, cards linked to another address book, and edited cards without a conflict.
+    // Cards saved offline are sent once they are synced.
+    const toPush = cards.filter(card => {
+      if (!card.id || card.id.startsWith("offline_")) return false
+      const link = card.carddav
+      if (link?.addressBookUrl !== addressBook.url) return true
+      return !link.conflict && (link.localHash === undefined || isEditedSinceSync(card))
+    })
+    total += toPush.length
+
+    for (const card of toPush) {
+      const link = card.carddav
+      const isLinked = link?.addressBookUrl === addressBook.url && !link.deleted
+
+      try {
+        if (isLinked && link.localHash === undefined) {
+          // Linked before fingerprints were kept: start tracking edits from now
+          await saveLink(card, { ...link, localHash: getContactFingerprint(card) })
+        } else {
+          const remote = isLinked ? await fetchContact(account, link.href) : null
+          // Merged into the contact as it is now; the PUT fails if it changes again in between
+          const href = remote ? link!.href : `${addressBook.url}${encodeURIComponent(card.id!)}.vcf`
+          const saved = await pushCard(account, card, href, remote && { ...remote, etag: link!.etag })
+
+          if (saved.conflict) {
+            const conflict = { etag: null, detectedAt: new Date().toISOString() }
+            await saveLink(card, isLinked ? { ...link, conflict } : { ...createLink(addressBook.url, href, "", card), conflict })
+            result.conflicts.push(card)
+          } else {
+            const pushed = await saveLink(card, createLink(addressBook.url, href, saved.etag!, card))
+            result.pushed.push(pushed)
+          }
+        }
+      } catch (error) {
+        console.error("Failed to send card to the address book:", card.id, error)
+        result.failed++
+      }
+      onProgress?.(++done, total)
+    }
+  }
+
+  if (keepSyncToken) result.syncToken = account.syncToken || null
+  return result
+}
+
+// Cards of the address book marked as conflicts
+export async function getConflicts(userId: string, account: CardDavAccount): Promise<BusinessCardData[]> {
+  const cards = await EnhancedStorageService.getCards(userId)
+  return cards.filter(card => card.carddav?.conflict && card.carddav.addressBookUrl === account.addressBook?.url)
+}
+
+// The card as the address book has it (null when the contact was deleted), to compare before resolving
+export async function getRemoteVersion(account: CardDavAccount, card: BusinessCardData): Promise<BusinessCardData | null> {
+  const remote = await fetchContact(account, card.carddav!.href)
+  const contact = remote && parseVCards(remote.vcard)[0]
+  return contact ? withContact(card, contact, true) : null
+}
+
+// Settle a conflict by keeping the card ("card") or the address book's version ("addressBook").
+// Returns the card as saved.
+export async function resolveConflict(
+  userId: string,
+  account: CardDavAccount,
+  card: BusinessCardData,
+  keep: "card" | "addressBook"
+): Promise<BusinessCardData> {
+  const link = card.carddav!
+  const remote = await fetchContact(account, link.href)
+
+  if (!remote) {
+    // Deleted in the address book meanwhile: the card is sent again as a new contact if kept
+    const tombstone: CardDavLink = { ...link, etag: "", conflict: null, deleted: true }
+    if (keep === "card") tombstone.localHash = ""
+    return EnhancedStorageService.updateCardDavLink(userId, card, tombstone)
+  }
+
+  if (keep === "card") {
+    const saved = await pushCard(account, card, link.href, remote)
+    if (saved.conflict) {
+      throw new Error("The contact changed again in the address book. Please try again.")
+    }
+    return EnhancedStorageService.updateCardDavLink(userId, card, createLink(link.addressBookUrl, link.href, saved.etag!, card))
+  }
+
+  const contact = parseVCards(remote.vcard)[0]
+  if (!contact) {
+    throw new Error("The address book's version of this contact could not be read.")
+  }
+  const resolved = await withContact(card, contact, true)
+  resolved.carddav = createLink(link.addressBookUrl, link.href, remote.etag, resolved)
+  logCardActivity(userId, [card.id!], "edited", {
+    detail: `from ${account.addressBook?.displayName || "the address book"}`,
+    changes: diffCards(card, resolved),
+  })
+
+  await EnhancedStorageService.updateCard(userId, resolved)
+  return resolved
+}
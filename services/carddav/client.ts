@@ -0,0 +1,313 @@
+import { checkOutboundUrl, fetchOutbound } from "@/lib/outbound-url"
+import { childElement, elementText, escapeXml, findElements, parseXml, type XmlElement } from "./xml"
+import type { AddressBookChanges, AddressBookInfo, CardDavCredentials, PutContactResult, RemoteContact } from "./types"
+
+interface CardDavClientOptions {
+  allowPrivateHosts: boolean   // Allow servers on localhost and private networks (the local stand-in)
+  timeoutMs: number
+}
+
+interface DavResponse {
+  href: string                     // Absolute URL
+  status: number | null            // Status of the whole response (deleted members in sync reports)
+  props: Map<string, XmlElement>   // Properties found (2xx propstat), by local name
+}
+
+interface DavResult {
+  status: number
+  url: string    // After redirects
+  etag: string | null
+  body: string
+}
+
+interface RequestOptions {
+  body?: string
+  contentType?: string
+  depth?: "0" | "1"
+  headers?: Record<string, string>
+}
+
+const MAX_REDIRECTS = 5
+// Hrefs per addressbook-multiget report
+const MULTIGET_BATCH_SIZE = 50
+// sync-collection reports repeated while the server truncates them (507 on the collection)
+const MAX_SYNC_PAGES = 20
+
+const DAV_HEADER = '<?xml version="1.0" encoding="utf-8"?>'
+
+const DISCOVERY_PROPS = `<d:propfind xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav">
+  <d:prop>
+    <d:current-user-principal/>
+    <card:addressbook-home-set/>
+    <d:resourcetype/>
+    <d:displayname/>
+    <d:supported-report-set/>
+  </d:prop>
+</d:propfind>`
+
+const ETAG_PROPS = `<d:propfind xmlns:d="DAV:"><d:prop><d:getetag/></d:prop></d:propfind>`
+
+function parseStatus(line: string | undefined): number | null {
+  const match = line?.match(/^HTTP\/[\d.]+\s+(\d{3})/)
+  return match ? Number(match[1]) : null
+}
+
+// Absolute URL of the href inside a property (current-user-principal, addressbook-home-set)
+function hrefOf(prop: XmlElement | undefined, baseUrl: string): string | undefined {
+  const href = prop && elementText(prop, "href")
+  return href ? new URL(href, baseUrl).toString() : undefined
+}
+
+function isCollection(url: string, other: string): boolean {
+  return url.replace(/\/$/, "") === other.replace(/\/$/, "")
+}
+
+// CardDAV client used by the /api/carddav route: finds the address books of an account (RFC 6352),
+// lists what changed since a sync token (RFC 6578), falling back to a full listing, and reads and
+// writes single contacts with ETag preconditions.
+export class CardDavClient {
+  constructor(private credentials: CardDavCredentials, private options: CardDavClientOptions) {}
+
+  private get authorization(): string {
+    const { username, password } = this.credentials
+    return username
+      ? `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`
+      : `Bearer ${password}`
+  }
+
+  private async request(method: string, url: string, options: RequestOptions = {}): Promise<DavResult> {
+    let target = new URL(url)
+
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      // The server is reached from our backend: unless allowed, refuse hosts on private networks
+      await checkOutboundUrl(target, this.options.allowPrivateHosts)
+
+      const headers: Record<string, string> = { "Authorization": this.authorization, ...options.headers }
+      if (options.contentType) headers["Content-Type"] = options.contentType
+      if (options.depth) headers["Depth"] = options.depth
+
+      const response = await fetchOutbound(target, {
+        method,
+        headers,
+        body: options.body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      }, this.options.allowPrivateHosts)
+
+      // Redirects are followed here so that every hop is checked (servers redirect /.well-known/carddav).
+      // The credentials only go to the server the request was made to, never to another origin.
+      const location = response.headers.get("location")
+      if (response.status >= 300 && response.status < 400 && location) {
+        const next = new URL(location, target)
+        if (next.origin !== target.origin) {
+          throw new Error(`The server redirected to ${next.origin}. Use ${next.toString()} as the server URL instead`)
+        }
+        target = next
+        continue
+      }
+      if (response.status === 401 || (response.status === 403 && method === "PROPFIND")) {
+        throw new Error("The server rejected the user name or password")
+      }
+      return {
+        status: response.status,
+        url: target.toString(),
+        etag: response.headers.get("etag"),
+        body: await response.text(),
+      }
+    }
+    throw new Error("Too many redirects")
+  }
+
+  private requestXml(method: string, url: string, body: string, depth?: "0" | "1"): Promise<DavResult> {
+    return this.request(method, url, { body: `${DAV_HEADER}\n${body}`, contentType: "application/xml; charset=utf-8", depth })
+  }
+
+  private parseMultistatus(result: DavResult): DavResponse[] {
+    const root = parseXml(result.body)
+    return findElements(root, "response").map(response => {
+      const props = new Map<string, XmlElement>()
+      for (const propstat of findElements(response, "propstat")) {
+        const status = parseStatus(elementText(propstat, "status"))
+        const prop = childElement(propstat, "prop")
+        if (prop && status !== null && status >= 200 && status < 300) {
+          prop.children.forEach(child => props.set(child.name, child))
+        }
+      }
+      return {
+        href: new URL(elementText(response, "href") || "", result.url).toString(),
+        status: parseStatus(childElement(response, "status")?.text.trim()),
+        props,
+      }
+    })
+  }
+
+  private async propfind(url: string, body: string, depth: "0" | "1"): Promise<{ url: string; responses: DavResponse[] }> {
+    const result = await this.requestXml("PROPFIND", url, body, depth)
+    if (result.status !== 207) {
+      throw new Error(`PROPFIND ${result.url} failed: ${result.status}`)
+    }
+    return { url: result.url, responses: this.parseMultistatus(result) }
+  }
+
+  private toAddressBook(response: DavResponse): AddressBookInfo | null {
+    const resourceType = response.props.get("resourcetype")
+    if (!resourceType || !childElement(resourceType, "addressbook")) return null
+
+    const reports = response.props.get("supported-report-set")
+    return {
+      url: response.href,
+      displayName: response.props.get("displayname")?.text.trim() || decodeURIComponent(new URL(response.href).pathname.split("/").filter(Boolean).pop() || "Contacts"),
+      supportsSync: !!reports && findElements(reports, "sync-collection").length > 0,
+    }
+  }
+
+  // Address books of the account. serverUrl may be the server root (discovery through
+  // /.well-known/carddav and the principal), a principal, a home set or an address book.
+  async discoverAddressBooks(serverUrl: string): Promise<AddressBookInfo[]> {
+    const start = new URL(serverUrl)
+    let homeUrl: string | undefined
+
+    for (const candidate of [start.toString(), new URL("/.well-known/carddav", start).toString()]) {
+      const result = await this.requestXml("PROPFIND", candidate, DISCOVERY_PROPS, "0")
+      if (result.status !== 207) continue
+
+      const self = this.parseMultistatus(result)[0]
+      if (!self) continue
+      const addressBook = this.toAddressBook(self)
+      if (addressBook) return [addressBook]
+
+      homeUrl = hrefOf(self.props.get("addressbook-home-set"), result.url)
+      const principalUrl = hrefOf(self.props.get("current-user-principal"), result.url)
+      if (!homeUrl && principalUrl) {
+        const principal = await this.propfind(principalUrl, DISCOVERY_PROPS, "0")
+        homeUrl = hrefOf(principal.responses[0]?.props.get("addressbook-home-set"), principal.url)
+      }
+      if (homeUrl) break
+    }
+
+    if (!homeUrl) {
+      throw new Error("No CardDAV address books found at this URL")
+    }
+
+    const home = await this.propfind(homeUrl, DISCOVERY_PROPS, "1")
+    const addressBooks = home.responses
+      .map(response => this.toAddressBook(response))
+      .filter((book): book is AddressBookInfo => !!book)
+    if (addressBooks.length === 0) {
+      throw new Error("The account has no address books")
+    }
+    return addressBooks
+  }
+
+  // Hrefs and ETags of the contacts changed since syncToken, or null when the server
+  // does not accept the report (or the token) and a full listing is needed
+  private async syncCollection(addressBookUrl: string, syncToken: string) {
+    const changed = new Map<string, string>()
+    const deleted: string[] = []
+    let token = syncToken
+
+    for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+      const result = await this.requestXml("REPORT", addressBookUrl, `<d:sync-collection xmlns:d="DAV:">
+  <d:sync-token>${escapeXml(token)}</d:sync-token>
+  <d:sync-level>1</d:sync-level>
+  <d:prop><d:getetag/></d:prop>
+</d:sync-collection>`)
+      if (result.status !== 207) return null
+
+      let truncated = false
+      for (const response of this.parseMultistatus(result)) {
+        if (isCollection(response.href, addressBookUrl)) {
+          truncated = response.status === 507
+        } else if (response.status === 404) {
+          deleted.push(response.href)
+          changed.delete(response.href)
+        } else {
+          const etag = response.props.get("getetag")?.text.trim()
+          if (etag) changed.set(response.href, etag)
+        }
+      }
+
+      token = elementText(parseXml(result.body), "sync-token") || token
+      if (!truncated) break
+    }
+    return { changed, deleted, syncToken: token }
+  }
+
+  private async multiget(addressBookUrl: string, hrefs: string[]): Promise<RemoteContact[]> {
+    const contacts: RemoteContact[] = []
+
+    for (let i = 0; i < hrefs.length; i += MULTIGET_BATCH_SIZE) {
+      const batch = hrefs.slice(i, i + MULTIGET_BATCH_SIZE)
+      const result = await this.requestXml("REPORT", addressBookUrl, `<card:addressbook-multiget xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav">
+  <d:prop><d:getetag/><card:address-data/></d:prop>
+${batch.map(href => `  <d:href>${escapeXml(new URL(href).pathname)}</d:href>`).join("\n")}
+</card:addressbook-multiget>`, "1")
+      if (result.status !== 207) {
+        throw new Error(`Failed to fetch contacts: ${result.status}`)
+      }
+
+      for (const response of this.parseMultistatus(result)) {
+        const vcard = response.props.get("address-data")?.text
+        const etag = response.props.get("getetag")?.text.trim()
+        if (vcard && etag) contacts.push({ href: response.href, etag, vcard })
+      }
+    }
+    return contacts
+  }
+
+  // Contacts changed since syncToken (all of them without one) and the hrefs deleted since
+  async getChanges(addressBookUrl: string, syncToken?: string | null): Promise<AddressBookChanges> {
+    let sync = await this.syncCollection(addressBookUrl, syncToken || "")
+    let full = !syncToken
+
+    // An expired token is rejected (403/409 valid-sync-token): start over from an empty one
+    if (!sync && syncToken) {
+      sync = await this.syncCollection(addressBookUrl, "")
+      full = true
+    }
+
+    if (sync) {
+      const contacts = await this.multiget(addressBookUrl, Array.from(sync.changed.keys()))
+      return { contacts, deleted: sync.deleted, syncToken: sync.syncToken || null, full }
+    }
+
+    // No sync-collection support: list every contact with its ETag
+    const listing = await this.propfind(addressBookUrl, ETAG_PROPS, "1")
+    const hrefs = listing.responses
+      .filter(response => !isCollection(response.href, listing.url) && response.props.has("getetag"))
+      .map(response => response.href)
+    return { contacts: await this.multiget(listing.url, hrefs), deleted: [], syncToken: null, full: true }
+  }
+
+  // A contact with its current ETag, or null when it does not exist
+  async getContact(href: string): Promise<RemoteContact | null> {
+    const result = await this.request("GET", href)
+    if (result.status === 404 || result.status === 410) return null
+    if (result.status !== 200) {
+      throw new Error(`Failed to fetch the contact: ${result.status}`)
+    }
+    return { href, etag: result.etag || "", vcard: result.body }
+  }
+
+  // Create (etag null) or update a contact. Writes are conditional: a conflict is returned when
+  // the contact changed on the server since etag (or already exists, for a new one).
+  async putContact(href: string, vcard: string, etag: string | null): Promise<PutContactResult> {
+    const result = await this.request("PUT", href, {
+      body: vcard,
+      contentType: "text/vcard; charset=utf-8",
+      headers: etag ? { "If-Match": etag } : { "If-None-Match": "*" },
+    })
+    if (result.status === 412) return { etag: null, conflict: true }
+    if (result.status < 200 || result.status >= 300) {
+      throw new Error(`Failed to save the contact: ${result.status}`)
+    }
+
+    // Servers that change the vCard on save (e.g. adding a UID) do not return an ETag
+    if (result.etag) return { etag: result.etag, conflict: false }
+    const saved = await this.getContact(href)
+    if (!saved?.etag) {
+      throw new Error("The server did not return the ETag of the saved contact")
+    }
+    return { etag: saved.etag, conflict: false }
+  }
+}
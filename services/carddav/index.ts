@@ -0,0 +1,11 @@
+import { getCardDavConfig } from "@/lib/config"
+import { CardDavClient } from "./client"
+import type { CardDavCredentials } from "./types"
+
+export type { AddressBookChanges, AddressBookInfo, CardDavCredentials, PutContactResult, RemoteContact } from "./types"
+export { CardDavClient }
+
+// Client for an account, with the server limits from the environment configuration
+export function createCardDavClient(credentials: CardDavCredentials): CardDavClient {
+  return new CardDavClient(credentials, getCardDavConfig())
+}
@@ -0,0 +1,32 @@
+// Shapes exchanged between the /api/carddav route and the browser
+
+export interface CardDavCredentials {
+  username?: string   // Empty to send the password as an OAuth bearer token (Google Contacts)
+  password: string
+}
+
+export interface AddressBookInfo {
+  url: string
+  displayName: string
+  supportsSync: boolean   // The server answers sync-collection reports (RFC 6578)
+}
+
+// A contact resource of an address book
+export interface RemoteContact {
+  href: string    // Absolute URL of the resource
+  etag: string
+  vcard: string
+}
+
+export interface AddressBookChanges {
+  contacts: RemoteContact[]   // Contacts added or changed since the sync token; all of them when full
+  deleted: string[]           // Hrefs removed since the sync token
+  syncToken: string | null    // Pass to the next sync; null when the server does not support sync-collection
+  full: boolean               // Every contact was listed: linked contacts missing from the list are gone
+}
+
+// Result of writing a contact
+export interface PutContactResult {
+  etag: string | null   // ETag of the saved contact
+  conflict: boolean     // Not saved: the contact changed in the address book (or already exists)
+}
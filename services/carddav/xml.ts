@@ -0,0 +1,81 @@
+// Minimal XML reader for WebDAV responses. Elements are kept by local name (namespace prefixes
+// are dropped, as DAV: and CardDAV names do not collide); DTDs and processing instructions are skipped.
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string   // Text directly inside the element
+}
+
+const TOKEN_PATTERN = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1)
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case "lt": return "<"
+      case "gt": return ">"
+      case "amp": return "&"
+      case "quot": return '"'
+      case "apos": return "'"
+    }
+    const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+    return String.fromCodePoint(code)
+  })
+}
+
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+// Document root: a "#document" element holding the top-level element
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" }
+  const stack = [root]
+
+  for (const match of Array.from(xml.matchAll(TOKEN_PATTERN))) {
+    const [, cdata, closing, opening, attributes, selfClosing, text] = match
+    const current = stack[stack.length - 1]
+
+    if (cdata !== undefined) {
+      current.text += cdata
+    } else if (closing) {
+      if (stack.length > 1) stack.pop()
+    } else if (opening) {
+      const element: XmlElement = { name: localName(opening), attributes: {}, children: [], text: "" }
+      for (const [, name, doubleQuoted, singleQuoted] of Array.from((attributes || "").matchAll(ATTRIBUTE_PATTERN))) {
+        element.attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted)
+      }
+      current.children.push(element)
+      if (!selfClosing) stack.push(element)
+    } else if (text) {
+      current.text += decodeEntities(text)
+    }
+  }
+  return root
+}
+
+// Direct child with the given local name
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === name)
+}
+
+// All descendants with the given local name, in document order
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = []
+  for (const child of element.children) {
+    if (child.name === name) found.push(child)
+    found.push(...findElements(child, name))
+  }
+  return found
+}
+
+// Trimmed text of the first descendant with the given local name
+export function elementText(element: XmlElement, name: string): string | undefined {
+  const found = findElements(element, name)[0]
+  return found ? found.text.trim() : undefined
+}
@@ -0,0 +1,119 @@
+import type { BusinessCardData } from "@/types"
+import type { BusinessCardSchemaField, OcrExtractionResult } from "@/services/ocr-providers"
+
+// Fields below this score are highlighted for review in BusinessCardDisplay
+export const REVIEW_THRESHOLD = 70
+
+// Score used when the provider gives no probability for a value
+const DEFAULT_PRIOR = 80
+
+// Card fields that get a confidence score, and the schema field they come from
+const SCORED_FIELDS: Array<{ key: keyof BusinessCardData; source: BusinessCardSchemaField }> = [
+  { key: "name", source: "name" },
+  { key: "company", source: "company" },
+  { key: "jobTitle", source: "job_title" },
+  { key: "phone", source: "phone" },
+  { key: "mobile", source: "mobile" },
+  { key: "email", source: "email" },
+  { key: "address", source: "address" },
+  { key: "website", source: "website" },
+  { key: "linkedin", source: "linkedin" },
+  { key: "twitter", source: "twitter" },
+]
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/
+const URL_PATTERN = /^(https?:\/\/)?([\w-]+\.)+[a-z]{2,}(:\d+)?(\/\S*)?$/i
+const HANDLE_PATTERN = /^@?[\w.-]{2,}$/
+
+// Format checks per field; undefined means the field has no fixed format
+function isValidFormat(key: keyof BusinessCardData, value: string): boolean | undefined {
+  switch (key) {
+    case "email":
+      return EMAIL_PATTERN.test(value.trim())
+    case "phone":
+    case "mobile": {
+      const digits = value.replace(/\D/g, "")
+      return digits.length >= 7 && digits.length <= 15 && /^[\d\s()+\-./ext]+$/i.test(value.trim())
+    }
+    case "website":
+      return URL_PATTERN.test(value.trim())
+    case "linkedin":
+    case "twitter":
+      return URL_PATTERN.test(value.trim()) || HANDLE_PATTERN.test(value.trim())
+    default:
+      return undefined
+  }
+}
+
+// Lowercase and strip whitespace/punctuation so "Seoul, Korea" matches "SEOUL KOREA"
+function normalizeText(text: string): string {
+  return text.normalize("NFKC").toLowerCase().replace(/[\s.,;:'"()\-_/\\|·•]+/g, "")
+}
+
+// Fraction (0-1) of the value that literally appears in the raw OCR text
+function rawTextCoverage(key: keyof BusinessCardData, value: string, rawText: string): number {
+  if (key === "phone" || key === "mobile") {
+    const digits = value.replace(/\D/g, "")
+    return digits && rawText.replace(/\D/g, "").includes(digits) ? 1 : 0
+  }
+
+  const normalizedRaw = normalizeText(rawText)
+  if (normalizedRaw.includes(normalizeText(value))) {
+    return 1
+  }
+
+  // Composite values (e.g. an address built from components) may span several lines
+  const words = value.split(/[\s,]+/).map(normalizeText).filter(Boolean)
+  if (words.length === 0) return 0
+  return words.filter(word => normalizedRaw.includes(word)).length / words.length
+}
+
+// Does the full name agree with the separately extracted first/last names?
+function nameCrossCheck(card: BusinessCardData): number {
+  const firstName = card.metadata?.first_name
+  const lastName = card.metadata?.last_name
+  if (!card.name || (!firstName && !lastName)) return 0
+
+  const normalizedName = normalizeText(card.name)
+  const parts = [firstName, lastName].filter((part): part is string => !!part)
+  const matching = parts.filter(part => normalizedName.includes(normalizeText(part))).length
+
+  return matching === parts.length ? 5 : -20
+}
+
+// Compute a 0-99 confidence score for every extracted card field from real signals:
+// provider probabilities, format validation, name cross-checks and raw OCR text presence
+export function computeFieldConfidence(
+  card: BusinessCardData,
+  extraction: OcrExtractionResult
+): Record<string, number> {
+  const confidence: Record<string, number> = {}
+
+  for (const { key, source } of SCORED_FIELDS) {
+    const value = card[key]
+    if (typeof value !== "string" || !value.trim()) continue
+
+    // The main phone falls back to the mobile number when no phone was extracted
+    const sourceField: BusinessCardSchemaField =
+      key === "phone" && !extraction.fields.phone ? "mobile" : source
+    const probability = extraction.fieldProbabilities?.[sourceField]
+    let score = probability !== undefined ? probability * 100 : DEFAULT_PRIOR
+
+    const valid = isValidFormat(key, value)
+    if (valid === true) score += 5
+    if (valid === false) score = Math.min(score, 40)
+
+    if (extraction.rawText) {
+      const coverage = rawTextCoverage(key, value, extraction.rawText)
+      score += coverage === 1 ? 10 : -25 * (1 - coverage)
+    }
+
+    if (key === "name") {
+      score += nameCrossCheck(card)
+    }
+
+    confidence[key] = Math.round(Math.max(0, Math.min(99, score)))
+  }
+
+  return confidence
+}
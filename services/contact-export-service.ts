@@ -1,4 +1,7 @@
 import type { BusinessCardData } from "@/types"
+import { getPersonNameParts, isFamilyNameFirst, inferNameLocale } from "@/lib/name-utils"
+import { toE164 } from "@/lib/phone-utils"
+import { formatAddress, getCardAddress, isEmptyAddress, toVCardAdr } from "@/lib/address-utils"
 
 // Detect if user is on mobile device
 export function isMobileDevice(): boolean {
@@ -13,6 +16,87 @@ export function canUseWebShare(): boolean {
   return typeof window !== 'undefined' && typeof navigator !== 'undefined' && 'share' in navigator
 }
 
+// Escape text values for vCard (backslash, comma, semicolon and newlines)
+function escapeVCardValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Phone number for vCard TEL lines: E.164 when it can be derived, as printed otherwise
+export function formatVCardPhone(card: BusinessCardData, field: "phone" | "mobile" | "fax"): string {
+  const value = field === "fax" ? card.metadata?.fax : card[field]
+  if (!value) return ''
+
+  const stored = field === "phone" ? card.phoneE164 : field === "mobile" ? card.mobileE164 : undefined
+  return stored || toE164(value, card) || value
+}
+
+// vCard name lines: N with locale-aware family/given order, plus phonetic readings
+// (X-PHONETIC-* is understood by iOS/macOS and Android contacts, SORT-STRING by vCard 3.0 clients)
+export function generateVCardNameLines(card: BusinessCardData): string[] {
+  const lines: string[] = []
+  const displayName = card.metadata?.native_name || card.name
+
+  if (!displayName) {
+    // Fallback if no name
+    lines.push('N:;;;;')
+    lines.push('FN:Unknown Contact')
+    return lines
+  }
+
+  const { familyName, givenName, phoneticFamilyName, phoneticGivenName } = getPersonNameParts(card)
+
+  // N: Last;First;Middle;Prefix;Suffix
+  lines.push(`N:${escapeVCardValue(familyName)};${escapeVCardValue(givenName)};;;`)
+  lines.push(`FN:${escapeVCardValue(card.name || displayName)}`)
+
+  if (phoneticFamilyName) {
+    lines.push(`X-PHONETIC-LAST-NAME:${escapeVCardValue(phoneticFamilyName)}`)
+  }
+  if (phoneticGivenName) {
+    lines.push(`X-PHONETIC-FIRST-NAME:${escapeVCardValue(phoneticGivenName)}`)
+  }
+
+  const locale = card.metadata?.name_locale || inferNameLocale(displayName)
+  if (phoneticFamilyName || phoneticGivenName) {
+    const sortParts = isFamilyNameFirst(locale) || !phoneticGivenName
+      ? [phoneticFamilyName, phoneticGivenName]
+      : [phoneticGivenName, phoneticFamilyName]
+    lines.push(`SORT-STRING:${escapeVCardValue(sortParts.filter(Boolean).join(' '))}`)
+  }
+
+  // Keep the romanized name searchable when the display name is in native script
+  if (card.metadata?.romanized_name && card.metadata.romanized_name !== (card.name || displayName)) {
+    lines.push(`NICKNAME:${escapeVCardValue(card.metadata.romanized_name)}`)
+  }
+
+  return lines
+}
+
+// vCard address lines: ADR with structured components plus a LABEL with the printed form
+export function generateVCardAddressLines(card: BusinessCardData): string[] {
+  if (!card.address && !card.addressDetails) return []
+
+  const address = getCardAddress(card)
+  const label = card.address || formatAddress(address)
+  const lines: string[] = []
+
+  if (!isEmptyAddress(address)) {
+    // ADR: Post office box;Extended address;Street;City;State;Postal code;Country
+    lines.push(`ADR;TYPE=WORK:${toVCardAdr(address, escapeVCardValue)}`)
+  } else if (label) {
+    lines.push(`ADR;TYPE=WORK:;;${escapeVCardValue(label)};;;;`)
+  }
+  if (label) {
+    lines.push(`LABEL;TYPE=WORK:${escapeVCardValue(label)}`)
+  }
+
+  return lines
+}
+
 // Generate vCard content for contact import
 export function generateVCard(card: BusinessCardData): string {
   const vCardLines: string[] = []
@@ -22,24 +106,12 @@ export function generateVCard(card: BusinessCardData): string {
   vCardLines.push('VERSION:3.0')
   
   // Name (required field)
-  if (card.name) {
-    // Split name into parts for proper formatting
-    const nameParts = card.name.trim().split(' ')
-    const firstName = nameParts[0] || ''
-    const lastName = nameParts.slice(1).join(' ') || ''
-    
-    // N: Last;First;Middle;Prefix;Suffix
-    vCardLines.push(`N:${lastName};${firstName};;;`)
-    vCardLines.push(`FN:${card.name}`)
-  } else {
-    // Fallback if no name
-    vCardLines.push('N:;;;;')
-    vCardLines.push('FN:Unknown Contact')
-  }
+  vCardLines.push(...generateVCardNameLines(card))
   
   // Organization and title
   if (card.company) {
-    vCardLines.push(`ORG:${card.company}`)
+    const department = card.metadata?.department
+    vCardLines.push(`ORG:${escapeVCardValue(card.company)}${department ? `;${escapeVCardValue(department)}` : ''}`)
   }
   
   if (card.jobTitle) {
@@ -48,11 +120,11 @@ export function generateVCard(card: BusinessCardData): string {
   
   // Phone numbers
   if (card.phone) {
-    vCardLines.push(`TEL;TYPE=WORK,VOICE:${card.phone}`)
+    vCardLines.push(`TEL;TYPE=WORK,VOICE:${formatVCardPhone(card, 'phone')}`)
   }
   
   if (card.mobile && card.mobile !== card.phone) {
-    vCardLines.push(`TEL;TYPE=CELL:${card.mobile}`)
+    vCardLines.push(`TEL;TYPE=CELL:${formatVCardPhone(card, 'mobile')}`)
   }
   
   // Email
@@ -61,16 +133,7 @@ export function generateVCard(card: BusinessCardData): string {
   }
   
   // Address
-  if (card.address) {
-    // ADR: Post office box;Extended address;Street;City;State;Postal code;Country
-    const addressParts = card.address.split(',').map(part => part.trim())
-    const street = addressParts[0] || ''
-    const city = addressParts[1] || ''
-    const state = addressParts[2] || ''
-    
-    vCardLines.push(`ADR;TYPE=WORK:;;${street};${city};${state};;`)
-    vCardLines.push(`LABEL;TYPE=WORK:${card.address}`)
-  }
+  vCardLines.push(...generateVCardAddressLines(card))
   
   // Website
   if (card.website) {
@@ -156,37 +219,67 @@ function downloadVCard(content: string, fileName: string): void {
 export function exportAsCSV(cards: BusinessCardData[]): void {
   const headers = [
     "Name",
+    "First Name",
+    "Last Name",
+    "Native Name",
+    "Romanized Name",
+    "Phonetic First Name",
+    "Phonetic Last Name",
     "Company",
     "Job Title",
     "Phone",
     "Mobile",
     "Email",
     "Address",
+    "Street",
+    "City",
+    "State",
+    "Postal Code",
+    "Country",
     "Website",
     "LinkedIn",
     "Twitter",
+    "Event",
+    "Event Date",
+    "Event Location",
     "Date Added",
   ]
   
   const csvContent = [
     headers.join(","),
-    ...cards.map((card) =>
-      [
+    ...cards.map((card) => {
+      const nameParts = getPersonNameParts(card)
+      const address = getCardAddress(card)
+      return [
         card.name || "",
+        nameParts.givenName,
+        nameParts.familyName,
+        card.metadata?.native_name || "",
+        card.metadata?.romanized_name || "",
+        nameParts.phoneticGivenName || "",
+        nameParts.phoneticFamilyName || "",
         card.company || "",
         card.jobTitle || "",
         card.phone || "",
         card.mobile || "",
         card.email || "",
         card.address || "",
+        [address.street, address.extended].filter(Boolean).join(", "),
+        address.city || "",
+        address.state || "",
+        address.postalCode || "",
+        address.country || "",
         card.website || "",
         card.linkedin || "",
         card.twitter || "",
+        card.event?.name || "",
+        card.event?.date || "",
+        card.event?.location || "",
         card.timestamp ? new Date(card.timestamp).toLocaleDateString() : "",
       ]
         .map((field) => `"${field}"`)
-        .join(","),
-    ),
+        .join(",")
+    }),
   ].join("\n")
 
   const blob = new Blob([csvContent], { type: "text/csv" })
@@ -198,9 +291,14 @@ export function exportAsCSV(cards: BusinessCardData[]): void {
   URL.revokeObjectURL(url)
 }
 
+// Format smartExport uses for this many cards on this device
+export function getSmartExportFormat(cardCount: number): "vCard" | "CSV" {
+  return cardCount === 1 && isMobileDevice() ? "vCard" : "CSV"
+}
+
 // Smart export - choose format based on device and number of cards
 export async function smartExport(cards: BusinessCardData[]): Promise<void> {
-  if (cards.length === 1 && isMobileDevice()) {
+  if (getSmartExportFormat(cards.length) === "vCard") {
     // Single card on mobile - export as contact
     await exportContactAsVCard(cards[0])
   } else {
@@ -0,0 +1,100 @@
+import type { BusinessCardData } from "@/types"
+import { parseVCards } from "@/lib/vcard-parser"
+import { uploadImageWithThumbnail } from "./ocr-service"
+import { EnhancedStorageService } from "./enhanced-storage-service"
+import { findDuplicateCandidates, LIKELY_DUPLICATE_SCORE, type DuplicateCandidate } from "./duplicate-detection-service"
+
+export interface ImportDuplicate {
+  card: BusinessCardData
+  candidates: DuplicateCandidate[]
+}
+
+// What an import would do, without saving anything
+export interface ImportPreview {
+  creates: BusinessCardData[]
+  // Not imported: likely duplicates of existing cards or of cards earlier in the import
+  duplicates: ImportDuplicate[]
+}
+
+export interface ImportResult {
+  saved: BusinessCardData[]
+  duplicates: ImportDuplicate[]
+  failed: BusinessCardData[]
+}
+
+// Embedded photos become the card image, sized like scanned images
+export async function toCardImages(photo: string): Promise<Pick<BusinessCardData, "imageBase64" | "thumbnailBase64"> | null> {
+  try {
+    const blob = await (await fetch(photo)).blob()
+    return await uploadImageWithThumbnail(new File([blob], "photo", { type: blob.type }))
+  } catch (error) {
+    console.error("Failed to read contact photo:", error)
+    return null
+  }
+}
+
+// Cards from .vcf files, with the file name noted on each. A photo that cannot be read is dropped.
+export async function readVCardFiles(files: File[]): Promise<BusinessCardData[]> {
+  const cards: BusinessCardData[] = []
+
+  for (const file of files) {
+    for (const { card, photo } of parseVCards(await file.text())) {
+      const images = photo ? await toCardImages(photo) : null
+      cards.push({ ...card, ...images, originalFilename: file.name })
+    }
+  }
+  return cards
+}
+
+// Candidates when the card is a likely duplicate (an import cannot ask which values to keep)
+export function getLikelyDuplicates(card: BusinessCardData, existing: BusinessCardData[]): DuplicateCandidate[] | null {
+  const candidates = findDuplicateCandidates(card, existing)
+  return candidates.some(candidate => candidate.score >= LIKELY_DUPLICATE_SCORE) ? candidates : null
+}
+
+// Dry run of importCards: which cards would be created and which skipped as duplicates
+export async function previewImport(userId: string, cards: BusinessCardData[]): Promise<ImportPreview> {
+  const preview: ImportPreview = { creates: [], duplicates: [] }
+  const existing = await EnhancedStorageService.getCards(userId)
+
+  for (const card of cards) {
+    const candidates = getLikelyDuplicates(card, existing)
+    if (candidates) {
+      preview.duplicates.push({ card, candidates })
+    } else {
+      preview.creates.push(card)
+      existing.push(card)
+    }
+  }
+  return preview
+}
+
+// Save imported cards, skipping likely duplicates. The collection is fetched once; cards
+// saved during the import are compared too.
+export async function importCards(
+  userId: string,
+  cards: BusinessCardData[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> {
+  const result: ImportResult = { saved: [], duplicates: [], failed: [] }
+  const existing = await EnhancedStorageService.getCards(userId)
+
+  for (const card of cards) {
+    const candidates = getLikelyDuplicates(card, existing)
+    if (candidates) {
+      result.duplicates.push({ card, candidates })
+    } else {
+      try {
+        const saved = await EnhancedStorageService.saveCard(userId, card)
+        existing.push(saved)
+        result.saved.push(saved)
+      } catch (error) {
+        console.error("Failed to save imported card:", error)
+        result.failed.push(card)
+      }
+    }
+    onProgress?.(result.saved.length + result.duplicates.length + result.failed.length, cards.length)
+  }
+
+  return result
+}
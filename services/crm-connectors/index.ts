@@ -0,0 +1,19 @@
+import { getCrmConfig } from "@/lib/config"
+import { RestConnector } from "./rest-connector"
+import type { CrmConnection, CrmConnector } from "./types"
+
+export type { CrmConnection, CrmConnector, CrmConnectorName, CrmLead, CrmSendResult } from "./types"
+export { RestConnector }
+
+// Create the connector for a connection, with the limits from the environment configuration
+export function createCrmConnector(connection: CrmConnection): CrmConnector {
+  const config = getCrmConfig()
+
+  switch (connection.connector) {
+    case "rest":
+    case "webhook":
+      return new RestConnector(connection.connector, connection, config)
+    default:
+      throw new Error(`Unknown CRM connector: ${connection.connector}`)
+  }
+}
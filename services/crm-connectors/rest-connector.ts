@@ -0,0 +1,121 @@
+import { createHash } from "crypto"
+import { checkOutboundUrl, fetchOutbound } from "@/lib/outbound-url"
+import type { CrmConnection, CrmConnector, CrmConnectorName, CrmLead, CrmSendResult } from "./types"
+
+interface RestConnectorOptions {
+  allowPrivateHosts: boolean   // Allow endpoints on localhost and private networks (the local mock CRM)
+  timeoutMs: number
+}
+
+// Worth trying again later: timeouts, rate limits and server errors
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+function toId(value: unknown): string | null {
+  return typeof value === "string" && value ? value : typeof value === "number" ? String(value) : null
+}
+
+// ID of the record in common response shapes: { id }, { Id } (Salesforce), { data: { id } }, { result: { id } }
+function findRecordId(body: unknown): string | null {
+  if (!body || typeof body !== "object") return null
+  const record = body as Record<string, unknown>
+  return toId(record.id) || toId(record.Id) || findRecordId(record.data) || findRecordId(record.result)
+}
+
+// Error message in common response shapes: { error }, { message }, { error: { message } }, [{ message }]
+function findErrorMessage(body: unknown): string | null {
+  if (Array.isArray(body)) return findErrorMessage(body[0])
+  if (!body || typeof body !== "object") return typeof body === "string" && body ? body.slice(0, 200) : null
+  const record = body as Record<string, unknown>
+  if (typeof record.message === "string") return record.message
+  if (typeof record.error === "string") return record.error
+  return findErrorMessage(record.error)
+}
+
+// Generic connector for CRMs reachable over HTTP with a bearer token.
+// "rest": creates records with POST to the collection URL (the mapped fields as the JSON body) and
+// updates them with PATCH to <url>/<id>, using the id the CRM answered with.
+// "webhook": POSTs every send to one URL as { objectType, sourceId, externalId, fields } and
+// leaves creating or updating to the receiver (Zapier, Make, n8n, an internal service...).
+export class RestConnector implements CrmConnector {
+  constructor(
+    readonly name: CrmConnectorName,
+    private connection: CrmConnection,
+    private options: RestConnectorOptions
+  ) {}
+
+  private async request(method: string, url: string, body: unknown, sendId: string): Promise<{ status: number; body: unknown }> {
+    const target = new URL(url)
+    await checkOutboundUrl(target, this.options.allowPrivateHosts)
+
+    const payload = JSON.stringify(body)
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json; charset=utf-8",
+      "Accept": "application/json",
+      // Lets the CRM recognize a retried create or update: the same for every attempt of one send
+      // with the same content, and new for the next send of the card or when it changed in between
+      "Idempotency-Key": `${sendId}-${method}-${createHash("sha256").update(payload).digest("hex").slice(0, 16)}`,
+    }
+    if (this.connection.apiKey) headers["Authorization"] = `Bearer ${this.connection.apiKey}`
+
+    const response = await fetchOutbound(target, {
+      method,
+      headers,
+      body: payload,
+      // Redirects are not followed: the next hop would not be checked, and POST bodies are dropped
+      redirect: "manual",
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    }, this.options.allowPrivateHosts)
+
+    const text = await response.text()
+    let parsed: unknown = text
+    try {
+      parsed = text ? JSON.parse(text) : null
+    } catch {
+      // Not JSON: keep the text for the error message
+    }
+    return { status: response.status, body: parsed }
+  }
+
+  async send(lead: CrmLead): Promise<CrmSendResult> {
+    const baseUrl = this.connection.url.replace(/\/+$/, "")
+    let result: { status: number; body: unknown }
+
+    if (this.name === "webhook") {
+      result = await this.request("POST", this.connection.url, {
+        objectType: this.connection.objectType,
+        sourceId: lead.sourceId,
+        externalId: lead.externalId ?? null,
+        fields: lead.fields,
+      }, lead.sendId)
+    } else {
+      result = lead.externalId
+        ? await this.request("PATCH", `${baseUrl}/${encodeURIComponent(lead.externalId)}`, lead.fields, lead.sendId)
+        : { status: 404, body: null }
+      // Never sent, or deleted in the CRM since: create it
+      if (result.status === 404 || result.status === 410) {
+        result = await this.request("POST", this.connection.url, lead.fields, lead.sendId)
+      }
+    }
+
+    const { status, body } = result
+    if (status >= 200 && status < 300) {
+      return { sourceId: lead.sourceId, externalId: findRecordId(body) || lead.externalId || null }
+    }
+    if (status >= 300 && status < 400) {
+      return { sourceId: lead.sourceId, externalId: null, error: "The CRM redirected the request; use the final URL", retryable: false }
+    }
+    if (status === 401 || status === 403) {
+      return { sourceId: lead.sourceId, externalId: null, error: "The CRM rejected the API key", retryable: false }
+    }
+
+    const message = findErrorMessage(body)
+    return {
+      sourceId: lead.sourceId,
+      externalId: null,
+      error: `The CRM answered ${status}${message ? `: ${message}` : ""}`,
+      retryable: isRetryableStatus(status),
+    }
+  }
+}
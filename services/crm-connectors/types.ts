@@ -0,0 +1,34 @@
+import type { CrmRecord } from "@/lib/crm-mapping"
+
+export type CrmConnectorName = "rest" | "webhook"
+
+// The CRM endpoint chosen in the CRM settings, sent along with every request to /api/crm
+export interface CrmConnection {
+  connector: CrmConnectorName
+  url: string          // Collection URL of the REST API (https://crm.example.com/api/leads) or the webhook URL
+  apiKey?: string      // Sent as a bearer token
+  objectType: string   // "lead", "contact"...
+}
+
+// A card to create or update in the CRM
+export interface CrmLead {
+  sourceId: string             // ID of the card
+  externalId?: string | null   // ID from an earlier send: the record is updated instead of created
+  sendId: string               // ID of this send of the card, kept by its retries
+  fields: CrmRecord
+}
+
+export interface CrmSendResult {
+  sourceId: string
+  externalId: string | null    // ID of the record in the CRM, when it answered with one
+  error?: string
+  retryable?: boolean          // The error may pass (network, server error, rate limit); otherwise the CRM refused the record
+}
+
+// A pluggable CRM backend (generic REST API, webhook...). Salesforce, HubSpot and others can be
+// added as connectors that turn the mapped fields into their API calls.
+export interface CrmConnector {
+  readonly name: CrmConnectorName
+  // Create or update the record for the lead; network failures throw
+  send(lead: CrmLead): Promise<CrmSendResult>
+}
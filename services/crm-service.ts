@@ -0,0 +1,228 @@
+import type { BusinessCardData, CrmStatus } from "@/types"
+import { auth } from "@/lib/firebase"
+import { mapCardToCrm, type CrmFieldMapping } from "@/lib/crm-mapping"
+import type { CrmConnection, CrmLead, CrmSendResult } from "./crm-connectors/types"
+import { EnhancedStorageService } from "./enhanced-storage-service"
+import { offlineStorageService } from "./offline-storage-service"
+import { logCardActivity } from "./activity-log-service"
+
+export type { CrmConnection, CrmConnectorName } from "./crm-connectors/types"
+
+// Server-side CRM route (the CRM is called from our backend, see app/api/crm)
+const CRM_API_URL = "/api/crm"
+
+// Leads accepted by the route in one request
+export const CRM_BATCH_SIZE = 25
+
+// The CRM endpoint and how cards map to its records, kept per user in localStorage
+export interface CrmSettings extends CrmConnection {
+  mapping: CrmFieldMapping[]
+}
+
+export interface CrmSendSummary {
+  sent: BusinessCardData[]     // Created or updated in the CRM
+  queued: BusinessCardData[]   // Failed for now (or offline); retried from the offline queue
+  failed: BusinessCardData[]   // Refused by the CRM (invalid record, wrong URL or API key)
+}
+
+type CrmOutcome = "sent" | "retry" | "failed"
+
+function getSettingsKey(userId: string): string {
+  return `crm_settings_${userId}`
+}
+
+export function loadCrmSettings(userId: string): CrmSettings | null {
+  try {
+    const saved = localStorage.getItem(getSettingsKey(userId))
+    return saved ? JSON.parse(saved) : null
+  } catch (error) {
+    console.error("Failed to load CRM settings:", error)
+    return null
+  }
+}
+
+// Save the settings, or remove them with null
+export function saveCrmSettings(userId: string, settings: CrmSettings | null): void {
+  try {
+    if (settings) {
+      localStorage.setItem(getSettingsKey(userId), JSON.stringify(settings))
+    } else {
+      localStorage.removeItem(getSettingsKey(userId))
+    }
+  } catch (error) {
+    console.error("Failed to save CRM settings:", error)
+  }
+}
+
+// Host of the CRM endpoint, to name it in the UI and the activity timeline
+export function getCrmName(settings: Pick<CrmSettings, "url">): string {
+  try {
+    return new URL(settings.url).host
+  } catch {
+    return settings.url
+  }
+}
+
+// Send up to CRM_BATCH_SIZE leads through the route. When the route itself fails, every lead
+// gets its error: retryable unless the route refused the request (bad settings).
+async function postLeads(settings: CrmSettings, leads: CrmLead[]): Promise<CrmSendResult[]> {
+  const failAll = (error: string, retryable: boolean) =>
+    leads.map(lead => ({ sourceId: lead.sourceId, externalId: null, error, retryable }))
+
+  const currentUser = auth.currentUser
+  if (!currentUser) {
+    return failAll("Please sign in to send cards to the CRM.", true)
+  }
+
+  const { connector, url, apiKey, objectType } = settings
+  let response: Response
+  try {
+    const idToken = await currentUser.getIdToken()
+    response = await fetch(CRM_API_URL, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${idToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ connection: { connector, url, apiKey: apiKey || undefined, objectType }, leads }),
+    })
+  } catch (error) {
+    return failAll(error instanceof Error ? error.message : "Failed to reach the server", true)
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    return failAll(body?.error || `CRM request failed: ${response.status} ${response.statusText}`, response.status >= 500)
+  }
+  return (await response.json()).results
+}
+
+// A queued card is sent again under the ID of the send that failed, so the CRM can tell its
+// retries from a new send; any other send gets a new ID
+function getSendId(card: BusinessCardData, settings: CrmSettings): string {
+  const crm = card.crm
+  return crm?.state === "queued" && crm.target === settings.url && crm.sendId ? crm.sendId : crypto.randomUUID()
+}
+
+function toStatus(card: BusinessCardData, settings: CrmSettings, result: CrmSendResult, outcome: CrmOutcome, sendId: string): CrmStatus {
+  const now = new Date().toISOString()
+  // A send to another endpoint starts over; otherwise the record ID and last send are kept
+  const previous = card.crm?.target === settings.url ? card.crm : null
+
+  if (outcome === "sent") {
+    return { state: "sent", target: settings.url, externalId: result.externalId || undefined, sentAt: now, updatedAt: now }
+  }
+  return {
+    state: outcome === "retry" ? "queued" : "failed",
+    target: settings.url,
+    externalId: previous?.externalId,
+    sentAt: previous?.sentAt,
+    error: result.error,
+    sendId: outcome === "retry" ? sendId : undefined,
+    updatedAt: now,
+  }
+}
+
+// Send the cards in batches and record each card's status. The last attempt of a retry
+// turns a passing error into a failure.
+async function deliver(
+  userId: string,
+  settings: CrmSettings,
+  cards: BusinessCardData[],
+  isLastAttempt: boolean,
+  onProgress?: (done: number, total: number) => void
+): Promise<Array<{ card: BusinessCardData; outcome: CrmOutcome }>> {
+  const delivered: Array<{ card: BusinessCardData; outcome: CrmOutcome }> = []
+  const sentIds: string[] = []
+
+  for (let start = 0; start < cards.length; start += CRM_BATCH_SIZE) {
+    const batch = cards.slice(start, start + CRM_BATCH_SIZE)
+    const leads: CrmLead[] = batch.map(card => ({
+      sourceId: card.id!,
+      externalId: card.crm?.target === settings.url ? card.crm.externalId || null : null,
+      sendId: getSendId(card, settings),
+      fields: mapCardToCrm(card, settings.mapping),
+    }))
+    const results = await postLeads(settings, leads)
+
+    for (let i = 0; i < batch.length; i++) {
+      const result = results[i] || { sourceId: batch[i].id!, externalId: null, error: "No answer for this card", retryable: true }
+      const outcome: CrmOutcome = !result.error ? "sent" : result.retryable && !isLastAttempt ? "retry" : "failed"
+      let card = batch[i]
+      try {
+        card = await EnhancedStorageService.updateCrmStatus(userId, card, toStatus(card, settings, result, outcome, leads[i].sendId))
+      } catch (error) {
+        // The send itself went through; only the status shown on the card is stale
+        console.error("Failed to save CRM status:", error)
+      }
+      if (outcome === "sent") sentIds.push(card.id!)
+      delivered.push({ card, outcome })
+    }
+    onProgress?.(Math.min(start + batch.length, cards.length), cards.length)
+  }
+
+  if (sentIds.length > 0) {
+    logCardActivity(userId, sentIds, "sent", { detail: getCrmName(settings) })
+  }
+  return delivered
+}
+
+// Send cards to the CRM: new cards create a lead or contact, cards sent before update theirs.
+// Cards that fail with a passing error, and all cards while offline, go to the offline queue
+// and are sent again when the pending uploads sync.
+export async function sendCardsToCrm(
+  userId: string,
+  settings: CrmSettings,
+  cards: BusinessCardData[],
+  onProgress?: (done: number, total: number) => void
+): Promise<CrmSendSummary> {
+  const summary: CrmSendSummary = { sent: [], queued: [], failed: [] }
+  const isOnline = offlineStorageService.isOnline()
+
+  // Cards only saved offline have no ID the CRM could keep; they are sent once they sync
+  const waiting = cards.filter(card => !isOnline || card.id!.startsWith("offline_"))
+  const ready = cards.filter(card => !waiting.includes(card))
+
+  for (const card of waiting) {
+    const error = isOnline ? "Waiting for the card to sync" : "Waiting for a connection"
+    const result = { sourceId: card.id!, externalId: null, error, retryable: true }
+    summary.queued.push(await EnhancedStorageService.updateCrmStatus(userId, card, toStatus(card, settings, result, "retry", getSendId(card, settings))))
+    await offlineStorageService.queueCrmSend(userId, card.id!)
+  }
+
+  for (const { card, outcome } of await deliver(userId, settings, ready, false, onProgress)) {
+    if (outcome === "retry") {
+      await offlineStorageService.queueCrmSend(userId, card.id!)
+      summary.queued.push(card)
+    } else {
+      await offlineStorageService.removeCrmSend(card.id!)
+      summary[outcome].push(card)
+    }
+  }
+
+  return summary
+}
+
+// Send a queued card again (called by the offline queue). Uses the card and settings as they are
+// now; a card that was deleted, or a CRM that was disconnected, ends the retries.
+export async function retryCrmSend(userId: string, cardId: string, isLastAttempt: boolean): Promise<CrmOutcome> {
+  const card = await offlineStorageService.getCachedCard(cardId)
+  if (!card) return "failed"
+
+  const settings = loadCrmSettings(userId)
+  if (!settings) {
+    const crm: CrmStatus = {
+      ...card.crm,
+      state: "failed",
+      target: card.crm?.target || "",
+      error: "The CRM is no longer set up",
+      sendId: undefined,
+      updatedAt: new Date().toISOString(),
+    }
+    await EnhancedStorageService.updateCrmStatus(userId, card, crm)
+    return "failed"
+  }
+
+  const [{ outcome }] = await deliver(userId, settings, [card], isLastAttempt)
+  return outcome
+}
@@ -0,0 +1,353 @@
+import type { BusinessCardData } from "@/types"
+import { detectNameScript, romanizeName } from "@/lib/name-utils"
+import { phonesMatch } from "@/lib/phone-utils"
+import { normalizeText, tokenSimilarity } from "@/lib/similarity"
+
+// Candidates scoring below this are not reported as possible duplicates
+export const DUPLICATE_THRESHOLD = 50
+
+// Candidates at or above this are treated as the same contact where nobody is asked (batch scans)
+export const LIKELY_DUPLICATE_SCORE = 70
+
+export type DuplicateReasonType = "email" | "phone" | "name" | "company" | "domain"
+
+export interface DuplicateReason {
+  type: DuplicateReasonType
+  label: string       // Human-readable explanation ("Same phone number")
+  weight: number      // Contribution of this signal, 0..1
+}
+
+export interface DuplicateCandidate {
+  card: BusinessCardData
+  score: number       // 0..100, likelihood that both cards are the same person
+  reasons: DuplicateReason[]
+}
+
+// Shared mailbox providers: a matching domain says nothing about the employer
+const FREE_MAIL_DOMAINS = [
+  "gmail.com", "googlemail.com", "yahoo.com", "yahoo.co.jp", "hotmail.com", "outlook.com", "live.com",
+  "icloud.com", "me.com", "aol.com", "proton.me", "protonmail.com", "naver.com", "daum.net",
+  "hanmail.net", "kakao.com", "nate.com", "qq.com", "163.com", "126.com",
+]
+
+// Legal-form words that do not distinguish companies ("Upstage Inc." == "Upstage Co., Ltd.")
+const COMPANY_SUFFIXES = /\b(inc|incorporated|corp|corporation|co|company|ltd|limited|llc|llp|plc|gmbh|ag|sa|sas|bv|nv|kk|pte|pty|group|holdings)\b\.?|주식회사|\(주\)|㈜|株式会社|有限会社|有限公司|股份有限公司/g
+
+// Romanization variants collapse onto one key so "Cheolsu"/"Chulsoo" and "Jeong"/"Jung" compare equal
+function romanizationKey(value: string): string {
+  return normalizeText(value)
+    .replace(/[^a-z\s]/g, "")
+    .replace(/eo|oo|ou/g, "u")
+    .replace(/ee|yi/g, "i")
+    .replace(/ae/g, "e")
+    .replace(/g/g, "k")
+    .replace(/b/g, "p")
+    .replace(/d/g, "t")
+    .replace(/r/g, "l")
+}
+
+type NameVariant = { value: string; transliterated: boolean }
+
+// Derived values are cached per card object: clustering scores each card many times
+const nameVariantCache = new WeakMap<BusinessCardData, NameVariant[]>()
+const domainCache = new WeakMap<BusinessCardData, string[]>()
+
+// Every spelling of a card's name: as printed, native, romanized, phonetic and transliterated
+function getNameVariants(card: BusinessCardData): NameVariant[] {
+  const cached = nameVariantCache.get(card)
+  if (cached) return cached
+
+  const metadata = card.metadata || {}
+  const printed = [card.name, metadata.native_name, metadata.romanized_name]
+    .filter((value): value is string => !!value && !!value.trim())
+
+  const phonetic = [metadata.phonetic_last_name, metadata.phonetic_first_name].filter(Boolean).join(" ")
+  if (phonetic) printed.push(phonetic)
+
+  const variants = printed.map(value => ({ value, transliterated: false }))
+  for (const value of printed) {
+    if (detectNameScript(value) === "latin") continue
+    for (const romanized of romanizeName(value)) {
+      variants.push({ value: romanized, transliterated: true })
+    }
+  }
+  nameVariantCache.set(card, variants)
+  return variants
+}
+
+function nameSimilarity(a: BusinessCardData, b: BusinessCardData): { similarity: number; transliterated: boolean } {
+  let best = { similarity: 0, transliterated: false }
+
+  for (const variantA of getNameVariants(a)) {
+    for (const variantB of getNameVariants(b)) {
+      // Names in different scripts can only be compared after transliteration
+      const scriptA = detectNameScript(variantA.value)
+      const scriptB = detectNameScript(variantB.value)
+      if ((scriptA === "latin") !== (scriptB === "latin")) continue
+
+      const similarity = scriptA === "latin"
+        ? Math.max(tokenSimilarity(variantA.value, variantB.value), tokenSimilarity(romanizationKey(variantA.value), romanizationKey(variantB.value)))
+        : tokenSimilarity(variantA.value, variantB.value)
+
+      if (similarity > best.similarity) {
+        best = { similarity, transliterated: variantA.transliterated || variantB.transliterated }
+      }
+    }
+  }
+
+  return best
+}
+
+function normalizeCompany(company: string): string {
+  return normalizeText(company).replace(COMPANY_SUFFIXES, " ").replace(/[^\p{L}\p{N}\s]/gu, " ").replace(/\s+/g, " ").trim()
+}
+
+function companySimilarity(a?: string, b?: string): number {
+  if (!a || !b) return 0
+  const companyA = normalizeCompany(a)
+  const companyB = normalizeCompany(b)
+  if (!companyA || !companyB) return 0
+  if (companyA === companyB) return 1
+
+  // "Upstage" vs "Upstage AI"
+  const [shorter, longer] = companyA.length < companyB.length ? [companyA, companyB] : [companyB, companyA]
+  if (shorter.length >= 4 && longer.split(" ").includes(shorter.split(" ")[0]) && longer.includes(shorter)) return 0.9
+
+  return tokenSimilarity(companyA, companyB)
+}
+
+function getCardDomains(card: BusinessCardData): string[] {
+  const cached = domainCache.get(card)
+  if (cached) return cached
+
+  const domains: string[] = []
+  const emailDomain = card.email?.split("@")[1]?.toLowerCase().trim()
+  if (emailDomain) domains.push(emailDomain)
+
+  if (card.website) {
+    const host = card.website.toLowerCase().replace(/^https?:\/\//, "").split("/")[0].replace(/^www\./, "")
+    if (host) domains.push(host)
+  }
+  const result = domains.filter(domain => !FREE_MAIL_DOMAINS.includes(domain))
+  domainCache.set(card, result)
+  return result
+}
+
+// Score how likely two cards describe the same person, with the signals that contributed.
+// Independent signals are combined as 1 - Π(1 - weight), so several weak matches add up
+// while a single strong identifier (email, phone) is enough on its own.
+export function scoreDuplicate(card: BusinessCardData, other: BusinessCardData): { score: number; reasons: DuplicateReason[] } {
+  const reasons: DuplicateReason[] = []
+
+  const emailA = card.email?.toLowerCase().trim()
+  const emailB = other.email?.toLowerCase().trim()
+  if (emailA && emailB && emailA === emailB) {
+    reasons.push({ type: "email", label: "Same email address", weight: 0.9 })
+  } else {
+    const domainsB = getCardDomains(other)
+    const sharedDomain = getCardDomains(card).find(domain => domainsB.includes(domain))
+    if (sharedDomain) {
+      reasons.push({ type: "domain", label: `Same company domain (${sharedDomain})`, weight: 0.25 })
+    }
+  }
+
+  if (phonesMatch(card, other)) {
+    reasons.push({ type: "phone", label: "Same phone number", weight: 0.85 })
+  }
+
+  const name = nameSimilarity(card, other)
+  if (name.similarity >= 0.99) {
+    reasons.push({ type: "name", label: name.transliterated ? "Same name (transliterated)" : "Same name", weight: 0.7 })
+  } else if (name.similarity >= 0.88) {
+    const percent = Math.round(name.similarity * 100)
+    reasons.push({
+      type: "name",
+      label: `Similar name (${percent}%${name.transliterated ? ", transliterated" : ""})`,
+      weight: 0.6 * (name.similarity - 0.85) / 0.14,
+    })
+  }
+
+  const company = companySimilarity(card.company, other.company)
+  if (company >= 0.85) {
+    reasons.push({ type: "company", label: company === 1 ? "Same company" : "Similar company name", weight: 0.3 * company })
+  }
+
+  let probability = 1 - reasons.reduce((remaining, reason) => remaining * (1 - reason.weight), 1)
+
+  // Both names known and clearly different: a shared number or domain is likely a colleague
+  const bothNamed = !!(card.name && other.name)
+  if (bothNamed && name.similarity < 0.75 && !reasons.some(reason => reason.type === "email")) {
+    probability *= 0.5
+  }
+
+  return {
+    score: Math.round(probability * 100),
+    reasons: reasons.sort((a, b) => b.weight - a.weight),
+  }
+}
+
+// Ranked duplicate candidates for a card among existing cards (the card itself is skipped)
+export function findDuplicateCandidates(
+  card: BusinessCardData,
+  existingCards: BusinessCardData[],
+  threshold: number = DUPLICATE_THRESHOLD,
+): DuplicateCandidate[] {
+  return existingCards
+    .filter(existing => !card.id || existing.id !== card.id)
+    .map(existing => ({ card: existing, ...scoreDuplicate(card, existing) }))
+    .filter(candidate => candidate.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+}
+
+export interface DuplicateCluster {
+  id: string                  // Stable key: sorted card IDs
+  cards: BusinessCardData[]   // Suggested primary card first
+  score: number               // Weakest link that joined the cluster, 0..100
+  reasons: string[]           // Distinct reason labels across the cluster
+}
+
+// Key for a pair of cards, used to remember dismissed pairs
+export function duplicatePairKey(idA: string, idB: string): string {
+  return idA < idB ? `${idA}|${idB}` : `${idB}|${idA}`
+}
+
+// Blocks larger than this (e.g. a shared company domain) are too unspecific to compare pairwise
+const MAX_BLOCK_SIZE = 100
+
+// Cheap keys that any likely duplicate pair shares, so only cards in the same block are scored
+function getBlockingKeys(card: BusinessCardData): string[] {
+  const keys = new Set<string>()
+
+  const email = card.email?.toLowerCase().trim()
+  if (email) keys.add(`email:${email}`)
+
+  for (const phone of [card.phoneE164, card.mobileE164, card.phone, card.mobile]) {
+    const digits = phone?.replace(/\D/g, "")
+    // Last 8 digits survive differing country/trunk prefixes
+    if (digits && digits.length >= 7) keys.add(`phone:${digits.slice(-8)}`)
+  }
+
+  for (const domain of getCardDomains(card)) keys.add(`domain:${domain}`)
+
+  // Pairs of name-token prefixes: "Chul Soo Kim" and "Kim Chulsoo" share "chu|kim"
+  for (const variant of getNameVariants(card)) {
+    if (detectNameScript(variant.value) !== "latin") {
+      keys.add(`name:${normalizeText(variant.value).replace(/\s+/g, "")}`)
+      continue
+    }
+    const prefixes = [...new Set(romanizationKey(variant.value).split(/\s+/).filter(Boolean).map(token => token.slice(0, 3)))].sort()
+    if (prefixes.length === 1) keys.add(`name:${prefixes[0]}`)
+    for (let i = 0; i < prefixes.length; i++) {
+      for (let j = i + 1; j < prefixes.length; j++) {
+        keys.add(`name:${prefixes[i]}|${prefixes[j]}`)
+      }
+    }
+  }
+
+  return [...keys]
+}
+
+// How complete a card is, to suggest which card of a cluster to keep
+function completeness(card: BusinessCardData): number {
+  const fields = [card.name, card.company, card.jobTitle, card.phone, card.mobile, card.email, card.address, card.website, card.linkedin, card.twitter, card.notes, card.imageBase64]
+  return fields.filter(Boolean).length
+}
+
+// Group the whole collection into clusters of likely duplicates. Dismissed pairs (see
+// duplicatePairKey) are never joined directly, though both cards may still end up in one
+// cluster through a third card.
+export function clusterDuplicates(
+  cards: BusinessCardData[],
+  threshold: number = DUPLICATE_THRESHOLD,
+  dismissedPairs: Set<string> = new Set(),
+): DuplicateCluster[] {
+  const indexed = cards.filter(card => !!card.id)
+
+  // Union-find over card indexes
+  const parent = indexed.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  const blocks = new Map<string, number[]>()
+  indexed.forEach((card, i) => {
+    for (const key of getBlockingKeys(card)) {
+      const members = blocks.get(key) || []
+      members.push(i)
+      blocks.set(key, members)
+    }
+  })
+
+  const edges: Array<{ a: number; b: number; score: number; reasons: DuplicateReason[] }> = []
+  const compared = new Set<string>()
+
+  for (const members of blocks.values()) {
+    if (members.length > MAX_BLOCK_SIZE) continue
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const a = members[x]
+        const b = members[y]
+        const pairKey = duplicatePairKey(indexed[a].id!, indexed[b].id!)
+        if (compared.has(pairKey)) continue
+        compared.add(pairKey)
+        if (dismissedPairs.has(pairKey)) continue
+
+        const { score, reasons } = scoreDuplicate(indexed[a], indexed[b])
+        if (score >= threshold) edges.push({ a, b, score, reasons })
+      }
+    }
+  }
+
+  // Strongest links first, so each cluster's score is its weakest necessary link
+  edges.sort((first, second) => second.score - first.score)
+  const clusterScores = new Map<number, number>()
+  const clusterReasons = new Map<number, Set<string>>()
+
+  for (const edge of edges) {
+    const rootA = find(edge.a)
+    const rootB = find(edge.b)
+    const reasons = new Set([
+      ...(clusterReasons.get(rootA) || []),
+      ...(clusterReasons.get(rootB) || []),
+      ...edge.reasons.map(reason => reason.label),
+    ])
+
+    if (rootA !== rootB) {
+      parent[rootB] = rootA
+      clusterScores.set(rootA, Math.min(edge.score, clusterScores.get(rootA) ?? 100, clusterScores.get(rootB) ?? 100))
+    }
+    clusterReasons.set(rootA, reasons)
+  }
+
+  const groups = new Map<number, BusinessCardData[]>()
+  indexed.forEach((card, i) => {
+    const root = find(i)
+    const members = groups.get(root) || []
+    members.push(card)
+    groups.set(root, members)
+  })
+
+  const clusters: DuplicateCluster[] = []
+  for (const [root, members] of groups) {
+    if (members.length < 2) continue
+
+    // Most complete card first, the oldest on ties
+    members.sort((a, b) =>
+      completeness(b) - completeness(a) ||
+      (a.timestamp || "").localeCompare(b.timestamp || "")
+    )
+
+    clusters.push({
+      id: members.map(card => card.id!).sort().join("|"),
+      cards: members,
+      score: clusterScores.get(root) ?? threshold,
+      reasons: [...(clusterReasons.get(root) || [])],
+    })
+  }
+
+  return clusters.sort((a, b) => b.score - a.score)
+}
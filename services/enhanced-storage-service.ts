@@ -1,6 +1,41 @@
-import type { BusinessCardData } from "@/types"
+import type {
+  BusinessCardData,
+  CardActivity,
+  CardDavLink,
+  CardEvent,
+  CardGroup,
+  CardOrganization,
+  CardPage,
+  CardPageOptions,
+  CardVersion,
+  CrmStatus,
+  FollowUpTask,
+  TrashedCard,
+} from "@/types"
 import { StorageService } from "./storage-service"
 import { offlineStorageService } from "./offline-storage-service"
+import { withNormalizedPhones } from "@/lib/phone-utils"
+import { withStructuredAddress } from "@/lib/address-utils"
+import { findDuplicateCandidates, type DuplicateCandidate } from "./duplicate-detection-service"
+import { searchIndexService, type CardSearchResult } from "./search-index-service"
+import { tokenize } from "@/lib/search-utils"
+import { collectEvents } from "@/lib/card-events"
+import { sortActivity } from "@/lib/card-activity"
+import { isTrashExpired, restoreVersion } from "@/lib/card-history"
+import { getGeocodeQuery, needsGeocoding } from "@/lib/geo-utils"
+import { GEOCODE_BATCH_SIZE, requestGeocoding } from "./geocoding-service"
+import { notifyCardEvent } from "./webhook-service"
+import {
+  collectKnownValues,
+  getFilterHighlightText,
+  matchesQueryFilters,
+  parseSearchQuery,
+  type QueryTextField,
+} from "@/lib/search-query"
+
+// Rebuild the search index from the whole collection when it is older than this,
+// to pick up cards changed on other devices
+const SEARCH_INDEX_MAX_AGE_MS = 15 * 60 * 1000
 
 export class EnhancedStorageService {
   // Check if online
@@ -8,8 +43,20 @@ export class EnhancedStorageService {
     return navigator.onLine
   }
 
+  // Keep the search index current; a failure only makes search stale until the next rebuild
+  private static async updateSearchIndex(userId: string, cards: BusinessCardData[], removedIds: string[] = []): Promise<void> {
+    try {
+      await searchIndexService.indexCards(userId, cards)
+      await searchIndexService.removeCards(userId, removedIds)
+    } catch (error) {
+      console.error('Failed to update search index:', error)
+    }
+  }
+
   // Save card with offline support
-  static async saveCard(userId: string, cardData: BusinessCardData): Promise<BusinessCardData> {
+  static async saveCard(userId: string, card: BusinessCardData): Promise<BusinessCardData> {
+    const cardData = withNormalizedPhones(withStructuredAddress(card))
+
     if (this.isOnline()) {
       try {
         // Try to save online first
@@ -17,6 +64,7 @@ export class EnhancedStorageService {
         
         // Cache the saved card for offline access
         await offlineStorageService.cacheCard(savedCard)
+        await this.updateSearchIndex(userId, [savedCard])
         
         return savedCard
       } catch (error) {
@@ -41,10 +89,11 @@ export class EnhancedStorageService {
     }
 
     // Add to pending uploads for background sync
-    await offlineStorageService.addPendingUpload(userId, cardData)
+    await offlineStorageService.addPendingUpload(userId, cardData, tempId)
     
     // Cache the card with temp ID for immediate viewing
     await offlineStorageService.cacheCard(offlineCard)
+    await this.updateSearchIndex(userId, [offlineCard])
 
     return offlineCard
   }
@@ -65,8 +114,16 @@ export class EnhancedStorageService {
           card.id?.startsWith('offline_') && 
           !onlineCards.some(onlineCard => onlineCard.id === card.id)
         )
+        const allCards = [...onlineCards, ...offlineOnlyCards]
+
+        // The whole collection is at hand, so refresh the search index from it
+        try {
+          await searchIndexService.rebuild(userId, allCards)
+        } catch (error) {
+          console.error('Failed to rebuild search index:', error)
+        }
 
-        return [...onlineCards, ...offlineOnlyCards]
+        return allCards
       } catch (error) {
         console.error('Online fetch failed, using cached cards:', error)
         // Fall back to cached cards
@@ -78,21 +135,138 @@ export class EnhancedStorageService {
     }
   }
 
-  // Delete card with offline support
-  static async deleteCard(userId: string, cardId: string): Promise<void> {
+  // Cards saved before paging existed lack sort keys and would be missing from sorted pages;
+  // backfill them once per user and browser
+  private static async ensureSortFields(userId: string): Promise<void> {
+    const flagKey = `card_sort_fields_v1_${userId}`
+    if (localStorage.getItem(flagKey)) return
+
+    try {
+      const updated = await StorageService.backfillSortFields(userId)
+      if (updated > 0) {
+        console.log(`Added sort fields to ${updated} cards`)
+      }
+      localStorage.setItem(flagKey, new Date().toISOString())
+    } catch (error) {
+      // Try again next time; pages may be missing older cards until then
+      console.error('Sort field backfill failed:', error)
+    }
+  }
+
+  // Cards past the trash retention period are deleted for good whenever the trash is read, and
+  // at most once a day per user and browser when the card list loads, so they expire even for
+  // users who never open the Trash. Best effort: a failed purge is tried again next time.
+  private static async purgeExpiredTrash(userId: string, trash?: TrashedCard[]): Promise<TrashedCard[]> {
+    const entries = trash || await StorageService.getTrash(userId)
+    const expired = entries.filter(entry => isTrashExpired(entry.deletedAt))
+
+    for (const entry of expired) {
+      try {
+        await StorageService.purgeCard(userId, entry.card.id!)
+      } catch (error) {
+        console.error('Failed to purge expired card:', error)
+      }
+    }
+    return entries.filter(entry => !expired.includes(entry))
+  }
+
+  private static purgeExpiredTrashDaily(userId: string): void {
+    const flagKey = `trash_purged_at_${userId}`
+    const lastPurge = Number(localStorage.getItem(flagKey) || 0)
+    if (Date.now() - lastPurge < 24 * 60 * 60 * 1000) return
+
+    localStorage.setItem(flagKey, String(Date.now()))
+    this.purgeExpiredTrash(userId).catch(error => {
+      localStorage.removeItem(flagKey)
+      console.error('Failed to purge expired trash:', error)
+    })
+  }
+
+  // Get one page of cards with offline fallback. pageIndex is the page's position (0 for the first page)
+  // and is used to mirror the page in IndexedDB.
+  static async getCardsPage(userId: string, options: CardPageOptions, pageIndex = 0): Promise<CardPage> {
+    if (this.isOnline()) {
+      try {
+        await this.ensureSortFields(userId)
+        const page = await StorageService.getCardsPage(userId, options)
+
+        // Mirror the page for offline access
+        await offlineStorageService.cacheCardPage(userId, options, pageIndex, page)
+        await this.updateSearchIndex(userId, page.cards)
+
+        // Cards saved offline are not in Firestore yet; show them at the top of the first page
+        if (pageIndex === 0) {
+          this.purgeExpiredTrashDaily(userId)
+          const offlineOnlyCards = (await offlineStorageService.getCachedCards(userId))
+            .filter(card => card.id?.startsWith('offline_'))
+          return { ...page, cards: [...offlineOnlyCards, ...page.cards] }
+        }
+
+        return page
+      } catch (error) {
+        console.error('Online page fetch failed, using cached cards:', error)
+        return this.getCachedCardsPage(userId, options, pageIndex)
+      }
+    } else {
+      return this.getCachedCardsPage(userId, options, pageIndex)
+    }
+  }
+
+  // Get a page from IndexedDB only, e.g. to paint the list before the network answers
+  static async getCachedCardsPage(userId: string, options: CardPageOptions, pageIndex = 0): Promise<CardPage> {
+    try {
+      const mirrored = await offlineStorageService.getCachedCardPage(userId, options, pageIndex)
+      if (mirrored && pageIndex === 0) {
+        const offlineOnlyCards = (await offlineStorageService.getCachedCards(userId))
+          .filter(card => card.id?.startsWith('offline_'))
+        return { ...mirrored, cards: [...offlineOnlyCards, ...mirrored.cards] }
+      }
+      if (mirrored) return mirrored
+    } catch (error) {
+      console.error('Failed to read mirrored page:', error)
+    }
+    return offlineStorageService.getCachedCardsPage(userId, options)
+  }
+
+  // Number of cards in the collection, or of cached cards when offline
+  static async countCards(userId: string): Promise<number> {
+    const cachedCards = await offlineStorageService.getCachedCards(userId)
+    const offlineOnlyCount = cachedCards.filter(card => card.id?.startsWith('offline_')).length
+
+    if (this.isOnline()) {
+      try {
+        return (await StorageService.countCards(userId)) + offlineOnlyCount
+      } catch (error) {
+        console.error('Online count failed, counting cached cards:', error)
+      }
+    }
+    return cachedCards.length
+  }
+
+  // Delete card with offline support. Saved cards go to the trash with their tasks; returns
+  // false when the card was deleted for good (cards saved offline never reached Firestore).
+  static async deleteCard(userId: string, cardId: string): Promise<boolean> {
     // Handle offline-only cards
     if (cardId.startsWith('offline_')) {
       await offlineStorageService.deleteCachedCard(cardId)
-      return
+      await this.updateSearchIndex(userId, [], [cardId])
+      await this.deleteCardTasks(userId, cardId)
+      await offlineStorageService.deleteCachedActivity(cardId)
+      return false
     }
 
     if (this.isOnline()) {
       try {
-        // Delete online
-        await StorageService.deleteCard(userId, cardId)
+        // Move to the trash online, keeping the tasks that are open or done
+        const tasks = (await offlineStorageService.getCachedTasks(userId)).filter(task => task.cardId === cardId)
+        await StorageService.deleteCard(userId, cardId, tasks)
         
         // Remove from cache
         await offlineStorageService.deleteCachedCard(cardId)
+        await this.updateSearchIndex(userId, [], [cardId])
+        await this.deleteCardTasks(userId, cardId)
+        await offlineStorageService.deleteCachedActivity(cardId)
+        return true
       } catch (error) {
         console.error('Online delete failed:', error)
         throw error
@@ -105,11 +279,60 @@ export class EnhancedStorageService {
     }
   }
 
+  // Deleted cards still in the trash; cards past the retention period are purged on the way
+  static async getTrash(userId: string): Promise<TrashedCard[]> {
+    return this.purgeExpiredTrash(userId, await StorageService.getTrash(userId))
+  }
+
+  // Bring a card back from the trash with its tasks; returns the restored card
+  static async restoreCard(userId: string, cardId: string): Promise<BusinessCardData> {
+    if (!this.isOnline()) {
+      throw new Error('Cannot restore cards while offline. Please try again when connected.')
+    }
+
+    const { card, tasks = [] } = await StorageService.restoreCard(userId, cardId)
+    await offlineStorageService.cacheCard(card)
+    await this.updateSearchIndex(userId, [card])
+    for (const task of tasks) {
+      await this.saveTask(userId, task)
+    }
+    return card
+  }
+
+  // Delete a card in the trash for good
+  static async purgeCard(userId: string, cardId: string): Promise<void> {
+    if (!this.isOnline()) {
+      throw new Error('Cannot delete cards while offline. Please try again when connected.')
+    }
+    await StorageService.purgeCard(userId, cardId)
+  }
+
+  // Earlier versions of a card, most recent first. History is kept in Firestore only, so
+  // cards saved offline have none yet.
+  static async getVersions(userId: string, cardId: string): Promise<CardVersion[]> {
+    if (cardId.startsWith('offline_')) return []
+    if (!this.isOnline()) {
+      throw new Error('Card history is not available offline.')
+    }
+    return StorageService.getVersions(userId, cardId)
+  }
+
+  // Put an earlier version's contents back; the current contents become a version in turn.
+  // Returns the card as restored.
+  static async restoreVersion(userId: string, card: BusinessCardData, version: CardVersion): Promise<BusinessCardData> {
+    const restored = restoreVersion(card, version)
+    await this.updateCard(userId, restored)
+    return restored
+  }
+
   // Update card with offline support
-  static async updateCard(userId: string, cardData: BusinessCardData): Promise<void> {
+  static async updateCard(userId: string, card: BusinessCardData): Promise<void> {
+    const cardData = withNormalizedPhones(withStructuredAddress(card))
+
     // Handle offline-only cards
     if (cardData.id?.startsWith('offline_')) {
       await offlineStorageService.cacheCard(cardData)
+      await this.updateSearchIndex(userId, [cardData])
       return
     }
 
@@ -120,6 +343,7 @@ export class EnhancedStorageService {
         
         // Update cache
         await offlineStorageService.cacheCard(cardData)
+        await this.updateSearchIndex(userId, [cardData])
       } catch (error) {
         console.error('Online update failed:', error)
         throw error
@@ -127,34 +351,376 @@ export class EnhancedStorageService {
     } else {
       // When offline, just update cache
       await offlineStorageService.cacheCard(cardData)
+      await this.updateSearchIndex(userId, [cardData])
       throw new Error('Cannot sync card updates while offline. Changes saved locally.')
     }
   }
 
-  // Search cards with offline support
-  static async searchCards(userId: string, query: string): Promise<BusinessCardData[]> {
-    // Get all cards (which handles online/offline automatically)
-    const allCards = await this.getCards(userId)
-    
-    if (!query.trim()) {
-      return allCards
+  // Change favorites, tags or groups of one or more cards; returns the updated cards
+  static async updateOrganization(
+    userId: string,
+    updates: Array<{ card: BusinessCardData; changes: CardOrganization }>
+  ): Promise<BusinessCardData[]> {
+    const updatedCards = updates.map(({ card, changes }) => ({ ...card, ...changes }))
+    const onlineUpdates = updates.filter(({ card }) => card.id && !card.id.startsWith('offline_'))
+    const isOffline = onlineUpdates.length > 0 && !this.isOnline()
+
+    if (!isOffline) {
+      for (const { card, changes } of onlineUpdates) {
+        await StorageService.updateOrganization(userId, card.id!, changes)
+      }
     }
-    
-    const lowercaseQuery = query.toLowerCase()
-    
-    return allCards.filter((card) =>
-      card.name?.toLowerCase().includes(lowercaseQuery) ||
-      card.company?.toLowerCase().includes(lowercaseQuery) ||
-      card.jobTitle?.toLowerCase().includes(lowercaseQuery) ||
-      card.email?.toLowerCase().includes(lowercaseQuery) ||
-      card.phone?.includes(query) ||
-      card.website?.toLowerCase().includes(lowercaseQuery) ||
-      card.address?.toLowerCase().includes(lowercaseQuery)
+
+    for (const card of updatedCards) {
+      await offlineStorageService.cacheCard(card)
+    }
+    await this.updateSearchIndex(userId, updatedCards)
+
+    if (isOffline) {
+      throw new Error('Cannot sync card updates while offline. Changes saved locally.')
+    }
+    return updatedCards
+  }
+
+  // Record where a card stands in the CRM; returns the updated card. Offline (or for cards only
+  // saved offline) the status is kept locally: the queued send stores it once it gets through.
+  static async updateCrmStatus(userId: string, card: BusinessCardData, crm: CrmStatus): Promise<BusinessCardData> {
+    const updated = { ...card, crm }
+    if (card.id && !card.id.startsWith('offline_') && this.isOnline()) {
+      await StorageService.updateCrmStatus(userId, card.id, crm)
+    }
+    await offlineStorageService.cacheCard(updated)
+    return updated
+  }
+
+  // Save the card's address book link without editing the card
+  static async updateCardDavLink(userId: string, card: BusinessCardData, carddav: CardDavLink | null): Promise<BusinessCardData> {
+    const updated = { ...card, carddav }
+    if (card.id && !card.id.startsWith('offline_') && this.isOnline()) {
+      await StorageService.updateCardDavLink(userId, card.id, carddav)
+    }
+    await offlineStorageService.cacheCard(updated)
+    return updated
+  }
+
+  // Geocode the addresses of cards that were never located or changed since; returns the updated cards.
+  // Needs a connection; cards only saved offline are located after they sync.
+  static async geocodeCards(
+    userId: string,
+    cards: BusinessCardData[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<BusinessCardData[]> {
+    const pending = cards.filter(card => card.id && !card.id.startsWith('offline_') && needsGeocoding(card))
+    if (pending.length === 0 || !this.isOnline()) return []
+
+    const updatedCards: BusinessCardData[] = []
+    for (let start = 0; start < pending.length; start += GEOCODE_BATCH_SIZE) {
+      const batch = pending.slice(start, start + GEOCODE_BATCH_SIZE)
+      const { provider, results } = await requestGeocoding(batch.map(getGeocodeQuery))
+      const geocodedAt = new Date().toISOString()
+
+      for (let i = 0; i < batch.length; i++) {
+        const addressLocation = { query: getGeocodeQuery(batch[i]), point: results[i] ?? null, provider, geocodedAt }
+        await StorageService.updateAddressLocation(userId, batch[i].id!, addressLocation)
+        const updated = { ...batch[i], addressLocation }
+        await offlineStorageService.cacheCard(updated)
+        updatedCards.push(updated)
+      }
+      onProgress?.(Math.min(start + batch.length, pending.length), pending.length)
+    }
+
+    return updatedCards
+  }
+
+  // Favorites used to be kept only in localStorage; move them onto the cards once
+  static async migrateLocalFavorites(userId: string): Promise<number> {
+    const storageKey = `organization_data_${userId}`
+    const saved = localStorage.getItem(storageKey)
+    if (!saved || !this.isOnline()) return 0
+
+    let favoriteIds: string[] = []
+    try {
+      favoriteIds = (JSON.parse(saved).favorites || []).filter((cardId: string) => !cardId.startsWith('offline_'))
+    } catch (error) {
+      console.error('Failed to read old favorites:', error)
+    }
+
+    const results = await Promise.allSettled(
+      favoriteIds.map(cardId => StorageService.updateOrganization(userId, cardId, { isFavorite: true }))
     )
+    const migrated = results.filter(result => result.status === 'fulfilled').length
+
+    // Favorites of cards deleted since then cannot be moved; keep the data only if nothing could be (e.g. no connection)
+    if (migrated > 0 || favoriteIds.length === 0) {
+      localStorage.removeItem(storageKey)
+    }
+    return migrated
+  }
+
+  private static getGroupsCacheKey(userId: string): string {
+    return `card_groups_${userId}`
+  }
+
+  private static getCachedGroups(userId: string): CardGroup[] {
+    try {
+      const cached = localStorage.getItem(this.getGroupsCacheKey(userId))
+      return cached ? JSON.parse(cached) : []
+    } catch (error) {
+      console.error('Failed to read cached groups:', error)
+      return []
+    }
+  }
+
+  private static cacheGroups(userId: string, groups: CardGroup[]): void {
+    try {
+      localStorage.setItem(this.getGroupsCacheKey(userId), JSON.stringify(groups))
+    } catch (error) {
+      console.error('Failed to cache groups:', error)
+    }
+  }
+
+  // Get the user's groups with offline fallback
+  static async getGroups(userId: string): Promise<CardGroup[]> {
+    if (this.isOnline()) {
+      try {
+        const groups = await StorageService.getGroups(userId)
+        this.cacheGroups(userId, groups)
+        return groups
+      } catch (error) {
+        console.error('Online group fetch failed, using cached groups:', error)
+      }
+    }
+    return this.getCachedGroups(userId)
+  }
+
+  // Create or update a group
+  static async saveGroup(userId: string, group: Omit<CardGroup, 'id'> & { id?: string }): Promise<CardGroup> {
+    if (!this.isOnline()) {
+      throw new Error('Cannot change groups while offline. Please try again when connected.')
+    }
+
+    const savedGroup = await StorageService.saveGroup(userId, group)
+    this.cacheGroups(userId, [
+      ...this.getCachedGroups(userId).filter(cached => cached.id !== savedGroup.id),
+      savedGroup,
+    ].sort((a, b) => a.name.localeCompare(b.name)))
+    return savedGroup
+  }
+
+  // Delete a group; its cards stay, outside the group
+  static async deleteGroup(userId: string, groupId: string): Promise<void> {
+    if (!this.isOnline()) {
+      throw new Error('Cannot change groups while offline. Please try again when connected.')
+    }
+
+    await StorageService.deleteGroup(userId, groupId)
+    this.cacheGroups(userId, this.getCachedGroups(userId).filter(group => group.id !== groupId))
+
+    const cachedCards = await offlineStorageService.getCachedCards(userId)
+    for (const card of cachedCards.filter(card => card.groupIds?.includes(groupId))) {
+      await offlineStorageService.cacheCard({ ...card, groupIds: card.groupIds!.filter(id => id !== groupId) })
+    }
+  }
+
+  // Save a merged card and delete the duplicates that were merged into it; their tasks move to the merged card
+  static async mergeCards(userId: string, mergedCard: BusinessCardData, mergedCardIds: string[]): Promise<void> {
+    await this.updateCard(userId, mergedCard)
+
+    const tasks = await this.getTasks(userId)
+    for (const cardId of mergedCardIds) {
+      if (cardId !== mergedCard.id) {
+        for (const task of tasks.filter(task => task.cardId === cardId)) {
+          await this.saveTask(userId, { ...task, cardId: mergedCard.id!, contactName: mergedCard.name || task.contactName })
+        }
+        await this.deleteCard(userId, cardId)
+      }
+    }
+
+    // Webhooks get card.merged on top of the update and deletions above
+    if (!mergedCard.id!.startsWith('offline_')) {
+      notifyCardEvent('card.merged', mergedCard.id!, { mergedCardIds })
+    }
+  }
+
+  // Get the user's follow-up tasks with offline fallback. Changes still queued for sync
+  // are applied on top of what Firestore returns.
+  static async getTasks(userId: string): Promise<FollowUpTask[]> {
+    if (this.isOnline()) {
+      try {
+        const onlineTasks = await StorageService.getTasks(userId)
+        const queued = await offlineStorageService.getPendingTaskChanges(userId)
+        const queuedIds = new Set(queued.map(change => change.task.id))
+        const tasks = [
+          ...onlineTasks.filter(task => !queuedIds.has(task.id)),
+          ...queued.filter(change => !change.deleted).map(change => change.task),
+        ]
+
+        await offlineStorageService.cacheTasks(userId, tasks)
+        return tasks
+      } catch (error) {
+        console.error('Online task fetch failed, using cached tasks:', error)
+      }
+    }
+    return offlineStorageService.getCachedTasks(userId)
+  }
+
+  // Create or update a task. Works offline: the change is cached and queued for sync,
+  // as are tasks on cards that were saved offline and have no Firestore ID yet.
+  static async saveTask(userId: string, task: FollowUpTask): Promise<FollowUpTask> {
+    const savedTask = { ...task, updatedAt: new Date().toISOString() }
+    await offlineStorageService.cacheTask(userId, savedTask)
+
+    if (this.isOnline() && !savedTask.cardId.startsWith('offline_')) {
+      try {
+        await StorageService.saveTask(userId, savedTask)
+        await offlineStorageService.removeTaskChange(savedTask.id)
+        return savedTask
+      } catch (error) {
+        console.error('Online task save failed, queueing for sync:', error)
+      }
+    }
+
+    await offlineStorageService.queueTaskChange(userId, savedTask)
+    return savedTask
+  }
+
+  // Delete a task, queueing the deletion when offline
+  static async deleteTask(userId: string, task: FollowUpTask): Promise<void> {
+    await offlineStorageService.deleteCachedTask(task.id)
+
+    // Tasks of cards saved offline never reached Firestore
+    if (task.cardId.startsWith('offline_')) {
+      await offlineStorageService.removeTaskChange(task.id)
+      return
+    }
+
+    if (this.isOnline()) {
+      try {
+        await StorageService.deleteTask(userId, task.id)
+        await offlineStorageService.removeTaskChange(task.id)
+        return
+      } catch (error) {
+        console.error('Online task delete failed, queueing for sync:', error)
+      }
+    }
+
+    await offlineStorageService.queueTaskChange(userId, task, true)
+  }
+
+  // Tasks go with their card; a failure leaves them behind without affecting the delete
+  private static async deleteCardTasks(userId: string, cardId: string): Promise<void> {
+    try {
+      const tasks = await offlineStorageService.getCachedTasks(userId)
+      for (const task of tasks.filter(task => task.cardId === cardId)) {
+        await this.deleteTask(userId, task)
+      }
+    } catch (error) {
+      console.error('Failed to delete tasks of card:', error)
+    }
+  }
+
+  // Activity timeline of a card, newest first, with offline fallback. Entries still queued
+  // for sync are included.
+  static async getActivity(userId: string, cardId: string): Promise<CardActivity[]> {
+    if (this.isOnline() && !cardId.startsWith('offline_')) {
+      try {
+        const onlineActivity = await StorageService.getActivity(userId, cardId)
+        const onlineIds = new Set(onlineActivity.map(entry => entry.id))
+        const queued = (await offlineStorageService.getPendingActivity(userId))
+          .filter(entry => entry.cardId === cardId && !onlineIds.has(entry.id))
+        const activity = sortActivity([...onlineActivity, ...queued])
+
+        await offlineStorageService.cacheActivity(cardId, activity)
+        return activity
+      } catch (error) {
+        console.error('Online activity fetch failed, using cached activity:', error)
+      }
+    }
+    return sortActivity(await offlineStorageService.getCachedActivity(cardId))
+  }
+
+  // Append entries to card timelines. Works offline: entries are cached and queued for sync,
+  // as are entries of cards saved offline.
+  static async addActivity(userId: string, activity: CardActivity[]): Promise<void> {
+    const hasOfflineCards = activity.some(entry => entry.cardId.startsWith('offline_'))
+
+    if (this.isOnline() && !hasOfflineCards) {
+      try {
+        await StorageService.addActivity(userId, activity)
+        await offlineStorageService.addCachedActivity(userId, activity, false)
+        return
+      } catch (error) {
+        console.error('Online activity save failed, queueing for sync:', error)
+      }
+    }
+
+    await offlineStorageService.addCachedActivity(userId, activity, true)
+  }
+
+  // Search with free text and field filters (see parseSearchQuery), best matches first.
+  // Free text goes through the local full-text index; filters are checked on each card.
+  static async searchCards(userId: string, query: string): Promise<CardSearchResult[]> {
+    if (!query.trim()) {
+      return (await this.getCards(userId)).map(card => ({ card, score: 0, terms: [] }))
+    }
+
+    const { text, filters } = parseSearchQuery(query)
+    await this.ensureSearchIndex(userId)
+    const groups = this.getCachedGroups(userId)
+
+    // Cards are read from the offline cache, which getCards and the paged list keep filled
+    const cachedCards = await offlineStorageService.getCachedCards(userId)
+    const filterTerms = tokenize(getFilterHighlightText(filters))
+
+    let results: CardSearchResult[]
+    if (text) {
+      const cardsById = new Map(cachedCards.map(card => [card.id, card]))
+      const matches = await searchIndexService.search(userId, text)
+      results = matches
+        .filter(match => cardsById.has(match.cardId))
+        .map(match => ({ card: cardsById.get(match.cardId)!, score: match.score, terms: match.terms }))
+    } else {
+      // Filters only: newest first, as getCachedCards returns them
+      results = cachedCards.map(card => ({ card, score: 0, terms: [] }))
+    }
+
+    return results
+      .filter(result => matchesQueryFilters(result.card, filters, groups))
+      .map(result => ({ ...result, terms: [...result.terms, ...filterTerms] }))
+  }
+
+  // Values to suggest while typing field filters, e.g. company names for "company:"
+  static async getKnownSearchValues(userId: string): Promise<Partial<Record<QueryTextField, string[]>>> {
+    return collectKnownValues(await offlineStorageService.getCachedCards(userId), this.getCachedGroups(userId))
+  }
+
+  // Events the user's cards were collected at, most recent first
+  static async getKnownEvents(userId: string): Promise<CardEvent[]> {
+    return collectEvents(await offlineStorageService.getCachedCards(userId))
+  }
+
+  // Build the search index on first use; refresh an old one in the background
+  private static async ensureSearchIndex(userId: string): Promise<void> {
+    const builtAt = searchIndexService.getBuiltAt(userId)
+
+    if (!builtAt) {
+      if (this.isOnline()) {
+        // Fetching every card rebuilds the index
+        await this.getCards(userId)
+      }
+      if (!searchIndexService.getBuiltAt(userId)) {
+        await searchIndexService.rebuild(userId, await offlineStorageService.getCachedCards(userId))
+      }
+      return
+    }
+
+    if (this.isOnline() && Date.now() - builtAt.getTime() > SEARCH_INDEX_MAX_AGE_MS) {
+      this.getCards(userId).catch(error => console.error('Search index refresh failed:', error))
+    }
   }
 
   // Check for duplicates with offline support
-  static async checkForDuplicates(userId: string, cardData: BusinessCardData): Promise<BusinessCardData[]> {
+  static async checkForDuplicates(userId: string, cardData: BusinessCardData): Promise<DuplicateCandidate[]> {
     if (this.isOnline()) {
       try {
         return await StorageService.checkForDuplicates(userId, cardData)
@@ -169,28 +735,9 @@ export class EnhancedStorageService {
   }
 
   // Check duplicates against cached cards
-  private static async checkDuplicatesOffline(userId: string, cardData: BusinessCardData): Promise<BusinessCardData[]> {
+  private static async checkDuplicatesOffline(userId: string, cardData: BusinessCardData): Promise<DuplicateCandidate[]> {
     const cachedCards = await offlineStorageService.getCachedCards(userId)
-    
-    return cachedCards.filter(existingCard => {
-      // Check if name matches (case insensitive, ignore whitespace)
-      const nameMatch = existingCard.name && cardData.name &&
-        existingCard.name.toLowerCase().trim() === cardData.name.toLowerCase().trim()
-      
-      // Check if any phone numbers match
-      const phoneNumbers = [cardData.phone, cardData.mobile].filter(Boolean)
-      const existingPhoneNumbers = [existingCard.phone, existingCard.mobile].filter(Boolean)
-      
-      const phoneMatch = phoneNumbers.some(phone => 
-        existingPhoneNumbers.some(existingPhone => 
-          phone && existingPhone && 
-          phone.replace(/\D/g, '') === existingPhone.replace(/\D/g, '') // Compare digits only
-        )
-      )
-      
-      // Consider it a duplicate if name matches OR phone matches
-      return nameMatch || phoneMatch
-    })
+    return findDuplicateCandidates(cardData, cachedCards)
   }
 
   // Sync pending uploads (called when coming back online)
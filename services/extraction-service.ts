@@ -0,0 +1,37 @@
+import type { BusinessCardData } from "@/types"
+import { auth } from "@/lib/firebase"
+
+// Server-side extraction route (keeps the Upstage API key out of the browser)
+const EXTRACT_API_URL = "/api/extract"
+
+// Send an image to the extraction route, authenticated with the current user's Firebase ID token.
+// For double-sided cards pass the back image too; the route merges both sides into one card.
+export async function requestBusinessCardExtraction(imageFile: File, backImageFile?: File): Promise<BusinessCardData> {
+  const currentUser = auth.currentUser
+  if (!currentUser) {
+    throw new Error("Please sign in to scan business cards.")
+  }
+
+  const idToken = await currentUser.getIdToken()
+
+  const formData = new FormData()
+  formData.append("image", imageFile)
+  if (backImageFile) {
+    formData.append("backImage", backImageFile)
+  }
+
+  const response = await fetch(EXTRACT_API_URL, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${idToken}`,
+    },
+    body: formData,
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `Extraction failed: ${response.status} ${response.statusText}`)
+  }
+
+  return response.json()
+}
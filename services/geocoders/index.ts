@@ -0,0 +1,26 @@
+import { getGeocoderConfig } from "@/lib/config"
+import { NominatimGeocoder } from "./nominatim-geocoder"
+import { LocalGeocoder } from "./local-geocoder"
+import type { Geocoder, GeocoderName } from "./types"
+
+export type { Geocoder, GeocoderName } from "./types"
+export { NominatimGeocoder, LocalGeocoder }
+
+// Create a geocoder by name using the environment configuration
+export function createGeocoder(name: GeocoderName): Geocoder {
+  const config = getGeocoderConfig()
+
+  switch (name) {
+    case "nominatim":
+      return new NominatimGeocoder(config.nominatim)
+    case "local":
+      return new LocalGeocoder()
+    default:
+      throw new Error(`Unknown geocoder: ${name}`)
+  }
+}
+
+// Geocoder selected by GEOCODER_PROVIDER
+export function getGeocoder(): Geocoder {
+  return createGeocoder(getGeocoderConfig().provider as GeocoderName)
+}
@@ -0,0 +1,97 @@
+import type { GeoPoint } from "@/types"
+import { normalizeText } from "@/lib/similarity"
+import type { Geocoder } from "./types"
+
+// Offline stand-in for development and tests: resolves addresses to the center of a known city
+// (or country) mentioned in them. Nothing leaves the server, and results are deterministic.
+const CITIES: Array<[string[], number, number]> = [
+  [["seoul", "서울"], 37.5665, 126.978],
+  [["busan", "부산"], 35.1796, 129.0756],
+  [["seongnam", "pangyo", "성남", "판교"], 37.4201, 127.1265],
+  [["tokyo", "東京"], 35.6762, 139.6503],
+  [["osaka", "大阪"], 34.6937, 135.5023],
+  [["beijing", "北京"], 39.9042, 116.4074],
+  [["shanghai", "上海"], 31.2304, 121.4737],
+  [["shenzhen", "深圳"], 22.5431, 114.0579],
+  [["hong kong", "香港"], 22.3193, 114.1694],
+  [["taipei", "台北", "臺北"], 25.033, 121.5654],
+  [["singapore"], 1.3521, 103.8198],
+  [["bangkok"], 13.7563, 100.5018],
+  [["mumbai"], 19.076, 72.8777],
+  [["bangalore", "bengaluru"], 12.9716, 77.5946],
+  [["dubai"], 25.2048, 55.2708],
+  [["sydney"], -33.8688, 151.2093],
+  [["melbourne"], -37.8136, 144.9631],
+  [["london"], 51.5072, -0.1276],
+  [["paris"], 48.8566, 2.3522],
+  [["berlin"], 52.52, 13.405],
+  [["munich", "munchen"], 48.1351, 11.582],
+  [["amsterdam"], 52.3676, 4.9041],
+  [["barcelona"], 41.3874, 2.1686],
+  [["madrid"], 40.4168, -3.7038],
+  [["zurich"], 47.3769, 8.5417],
+  [["stockholm"], 59.3293, 18.0686],
+  [["new york", "nyc", "brooklyn"], 40.7128, -74.006],
+  [["san francisco"], 37.7749, -122.4194],
+  [["palo alto"], 37.4419, -122.143],
+  [["mountain view"], 37.3861, -122.0839],
+  [["san jose"], 37.3382, -121.8863],
+  [["seattle"], 47.6062, -122.3321],
+  [["los angeles"], 34.0522, -118.2437],
+  [["las vegas"], 36.1699, -115.1398],
+  [["austin"], 30.2672, -97.7431],
+  [["boston"], 42.3601, -71.0589],
+  [["chicago"], 41.8781, -87.6298],
+  [["toronto"], 43.6532, -79.3832],
+  [["vancouver"], 49.2827, -123.1207],
+  [["sao paulo"], -23.5558, -46.6396],
+  [["mexico city", "ciudad de mexico"], 19.4326, -99.1332],
+]
+
+const COUNTRIES: Array<[string[], number, number]> = [
+  [["south korea", "korea", "republic of korea", "대한민국", "한국"], 36.5, 127.9],
+  [["japan", "日本"], 36.2, 138.25],
+  [["china", "中国"], 35.86, 104.2],
+  [["taiwan"], 23.7, 121.0],
+  [["india"], 20.59, 78.96],
+  [["australia"], -25.27, 133.78],
+  [["united kingdom", "uk", "england"], 54.0, -2.0],
+  [["france"], 46.23, 2.21],
+  [["germany", "deutschland"], 51.17, 10.45],
+  [["netherlands"], 52.13, 5.29],
+  [["spain"], 40.46, -3.75],
+  [["switzerland"], 46.82, 8.23],
+  [["sweden"], 60.13, 18.64],
+  [["united states", "usa", "us"], 39.83, -98.58],
+  [["canada"], 56.13, -106.35],
+  [["brazil"], -14.24, -51.93],
+  [["mexico"], 23.63, -102.55],
+]
+
+// Does the text contain the name as whole words? Names in scripts without spaces match anywhere.
+function mentions(text: string, name: string): boolean {
+  if (!/^[a-z ]+$/.test(name)) return text.includes(name)
+  return ` ${text.replace(/[^a-z0-9가-힯぀-ヿ一-鿿]+/g, " ")} `.includes(` ${name} `)
+}
+
+function findPlace(text: string, places: Array<[string[], number, number]>): GeoPoint | null {
+  let best: { point: GeoPoint; length: number } | null = null
+  for (const [names, lat, lng] of places) {
+    for (const name of names) {
+      const key = normalizeText(name)
+      if (mentions(text, key) && (!best || key.length > best.length)) {
+        best = { point: { lat, lng }, length: key.length }
+      }
+    }
+  }
+  return best?.point || null
+}
+
+export class LocalGeocoder implements Geocoder {
+  readonly name = "local"
+
+  async geocode(address: string): Promise<GeoPoint | null> {
+    const text = normalizeText(address)
+    return findPlace(text, CITIES) || findPlace(text, COUNTRIES)
+  }
+}
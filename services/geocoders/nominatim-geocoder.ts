@@ -0,0 +1,61 @@
+import type { GeoPoint } from "@/types"
+import type { Geocoder } from "./types"
+
+interface NominatimConfig {
+  baseUrl: string
+  userAgent: string
+  email?: string
+}
+
+interface NominatimResult {
+  lat: string
+  lon: string
+}
+
+// The public instance allows at most one request per second
+const MIN_REQUEST_INTERVAL_MS = 1000
+
+// Geocoder for OpenStreetMap's Nominatim (the public instance or a self-hosted one).
+// See https://operations.osmfoundation.org/policies/nominatim/ before using the public instance.
+export class NominatimGeocoder implements Geocoder {
+  readonly name = "nominatim"
+  private static nextRequestAt = 0
+
+  constructor(private config: NominatimConfig) {}
+
+  // Requests are spaced out across all instances in this server process
+  private static async throttle(): Promise<void> {
+    const now = Date.now()
+    const wait = Math.max(0, NominatimGeocoder.nextRequestAt - now)
+    NominatimGeocoder.nextRequestAt = Math.max(now, NominatimGeocoder.nextRequestAt) + MIN_REQUEST_INTERVAL_MS
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait))
+    }
+  }
+
+  async geocode(address: string): Promise<GeoPoint | null> {
+    await NominatimGeocoder.throttle()
+
+    const params = new URLSearchParams({ q: address, format: "jsonv2", limit: "1" })
+    if (this.config.email) params.set("email", this.config.email)
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, "")}/search?${params}`, {
+      headers: {
+        "User-Agent": this.config.userAgent,
+        "Accept": "application/json",
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Nominatim error: ${response.status} ${response.statusText}`)
+    }
+
+    const results: NominatimResult[] = await response.json()
+    const first = results[0]
+    if (!first) return null
+
+    const lat = parseFloat(first.lat)
+    const lng = parseFloat(first.lon)
+    return isNaN(lat) || isNaN(lng) ? null : { lat, lng }
+  }
+}
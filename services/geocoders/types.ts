@@ -0,0 +1,10 @@
+import type { GeoPoint } from "@/types"
+
+// A pluggable geocoding backend (Nominatim, local stub...)
+export interface Geocoder {
+  readonly name: string
+  // Map position of an address, or null when it cannot be found
+  geocode(address: string): Promise<GeoPoint | null>
+}
+
+export type GeocoderName = "nominatim" | "local"
@@ -0,0 +1,39 @@
+import type { GeoPoint } from "@/types"
+import { auth } from "@/lib/firebase"
+
+// Server-side geocoding route (the provider and its rate limits live on the server)
+const GEOCODE_API_URL = "/api/geocode"
+
+// Addresses accepted by the route in one request
+export const GEOCODE_BATCH_SIZE = 20
+
+export interface GeocodeResponse {
+  provider: string
+  results: Array<GeoPoint | null>  // Same order as the addresses; null when not found
+}
+
+// Geocode up to GEOCODE_BATCH_SIZE addresses, authenticated with the current user's Firebase ID token
+export async function requestGeocoding(addresses: string[]): Promise<GeocodeResponse> {
+  const currentUser = auth.currentUser
+  if (!currentUser) {
+    throw new Error("Please sign in to locate addresses.")
+  }
+
+  const idToken = await currentUser.getIdToken()
+
+  const response = await fetch(GEOCODE_API_URL, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${idToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ addresses }),
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `Geocoding failed: ${response.status} ${response.statusText}`)
+  }
+
+  return response.json()
+}
@@ -0,0 +1,67 @@
+import { getOcrConfig, getUpstageApiKey } from "@/lib/config"
+import { UpstageOcrProvider } from "./upstage-provider"
+import { OpenAICompatibleOcrProvider } from "./openai-provider"
+import { LocalOcrProvider } from "./local-provider"
+import type { OcrExtractionResult, OcrProvider, OcrProviderName } from "./types"
+
+export { BUSINESS_CARD_SCHEMA } from "./schema"
+export type { BusinessCardSchemaField, ExtractedCardFields } from "./schema"
+export type { OcrExtractionResult, OcrProvider, OcrProviderName } from "./types"
+export { UpstageOcrProvider, OpenAICompatibleOcrProvider, LocalOcrProvider }
+
+// Tries the primary provider and falls back to the secondary one on any error
+export class FallbackOcrProvider implements OcrProvider {
+  readonly name: string
+
+  constructor(private primary: OcrProvider, private fallback: OcrProvider) {
+    this.name = `${primary.name}+${fallback.name}`
+  }
+
+  async extract(imageDataURL: string): Promise<OcrExtractionResult> {
+    try {
+      return await this.primary.extract(imageDataURL)
+    } catch (error) {
+      console.error(`OCR provider "${this.primary.name}" failed, falling back to "${this.fallback.name}":`, error)
+      return this.fallback.extract(imageDataURL)
+    }
+  }
+}
+
+// Create a single provider by name using the environment configuration
+export function createOcrProvider(name: OcrProviderName): OcrProvider {
+  const config = getOcrConfig()
+
+  switch (name) {
+    case "upstage":
+      return new UpstageOcrProvider(getUpstageApiKey())
+    case "openai":
+      return new OpenAICompatibleOcrProvider(config.openai)
+    case "local":
+      return new LocalOcrProvider(config.local.url)
+    default:
+      throw new Error(`Unknown OCR provider: ${name}`)
+  }
+}
+
+// Provider selected by OCR_PROVIDER, wrapped with OCR_FALLBACK_PROVIDER if configured
+export function getOcrProvider(): OcrProvider {
+  const config = getOcrConfig()
+  const primaryName = config.provider as OcrProviderName
+  const fallbackName = config.fallbackProvider as OcrProviderName | undefined
+
+  let primary: OcrProvider
+  try {
+    primary = createOcrProvider(primaryName)
+  } catch (error) {
+    // A misconfigured primary (e.g. missing API key) should still let the fallback work
+    if (!fallbackName || fallbackName === primaryName) throw error
+    console.error(`OCR provider "${primaryName}" is not configured, using "${fallbackName}":`, error)
+    return createOcrProvider(fallbackName)
+  }
+
+  if (!fallbackName || fallbackName === primaryName) {
+    return primary
+  }
+
+  return new FallbackOcrProvider(primary, createOcrProvider(fallbackName))
+}
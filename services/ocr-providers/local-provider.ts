@@ -0,0 +1,45 @@
+import type { BusinessCardSchemaField, ExtractedCardFields } from "./schema"
+import type { OcrExtractionResult, OcrProvider } from "./types"
+
+// Response expected from the local stand-in (see scripts/local-ocr-server.js)
+interface LocalOcrResponse {
+  fields?: ExtractedCardFields
+  text?: string
+  probabilities?: Partial<Record<BusinessCardSchemaField, number>>  // 0-1 per field, optional
+}
+
+// Provider for a local HTTP stand-in: an on-prem OCR engine, or the mock server used in
+// development and tests. Without a URL it acts as an offline stub that returns no fields,
+// so scanning still produces an (empty) editable card when every remote provider is down.
+export class LocalOcrProvider implements OcrProvider {
+  readonly name = "local"
+
+  constructor(private url?: string) {}
+
+  async extract(imageDataURL: string): Promise<OcrExtractionResult> {
+    if (!this.url) {
+      return { fields: {}, provider: this.name };
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json; charset=utf-8"
+      },
+      body: JSON.stringify({ image: imageDataURL })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local OCR error: ${response.status} ${response.statusText}`);
+    }
+
+    const result: LocalOcrResponse = await response.json();
+
+    return {
+      fields: result.fields || {},
+      provider: this.name,
+      rawText: result.text || result.fields?.raw_text || undefined,
+      fieldProbabilities: result.probabilities,
+    };
+  }
+}
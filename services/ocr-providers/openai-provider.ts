@@ -0,0 +1,133 @@
+import { BUSINESS_CARD_SCHEMA, type BusinessCardSchemaField, type ExtractedCardFields } from "./schema"
+import type { OcrExtractionResult, OcrProvider } from "./types"
+
+const EXTRACTION_PROMPT =
+  "Extract the contact information from this business card image. " +
+  "Return only the fields that are present on the card, and transcribe all of its text into raw_text."
+
+interface TokenLogprob {
+  token: string;
+  logprob: number;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    finish_reason: string;
+    message: {
+      content: string | null;
+      role: string;
+    };
+    logprobs?: {
+      content: TokenLogprob[] | null;
+    } | null;
+  }>;
+}
+
+// Probability of each field value: geometric mean of the probabilities of the tokens that
+// make up the value inside the generated JSON text
+function computeFieldProbabilities(
+  content: string,
+  fields: ExtractedCardFields,
+  tokens: TokenLogprob[]
+): Partial<Record<BusinessCardSchemaField, number>> {
+  // Character offset of every token in the generated content
+  const offsets: number[] = []
+  let position = 0
+  for (const token of tokens) {
+    offsets.push(position)
+    position += token.token.length
+  }
+
+  const probabilities: Partial<Record<BusinessCardSchemaField, number>> = {}
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (typeof value !== "string" || !value) continue
+
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(content)
+    if (!match) continue
+
+    const start = match.index + match[0].length
+    const end = start + JSON.stringify(value).length - 2
+
+    const valueLogprobs = tokens
+      .filter((token, i) => offsets[i] < end && offsets[i] + token.token.length > start)
+      .map(token => token.logprob)
+
+    if (valueLogprobs.length > 0) {
+      const meanLogprob = valueLogprobs.reduce((sum, lp) => sum + lp, 0) / valueLogprobs.length
+      probabilities[key as BusinessCardSchemaField] = Math.exp(meanLogprob)
+    }
+  }
+
+  return probabilities
+}
+
+export interface OpenAICompatibleOcrConfig {
+  baseUrl: string   // e.g. https://api.openai.com/v1 or a self-hosted vLLM/Ollama endpoint
+  model: string
+  apiKey?: string   // Optional for local endpoints
+}
+
+// Generic provider for any vision model served behind an OpenAI-compatible /chat/completions API
+export class OpenAICompatibleOcrProvider implements OcrProvider {
+  readonly name = "openai"
+
+  constructor(private config: OpenAICompatibleOcrConfig) {
+    if (!config.baseUrl || !config.model) {
+      throw new Error("OpenAI-compatible OCR provider requires a base URL and a model name.");
+    }
+  }
+
+  async extract(imageDataURL: string): Promise<OcrExtractionResult> {
+    const payload = {
+      model: this.config.model,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: EXTRACTION_PROMPT },
+            { type: "image_url", image_url: { url: imageDataURL } }
+          ]
+        }
+      ],
+      response_format: BUSINESS_CARD_SCHEMA,
+      temperature: 0,
+      logprobs: true
+    };
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json; charset=utf-8"
+    };
+    if (this.config.apiKey) {
+      headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(payload)
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+    }
+
+    const result: ChatCompletionResponse = await response.json();
+    const choice = result.choices?.[0];
+    const content = choice?.message?.content;
+
+    if (!content) {
+      throw new Error("No data extracted from the image");
+    }
+
+    const fields: ExtractedCardFields = JSON.parse(content);
+
+    // Not every OpenAI-compatible server returns logprobs
+    const tokens = choice.logprobs?.content;
+    const fieldProbabilities = tokens && tokens.length > 0
+      ? computeFieldProbabilities(content, fields, tokens)
+      : undefined;
+
+    return { fields, provider: this.name, rawText: fields.raw_text || undefined, fieldProbabilities };
+  }
+}
@@ -0,0 +1,139 @@
+// Business card schema shared by all OCR providers (Upstage and OpenAI-compatible
+// endpoints both accept this json_schema response format)
+export const BUSINESS_CARD_SCHEMA = {
+  type: "json_schema",
+  json_schema: {
+    name: "business_card_schema",
+    schema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Full name of the person on the business card"
+        },
+        first_name: {
+          type: "string", 
+          description: "Given name of the person (not the family name), in the same script as name"
+        },
+        last_name: {
+          type: "string",
+          description: "Family name (surname) of the person, in the same script as name. For Korean, Japanese and Chinese names this is the first part of the name"
+        },
+        native_name: {
+          type: "string",
+          description: "Full name in its native non-Latin script exactly as printed (e.g. 김철수, 山田太郎, 王小明), if the card shows one"
+        },
+        romanized_name: {
+          type: "string",
+          description: "Full name in Latin script as printed on the card (e.g. Chulsoo Kim, Taro Yamada), if the card shows one"
+        },
+        phonetic_first_name: {
+          type: "string",
+          description: "Phonetic reading of the given name if printed (e.g. furigana たろう)"
+        },
+        phonetic_last_name: {
+          type: "string",
+          description: "Phonetic reading of the family name if printed (e.g. furigana やまだ)"
+        },
+        name_locale: {
+          type: "string",
+          description: "ISO 639-1 language code of the native name, e.g. ko, ja, zh, en"
+        },
+        company: {
+          type: "string",
+          description: "Company or organization name"
+        },
+        job_title: {
+          type: "string",
+          description: "Job title, position, or role"
+        },
+        department: {
+          type: "string",
+          description: "Department or division within the company"
+        },
+        phone: {
+          type: "string",
+          description: "Primary phone number"
+        },
+        mobile: {
+          type: "string",
+          description: "Mobile or cell phone number"
+        },
+        fax: {
+          type: "string",
+          description: "Fax number"
+        },
+        email: {
+          type: "string",
+          description: "Email address"
+        },
+        website: {
+          type: "string",
+          description: "Company or personal website URL"
+        },
+        address: {
+          type: "string",
+          description: "Complete physical address"
+        },
+        street_address: {
+          type: "string",
+          description: "Street address line"
+        },
+        city: {
+          type: "string",
+          description: "City name"
+        },
+        state: {
+          type: "string",
+          description: "State or province"
+        },
+        zip_code: {
+          type: "string",
+          description: "ZIP or postal code"
+        },
+        country: {
+          type: "string",
+          description: "Country name"
+        },
+        linkedin: {
+          type: "string",
+          description: "LinkedIn profile URL or username"
+        },
+        twitter: {
+          type: "string",
+          description: "Twitter handle or URL"
+        },
+        facebook: {
+          type: "string",
+          description: "Facebook profile URL"
+        },
+        instagram: {
+          type: "string",
+          description: "Instagram handle or URL"
+        },
+        skype: {
+          type: "string",
+          description: "Skype username"
+        },
+        whatsapp: {
+          type: "string",
+          description: "WhatsApp number"
+        },
+        additional_info: {
+          type: "string",
+          description: "Any additional information or notes found on the card"
+        },
+        raw_text: {
+          type: "string",
+          description: "All text printed on the card, transcribed exactly as it appears, one line per line of text"
+        }
+      }
+    }
+  }
+} as const
+
+// Field names the providers return (snake_case, as in the schema)
+export type BusinessCardSchemaField = keyof typeof BUSINESS_CARD_SCHEMA.json_schema.schema.properties
+
+// Raw extracted values keyed by schema field
+export type ExtractedCardFields = Partial<Record<BusinessCardSchemaField, string | null>>
@@ -0,0 +1,18 @@
+import type { BusinessCardSchemaField, ExtractedCardFields } from "./schema"
+
+// Result returned by every OCR provider
+export interface OcrExtractionResult {
+  fields: ExtractedCardFields
+  provider: string          // Name of the provider that produced the result
+  rawText?: string          // Plain OCR text of the card, if the provider returns it
+  // Model probability (0-1) of each extracted value, for providers that expose logprobs
+  fieldProbabilities?: Partial<Record<BusinessCardSchemaField, number>>
+}
+
+// A pluggable extraction backend (Upstage, OpenAI-compatible vision model, local stand-in...)
+export interface OcrProvider {
+  readonly name: string
+  extract(imageDataURL: string): Promise<OcrExtractionResult>
+}
+
+export type OcrProviderName = "upstage" | "openai" | "local"
@@ -0,0 +1,80 @@
+import { BUSINESS_CARD_SCHEMA, type ExtractedCardFields } from "./schema"
+import type { OcrExtractionResult, OcrProvider } from "./types"
+
+// Upstage API configuration
+const UPSTAGE_API_URL = "https://api.upstage.ai/v1/information-extraction"
+
+interface UpstageResponse {
+  id: string;
+  choices: Array<{
+    finish_reason: string;
+    message: {
+      content: string;
+      role: string;
+    };
+  }>;
+  usage: {
+    completion_tokens: number;
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export class UpstageOcrProvider implements OcrProvider {
+  readonly name = "upstage"
+
+  constructor(private apiKey: string, private apiUrl: string = UPSTAGE_API_URL) {
+    if (!apiKey) {
+      throw new Error("Upstage API key is required. Please provide your API key.");
+    }
+  }
+
+  async extract(imageDataURL: string): Promise<OcrExtractionResult> {
+    // Prepare the request payload
+    const payload = {
+      model: "information-extract",
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "image_url",
+              image_url: {
+                url: imageDataURL
+              }
+            }
+          ]
+        }
+      ],
+      response_format: BUSINESS_CARD_SCHEMA,
+      chunking: {
+        pages_per_chunk: 1
+      }
+    };
+
+    // Make API request to Upstage
+    const response = await fetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json; charset=utf-8"
+      },
+      body: JSON.stringify(payload)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Upstage API error: ${response.status} ${response.statusText}`);
+    }
+
+    const result: UpstageResponse = await response.json();
+
+    if (!result.choices || result.choices.length === 0) {
+      throw new Error("No data extracted from the image");
+    }
+
+    // Parse the extracted JSON data
+    const fields: ExtractedCardFields = JSON.parse(result.choices[0].message.content);
+
+    return { fields, provider: this.name, rawText: fields.raw_text || undefined };
+  }
+}
@@ -1,141 +1,14 @@
 import type { BusinessCardData } from "@/types"
+import { getOcrProvider, type OcrProvider } from "@/services/ocr-providers"
+import { computeFieldConfidence } from "@/services/confidence-service"
+import { formatPersonName } from "@/lib/name-utils"
+import { countryNameToCode, withNormalizedPhones } from "@/lib/phone-utils"
+import { compactAddress, formatAddress, isEmptyAddress, parseAddress } from "@/lib/address-utils"
 
-// Upstage API configuration
-const UPSTAGE_API_URL = "https://api.upstage.ai/v1/information-extraction"
-
-// Business card schema for Upstage Information Extraction
-const BUSINESS_CARD_SCHEMA = {
-  type: "json_schema",
-  json_schema: {
-    name: "business_card_schema",
-    schema: {
-      type: "object",
-      properties: {
-        name: {
-          type: "string",
-          description: "Full name of the person on the business card"
-        },
-        first_name: {
-          type: "string", 
-          description: "First name of the person"
-        },
-        last_name: {
-          type: "string",
-          description: "Last name of the person"
-        },
-        company: {
-          type: "string",
-          description: "Company or organization name"
-        },
-        job_title: {
-          type: "string",
-          description: "Job title, position, or role"
-        },
-        department: {
-          type: "string",
-          description: "Department or division within the company"
-        },
-        phone: {
-          type: "string",
-          description: "Primary phone number"
-        },
-        mobile: {
-          type: "string",
-          description: "Mobile or cell phone number"
-        },
-        fax: {
-          type: "string",
-          description: "Fax number"
-        },
-        email: {
-          type: "string",
-          description: "Email address"
-        },
-        website: {
-          type: "string",
-          description: "Company or personal website URL"
-        },
-        address: {
-          type: "string",
-          description: "Complete physical address"
-        },
-        street_address: {
-          type: "string",
-          description: "Street address line"
-        },
-        city: {
-          type: "string",
-          description: "City name"
-        },
-        state: {
-          type: "string",
-          description: "State or province"
-        },
-        zip_code: {
-          type: "string",
-          description: "ZIP or postal code"
-        },
-        country: {
-          type: "string",
-          description: "Country name"
-        },
-        linkedin: {
-          type: "string",
-          description: "LinkedIn profile URL or username"
-        },
-        twitter: {
-          type: "string",
-          description: "Twitter handle or URL"
-        },
-        facebook: {
-          type: "string",
-          description: "Facebook profile URL"
-        },
-        instagram: {
-          type: "string",
-          description: "Instagram handle or URL"
-        },
-        skype: {
-          type: "string",
-          description: "Skype username"
-        },
-        whatsapp: {
-          type: "string",
-          description: "WhatsApp number"
-        },
-        additional_info: {
-          type: "string",
-          description: "Any additional information or notes found on the card"
-        }
-      }
-    }
-  }
-}
-
-interface UpstageResponse {
-  id: string;
-  choices: Array<{
-    finish_reason: string;
-    message: {
-      content: string;
-      role: string;
-    };
-  }>;
-  usage: {
-    completion_tokens: number;
-    prompt_tokens: number;
-    total_tokens: number;
-  };
-}
-
-// Convert image file to base64 data URL
+// Convert image file to base64 data URL (runs server-side in the /api/extract route)
 async function fileToDataURL(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+  const buffer = Buffer.from(await file.arrayBuffer());
+  return `data:${file.type || "image/jpeg"};base64,${buffer.toString("base64")}`;
 }
 
 // Generate thumbnail from image file
@@ -222,72 +95,14 @@ function safeSetField(value: any): any {
   return value;
 }
 
-// Helper function to build address from components
-function buildAddress(components: (string | null | undefined)[]): string | null {
-  const validComponents = components.filter(c => c && c.trim());
-  return validComponents.length > 0 ? validComponents.join(", ") : null;
-}
-
-// Helper function to build full name
-function buildFullName(firstName?: string, lastName?: string): string | null {
-  const parts = [firstName, lastName].filter(Boolean);
-  return parts.length > 0 ? parts.join(" ") : null;
-}
-
-export async function extractBusinessCardData(imageFile: File, apiKey?: string): Promise<BusinessCardData> {
-  if (!apiKey) {
-    throw new Error("Upstage API key is required. Please provide your API key.");
-  }
-
+export async function extractBusinessCardData(imageFile: File, provider: OcrProvider = getOcrProvider()): Promise<BusinessCardData> {
   try {
     // Convert image to data URL
     const imageDataURL = await fileToDataURL(imageFile);
 
-    // Prepare the request payload
-    const payload = {
-      model: "information-extract",
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "image_url",
-              image_url: {
-                url: imageDataURL
-              }
-            }
-          ]
-        }
-      ],
-      response_format: BUSINESS_CARD_SCHEMA,
-      chunking: {
-        pages_per_chunk: 1
-      }
-    };
-
-    // Make API request to Upstage
-    const response = await fetch(UPSTAGE_API_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json; charset=utf-8"
-      },
-      body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-      throw new Error(`Upstage API error: ${response.status} ${response.statusText}`);
-    }
-
-    const result: UpstageResponse = await response.json();
-    
-    if (!result.choices || result.choices.length === 0) {
-      throw new Error("No data extracted from the image");
-    }
-
-    // Parse the extracted JSON data
-    const extractedContent = result.choices[0].message.content;
-    const extractedData = JSON.parse(extractedContent);
+    // Run the configured OCR provider
+    const extraction = await provider.extract(imageDataURL);
+    const extractedData = extraction.fields;
 
     // Build the business card data object, only including non-null values
     const businessCardData: BusinessCardData = {
@@ -296,7 +111,10 @@ export async function extractBusinessCardData(imageFile: File, apiKey?: string):
     };
 
     // Add main fields only if they have values
-    const name = safeSetField(extractedData.name) || buildFullName(extractedData.first_name, extractedData.last_name);
+    const name = safeSetField(extractedData.name) ||
+      safeSetField(extractedData.native_name) ||
+      safeSetField(extractedData.romanized_name) ||
+      formatPersonName(extractedData.last_name, extractedData.first_name, extractedData.name_locale || undefined);
     if (name) businessCardData.name = name;
 
     const company = safeSetField(extractedData.company);
@@ -315,13 +133,24 @@ export async function extractBusinessCardData(imageFile: File, apiKey?: string):
     const email = safeSetField(extractedData.email);
     if (email) businessCardData.email = email;
 
-    const address = safeSetField(extractedData.address) || buildAddress([
-      extractedData.street_address,
-      extractedData.city,
-      extractedData.state,
-      extractedData.zip_code,
-      extractedData.country
-    ]);
+    // Structured address from the OCR components, falling back to parsing the full address
+    const addressComponents = compactAddress({
+      street: extractedData.street_address || undefined,
+      city: extractedData.city || undefined,
+      state: extractedData.state || undefined,
+      postalCode: extractedData.zip_code || undefined,
+      country: extractedData.country || undefined,
+      countryCode: countryNameToCode(extractedData.country),
+    });
+    const fullAddress = safeSetField(extractedData.address);
+    const addressDetails = addressComponents.street || addressComponents.city || !fullAddress
+      ? addressComponents
+      : parseAddress(fullAddress, extractedData.country || undefined);
+    if (!isEmptyAddress(addressDetails)) {
+      businessCardData.addressDetails = addressDetails;
+    }
+
+    const address = fullAddress || formatAddress(addressDetails);
     if (address) businessCardData.address = address;
 
     const website = safeSetField(extractedData.website);
@@ -338,13 +167,13 @@ export async function extractBusinessCardData(imageFile: File, apiKey?: string):
     
     if (safeSetField(extractedData.first_name)) metadata.first_name = extractedData.first_name;
     if (safeSetField(extractedData.last_name)) metadata.last_name = extractedData.last_name;
+    if (safeSetField(extractedData.native_name)) metadata.native_name = extractedData.native_name;
+    if (safeSetField(extractedData.romanized_name)) metadata.romanized_name = extractedData.romanized_name;
+    if (safeSetField(extractedData.phonetic_first_name)) metadata.phonetic_first_name = extractedData.phonetic_first_name;
+    if (safeSetField(extractedData.phonetic_last_name)) metadata.phonetic_last_name = extractedData.phonetic_last_name;
+    if (safeSetField(extractedData.name_locale)) metadata.name_locale = extractedData.name_locale;
     if (safeSetField(extractedData.department)) metadata.department = extractedData.department;
     if (safeSetField(extractedData.fax)) metadata.fax = extractedData.fax;
-    if (safeSetField(extractedData.street_address)) metadata.street_address = extractedData.street_address;
-    if (safeSetField(extractedData.city)) metadata.city = extractedData.city;
-    if (safeSetField(extractedData.state)) metadata.state = extractedData.state;
-    if (safeSetField(extractedData.zip_code)) metadata.zip_code = extractedData.zip_code;
-    if (safeSetField(extractedData.country)) metadata.country = extractedData.country;
     if (safeSetField(extractedData.facebook)) metadata.facebook = extractedData.facebook;
     if (safeSetField(extractedData.instagram)) metadata.instagram = extractedData.instagram;
     if (safeSetField(extractedData.skype)) metadata.skype = extractedData.skype;
@@ -356,21 +185,11 @@ export async function extractBusinessCardData(imageFile: File, apiKey?: string):
       businessCardData.metadata = metadata;
     }
 
-    // Add confidence scores (mock for now as Upstage doesn't provide them)
-    businessCardData.confidence = {
-      name: 95,
-      company: 90,
-      jobTitle: 85,
-      phone: 88,
-      mobile: 86,
-      email: 92,
-      address: 80,
-      website: 75,
-      linkedin: 70,
-      twitter: 65,
-    };
+    // Score each field from provider probabilities, format checks and the raw OCR text
+    businessCardData.confidence = computeFieldConfidence(businessCardData, extraction);
 
-    return businessCardData;
+    // Store E.164 forms alongside the numbers as printed
+    return withNormalizedPhones(businessCardData);
 
   } catch (error) {
     console.error("Error extracting business card data:", error);
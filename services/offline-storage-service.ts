@@ -1,19 +1,86 @@
-import type { BusinessCardData } from "@/types"
+import type { BusinessCardData, CardActivity, CardPage, CardPageCursor, CardPageOptions, FollowUpTask } from "@/types"
+import { DEFAULT_PAGE_SIZE, compareCards, getPageCursor, getSortKey, isAfterCursor } from "@/lib/card-sort"
 
 // IndexedDB configuration
 const DB_NAME = 'CardScanDB'
-const DB_VERSION = 1
+const DB_VERSION = 5
 const CARDS_STORE = 'cards'
 const PENDING_UPLOADS_STORE = 'pendingUploads'
-
-interface PendingUpload {
+const CARD_PAGES_STORE = 'cardPages'
+const TASKS_STORE = 'tasks'
+const ACTIVITY_STORE = 'activity'
+// Full-text search index, maintained by the search index service
+export const SEARCH_TERMS_STORE = 'searchTerms'
+export const SEARCH_DOCS_STORE = 'searchDocs'
+
+// Queued changes share one store; entries without a kind are cards saved by earlier versions
+interface PendingCardUpload {
   id: string
+  kind?: 'card'
   cardData: BusinessCardData
+  tempId?: string           // ID the card is cached under until it syncs (offline_...)
+  userId: string
+  timestamp: string
+  retryCount: number
+}
+
+// Latest offline change to a follow-up task; a newer change replaces the queued one
+interface PendingTaskChange {
+  id: string                // `task_${taskId}`
+  kind: 'task'
+  task: FollowUpTask
+  deleted?: boolean
   userId: string
   timestamp: string
   retryCount: number
 }
 
+// Activity entry added offline
+interface PendingActivity {
+  id: string                // `activity_${activityId}`
+  kind: 'activity'
+  activity: CardActivity
+  userId: string
+  timestamp: string
+  retryCount: number
+}
+
+// Card to send to the CRM again: it failed with a passing error or was sent offline.
+// The card and the CRM settings are read when it is retried, so the latest of both are used.
+interface PendingCrmSend {
+  id: string                // `crm_${cardId}`
+  kind: 'crm'
+  cardId: string
+  userId: string
+  timestamp: string
+  retryCount: number
+}
+
+type PendingUpload = PendingCardUpload | PendingTaskChange | PendingActivity | PendingCrmSend
+
+function getTaskChangeId(taskId: string): string {
+  return `task_${taskId}`
+}
+
+function getCrmSendId(cardId: string): string {
+  return `crm_${cardId}`
+}
+
+// A page of cards as Firestore returned it, mirrored so the browser can paint it offline
+interface CachedCardPage {
+  key: string               // `${userId}|${sortKey}|${pageIndex}`
+  userId: string
+  sortKey: string
+  pageIndex: number
+  cardIds: string[]
+  cursor: CardPageCursor | null
+  cachedAt: string
+}
+
+function getPageKey(userId: string, sortKey: string, pageIndex: number): string {
+  return `${userId}|${sortKey}|${pageIndex}`
+}
+
 class OfflineStorageService {
   private db: IDBDatabase | null = null
 
@@ -49,6 +116,35 @@ class OfflineStorageService {
           pendingStore.createIndex('userId', 'userId', { unique: false })
           pendingStore.createIndex('timestamp', 'timestamp', { unique: false })
         }
+
+        // Pages of cards per sort mode, mirroring the Firestore pages
+        if (!db.objectStoreNames.contains(CARD_PAGES_STORE)) {
+          const pagesStore = db.createObjectStore(CARD_PAGES_STORE, { keyPath: 'key' })
+          pagesStore.createIndex('userId', 'userId', { unique: false })
+        }
+
+        // Inverted index: term -> cards containing it
+        if (!db.objectStoreNames.contains(SEARCH_TERMS_STORE)) {
+          db.createObjectStore(SEARCH_TERMS_STORE, { keyPath: ['userId', 'term'] })
+        }
+
+        // Terms indexed for each card, to update the index when the card changes
+        if (!db.objectStoreNames.contains(SEARCH_DOCS_STORE)) {
+          const docsStore = db.createObjectStore(SEARCH_DOCS_STORE, { keyPath: 'cardId' })
+          docsStore.createIndex('userId', 'userId', { unique: false })
+        }
+
+        // Follow-up tasks for offline viewing
+        if (!db.objectStoreNames.contains(TASKS_STORE)) {
+          const tasksStore = db.createObjectStore(TASKS_STORE, { keyPath: 'id' })
+          tasksStore.createIndex('userId', 'userId', { unique: false })
+        }
+
+        // Activity timelines of the cards
+        if (!db.objectStoreNames.contains(ACTIVITY_STORE)) {
+          const activityStore = db.createObjectStore(ACTIVITY_STORE, { keyPath: 'id' })
+          activityStore.createIndex('cardId', 'cardId', { unique: false })
+        }
       }
     })
   }
@@ -100,15 +196,112 @@ class OfflineStorageService {
     })
   }
 
-  // Add card to pending uploads (for background sync)
-  async addPendingUpload(userId: string, cardData: BusinessCardData): Promise<string> {
+  // Mirror a page fetched from Firestore. Cards are stored in the cards store; the page keeps their order.
+  // Fetching the first page again starts the sort mode over, so its later pages are dropped.
+  async cacheCardPage(userId: string, options: CardPageOptions, pageIndex: number, page: CardPage): Promise<void> {
+    const db = await this.initDB()
+    const transaction = db.transaction([CARDS_STORE, CARD_PAGES_STORE], 'readwrite')
+    const cardsStore = transaction.objectStore(CARDS_STORE)
+    const pagesStore = transaction.objectStore(CARD_PAGES_STORE)
+    const sortKey = getSortKey(options.sortBy, options.direction)
+
+    page.cards.forEach(card => {
+      if (card.id) {
+        cardsStore.put({ ...card, userId })
+      }
+    })
+
+    if (pageIndex === 0) {
+      const userPages = pagesStore.index('userId').getAll(userId)
+      userPages.onsuccess = () => {
+        (userPages.result as CachedCardPage[])
+          .filter(cached => cached.sortKey === sortKey && cached.pageIndex > 0)
+          .forEach(cached => pagesStore.delete(cached.key))
+      }
+    }
+
+    const cachedPage: CachedCardPage = {
+      key: getPageKey(userId, sortKey, pageIndex),
+      userId,
+      sortKey,
+      pageIndex,
+      cardIds: page.cards.map(card => card.id!).filter(Boolean),
+      cursor: page.cursor,
+      cachedAt: new Date().toISOString(),
+    }
+    pagesStore.put(cachedPage)
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  // Read a mirrored page; null when it was never fetched
+  async getCachedCardPage(userId: string, options: CardPageOptions, pageIndex: number): Promise<CardPage | null> {
+    const db = await this.initDB()
+    const transaction = db.transaction([CARDS_STORE, CARD_PAGES_STORE], 'readonly')
+    const cardsStore = transaction.objectStore(CARDS_STORE)
+    const pagesStore = transaction.objectStore(CARD_PAGES_STORE)
+    const key = getPageKey(userId, getSortKey(options.sortBy, options.direction), pageIndex)
+
+    return new Promise((resolve, reject) => {
+      const request = pagesStore.get(key)
+
+      request.onsuccess = () => {
+        const cachedPage = request.result as CachedCardPage | undefined
+        if (!cachedPage) {
+          resolve(null)
+          return
+        }
+
+        const cards: BusinessCardData[] = []
+        cachedPage.cardIds.forEach(cardId => {
+          const cardRequest = cardsStore.get(cardId)
+          cardRequest.onsuccess = () => {
+            if (cardRequest.result) cards.push(cardRequest.result)
+          }
+        })
+
+        // Card reads complete in request order, so the page keeps its order
+        transaction.oncomplete = () => resolve({ cards, cursor: cachedPage.cursor, fromCache: true })
+      }
+
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Page through all cached cards when the page itself was never mirrored (e.g. a sort mode
+  // not used before going offline). Sorted the same way as the Firestore query.
+  async getCachedCardsPage(userId: string, options: CardPageOptions): Promise<CardPage> {
+    const pageSize = options.pageSize || DEFAULT_PAGE_SIZE
+    const cachedCards = await this.getCachedCards(userId)
+
+    const sorted = cachedCards
+      .filter(card => !options.cursor || isAfterCursor(card, options.cursor, options.sortBy, options.direction))
+      .sort((a, b) => compareCards(a, b, options.sortBy, options.direction))
+    const cards = sorted.slice(0, pageSize)
+
+    return {
+      cards,
+      cursor: sorted.length > pageSize
+        ? getPageCursor(cards[cards.length - 1], options.sortBy, options.direction)
+        : null,
+      fromCache: true,
+    }
+  }
+
+  // Add card to pending uploads (for background sync). tempId is the ID the card is cached
+  // under meanwhile; tasks added to it are moved to the real ID once it syncs.
+  async addPendingUpload(userId: string, cardData: BusinessCardData, tempId?: string): Promise<string> {
     const db = await this.initDB()
     const transaction = db.transaction([PENDING_UPLOADS_STORE], 'readwrite')
     const store = transaction.objectStore(PENDING_UPLOADS_STORE)
 
-    const pendingUpload: PendingUpload = {
+    const pendingUpload: PendingCardUpload = {
       id: crypto.randomUUID(),
       cardData: { ...cardData, id: undefined }, // Remove ID so Firebase generates new one
+      tempId,
       userId,
       timestamp: new Date().toISOString(),
       retryCount: 0
@@ -201,6 +394,19 @@ class OfflineStorageService {
     })
   }
 
+  // A cached card, or null when it is not cached
+  async getCachedCard(cardId: string): Promise<BusinessCardData | null> {
+    const db = await this.initDB()
+    const transaction = db.transaction([CARDS_STORE], 'readonly')
+    const store = transaction.objectStore(CARDS_STORE)
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(cardId)
+      request.onsuccess = () => resolve(request.result || null)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
   // Delete cached card
   async deleteCachedCard(cardId: string): Promise<void> {
     const db = await this.initDB()
@@ -214,6 +420,251 @@ class OfflineStorageService {
     })
   }
 
+  // Cache the user's tasks, replacing the cached ones
+  async cacheTasks(userId: string, tasks: FollowUpTask[]): Promise<void> {
+    const db = await this.initDB()
+    const transaction = db.transaction([TASKS_STORE], 'readwrite')
+    const store = transaction.objectStore(TASKS_STORE)
+
+    const userTasks = store.index('userId').getAllKeys(userId)
+    userTasks.onsuccess = () => {
+      userTasks.result.forEach(key => store.delete(key))
+      tasks.forEach(task => store.put({ ...task, userId }))
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  async getCachedTasks(userId: string): Promise<FollowUpTask[]> {
+    const db = await this.initDB()
+    const transaction = db.transaction([TASKS_STORE], 'readonly')
+    const index = transaction.objectStore(TASKS_STORE).index('userId')
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(userId)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async cacheTask(userId: string, task: FollowUpTask): Promise<void> {
+    const db = await this.initDB()
+    const transaction = db.transaction([TASKS_STORE], 'readwrite')
+    const store = transaction.objectStore(TASKS_STORE)
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({ ...task, userId })
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async deleteCachedTask(taskId: string): Promise<void> {
+    const db = await this.initDB()
+    const transaction = db.transaction([TASKS_STORE], 'readwrite')
+    const store = transaction.objectStore(TASKS_STORE)
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(taskId)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Queue a task change (or deletion) for sync, replacing an earlier queued change to the task
+  async queueTaskChange(userId: string, task: FollowUpTask, deleted = false): Promise<void> {
+    const db = await this.initDB()
+    const transaction = db.transaction([PENDING_UPLOADS_STORE], 'readwrite')
+    const store = transaction.objectStore(PENDING_UPLOADS_STORE)
+
+    const change: PendingTaskChange = {
+      id: getTaskChangeId(task.id),
+      kind: 'task',
+      task,
+      deleted,
+      userId,
+      timestamp: new Date().toISOString(),
+      retryCount: 0,
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(change)
+
+      request.onsuccess = () => {
+        resolve()
+        this.registerBackgroundSync()
+      }
+
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Drop a queued task change, e.g. after a newer version of the task was saved online
+  async removeTaskChange(taskId: string): Promise<void> {
+    return this.removePendingUpload(getTaskChangeId(taskId))
+  }
+
+  async getPendingTaskChanges(userId?: string): Promise<PendingTaskChange[]> {
+    return (await this.getPendingUploads(userId))
+      .filter((pending): pending is PendingTaskChange => pending.kind === 'task')
+  }
+
+  // Queue a card to be sent to the CRM when back online; a card already queued keeps its retry count
+  async queueCrmSend(userId: string, cardId: string): Promise<void> {
+    const db = await this.initDB()
+    const transaction = db.transaction([PENDING_UPLOADS_STORE], 'readwrite')
+    const store = transaction.objectStore(PENDING_UPLOADS_STORE)
+    const id = getCrmSendId(cardId)
+
+    const existing = store.get(id)
+    existing.onsuccess = () => {
+      if (existing.result) return
+      const pending: PendingCrmSend = {
+        id,
+        kind: 'crm',
+        cardId,
+        userId,
+        timestamp: new Date().toISOString(),
+        retryCount: 0,
+      }
+      store.put(pending)
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
+        resolve()
+        this.registerBackgroundSync()
+      }
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  // Drop a queued CRM send, e.g. after the card was sent or the CRM refused it
+  async removeCrmSend(cardId: string): Promise<void> {
+    return this.removePendingUpload(getCrmSendId(cardId))
+  }
+
+  async getPendingCrmSends(userId?: string): Promise<PendingCrmSend[]> {
+    return (await this.getPendingUploads(userId))
+      .filter((pending): pending is PendingCrmSend => pending.kind === 'crm')
+  }
+
+  // Replace the cached timeline of a card
+  async cacheActivity(cardId: string, activity: CardActivity[]): Promise<void> {
+    const db = await this.initDB()
+    const transaction = db.transaction([ACTIVITY_STORE], 'readwrite')
+    const store = transaction.objectStore(ACTIVITY_STORE)
+
+    const cardActivity = store.index('cardId').getAllKeys(cardId)
+    cardActivity.onsuccess = () => {
+      cardActivity.result.forEach(key => store.delete(key))
+      activity.forEach(entry => store.put(entry))
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  async getCachedActivity(cardId: string): Promise<CardActivity[]> {
+    const db = await this.initDB()
+    const transaction = db.transaction([ACTIVITY_STORE], 'readonly')
+    const index = transaction.objectStore(ACTIVITY_STORE).index('cardId')
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(cardId)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Add entries to the cached timelines; with queue set they are also queued for sync
+  async addCachedActivity(userId: string, activity: CardActivity[], queue: boolean): Promise<void> {
+    const db = await this.initDB()
+    const transaction = db.transaction([ACTIVITY_STORE, PENDING_UPLOADS_STORE], 'readwrite')
+    const activityStore = transaction.objectStore(ACTIVITY_STORE)
+    const pendingStore = transaction.objectStore(PENDING_UPLOADS_STORE)
+    const timestamp = new Date().toISOString()
+
+    for (const entry of activity) {
+      activityStore.put(entry)
+      if (queue) {
+        const pending: PendingActivity = {
+          id: `activity_${entry.id}`,
+          kind: 'activity',
+          activity: entry,
+          userId,
+          timestamp,
+          retryCount: 0,
+        }
+        pendingStore.put(pending)
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
+        resolve()
+        if (queue) this.registerBackgroundSync()
+      }
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  // Entries added offline and not synced yet
+  async getPendingActivity(userId?: string): Promise<CardActivity[]> {
+    return (await this.getPendingUploads(userId))
+      .filter((pending): pending is PendingActivity => pending.kind === 'activity')
+      .map(pending => pending.activity)
+  }
+
+  async deleteCachedActivity(cardId: string): Promise<void> {
+    return this.cacheActivity(cardId, [])
+  }
+
+  // A card saved offline got its real ID: move its cached and queued tasks and activity over
+  private async moveRecordsToCard(fromCardId: string, toCardId: string): Promise<void> {
+    const db = await this.initDB()
+    const transaction = db.transaction([TASKS_STORE, ACTIVITY_STORE, PENDING_UPLOADS_STORE], 'readwrite')
+    const tasksStore = transaction.objectStore(TASKS_STORE)
+    const activityStore = transaction.objectStore(ACTIVITY_STORE)
+    const pendingStore = transaction.objectStore(PENDING_UPLOADS_STORE)
+
+    const tasks = tasksStore.getAll()
+    tasks.onsuccess = () => {
+      (tasks.result as FollowUpTask[])
+        .filter(task => task.cardId === fromCardId)
+        .forEach(task => tasksStore.put({ ...task, cardId: toCardId }))
+    }
+
+    const activity = activityStore.index('cardId').getAll(fromCardId)
+    activity.onsuccess = () => {
+      (activity.result as CardActivity[]).forEach(entry => activityStore.put({ ...entry, cardId: toCardId }))
+    }
+
+    const pending = pendingStore.getAll()
+    pending.onsuccess = () => {
+      for (const change of pending.result as PendingUpload[]) {
+        if (change.kind === 'task' && change.task.cardId === fromCardId) {
+          pendingStore.put({ ...change, task: { ...change.task, cardId: toCardId } })
+        } else if (change.kind === 'activity' && change.activity.cardId === fromCardId) {
+          pendingStore.put({ ...change, activity: { ...change.activity, cardId: toCardId } })
+        } else if (change.kind === 'crm' && change.cardId === fromCardId) {
+          pendingStore.delete(change.id)
+          pendingStore.put({ ...change, id: getCrmSendId(toCardId), cardId: toCardId })
+        }
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
   // Check if online
   isOnline(): boolean {
     return navigator.onLine
@@ -238,7 +689,8 @@ class OfflineStorageService {
 
     try {
       const { StorageService } = await import('./storage-service')
-      const pendingUploads = await this.getPendingUploads()
+      const pendingUploads = (await this.getPendingUploads())
+        .filter((pending): pending is PendingCardUpload => !pending.kind || pending.kind === 'card')
 
       for (const pending of pendingUploads) {
         try {
@@ -247,6 +699,9 @@ class OfflineStorageService {
           
           // Cache the successfully uploaded card
           await this.cacheCard(savedCard)
+          if (pending.tempId) {
+            await this.moveRecordsToCard(pending.tempId, savedCard.id!)
+          }
           
           // Remove from pending
           await this.removePendingUpload(pending.id)
@@ -265,6 +720,71 @@ class OfflineStorageService {
           }
         }
       }
+
+      // Tasks and activity go after the cards, so those of cards saved offline point at the synced card
+      for (const change of await this.getPendingTaskChanges()) {
+        if (change.task.cardId.startsWith('offline_')) continue // The card has not synced yet
+
+        try {
+          if (change.deleted) {
+            await StorageService.deleteTask(change.userId, change.task.id)
+          } else {
+            await StorageService.saveTask(change.userId, change.task)
+          }
+          await this.removePendingUpload(change.id)
+        } catch (error) {
+          console.error('Failed to sync task:', error)
+          await this.updateRetryCount(change.id)
+          if (change.retryCount >= 3) {
+            await this.removePendingUpload(change.id)
+            console.log('Removed task change after max retries:', change.id)
+          }
+        }
+      }
+
+      // CRM sends go after the cards as well; the CRM service records each card's status
+      const pendingCrmSends = (await this.getPendingCrmSends())
+        .filter(pending => !pending.cardId.startsWith('offline_'))
+      if (pendingCrmSends.length > 0) {
+        const { retryCrmSend } = await import('./crm-service')
+        for (const pending of pendingCrmSends) {
+          try {
+            // The last attempt marks the card as failed instead of asking for another retry
+            const outcome = await retryCrmSend(pending.userId, pending.cardId, pending.retryCount >= 3)
+            if (outcome !== 'retry') {
+              await this.removePendingUpload(pending.id)
+              continue
+            }
+          } catch (error) {
+            console.error('Failed to send card to the CRM:', error)
+          }
+          await this.updateRetryCount(pending.id)
+          if (pending.retryCount >= 3) {
+            await this.removePendingUpload(pending.id)
+            console.log('Removed CRM send after max retries:', pending.id)
+          }
+        }
+      }
+
+      // Activity entries are appended in one batch per user; they are only ever added,
+      // so failed ones stay queued until they get through
+      const pendingActivity = (await this.getPendingUploads())
+        .filter((pending): pending is PendingActivity => pending.kind === 'activity' && !pending.activity.cardId.startsWith('offline_'))
+      const activityByUser = new Map<string, PendingActivity[]>()
+      pendingActivity.forEach(pending => {
+        activityByUser.set(pending.userId, [...(activityByUser.get(pending.userId) || []), pending])
+      })
+
+      for (const [userId, entries] of Array.from(activityByUser.entries())) {
+        try {
+          await StorageService.addActivity(userId, entries.map(pending => pending.activity))
+          for (const pending of entries) {
+            await this.removePendingUpload(pending.id)
+          }
+        } catch (error) {
+          console.error('Failed to sync activity:', error)
+        }
+      }
     } catch (error) {
       console.error('Sync process failed:', error)
     }
@@ -0,0 +1,50 @@
+import type { FollowUpTask } from "@/types"
+
+// Reminders are shown through the app's service worker while the installed app runs.
+// In a browser tab the "Due today" list is the reminder.
+
+function isInstalledApp(): boolean {
+  const isStandalone = window.matchMedia('(display-mode: standalone)').matches
+  return (window.navigator as Navigator & { standalone?: boolean }).standalone === true || isStandalone
+}
+
+// Whether reminders can be shown as notifications on this device
+export function canShowReminders(): boolean {
+  return typeof window !== 'undefined' &&
+    'Notification' in window &&
+    'serviceWorker' in navigator &&
+    isInstalledApp()
+}
+
+// Ask for permission once; call from a user action (e.g. adding a task)
+export async function requestReminderPermission(): Promise<boolean> {
+  if (!canShowReminders()) return false
+  if (Notification.permission !== 'default') return Notification.permission === 'granted'
+
+  try {
+    return (await Notification.requestPermission()) === 'granted'
+  } catch (error) {
+    console.error('Notification permission request failed:', error)
+    return false
+  }
+}
+
+// Show the reminder of a task; false when notifications are unavailable or not allowed
+export async function showTaskReminder(task: FollowUpTask): Promise<boolean> {
+  if (!canShowReminders() || Notification.permission !== 'granted') return false
+
+  try {
+    const registration = await navigator.serviceWorker.ready
+    await registration.showNotification(task.contactName ? `Follow up with ${task.contactName}` : 'Follow-up due', {
+      body: task.title,
+      tag: `follow-up-${task.id}`, // Showing it again replaces the earlier one
+      icon: '/icons/icon-192x192.png',
+      badge: '/icons/icon-96x96.png',
+      data: { type: 'FOLLOW_UP', cardId: task.cardId, taskId: task.id },
+    })
+    return true
+  } catch (error) {
+    console.error('Failed to show reminder:', error)
+    return false
+  }
+}
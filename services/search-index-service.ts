@@ -0,0 +1,237 @@
+import type { BusinessCardData } from "@/types"
+import { offlineStorageService, SEARCH_TERMS_STORE, SEARCH_DOCS_STORE } from "./offline-storage-service"
+import { getCardSearchTerms, matchTerm, tokenize } from "@/lib/search-utils"
+
+// Cards containing a term, with the weight of the field the term appears in
+interface SearchTermRecord {
+  userId: string
+  term: string
+  postings: Record<string, number>  // cardId -> field weight
+}
+
+// Terms indexed for a card
+interface SearchDocRecord {
+  cardId: string
+  userId: string
+  terms: string[]
+}
+
+export interface SearchMatch {
+  cardId: string
+  score: number
+  terms: string[]  // Index terms that matched, for highlighting
+}
+
+export interface CardSearchResult {
+  card: BusinessCardData
+  score: number
+  terms: string[]
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+function userTermRange(userId: string): IDBKeyRange {
+  return IDBKeyRange.bound([userId, ''], [userId, '\uffff'])
+}
+
+// Client-side inverted index of the user's cards in IndexedDB. It is rebuilt from the full
+// collection now and then and kept current as cards are saved, updated and deleted.
+class SearchIndexService {
+  // Term lists per user; typo matching compares the query with every term
+  private termCache = new Map<string, string[]>()
+
+  private getBuiltKey(userId: string): string {
+    return `search_index_built_${userId}`
+  }
+
+  // When the index was last rebuilt from the whole collection, or null if never
+  getBuiltAt(userId: string): Date | null {
+    const builtAt = localStorage.getItem(this.getBuiltKey(userId))
+    return builtAt ? new Date(builtAt) : null
+  }
+
+  // Replace the user's index with one built from the given cards
+  async rebuild(userId: string, cards: BusinessCardData[]): Promise<void> {
+    const db = await offlineStorageService.initDB()
+    const transaction = db.transaction([SEARCH_TERMS_STORE, SEARCH_DOCS_STORE], 'readwrite')
+    const termsStore = transaction.objectStore(SEARCH_TERMS_STORE)
+    const docsStore = transaction.objectStore(SEARCH_DOCS_STORE)
+
+    termsStore.delete(userTermRange(userId))
+    const oldDocIds = await requestResult(docsStore.index('userId').getAllKeys(userId))
+    oldDocIds.forEach(cardId => docsStore.delete(cardId))
+
+    const postings = new Map<string, Record<string, number>>()
+    for (const card of cards) {
+      if (!card.id) continue
+
+      const cardTerms = getCardSearchTerms(card)
+      cardTerms.forEach((weight, term) => {
+        const termPostings = postings.get(term) || {}
+        termPostings[card.id!] = weight
+        postings.set(term, termPostings)
+      })
+      docsStore.put({ cardId: card.id, userId, terms: Array.from(cardTerms.keys()) } as SearchDocRecord)
+    }
+
+    postings.forEach((termPostings, term) => {
+      termsStore.put({ userId, term, postings: termPostings } as SearchTermRecord)
+    })
+
+    await transactionDone(transaction)
+    this.termCache.delete(userId)
+    localStorage.setItem(this.getBuiltKey(userId), new Date().toISOString())
+  }
+
+  // Add or re-index cards
+  async indexCards(userId: string, cards: BusinessCardData[]): Promise<void> {
+    const indexed = cards.filter(card => card.id)
+    if (indexed.length === 0) return
+
+    await this.updateIndex(
+      userId,
+      new Map(indexed.map(card => [card.id!, getCardSearchTerms(card)]))
+    )
+  }
+
+  // Remove cards from the index
+  async removeCards(userId: string, cardIds: string[]): Promise<void> {
+    if (cardIds.length === 0) return
+    await this.updateIndex(userId, new Map(cardIds.map(cardId => [cardId, new Map<string, number>()])))
+  }
+
+  // Replace the terms of the given cards; an empty term map removes the card
+  private async updateIndex(userId: string, cardTerms: Map<string, Map<string, number>>): Promise<void> {
+    const db = await offlineStorageService.initDB()
+    const transaction = db.transaction([SEARCH_TERMS_STORE, SEARCH_DOCS_STORE], 'readwrite')
+    const termsStore = transaction.objectStore(SEARCH_TERMS_STORE)
+    const docsStore = transaction.objectStore(SEARCH_DOCS_STORE)
+
+    // Read the terms each card was indexed under before, then every affected term record,
+    // so cards sharing a term are applied to the same record
+    const cardIds = Array.from(cardTerms.keys())
+    const oldDocs = await Promise.all(
+      cardIds.map(cardId => requestResult<SearchDocRecord | undefined>(docsStore.get(cardId)))
+    )
+
+    const affectedTerms = new Set<string>()
+    oldDocs.forEach(doc => doc?.terms.forEach(term => affectedTerms.add(term)))
+    cardTerms.forEach(terms => terms.forEach((_, term) => affectedTerms.add(term)))
+
+    const termList = Array.from(affectedTerms)
+    const records = await Promise.all(
+      termList.map(term => requestResult<SearchTermRecord | undefined>(termsStore.get([userId, term])))
+    )
+    const postings = new Map(termList.map((term, i) => [term, { ...(records[i]?.postings || {}) }]))
+
+    oldDocs.forEach((doc, i) => {
+      doc?.terms.forEach(term => delete postings.get(term)![cardIds[i]])
+    })
+    cardTerms.forEach((terms, cardId) => {
+      terms.forEach((weight, term) => {
+        postings.get(term)![cardId] = weight
+      })
+    })
+
+    postings.forEach((termPostings, term) => {
+      if (Object.keys(termPostings).length > 0) {
+        termsStore.put({ userId, term, postings: termPostings } as SearchTermRecord)
+      } else {
+        termsStore.delete([userId, term])
+      }
+    })
+
+    cardTerms.forEach((terms, cardId) => {
+      if (terms.size > 0) {
+        docsStore.put({ cardId, userId, terms: Array.from(terms.keys()) } as SearchDocRecord)
+      } else {
+        docsStore.delete(cardId)
+      }
+    })
+
+    await transactionDone(transaction)
+    this.termCache.delete(userId)
+  }
+
+  private async getTerms(userId: string): Promise<string[]> {
+    const cached = this.termCache.get(userId)
+    if (cached) return cached
+
+    const db = await offlineStorageService.initDB()
+    const transaction = db.transaction([SEARCH_TERMS_STORE], 'readonly')
+    const keys = await requestResult(transaction.objectStore(SEARCH_TERMS_STORE).getAllKeys(userTermRange(userId)))
+    const terms = keys.map(key => (key as [string, string])[1])
+
+    this.termCache.set(userId, terms)
+    return terms
+  }
+
+  // Cards matching every word of the query, best first. A card's score adds up, per query word,
+  // the best match quality (exact > prefix > typo) times the weight of the field it matched in.
+  async search(userId: string, query: string): Promise<SearchMatch[]> {
+    const tokens = Array.from(new Set(tokenize(query)))
+    if (tokens.length === 0) return []
+
+    const terms = await this.getTerms(userId)
+
+    // Matching index terms and their quality, per query word
+    const tokenMatches = tokens.map(token => {
+      const matches = new Map<string, number>()
+      for (const term of terms) {
+        const quality = matchTerm(token, term)
+        if (quality > 0) matches.set(term, quality)
+      }
+      return matches
+    })
+    if (tokenMatches.some(matches => matches.size === 0)) return []
+
+    const db = await offlineStorageService.initDB()
+    const transaction = db.transaction([SEARCH_TERMS_STORE], 'readonly')
+    const termsStore = transaction.objectStore(SEARCH_TERMS_STORE)
+    const matchedTerms = Array.from(new Set(tokenMatches.flatMap(matches => Array.from(matches.keys()))))
+    const records = await Promise.all(
+      matchedTerms.map(term => requestResult<SearchTermRecord | undefined>(termsStore.get([userId, term])))
+    )
+    const postings = new Map(matchedTerms.map((term, i) => [term, records[i]?.postings || {}]))
+
+    // Best score of each card per query word
+    const cardScores = new Map<string, { scores: number[]; terms: Set<string> }>()
+    tokenMatches.forEach((matches, tokenIndex) => {
+      matches.forEach((quality, term) => {
+        Object.entries(postings.get(term) || {}).forEach(([cardId, weight]) => {
+          const entry = cardScores.get(cardId) || { scores: new Array(tokens.length).fill(0), terms: new Set<string>() }
+          entry.scores[tokenIndex] = Math.max(entry.scores[tokenIndex], quality * weight)
+          entry.terms.add(term)
+          cardScores.set(cardId, entry)
+        })
+      })
+    })
+
+    const results: SearchMatch[] = []
+    cardScores.forEach((entry, cardId) => {
+      if (entry.scores.every(score => score > 0)) {
+        results.push({
+          cardId,
+          score: entry.scores.reduce((sum, score) => sum + score, 0),
+          terms: Array.from(entry.terms),
+        })
+      }
+    })
+
+    return results.sort((a, b) => b.score - a.score)
+  }
+}
+
+export const searchIndexService = new SearchIndexService()
@@ -2,19 +2,53 @@ import {
   collection, 
   doc, 
   addDoc, 
+  getDoc,
   getDocs, 
   deleteDoc, 
   updateDoc, 
   query, 
   where, 
   orderBy,
+  limit,
+  startAfter,
+  documentId,
+  getCountFromServer,
+  writeBatch,
+  arrayRemove,
+  setDoc,
   Timestamp 
 } from 'firebase/firestore'
-import { db } from '@/lib/firebase'
-import type { BusinessCardData } from "@/types"
+import { auth, db } from '@/lib/firebase'
+import type {
+  AddressLocation,
+  BusinessCardData,
+  CardActivity,
+  CardDavLink,
+  CardGroup,
+  CardOrganization,
+  CardPage,
+  CardPageOptions,
+  CardVersion,
+  ChangeAuthor,
+  CrmStatus,
+  FollowUpTask,
+  TrashedCard,
+} from "@/types"
+import { withNormalizedPhones } from '@/lib/phone-utils'
+import { withStructuredAddress } from '@/lib/address-utils'
+import { findDuplicateCandidates, type DuplicateCandidate } from '@/services/duplicate-detection-service'
+import { DEFAULT_PAGE_SIZE, SORT_FIELD_NAMES, getCardSortFields, getPageCursor, getSortOrder } from '@/lib/card-sort'
+import { isVersionChange, toVersionData } from '@/lib/card-history'
+import { notifyCardEvent } from '@/services/webhook-service'
 
-// Firestore collection name
+// Firestore collection names
 const COLLECTION_NAME = 'business_cards'
+const GROUPS_COLLECTION_NAME = 'card_groups'
+const TASKS_COLLECTION_NAME = 'follow_up_tasks'
+const TRASH_COLLECTION_NAME = 'deleted_cards' // Same document IDs as business_cards
+const ACTIVITY_SUBCOLLECTION_NAME = 'activity' // business_cards/{cardId}/activity
+const VERSIONS_SUBCOLLECTION_NAME = 'versions' // business_cards/{cardId}/versions
+const MAX_VERSIONS_SHOWN = 50
 
 // Convert Firestore document to BusinessCardData
 function mapFirestoreDoc(doc: any): BusinessCardData {
@@ -62,13 +96,30 @@ function mapFirestoreDoc(doc: any): BusinessCardData {
     timestamp = new Date().toISOString()
   }
   
+  // Sort keys are a storage detail (see getCardSortFields)
+  const card = { ...data }
+  for (const field of SORT_FIELD_NAMES) {
+    delete card[field]
+  }
+
   return {
-    ...data,
+    ...card,
     id: doc.id,
     timestamp,
   }
 }
 
+// The signed-in user, recorded with versions and deletions
+function getChangeAuthor(): ChangeAuthor | undefined {
+  const user = auth.currentUser
+  return user ? { uid: user.uid, name: user.displayName || user.email || undefined } : undefined
+}
+
+// Objects to clean field by field; Firestore values such as Timestamp are stored as they are
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+}
+
 // Clean data for Firestore - remove undefined values and convert to null if needed
 function cleanDataForFirestore(data: any): any {
   const cleaned: any = {}
@@ -78,7 +129,10 @@ function cleanDataForFirestore(data: any): any {
       if (value === null) {
         // Keep null values
         cleaned[key] = null
-      } else if (typeof value === 'object' && value !== null) {
+      } else if (Array.isArray(value)) {
+        // Keep arrays as arrays, cleaning the objects in them
+        cleaned[key] = value.map(item => isPlainObject(item) ? cleanDataForFirestore(item) : item)
+      } else if (isPlainObject(value)) {
         // Recursively clean nested objects
         const cleanedNested = cleanDataForFirestore(value)
         // Only add if the nested object has properties
@@ -86,7 +140,7 @@ function cleanDataForFirestore(data: any): any {
           cleaned[key] = cleanedNested
         }
       } else {
-        // Keep non-undefined primitive values
+        // Keep other non-undefined values (primitives, Timestamps)
         cleaned[key] = value
       }
     }
@@ -97,31 +151,11 @@ function cleanDataForFirestore(data: any): any {
 }
 
 export class StorageService {
-  static async checkForDuplicates(userId: string, cardData: BusinessCardData): Promise<BusinessCardData[]> {
+  // Ranked possible duplicates of a card, with the reasons each one matched
+  static async checkForDuplicates(userId: string, cardData: BusinessCardData): Promise<DuplicateCandidate[]> {
     try {
       const allCards = await this.getCards(userId)
-      
-      const potentialDuplicates = allCards.filter(existingCard => {
-        // Check if name matches (case insensitive, ignore whitespace)
-        const nameMatch = existingCard.name && cardData.name &&
-          existingCard.name.toLowerCase().trim() === cardData.name.toLowerCase().trim()
-        
-        // Check if any phone numbers match
-        const phoneNumbers = [cardData.phone, cardData.mobile].filter(Boolean)
-        const existingPhoneNumbers = [existingCard.phone, existingCard.mobile].filter(Boolean)
-        
-        const phoneMatch = phoneNumbers.some(phone => 
-          existingPhoneNumbers.some(existingPhone => 
-            phone && existingPhone && 
-            phone.replace(/\D/g, '') === existingPhone.replace(/\D/g, '') // Compare digits only
-          )
-        )
-        
-        // Consider it a duplicate if name matches OR phone matches
-        return nameMatch || phoneMatch
-      })
-      
-      return potentialDuplicates
+      return findDuplicateCandidates(cardData, allCards)
     } catch (error) {
       console.error('Error checking for duplicates:', error)
       // If there's an error checking, don't block the save
@@ -133,12 +167,15 @@ export class StorageService {
     try {
       const cardsRef = collection(db, COLLECTION_NAME)
       
+      // Keep the original timestamp if it exists, otherwise use current time as ISO string
+      const timestamp = cardData.timestamp || new Date().toISOString()
+
       // Prepare data for Firestore
       const firestoreData = {
-        ...cardData,
+        ...withNormalizedPhones(withStructuredAddress(cardData)),
         userId,
-        // Keep the original timestamp if it exists, otherwise use current time as ISO string
-        timestamp: cardData.timestamp || new Date().toISOString(),
+        timestamp,
+        ...getCardSortFields({ ...cardData, timestamp }),
         createdAt: Timestamp.now(),
         updatedAt: Timestamp.now(),
       }
@@ -150,9 +187,10 @@ export class StorageService {
       const cleanedData = cleanDataForFirestore(firestoreData)
       
       const docRef = await addDoc(cardsRef, cleanedData)
+      notifyCardEvent('card.created', docRef.id)
       
       return {
-        ...cardData,
+        ...withNormalizedPhones(withStructuredAddress(cardData)),
         id: docRef.id,
         userId,
         timestamp: firestoreData.timestamp,
@@ -186,16 +224,173 @@ export class StorageService {
     }
   }
 
-  static async deleteCard(userId: string, cardId: string): Promise<void> {
+  // One page of cards in the given sort mode, starting after the cursor
+  static async getCardsPage(userId: string, options: CardPageOptions): Promise<CardPage> {
+    try {
+      const pageSize = options.pageSize || DEFAULT_PAGE_SIZE
+      const order = getSortOrder(options.sortBy, options.direction)
+      const lastDirection = order[order.length - 1][1]
+
+      const cardsRef = collection(db, COLLECTION_NAME)
+      const q = query(
+        cardsRef,
+        where('userId', '==', userId),
+        ...order.map(([field, direction]) => orderBy(field, direction)),
+        orderBy(documentId(), lastDirection),
+        ...(options.cursor ? [startAfter(...options.cursor.values, options.cursor.id)] : []),
+        // One extra document tells whether another page exists
+        limit(pageSize + 1)
+      )
+
+      const querySnapshot = await getDocs(q)
+      const cards = querySnapshot.docs.slice(0, pageSize).map(mapFirestoreDoc)
+      const hasMore = querySnapshot.docs.length > pageSize
+
+      return {
+        cards,
+        cursor: hasMore && cards.length > 0
+          ? getPageCursor(cards[cards.length - 1], options.sortBy, options.direction)
+          : null,
+      }
+    } catch (error) {
+      console.error('Error fetching card page from Firestore:', error)
+      throw new Error('Failed to fetch business cards')
+    }
+  }
+
+  // Number of cards without downloading them
+  static async countCards(userId: string): Promise<number> {
+    const cardsRef = collection(db, COLLECTION_NAME)
+    const snapshot = await getCountFromServer(query(cardsRef, where('userId', '==', userId)))
+    return snapshot.data().count
+  }
+
+  // Add sort keys to cards saved before paging existed (they would be missing from sorted queries)
+  static async backfillSortFields(userId: string): Promise<number> {
+    try {
+      const cardsRef = collection(db, COLLECTION_NAME)
+      const querySnapshot = await getDocs(query(cardsRef, where('userId', '==', userId)))
+
+      const outdated = querySnapshot.docs.filter(document => {
+        const data = document.data()
+        return SORT_FIELD_NAMES.some(field => typeof data[field] !== 'string') || typeof data.isFavorite !== 'boolean'
+      })
+
+      // Firestore batches hold at most 500 writes
+      for (let i = 0; i < outdated.length; i += 500) {
+        const batch = writeBatch(db)
+        for (const document of outdated.slice(i, i + 500)) {
+          batch.update(document.ref, { ...getCardSortFields(mapFirestoreDoc(document)) })
+        }
+        await batch.commit()
+      }
+
+      return outdated.length
+    } catch (error) {
+      console.error('Error backfilling sort fields:', error)
+      throw new Error('Failed to prepare business cards for sorting')
+    }
+  }
+
+  // Move a card to the trash. Its activity and versions stay under its ID until it is purged;
+  // tasks are kept in the trash entry so they come back with the card.
+  static async deleteCard(userId: string, cardId: string, tasks: FollowUpTask[] = []): Promise<void> {
     try {
       const cardRef = doc(db, COLLECTION_NAME, cardId)
-      await deleteDoc(cardRef)
+      const card = await getDoc(cardRef)
+      if (!card.exists()) return
+
+      const batch = writeBatch(db)
+      batch.set(doc(db, TRASH_COLLECTION_NAME, cardId), cleanDataForFirestore({
+        card: card.data(),
+        tasks,
+        userId,
+        deletedAt: new Date().toISOString(),
+        deletedBy: getChangeAuthor(),
+      }))
+      batch.delete(cardRef)
+      await batch.commit()
+      notifyCardEvent('card.deleted', cardId)
     } catch (error) {
       console.error('Error deleting card from Firestore:', error)
       throw new Error('Failed to delete business card')
     }
   }
 
+  // Cards in the trash, most recently deleted first
+  static async getTrash(userId: string): Promise<TrashedCard[]> {
+    try {
+      const trashRef = collection(db, TRASH_COLLECTION_NAME)
+      const querySnapshot = await getDocs(query(trashRef, where('userId', '==', userId)))
+
+      return querySnapshot.docs
+        .map(document => {
+          const data = document.data()
+          return {
+            card: mapFirestoreDoc({ id: document.id, data: () => data.card }),
+            deletedAt: data.deletedAt,
+            deletedBy: data.deletedBy,
+            tasks: data.tasks || [],
+          }
+        })
+        .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+    } catch (error) {
+      console.error('Error fetching trash from Firestore:', error)
+      throw new Error('Failed to fetch deleted cards')
+    }
+  }
+
+  // Put a card from the trash back in the collection, under its old ID; returns it with its tasks
+  static async restoreCard(userId: string, cardId: string): Promise<TrashedCard> {
+    try {
+      const trashRef = doc(db, TRASH_COLLECTION_NAME, cardId)
+      const trashed = await getDoc(trashRef)
+      if (!trashed.exists()) {
+        throw new Error('The card is no longer in the trash')
+      }
+
+      const data = trashed.data()
+      const batch = writeBatch(db)
+      batch.set(doc(db, COLLECTION_NAME, cardId), { ...data.card, updatedAt: Timestamp.now() })
+      batch.delete(trashRef)
+      await batch.commit()
+      notifyCardEvent('card.created', cardId)
+
+      return {
+        card: mapFirestoreDoc({ id: cardId, data: () => data.card }),
+        deletedAt: data.deletedAt,
+        deletedBy: data.deletedBy,
+        tasks: data.tasks || [],
+      }
+    } catch (error) {
+      console.error('Error restoring card in Firestore:', error)
+      throw new Error('Failed to restore business card')
+    }
+  }
+
+  // Delete a card in the trash for good, with its activity and versions
+  static async purgeCard(userId: string, cardId: string): Promise<void> {
+    try {
+      const cardRef = doc(db, COLLECTION_NAME, cardId)
+
+      // Subcollections are not deleted with their document
+      for (const subcollection of [ACTIVITY_SUBCOLLECTION_NAME, VERSIONS_SUBCOLLECTION_NAME]) {
+        const entries = await getDocs(collection(cardRef, subcollection))
+        for (let i = 0; i < entries.docs.length; i += 500) {
+          const batch = writeBatch(db)
+          entries.docs.slice(i, i + 500).forEach(document => batch.delete(document.ref))
+          await batch.commit()
+        }
+      }
+
+      await deleteDoc(doc(db, TRASH_COLLECTION_NAME, cardId))
+    } catch (error) {
+      console.error('Error purging card from Firestore:', error)
+      throw new Error('Failed to delete business card')
+    }
+  }
+
+  // Update a card; the version it replaces is kept (see getVersions)
   static async updateCard(userId: string, cardData: BusinessCardData): Promise<void> {
     try {
       if (!cardData.id) {
@@ -204,7 +399,8 @@ export class StorageService {
       
       const cardRef = doc(db, COLLECTION_NAME, cardData.id)
       const updateData = {
-        ...cardData,
+        ...withNormalizedPhones(withStructuredAddress(cardData)),
+        ...getCardSortFields(cardData),
         userId,
         updatedAt: Timestamp.now(),
       }
@@ -214,14 +410,241 @@ export class StorageService {
       
       // Clean the data to remove undefined values
       const cleanedData = cleanDataForFirestore(updateData)
-      
-      await updateDoc(cardRef, cleanedData)
+
+      const batch = writeBatch(db)
+      const current = await getDoc(cardRef)
+      if (current.exists()) {
+        const previous = mapFirestoreDoc(current)
+        if (isVersionChange(previous, cardData)) {
+          batch.set(doc(collection(cardRef, VERSIONS_SUBCOLLECTION_NAME)), cleanDataForFirestore({
+            data: toVersionData(previous),
+            replacedAt: new Date().toISOString(),
+            replacedBy: getChangeAuthor(),
+            userId,
+          }))
+        }
+      }
+      batch.update(cardRef, cleanedData)
+      await batch.commit()
+      notifyCardEvent('card.updated', cardData.id)
     } catch (error) {
       console.error('Error updating card in Firestore:', error)
       throw new Error('Failed to update business card')
     }
   }
 
+  // Change favorites, tags and groups without rewriting the rest of the card
+  static async updateOrganization(userId: string, cardId: string, changes: CardOrganization): Promise<void> {
+    try {
+      const cardRef = doc(db, COLLECTION_NAME, cardId)
+      await updateDoc(cardRef, cleanDataForFirestore({ ...changes, updatedAt: Timestamp.now() }))
+      notifyCardEvent('card.updated', cardId)
+    } catch (error) {
+      console.error('Error updating card organization in Firestore:', error)
+      throw new Error('Failed to update business card')
+    }
+  }
+
+  // Store where the card stands in the CRM
+  static async updateCrmStatus(userId: string, cardId: string, crm: CrmStatus): Promise<void> {
+    try {
+      const cardRef = doc(db, COLLECTION_NAME, cardId)
+      await updateDoc(cardRef, { crm: cleanDataForFirestore(crm), updatedAt: Timestamp.now() })
+      notifyCardEvent('card.updated', cardId)
+    } catch (error) {
+      console.error('Error updating card CRM status in Firestore:', error)
+      throw new Error('Failed to update business card')
+    }
+  }
+
+  // Store where the card's contact is in the CardDAV address book. Only the link changes, so the
+  // card is not marked as edited (which would make the next sync send it again).
+  static async updateCardDavLink(userId: string, cardId: string, carddav: CardDavLink | null): Promise<void> {
+    try {
+      const cardRef = doc(db, COLLECTION_NAME, cardId)
+      await updateDoc(cardRef, { carddav: carddav ? cleanDataForFirestore(carddav) : null })
+    } catch (error) {
+      console.error('Error updating card address book link in Firestore:', error)
+      throw new Error('Failed to update business card')
+    }
+  }
+
+  // Store the geocoded position of the card's address
+  static async updateAddressLocation(userId: string, cardId: string, addressLocation: AddressLocation): Promise<void> {
+    try {
+      const cardRef = doc(db, COLLECTION_NAME, cardId)
+      await updateDoc(cardRef, { addressLocation: cleanDataForFirestore(addressLocation), updatedAt: Timestamp.now() })
+      notifyCardEvent('card.updated', cardId)
+    } catch (error) {
+      console.error('Error updating card location in Firestore:', error)
+      throw new Error('Failed to update business card')
+    }
+  }
+
+  static async getGroups(userId: string): Promise<CardGroup[]> {
+    try {
+      const groupsRef = collection(db, GROUPS_COLLECTION_NAME)
+      const querySnapshot = await getDocs(query(groupsRef, where('userId', '==', userId)))
+
+      return querySnapshot.docs
+        .map(document => {
+          const data = document.data()
+          return { id: document.id, name: data.name, color: data.color, createdAt: data.createdAt }
+        })
+        .sort((a, b) => a.name.localeCompare(b.name))
+    } catch (error) {
+      console.error('Error fetching groups from Firestore:', error)
+      throw new Error('Failed to fetch groups')
+    }
+  }
+
+  // Create a group, or update it when it has an ID
+  static async saveGroup(userId: string, group: Omit<CardGroup, 'id'> & { id?: string }): Promise<CardGroup> {
+    try {
+      const groupRef = group.id
+        ? doc(db, GROUPS_COLLECTION_NAME, group.id)
+        : doc(collection(db, GROUPS_COLLECTION_NAME))
+      const savedGroup: CardGroup = {
+        id: groupRef.id,
+        name: group.name,
+        color: group.color,
+        createdAt: group.createdAt || new Date().toISOString(),
+      }
+
+      await setDoc(groupRef, {
+        name: savedGroup.name,
+        color: savedGroup.color,
+        createdAt: savedGroup.createdAt,
+        userId,
+      })
+      return savedGroup
+    } catch (error) {
+      console.error('Error saving group to Firestore:', error)
+      throw new Error('Failed to save group')
+    }
+  }
+
+  // Delete a group and take its cards out of it
+  static async deleteGroup(userId: string, groupId: string): Promise<void> {
+    try {
+      const cardsRef = collection(db, COLLECTION_NAME)
+      const members = await getDocs(query(
+        cardsRef,
+        where('userId', '==', userId),
+        where('groupIds', 'array-contains', groupId)
+      ))
+
+      // Firestore batches hold at most 500 writes
+      for (let i = 0; i < members.docs.length; i += 499) {
+        const batch = writeBatch(db)
+        for (const document of members.docs.slice(i, i + 499)) {
+          batch.update(document.ref, { groupIds: arrayRemove(groupId) })
+        }
+        if (i === 0) batch.delete(doc(db, GROUPS_COLLECTION_NAME, groupId))
+        await batch.commit()
+      }
+
+      if (members.docs.length === 0) {
+        await deleteDoc(doc(db, GROUPS_COLLECTION_NAME, groupId))
+      }
+    } catch (error) {
+      console.error('Error deleting group from Firestore:', error)
+      throw new Error('Failed to delete group')
+    }
+  }
+
+  static async getTasks(userId: string): Promise<FollowUpTask[]> {
+    try {
+      const tasksRef = collection(db, TASKS_COLLECTION_NAME)
+      const querySnapshot = await getDocs(query(tasksRef, where('userId', '==', userId)))
+
+      return querySnapshot.docs.map(document => {
+        const task = { ...document.data(), id: document.id } as FollowUpTask & { userId?: string }
+        delete task.userId
+        return task
+      })
+    } catch (error) {
+      console.error('Error fetching tasks from Firestore:', error)
+      throw new Error('Failed to fetch follow-up tasks')
+    }
+  }
+
+  // Create or replace a task; task IDs are made on the client so offline tasks keep theirs
+  static async saveTask(userId: string, task: FollowUpTask): Promise<void> {
+    try {
+      const { id, ...data } = task
+      await setDoc(doc(db, TASKS_COLLECTION_NAME, id), cleanDataForFirestore({ ...data, userId }))
+    } catch (error) {
+      console.error('Error saving task to Firestore:', error)
+      throw new Error('Failed to save follow-up task')
+    }
+  }
+
+  static async deleteTask(userId: string, taskId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, TASKS_COLLECTION_NAME, taskId))
+    } catch (error) {
+      console.error('Error deleting task from Firestore:', error)
+      throw new Error('Failed to delete follow-up task')
+    }
+  }
+
+  // Earlier versions of a card, most recent first
+  static async getVersions(userId: string, cardId: string): Promise<CardVersion[]> {
+    try {
+      const versionsRef = collection(db, COLLECTION_NAME, cardId, VERSIONS_SUBCOLLECTION_NAME)
+      const querySnapshot = await getDocs(query(versionsRef, orderBy('replacedAt', 'desc'), limit(MAX_VERSIONS_SHOWN)))
+
+      return querySnapshot.docs.map(document => {
+        const data = document.data()
+        return {
+          id: document.id,
+          cardId,
+          data: data.data,
+          replacedAt: data.replacedAt,
+          replacedBy: data.replacedBy,
+        }
+      })
+    } catch (error) {
+      console.error('Error fetching versions from Firestore:', error)
+      throw new Error('Failed to fetch card history')
+    }
+  }
+
+  // Activity timeline of a card, newest first
+  static async getActivity(userId: string, cardId: string): Promise<CardActivity[]> {
+    try {
+      const activityRef = collection(db, COLLECTION_NAME, cardId, ACTIVITY_SUBCOLLECTION_NAME)
+      const querySnapshot = await getDocs(query(activityRef, orderBy('at', 'desc')))
+
+      return querySnapshot.docs.map(document => {
+        const activity = { ...document.data(), id: document.id, cardId } as CardActivity & { userId?: string }
+        delete activity.userId
+        return activity
+      })
+    } catch (error) {
+      console.error('Error fetching activity from Firestore:', error)
+      throw new Error('Failed to fetch activity')
+    }
+  }
+
+  // Append entries, possibly for several cards (e.g. a bulk export)
+  static async addActivity(userId: string, activity: CardActivity[]): Promise<void> {
+    try {
+      // Firestore batches hold at most 500 writes
+      for (let i = 0; i < activity.length; i += 500) {
+        const batch = writeBatch(db)
+        for (const { id, cardId, ...data } of activity.slice(i, i + 500)) {
+          batch.set(doc(db, COLLECTION_NAME, cardId, ACTIVITY_SUBCOLLECTION_NAME, id), cleanDataForFirestore({ ...data, userId }))
+        }
+        await batch.commit()
+      }
+    } catch (error) {
+      console.error('Error saving activity to Firestore:', error)
+      throw new Error('Failed to save activity')
+    }
+  }
+
   static async searchCards(userId: string, query: string): Promise<BusinessCardData[]> {
     try {
       // Get all cards for the user first (Firestore doesn't support full-text search natively)
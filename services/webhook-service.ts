@@ -0,0 +1,92 @@
+import type { Webhook, WebhookDelivery, WebhookEventType } from "@/types"
+import { auth } from "@/lib/firebase"
+
+// Server-side webhook routes (webhooks are kept and payloads are signed and sent by our backend,
+// see app/api/webhooks)
+const WEBHOOKS_API_URL = "/api/webhooks"
+
+// What the user sets on a webhook; the server sets its ID, secret and creation time
+export type WebhookChanges = Partial<Pick<Webhook, "url" | "description" | "events" | "active">>
+
+async function requestWebhooksRoute<T>(
+  path: string,
+  { method = "POST", body, keepalive = false }: { method?: string; body?: unknown; keepalive?: boolean } = {}
+): Promise<T> {
+  const currentUser = auth.currentUser
+  if (!currentUser) {
+    throw new Error("Please sign in to use webhooks.")
+  }
+  if (!navigator.onLine) {
+    throw new Error("Webhooks are not available offline.")
+  }
+
+  const idToken = await currentUser.getIdToken()
+  const response = await fetch(path ? `${WEBHOOKS_API_URL}/${path}` : WEBHOOKS_API_URL, {
+    method,
+    headers: {
+      "Authorization": `Bearer ${idToken}`,
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    // Lets the event go out even when the page is closed right after the change
+    keepalive,
+  })
+
+  if (!response.ok) {
+    const responseBody = await response.json().catch(() => null)
+    throw new Error(responseBody?.error || `Webhook request failed: ${response.status} ${response.statusText}`)
+  }
+  return response.status === 204 ? (undefined as T) : response.json()
+}
+
+export async function getWebhooks(): Promise<Webhook[]> {
+  return (await requestWebhooksRoute<{ webhooks: Webhook[] }>("", { method: "GET" })).webhooks
+}
+
+// Register a webhook; the server generates its secret
+export async function createWebhook(webhook: WebhookChanges & { url: string }): Promise<Webhook> {
+  return (await requestWebhooksRoute<{ webhook: Webhook }>("", { body: webhook })).webhook
+}
+
+export async function updateWebhook(webhookId: string, changes: WebhookChanges): Promise<Webhook> {
+  return (await requestWebhooksRoute<{ webhook: Webhook }>(encodeURIComponent(webhookId), { method: "PATCH", body: changes })).webhook
+}
+
+// Delete a webhook with its delivery log
+export async function deleteWebhook(webhookId: string): Promise<void> {
+  await requestWebhooksRoute<void>(encodeURIComponent(webhookId), { method: "DELETE" })
+}
+
+// Delivery log of a webhook, newest first
+export async function getWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+  return (await requestWebhooksRoute<{ deliveries: WebhookDelivery[] }>(`${encodeURIComponent(webhookId)}/deliveries`, { method: "GET" })).deliveries
+}
+
+// Tell the server a card change was saved, so it sends the event to the user's webhooks.
+// Like activity logging, this never fails the change itself: errors are only reported to the console.
+export async function notifyCardEvent(
+  event: WebhookEventType,
+  cardId: string,
+  details: { mergedCardIds?: string[] } = {}
+): Promise<void> {
+  if (!auth.currentUser) return
+
+  try {
+    await requestWebhooksRoute<{ deliveries: WebhookDelivery[] }>("events", {
+      body: { event, cardId, ...details },
+      keepalive: true,
+    })
+  } catch (error) {
+    console.error(`Failed to send the ${event} webhook event:`, error)
+  }
+}
+
+// Send a test event with a sample card to a webhook; returns how the delivery went
+export async function testWebhook(webhookId: string): Promise<WebhookDelivery> {
+  return (await requestWebhooksRoute<{ delivery: WebhookDelivery }>("test", { body: { webhookId } })).delivery
+}
+
+// Send the user's deliveries whose retry is due; returns how many were attempted
+export async function retryWebhookDeliveries(): Promise<number> {
+  return (await requestWebhooksRoute<{ retried: number }>("retry", { body: {} })).retried
+}
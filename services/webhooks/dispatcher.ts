@@ -0,0 +1,418 @@
+import { createHash } from "crypto"
+import { Timestamp, type DocumentReference, type DocumentSnapshot } from "firebase-admin/firestore"
+import type { BusinessCardData, Webhook, WebhookDelivery, WebhookEventType } from "@/types"
+import { getAdminFirestore } from "@/lib/firebase-admin"
+import { getWebhookConfig } from "@/lib/config"
+import { checkOutboundUrl, fetchOutbound } from "@/lib/outbound-url"
+import { toCardPayload } from "@/lib/card-payload"
+import { signPayload } from "./signature"
+import {
+  DELIVERIES_SUBCOLLECTION_NAME,
+  WEBHOOKS_COLLECTION_NAME,
+  getUserWebhooks,
+  toDelivery,
+  toWebhook,
+  type StoredDelivery,
+} from "./store"
+
+// Firestore collection names (the cards ones are shared with services/storage-service.ts)
+const CARDS_COLLECTION_NAME = "business_cards"
+const TRASH_COLLECTION_NAME = "deleted_cards"
+const CARD_STATES_COLLECTION_NAME = "webhook_card_states" // Same document IDs as business_cards
+const SWEEPS_COLLECTION_NAME = "webhook_sweeps" // Document IDs are user IDs
+
+// Wait before each retry of a failed delivery: a minute, 5 minutes, 30 minutes, 2 hours, then
+// 12 hours before the last attempt
+export const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000]
+
+// Deliveries older than this are dropped from the log
+const DELIVERY_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+// Sweeps look this far back before the previous one: updatedAt is set by the browser's clock, and
+// changes still being reported are deduplicated anyway
+const SWEEP_OVERLAP_MS = 15 * 60_000
+
+// Changes older than this are not swept: after a longer pause (no scheduler, no webhooks for a
+// while), sweeping starts over from now instead of announcing old changes
+const MAX_SWEEP_WINDOW_MS = 24 * 60 * 60_000
+
+// Fields that change without the card being edited; left out of the card's fingerprint
+const UNTRACKED_CARD_FIELDS = ["updatedAt", "lastAccessed"]
+
+export interface CardEventDetails {
+  mergedCardIds?: string[]   // card.merged: the duplicates merged into the card (now in the trash)
+}
+
+// What the user's webhooks were last told about a card, so every stored change is announced once,
+// and only changes that were stored
+interface CardState {
+  userId: string
+  deleted?: boolean
+  hash?: string              // Fingerprint of the card as last announced; missing until then
+  mergedInto?: string        // Set on a duplicate once card.merged was sent for it
+}
+
+// Shown as the card of test events
+const SAMPLE_CARD: BusinessCardData = {
+  id: "sample",
+  name: "Jane Doe",
+  jobTitle: "Head of Partnerships",
+  company: "Example Corp",
+  email: "jane.doe@example.com",
+  phone: "+1 415 555 0100",
+  website: "https://example.com",
+  address: "1 Market St, San Francisco, CA 94105, USA",
+  timestamp: "2024-01-01T00:00:00.000Z",
+}
+
+// JSON with the keys in order, so equal cards give equal strings however Firestore returned them
+function toStableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(toStableJson).join(",")}]`
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined).sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${toStableJson(entry)}`).join(",")}}`
+  }
+  return JSON.stringify(value) ?? "null"
+}
+
+function getCardHash(card: BusinessCardData): string {
+  const tracked: Record<string, unknown> = { ...card }
+  UNTRACKED_CARD_FIELDS.forEach(field => delete tracked[field])
+  return createHash("sha256").update(toStableJson(tracked)).digest("hex")
+}
+
+// The events a stored card calls for, given what was announced before. Cards announced before
+// only get the event matching their change; without a record (the card changed before webhooks
+// were added) it may be either created or updated.
+function getDueEvents(card: BusinessCardData | null, trashed: BusinessCardData | null, state: CardState | undefined): WebhookEventType[] {
+  if (card) {
+    if (!state?.hash) return state?.deleted ? ["card.created"] : ["card.created", "card.updated"]
+    if (state.deleted) return ["card.created"]
+    return state.hash !== getCardHash(card) ? ["card.updated"] : []
+  }
+  if (trashed) return state?.deleted ? [] : ["card.deleted"]
+  return []
+}
+
+// The user's card, or its trash entry, as stored
+function readOwnCard(document: DocumentSnapshot, userId: string, trash: boolean): BusinessCardData | null {
+  const data = document.data()
+  if (!data || data.userId !== userId) return null
+  if (trash) return data.card ? toCardPayload(document.id, data.card) : null
+  return toCardPayload(document.id, data)
+}
+
+interface QueuedDelivery {
+  webhook: Webhook
+  ref: DocumentReference
+  delivery: StoredDelivery
+}
+
+// A new event for the webhook, stored as retrying until its first attempt is recorded
+function queueDelivery(
+  userId: string,
+  webhook: Webhook,
+  event: WebhookDelivery["event"],
+  cardId: string | undefined,
+  data: Record<string, unknown>
+): QueuedDelivery {
+  const ref = getAdminFirestore().collection(WEBHOOKS_COLLECTION_NAME).doc(webhook.id).collection(DELIVERIES_SUBCOLLECTION_NAME).doc()
+  const createdAt = new Date().toISOString()
+  const delivery: StoredDelivery = {
+    userId,
+    event,
+    ...(cardId ? { cardId } : {}),
+    body: JSON.stringify({ id: ref.id, event, createdAt, data }),
+    state: "retrying",
+    attempts: 0,
+    // Picked up by the retries should this request end before the first attempt is recorded
+    nextAttemptAt: new Date(Date.now() + RETRY_DELAYS_MS[0]).toISOString(),
+    createdAt,
+    updatedAt: createdAt,
+  }
+  return { webhook, ref, delivery }
+}
+
+// Check a card event against the card as stored and what the webhooks were told before. When it
+// is due, it is recorded as announced and its deliveries are stored in one transaction, so that
+// two requests reporting the same change send it once. Without a reported event (sweeps), the due
+// one is sent; createdSince tells a new card from one edited before webhooks were added.
+// Returns the deliveries to attempt: none when nothing is due, null when the card is not the user's.
+async function claimCardEvent(
+  userId: string,
+  webhooks: Webhook[],
+  cardId: string,
+  reported: WebhookEventType | null,
+  { mergedCardIds = [], createdSince }: CardEventDetails & { createdSince?: number } = {}
+): Promise<QueuedDelivery[] | null> {
+  const db = getAdminFirestore()
+  const stateRef = db.collection(CARD_STATES_COLLECTION_NAME).doc(cardId)
+  const duplicateIds = reported === "card.merged" ? Array.from(new Set(mergedCardIds.filter(id => id !== cardId))) : []
+
+  return db.runTransaction(async transaction => {
+    const [stateDocument, cardDocument, trashDocument, ...duplicateDocuments] = await transaction.getAll(
+      stateRef,
+      db.collection(CARDS_COLLECTION_NAME).doc(cardId),
+      db.collection(TRASH_COLLECTION_NAME).doc(cardId),
+      ...duplicateIds.flatMap(id => [db.collection(CARD_STATES_COLLECTION_NAME).doc(id), db.collection(TRASH_COLLECTION_NAME).doc(id)])
+    )
+    const card = readOwnCard(cardDocument, userId, false)
+    const trashed = card ? null : readOwnCard(trashDocument, userId, true)
+    if (!card && !trashed) return null
+
+    const state = stateDocument.data() as CardState | undefined
+    let event: WebhookEventType
+    let data: Record<string, unknown>
+
+    if (reported === "card.merged") {
+      // Duplicates in the user's trash that were not announced as merged into this card yet
+      const merged = duplicateIds.filter((id, i) => {
+        const duplicateState = duplicateDocuments[2 * i].data() as CardState | undefined
+        return readOwnCard(duplicateDocuments[2 * i + 1], userId, true) && duplicateState?.mergedInto !== cardId
+      })
+      if (!card || merged.length === 0) return []
+      merged.forEach(id => transaction.set(db.collection(CARD_STATES_COLLECTION_NAME).doc(id), { userId, mergedInto: cardId }, { merge: true }))
+      event = reported
+      data = { card, mergedCardIds: merged }
+    } else {
+      const due = getDueEvents(card, trashed, state)
+      if (reported) {
+        if (!due.includes(reported)) return []
+        event = reported
+      } else if (due.length === 1) {
+        event = due[0]
+      } else if (due.length > 1) {
+        const createdAt = (card as BusinessCardData & { createdAt?: string }).createdAt || ""
+        event = createdAt >= new Date(createdSince || 0).toISOString() ? "card.created" : "card.updated"
+      } else {
+        return []
+      }
+      // A deleted card's record keeps the rest; a stored card's record is its fingerprint alone
+      if (card) {
+        transaction.set(stateRef, { userId, deleted: false, hash: getCardHash(card) })
+      } else {
+        transaction.set(stateRef, { userId, deleted: true }, { merge: true })
+      }
+      data = { card: card || trashed }
+    }
+
+    const queued = webhooks
+      .filter(webhook => webhook.events.includes(event))
+      .map(webhook => queueDelivery(userId, webhook, event, cardId, data))
+    queued.forEach(({ ref, delivery }) => transaction.set(ref, delivery))
+    return queued
+  })
+}
+
+// Send the stored event to the webhook once and record the outcome. Failures are retried with
+// the delays above, except test events and URLs that can never work (refused or redirected).
+async function attemptDelivery(
+  webhook: Webhook,
+  ref: DocumentReference,
+  delivery: StoredDelivery
+): Promise<WebhookDelivery> {
+  const config = getWebhookConfig()
+  const started = Date.now()
+  let responseStatus: number | undefined
+  let error: string | undefined
+  let permanent = delivery.event === "ping"
+
+  try {
+    const url = new URL(webhook.url)
+    try {
+      await checkOutboundUrl(url, config.allowPrivateHosts)
+    } catch (urlError) {
+      permanent = true
+      throw urlError
+    }
+
+    const response = await fetchOutbound(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "User-Agent": "CardScan-Webhooks/1.0",
+        "X-CardScan-Event": delivery.event,
+        "X-CardScan-Delivery": ref.id,
+        "X-CardScan-Signature": signPayload(webhook.secret, delivery.body),
+      },
+      body: delivery.body,
+      // Redirects are not followed: the next hop would not be checked, and POST bodies are dropped
+      redirect: "manual",
+      signal: AbortSignal.timeout(config.timeoutMs),
+    }, config.allowPrivateHosts)
+    responseStatus = response.status
+    await response.arrayBuffer().catch(() => undefined)
+
+    if (response.status >= 300 && response.status < 400) {
+      permanent = true
+      error = "The endpoint redirected the request; use the final URL"
+    } else if (!response.ok) {
+      error = `The endpoint answered ${response.status} ${response.statusText}`.trim()
+    }
+  } catch (sendError) {
+    error = sendError instanceof Error && sendError.name === "TimeoutError"
+      ? `No answer within ${Math.round(config.timeoutMs / 1000)} seconds`
+      : sendError instanceof Error ? sendError.message : "Failed to reach the endpoint"
+  }
+
+  const now = new Date()
+  const attempts = delivery.attempts + 1
+  const canRetry = !!error && !permanent && attempts <= RETRY_DELAYS_MS.length
+  const updated: StoredDelivery = {
+    ...delivery,
+    state: !error ? "delivered" : canRetry ? "retrying" : "failed",
+    attempts,
+    responseStatus,
+    error,
+    durationMs: Date.now() - started,
+    nextAttemptAt: canRetry ? new Date(now.getTime() + RETRY_DELAYS_MS[attempts - 1]).toISOString() : null,
+    updatedAt: now.toISOString(),
+  }
+  // Through JSON to drop the fields left undefined, which Firestore refuses
+  await ref.set(JSON.parse(JSON.stringify(updated)))
+  return toDelivery(webhook.id, ref.id, updated)
+}
+
+// Try a stored delivery right away, and keep the log short
+async function sendQueuedDelivery({ webhook, ref, delivery }: QueuedDelivery): Promise<WebhookDelivery> {
+  const result = await attemptDelivery(webhook, ref, delivery)
+
+  // A failed cleanup is tried again with the next event
+  try {
+    const cutoff = new Date(Date.now() - DELIVERY_LOG_RETENTION_MS).toISOString()
+    const old = await ref.parent.where("createdAt", "<", cutoff).limit(100).get()
+    await Promise.all(old.docs.map(document => document.ref.delete()))
+  } catch (error) {
+    console.error("Failed to prune webhook deliveries:", error)
+  }
+  return result
+}
+
+// Tell the user's webhooks subscribed to the event about a card change. The event is only sent
+// when the card as stored calls for it and it was not sent before, and the payload is built from
+// the stored card, not from what the browser sent. Returns null when the card is not the user's.
+export async function emitCardEvent(
+  userId: string,
+  event: WebhookEventType,
+  cardId: string,
+  details: CardEventDetails = {}
+): Promise<WebhookDelivery[] | null> {
+  const webhooks = (await getUserWebhooks(userId)).filter(webhook => webhook.active)
+  if (webhooks.length === 0) return []
+
+  const queued = await claimCardEvent(userId, webhooks, cardId, event, details)
+  return queued && Promise.all(queued.map(sendQueuedDelivery))
+}
+
+// Send a test event with a sample card to one of the user's webhooks, whether or not it is active.
+// Returns null when there is no such webhook.
+export async function sendTestEvent(userId: string, webhookId: string): Promise<WebhookDelivery | null> {
+  const document = await getAdminFirestore().collection(WEBHOOKS_COLLECTION_NAME).doc(webhookId).get()
+  if (!document.exists || document.data()!.userId !== userId) return null
+
+  const queued = queueDelivery(userId, toWebhook(document), "ping", undefined, { webhookId, card: SAMPLE_CARD })
+  await queued.ref.set(queued.delivery)
+  return sendQueuedDelivery(queued)
+}
+
+// Take a due retry for this request: its next attempt is moved ahead in a transaction, so that a
+// retry run started meanwhile (the scheduler, the user's browser) does not send it too. Null when
+// it is no longer due.
+async function claimDelivery(ref: DocumentReference): Promise<StoredDelivery | null> {
+  return getAdminFirestore().runTransaction(async transaction => {
+    const delivery = (await transaction.get(ref)).data() as StoredDelivery | undefined
+    const now = Date.now()
+    if (delivery?.state !== "retrying" || !delivery.nextAttemptAt || delivery.nextAttemptAt > new Date(now).toISOString()) {
+      return null
+    }
+    // Left for the retries, as a new delivery is, should this request end before the attempt is recorded
+    const nextAttemptAt = new Date(now + RETRY_DELAYS_MS[0]).toISOString()
+    transaction.update(ref, { nextAttemptAt })
+    return { ...delivery, nextAttemptAt }
+  })
+}
+
+// Send the retries that are due: the user's, or everyone's when called by the scheduler.
+// Returns how many deliveries were attempted.
+export async function retryDueDeliveries(userId?: string): Promise<number> {
+  const db = getAdminFirestore()
+  const webhooks = userId
+    ? await getUserWebhooks(userId)
+    : (await db.collection(WEBHOOKS_COLLECTION_NAME).get()).docs.map(toWebhook)
+  const now = new Date().toISOString()
+  let attempted = 0
+
+  for (const webhook of webhooks) {
+    const pending = await db.collection(WEBHOOKS_COLLECTION_NAME).doc(webhook.id)
+      .collection(DELIVERIES_SUBCOLLECTION_NAME)
+      .where("state", "==", "retrying")
+      .get()
+    const due = pending.docs
+      .filter(document => document.data().nextAttemptAt && document.data().nextAttemptAt <= now)
+      .sort((a, b) => a.data().createdAt.localeCompare(b.data().createdAt))
+
+    // In the order the events happened, so the endpoint sees an update after its create
+    for (const document of due) {
+      if (!webhook.active) {
+        await document.ref.update({ state: "failed", error: "The webhook was turned off", nextAttemptAt: null, updatedAt: now })
+        continue
+      }
+      const delivery = await claimDelivery(document.ref)
+      if (!delivery) continue
+      await attemptDelivery(webhook, document.ref, delivery)
+      attempted++
+    }
+  }
+  return attempted
+}
+
+// Announce the card changes the browser did not report (the tab was closed or lost its connection
+// right after saving): changes since the previous sweep of each user with active webhooks, the
+// user's or everyone's when called by the scheduler. Changes already announced are skipped, and
+// merges are only reported by the browser. Returns how many events were sent.
+export async function sweepMissedEvents(userId?: string): Promise<number> {
+  const db = getAdminFirestore()
+  const webhooksRef = db.collection(WEBHOOKS_COLLECTION_NAME)
+  const documents = (await (userId ? webhooksRef.where("userId", "==", userId) : webhooksRef).get()).docs
+  const webhooksByUser = new Map<string, Webhook[]>()
+  for (const document of documents) {
+    const webhook = toWebhook(document)
+    const owner: string = document.data().userId
+    if (webhook.active) webhooksByUser.set(owner, [...(webhooksByUser.get(owner) || []), webhook])
+  }
+  let sent = 0
+
+  for (const [owner, ownWebhooks] of webhooksByUser) {
+    const sweepRef = db.collection(SWEEPS_COLLECTION_NAME).doc(owner)
+    const startedAt = Date.now()
+    const previous: number | undefined = (await sweepRef.get()).data()?.sweptAt
+    if (previous === undefined || startedAt - previous > MAX_SWEEP_WINDOW_MS) {
+      await sweepRef.set({ sweptAt: startedAt })
+      continue
+    }
+
+    const since = previous - SWEEP_OVERLAP_MS
+    const [changed, trash] = await Promise.all([
+      // Same index as the app's card list (userId, updatedAt descending)
+      db.collection(CARDS_COLLECTION_NAME)
+        .where("userId", "==", owner)
+        .where("updatedAt", ">", Timestamp.fromMillis(since))
+        .orderBy("updatedAt", "desc")
+        .get(),
+      db.collection(TRASH_COLLECTION_NAME).where("userId", "==", owner).get(),
+    ])
+    const deletedIds = trash.docs
+      .filter(document => (document.data().deletedAt || "") > new Date(since).toISOString())
+      .map(document => document.id)
+
+    // Oldest change first, as the browser would have reported them
+    for (const cardId of [...changed.docs.map(document => document.id).reverse(), ...deletedIds]) {
+      const queued = await claimCardEvent(owner, ownWebhooks, cardId, null, { createdSince: since })
+      if (!queued?.length) continue
+      await Promise.all(queued.map(sendQueuedDelivery))
+      sent++
+    }
+    await sweepRef.set({ sweptAt: startedAt })
+  }
+  return sent
+}
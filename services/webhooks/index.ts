@@ -0,0 +1,19 @@
+export {
+  emitCardEvent,
+  retryDueDeliveries,
+  sendTestEvent,
+  sweepMissedEvents,
+  RETRY_DELAYS_MS,
+  type CardEventDetails,
+} from "./dispatcher"
+export {
+  WEBHOOK_EVENTS,
+  createWebhook,
+  deleteWebhook,
+  getUserWebhooks,
+  getWebhookDeliveries,
+  updateWebhook,
+  validateWebhookInput,
+  type WebhookInput,
+} from "./store"
+export { signPayload } from "./signature"
@@ -0,0 +1,9 @@
+import { createHmac } from "crypto"
+
+// Signature of a webhook payload, sent as the X-CardScan-Signature header: "t=<unix time>,v1=<hex>",
+// where v1 is the HMAC-SHA256 of "<unix time>.<body>" keyed with the webhook's secret. Receivers
+// recompute it from the raw body and reject old timestamps, so a captured request cannot be replayed.
+export function signPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+  return `t=${timestamp},v1=${signature}`
+}
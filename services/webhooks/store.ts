@@ -0,0 +1,177 @@
+import { randomBytes } from "crypto"
+import type { DocumentSnapshot } from "firebase-admin/firestore"
+import type { Webhook, WebhookDelivery, WebhookEventType } from "@/types"
+import { getAdminFirestore } from "@/lib/firebase-admin"
+
+// Webhooks are only read and written here, with Firebase Admin on behalf of the verified user:
+// the browser goes through /api/webhooks, so it cannot register a webhook for someone else.
+export const WEBHOOKS_COLLECTION_NAME = "webhooks"
+export const DELIVERIES_SUBCOLLECTION_NAME = "deliveries" // webhooks/{webhookId}/deliveries
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = ["card.created", "card.updated", "card.deleted", "card.merged"]
+
+const MAX_URL_LENGTH = 2000
+const MAX_DESCRIPTION_LENGTH = 200
+const MAX_DELIVERIES_SHOWN = 50
+
+// A delivery as stored: the body is kept so retries send the same event
+export interface StoredDelivery extends Omit<WebhookDelivery, "id" | "webhookId" | "nextAttemptAt"> {
+  userId: string
+  body: string
+  nextAttemptAt: string | null
+}
+
+// What the user sets on a webhook; the ID, secret and creation time are set by the server
+export type WebhookInput = Partial<Pick<Webhook, "url" | "description" | "events" | "active">>
+
+export function toWebhook(document: DocumentSnapshot): Webhook {
+  const data = document.data()!
+  return {
+    id: document.id,
+    url: data.url,
+    secret: data.secret,
+    events: data.events || [],
+    active: data.active !== false,
+    description: data.description || undefined,
+    createdAt: data.createdAt,
+  }
+}
+
+export function toDelivery(webhookId: string, id: string, stored: StoredDelivery): WebhookDelivery {
+  const delivery = { ...stored, id, webhookId, nextAttemptAt: stored.nextAttemptAt || undefined } as WebhookDelivery & { userId?: string; body?: string }
+  delete delivery.userId
+  delete delivery.body
+  return delivery
+}
+
+// The webhook's document: its ID is the document ID
+function toStoredWebhook(userId: string, webhook: Webhook): Record<string, unknown> {
+  // Through JSON to drop the fields left undefined, which Firestore refuses
+  const stored = JSON.parse(JSON.stringify({ ...webhook, userId }))
+  delete stored.id
+  return stored
+}
+
+// Secret a new webhook signs its payloads with: "whsec_" and 48 hex digits
+function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`
+}
+
+// The webhook, when it is the user's
+async function getOwnWebhook(userId: string, webhookId: string): Promise<DocumentSnapshot | null> {
+  const document = await getAdminFirestore().collection(WEBHOOKS_COLLECTION_NAME).doc(webhookId).get()
+  return document.exists && document.data()!.userId === userId ? document : null
+}
+
+export type WebhookInputResult = { fields: WebhookInput; error?: undefined } | { fields?: undefined; error: string }
+
+// Check a request body for a new webhook (url required) or the changes to one (partial).
+// An empty description removes it.
+export function validateWebhookInput(body: unknown, { partial = false } = {}): WebhookInputResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { error: "Expected a JSON object with the webhook's fields" }
+  }
+
+  const { url, description, events, active, ...rest } = body as Record<string, unknown>
+  const unknownField = Object.keys(rest)[0]
+  if (unknownField) {
+    return { error: `${unknownField} is not a known field` }
+  }
+
+  const fields: WebhookInput = {}
+  if (url !== undefined || !partial) {
+    let parsed: URL | null = null
+    try {
+      parsed = typeof url === "string" && url.length <= MAX_URL_LENGTH ? new URL(url) : null
+    } catch {
+      parsed = null
+    }
+    if (!parsed || (parsed.protocol !== "https:" && parsed.protocol !== "http:")) {
+      return { error: "url must be an http(s) URL" }
+    }
+    fields.url = parsed.toString()
+  }
+  if (description !== undefined) {
+    if (typeof description !== "string" || description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` }
+    }
+    fields.description = description.trim()
+  }
+  if (events !== undefined) {
+    if (!Array.isArray(events) || events.length === 0 || !events.every(event => WEBHOOK_EVENTS.includes(event))) {
+      return { error: `events must be a non-empty list of ${WEBHOOK_EVENTS.join(", ")}` }
+    }
+    // In the usual order, without repeats
+    fields.events = WEBHOOK_EVENTS.filter(event => events.includes(event))
+  }
+  if (active !== undefined) {
+    if (typeof active !== "boolean") {
+      return { error: "active must be a boolean" }
+    }
+    fields.active = active
+  }
+  return { fields }
+}
+
+export async function getUserWebhooks(userId: string): Promise<Webhook[]> {
+  const snapshot = await getAdminFirestore().collection(WEBHOOKS_COLLECTION_NAME).where("userId", "==", userId).get()
+  return snapshot.docs.map(toWebhook).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+// Register a webhook of the user, subscribed to every event unless told otherwise
+export async function createWebhook(userId: string, input: WebhookInput & { url: string }): Promise<Webhook> {
+  const ref = getAdminFirestore().collection(WEBHOOKS_COLLECTION_NAME).doc()
+  const webhook: Webhook = {
+    id: ref.id,
+    url: input.url,
+    secret: generateWebhookSecret(),
+    events: input.events || WEBHOOK_EVENTS,
+    active: input.active !== false,
+    description: input.description || undefined,
+    createdAt: new Date().toISOString(),
+  }
+  await ref.set(toStoredWebhook(userId, webhook))
+  return webhook
+}
+
+// Change one of the user's webhooks; null when there is no such webhook
+export async function updateWebhook(userId: string, webhookId: string, changes: WebhookInput): Promise<Webhook | null> {
+  const document = await getOwnWebhook(userId, webhookId)
+  if (!document) return null
+
+  const webhook: Webhook = { ...toWebhook(document), ...changes }
+  webhook.description = webhook.description || undefined
+  await document.ref.set(toStoredWebhook(userId, webhook))
+  return webhook
+}
+
+// Delete one of the user's webhooks with its delivery log; false when there is no such webhook
+export async function deleteWebhook(userId: string, webhookId: string): Promise<boolean> {
+  const document = await getOwnWebhook(userId, webhookId)
+  if (!document) return false
+
+  const db = getAdminFirestore()
+  const deliveries = await document.ref.collection(DELIVERIES_SUBCOLLECTION_NAME).get()
+  // Firestore batches hold at most 500 writes
+  for (let i = 0; i < deliveries.docs.length; i += 500) {
+    const batch = db.batch()
+    for (const delivery of deliveries.docs.slice(i, i + 500)) {
+      batch.delete(delivery.ref)
+    }
+    await batch.commit()
+  }
+  await document.ref.delete()
+  return true
+}
+
+// Delivery log of one of the user's webhooks, newest first; null when there is no such webhook
+export async function getWebhookDeliveries(userId: string, webhookId: string): Promise<WebhookDelivery[] | null> {
+  const document = await getOwnWebhook(userId, webhookId)
+  if (!document) return null
+
+  const snapshot = await document.ref.collection(DELIVERIES_SUBCOLLECTION_NAME)
+    .orderBy("createdAt", "desc")
+    .limit(MAX_DELIVERIES_SHOWN)
+    .get()
+  return snapshot.docs.map(delivery => toDelivery(webhookId, delivery.id, delivery.data() as StoredDelivery))
+}
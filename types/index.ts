@@ -5,8 +5,11 @@ export interface BusinessCardData {
   jobTitle?: string
   phone?: string
   mobile?: string
+  phoneE164?: string       // Normalized phone (+821012345678), derived from phone on save
+  mobileE164?: string      // Normalized mobile, derived from mobile on save
   email?: string
-  address?: string
+  address?: string         // Display form of the address
+  addressDetails?: PostalAddress  // Structured address, kept in sync with address on save
   website?: string
   linkedin?: string
   twitter?: string
@@ -14,15 +17,29 @@ export interface BusinessCardData {
   timestamp?: string
   imageBase64?: string      // Medium-sized image (512x512) for detail view
   thumbnailBase64?: string  // Small thumbnail (64x64) for list view
+  backImageBase64?: string  // Medium-sized image of the back side for double-sided cards
   userId?: string
   originalFilename?: string // Original filename for batch processing reference
+  scanHistory?: ScanRecord[] // Other scans of the same contact, kept when duplicates are merged
   // Organization features
   notes?: string           // Personal notes about the contact
   isFavorite?: boolean     // Whether this contact is marked as favorite
+  tags?: string[]          // User-defined labels ("investor", "follow up")
+  groupIds?: string[]      // IDs of the user's groups (CardGroup) the contact belongs to
+  event?: CardEvent | null // Where the card was collected; null removes it on update
+  captureLocation?: CaptureLocation  // Where the device was when the card was photographed (opt-in)
+  addressLocation?: AddressLocation  // Map position of the card's address, from the geocoder
   lastAccessed?: string    // ISO timestamp of when this contact was last viewed
+  carddav?: CardDavLink | null  // Contact in a CardDAV address book the card is linked to; null unlinks it
+  crm?: CrmStatus | null   // Last send of the card to the CRM
   metadata?: {
-    first_name?: string
-    last_name?: string
+    first_name?: string      // Given name
+    last_name?: string       // Family name
+    native_name?: string     // Name in the card's native script (e.g. 김철수, 山田太郎)
+    romanized_name?: string  // Name in Latin script (e.g. Chulsoo Kim)
+    phonetic_first_name?: string  // Reading of the given name (e.g. furigana たろう)
+    phonetic_last_name?: string   // Reading of the family name (e.g. やまだ)
+    name_locale?: string     // Language of the native name (ko, ja, zh, ...)
     department?: string
     mobile?: string
     fax?: string
@@ -39,6 +56,212 @@ export interface BusinessCardData {
   }
 }
 
+// A scan of a card that was merged into another card
+export interface ScanRecord {
+  timestamp: string
+  cardId?: string           // ID the scan was saved under before the merge
+  imageBase64?: string      // Only in records merged by earlier versions; now just the thumbnail is kept
+  thumbnailBase64?: string
+  backImageBase64?: string  // Only in records merged by earlier versions
+  originalFilename?: string
+}
+
+export interface PostalAddress {
+  street?: string       // Street and number
+  extended?: string     // Suite, floor or building
+  city?: string
+  state?: string        // State, province or prefecture
+  postalCode?: string
+  country?: string
+  countryCode?: string  // ISO 3166-1 alpha-2, when known
+}
+
+export interface GeoPoint {
+  lat: number
+  lng: number
+}
+
+export interface CaptureLocation extends GeoPoint {
+  accuracy?: number   // Meters
+  capturedAt: string  // ISO timestamp of the position fix
+}
+
+export interface AddressLocation {
+  query: string            // Address text that was geocoded; geocode again when the address changes
+  point: GeoPoint | null   // null when the geocoder found nothing
+  provider: string
+  geocodedAt: string
+}
+
+// Where a card's contact lives in a CardDAV address book (Google Contacts, iCloud, Nextcloud...)
+export interface CardDavLink {
+  addressBookUrl: string
+  href: string        // URL of the contact's vCard resource
+  etag: string        // ETag of the vCard when it was last synced
+  syncedAt: string    // ISO timestamp
+  localHash?: string  // Fingerprint of the card's contact fields when last synced; differs after an edit here
+  conflict?: CardDavConflict | null
+  deleted?: boolean   // The contact was deleted in the address book; the card is sent again only after an edit
+}
+
+// A linked card edited both here and in the address book since the last sync; neither side is
+// changed until the user picks one
+export interface CardDavConflict {
+  etag: string | null   // ETag of the address book's version, when known
+  detectedAt: string    // ISO timestamp
+}
+
+// Where the card stands in the CRM it was sent to ("Send to CRM")
+export interface CrmStatus {
+  state: "sent" | "queued" | "failed"  // queued: waiting in the offline queue to be sent again
+  target: string          // Endpoint the card was sent to
+  externalId?: string     // ID of the lead or contact in the CRM, when it answered with one
+  sentAt?: string         // ISO timestamp of the last successful send
+  error?: string          // Why the last attempt failed
+  sendId?: string         // While queued: the send its retries repeat
+  updatedAt: string       // ISO timestamp
+}
+
+// Trade show, conference or meetup a card was collected at
+export interface CardEvent {
+  name: string
+  date?: string       // YYYY-MM-DD
+  location?: string
+}
+
+export type GroupColor = "gray" | "red" | "orange" | "yellow" | "green" | "teal" | "blue" | "purple" | "pink"
+
+// A colored group of contacts defined by the user (e.g. "Conference 2026", "Partners")
+export interface CardGroup {
+  id: string
+  name: string
+  color: GroupColor
+  createdAt?: string
+}
+
+// Fields changed when organizing cards, without touching the rest of the card
+export type CardOrganization = Pick<BusinessCardData, "isFavorite" | "tags" | "groupIds">
+
+// A follow-up on a contact ("Send the proposal"), due at a given time
+export interface FollowUpTask {
+  id: string
+  cardId: string
+  title: string
+  dueAt: string                  // ISO timestamp
+  snoozedUntil?: string | null   // ISO timestamp; the reminder waits until then
+  done: boolean
+  completedAt?: string | null
+  notifiedAt?: string | null     // When the reminder notification was last shown
+  contactName?: string           // Copied from the card for lists and notifications
+  createdAt: string
+  updatedAt: string
+}
+
+export type CardActivityType = "scanned" | "imported" | "edited" | "exported" | "sent" | "shared" | "called" | "emailed" | "note"
+
+// A field changed by an edit, as shown to the user (formatted values)
+export interface FieldChange {
+  field: string
+  from?: string | null
+  to?: string | null
+}
+
+// An entry in a card's activity timeline; entries are only ever added
+export interface CardActivity {
+  id: string
+  cardId: string
+  type: CardActivityType
+  at: string                // ISO timestamp
+  detail?: string           // e.g. the export format, or the number called
+  note?: string             // Text of manual entries ("Met at lunch")
+  changes?: FieldChange[]   // Fields changed by an edit
+}
+
+// Who made a change
+export interface ChangeAuthor {
+  uid: string
+  name?: string   // Display name or email at the time
+}
+
+// A card as it was before an edit replaced it
+export interface CardVersion {
+  id: string
+  cardId: string
+  data: BusinessCardData        // Without images, which edits do not change
+  replacedAt: string            // ISO timestamp of the edit that replaced this version
+  replacedBy?: ChangeAuthor     // Who made that edit
+}
+
+// A deleted card, kept in the trash until it is restored or expires
+export interface TrashedCard {
+  card: BusinessCardData
+  deletedAt: string             // ISO timestamp
+  deletedBy?: ChangeAuthor
+  tasks?: FollowUpTask[]        // Follow-ups of the card, restored with it
+}
+
+// Personal access token for the REST API (/api/cards). Only a hash of the token is stored; the
+// token itself is shown once, when it is created.
+export interface AccessToken {
+  id: string                    // SHA-256 of the token (hex)
+  name: string                  // What the token is for ("CRM export script")
+  prefix: string                // Start of the token, to recognize it in the list
+  createdAt: string             // ISO timestamp
+  lastUsedAt?: string           // ISO timestamp of the last API request made with it (to within minutes)
+}
+
+// Card changes a webhook can subscribe to; "ping" is only sent by the test button
+export type WebhookEventType = "card.created" | "card.updated" | "card.deleted" | "card.merged"
+
+// Endpoint of the user's automation that is told about card changes
+export interface Webhook {
+  id: string
+  url: string
+  secret: string                // Signs every payload (HMAC-SHA256, see the X-CardScan-Signature header)
+  events: WebhookEventType[]
+  active: boolean
+  description?: string
+  createdAt: string             // ISO timestamp
+}
+
+// One event sent (or being sent) to a webhook, newest first in its delivery log
+export interface WebhookDelivery {
+  id: string                    // Also the event ID in the payload, the same across retries
+  webhookId: string
+  event: WebhookEventType | "ping"
+  cardId?: string
+  state: "delivered" | "retrying" | "failed"
+  attempts: number
+  responseStatus?: number       // HTTP status of the last attempt, when the endpoint answered
+  error?: string                // Why the last attempt failed
+  durationMs?: number           // Time the last attempt took
+  nextAttemptAt?: string        // ISO timestamp of the next retry while retrying
+  createdAt: string             // ISO timestamp
+  updatedAt: string             // ISO timestamp
+}
+
+export type CardSortField = "date" | "name" | "company" | "favorite"
+export type SortDirection = "asc" | "desc"
+
+// Position after the last card of a page: its sort values plus its ID as a tie-breaker
+export interface CardPageCursor {
+  values: Array<string | boolean>
+  id: string
+}
+
+export interface CardPage {
+  cards: BusinessCardData[]
+  cursor: CardPageCursor | null  // Pass to the next request; null when there are no more cards
+  fromCache?: boolean            // Served from the IndexedDB mirror (offline or before the network answered)
+}
+
+export interface CardPageOptions {
+  sortBy: CardSortField
+  direction: SortDirection
+  pageSize?: number
+  cursor?: CardPageCursor | null
+}
+
 export interface User {
   uid: string
   email: string
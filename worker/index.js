@@ -0,0 +1,18 @@
+// Custom service worker code, bundled into the generated worker by next-pwa
+
+// Open the contact when a follow-up reminder is clicked
+self.addEventListener('notificationclick', (event) => {
+  const data = event.notification.data
+  if (data?.type !== 'FOLLOW_UP') return
+  event.notification.close()
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    if (windows.length > 0) {
+      await windows[0].focus()
+      windows[0].postMessage({ type: 'OPEN_CARD', cardId: data.cardId })
+    } else {
+      await self.clients.openWindow(`/?card=${encodeURIComponent(data.cardId)}`)
+    }
+  })())
+})